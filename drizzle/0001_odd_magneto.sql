@@ -0,0 +1,18 @@
+CREATE TABLE "submetric_lock_limit" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"limits" json,
+	"status" integer DEFAULT 0 NOT NULL,
+	"isAutoLocked" boolean DEFAULT false NOT NULL,
+	"isManuallyModified" boolean DEFAULT false NOT NULL,
+	"excludedTimestamps" json,
+	"outlierTimestamps" json,
+	"lockedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_lock_limit_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_lock_limit" ADD CONSTRAINT "submetric_lock_limit_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_lock_limit" ADD CONSTRAINT "submetric_lock_limit_lockedBy_user_id_fk" FOREIGN KEY ("lockedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_lock_limit_submetric_id_idx" ON "submetric_lock_limit" USING btree ("submetricId");
\ No newline at end of file
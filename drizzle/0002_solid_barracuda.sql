@@ -0,0 +1,31 @@
+CREATE TABLE "submetric_trend_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"action" text NOT NULL,
+	"gradient" double precision NOT NULL,
+	"intercept" double precision NOT NULL,
+	"isManuallyModified" boolean DEFAULT false NOT NULL,
+	"changedBy" text,
+	"createdAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "submetric_trend" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"isActive" boolean DEFAULT false NOT NULL,
+	"gradient" double precision NOT NULL,
+	"intercept" double precision NOT NULL,
+	"isManuallyModified" boolean DEFAULT false NOT NULL,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_trend_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_trend_history" ADD CONSTRAINT "submetric_trend_history_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_trend_history" ADD CONSTRAINT "submetric_trend_history_changedBy_user_id_fk" FOREIGN KEY ("changedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_trend" ADD CONSTRAINT "submetric_trend_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_trend" ADD CONSTRAINT "submetric_trend_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_trend_history_submetric_id_idx" ON "submetric_trend_history" USING btree ("submetricId");--> statement-breakpoint
+CREATE INDEX "submetric_trend_history_created_at_idx" ON "submetric_trend_history" USING btree ("createdAt");--> statement-breakpoint
+CREATE INDEX "submetric_trend_submetric_id_idx" ON "submetric_trend" USING btree ("submetricId");
\ No newline at end of file
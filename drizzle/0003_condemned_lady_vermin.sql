@@ -0,0 +1,20 @@
+CREATE TABLE "submetric_seasonality" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"isActive" boolean DEFAULT false NOT NULL,
+	"period" text DEFAULT 'year' NOT NULL,
+	"grouping" text DEFAULT 'none' NOT NULL,
+	"factors" json NOT NULL,
+	"isManuallyModified" boolean DEFAULT false NOT NULL,
+	"dataStartTimestamp" text,
+	"dataEndTimestamp" text,
+	"dataPointCount" integer DEFAULT 0 NOT NULL,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_seasonality_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_seasonality" ADD CONSTRAINT "submetric_seasonality_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_seasonality" ADD CONSTRAINT "submetric_seasonality_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_seasonality_submetric_id_idx" ON "submetric_seasonality" USING btree ("submetricId");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "submetric_divider" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"dividers" json NOT NULL,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_divider_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_divider" ADD CONSTRAINT "submetric_divider_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_divider" ADD CONSTRAINT "submetric_divider_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_divider_submetric_id_idx" ON "submetric_divider" USING btree ("submetricId");
\ No newline at end of file
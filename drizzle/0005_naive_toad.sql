@@ -0,0 +1,17 @@
+CREATE TABLE "api_key" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"keyPrefix" text NOT NULL,
+	"keyHash" text NOT NULL,
+	"workspaceIds" json NOT NULL,
+	"permission" text DEFAULT 'write' NOT NULL,
+	"expiresAt" timestamp,
+	"lastUsedAt" timestamp,
+	"revokedAt" timestamp,
+	"createdBy" text,
+	"createdAt" timestamp NOT NULL,
+	CONSTRAINT "api_key_keyHash_unique" UNIQUE("keyHash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_key_key_prefix_idx" ON "api_key" USING btree ("keyPrefix");
\ No newline at end of file
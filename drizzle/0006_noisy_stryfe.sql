@@ -0,0 +1,14 @@
+CREATE TABLE "workspace_member" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspaceId" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	"invitedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workspace_member" ADD CONSTRAINT "workspace_member_workspaceId_workspace_id_fk" FOREIGN KEY ("workspaceId") REFERENCES "public"."workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_member" ADD CONSTRAINT "workspace_member_invitedBy_user_id_fk" FOREIGN KEY ("invitedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "workspace_member_workspace_email_idx" ON "workspace_member" USING btree ("workspaceId","email");--> statement-breakpoint
+CREATE INDEX "workspace_member_email_idx" ON "workspace_member" USING btree ("email");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "submetric" ADD COLUMN "sortOrder" integer DEFAULT 0;--> statement-breakpoint
+CREATE INDEX "submetric_sort_order_idx" ON "submetric" USING btree ("sortOrder");
\ No newline at end of file
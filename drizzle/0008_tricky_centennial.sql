@@ -0,0 +1,73 @@
+CREATE TABLE "submetric_data_point" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"timestamp" timestamp NOT NULL,
+	"rawTimestamp" text NOT NULL,
+	"value" double precision NOT NULL,
+	"confidence" double precision,
+	"source" text,
+	"dimensions" json,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_data_point" ADD CONSTRAINT "submetric_data_point_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "submetric_data_point_submetric_timestamp_idx" ON "submetric_data_point" USING btree ("submetricId","timestamp");--> statement-breakpoint
+CREATE INDEX "submetric_data_point_timestamp_idx" ON "submetric_data_point" USING btree ("timestamp");--> statement-breakpoint
+-- Copy the JSON data points into the new table before the column is dropped.
+-- Timestamps are parsed like parseTimestamp() in src/lib/data-points.ts and numbers
+-- may be stored as numeric strings ("12.5"); points the charts could not plot are
+-- skipped and a repeated timestamp keeps its last value.
+CREATE FUNCTION pg_temp.parse_data_point_timestamp(raw text) RETURNS timestamp AS $$
+BEGIN
+	RETURN CASE
+		WHEN raw ~ '^\d{6}$' THEN to_date(raw, 'YYYYMM')::timestamp
+		WHEN raw ~ '^\d{8}$' THEN to_date(raw, 'YYYYMMDD')::timestamp
+		WHEN raw ~ '^\d{4}-\d{2}-\d{2}$' THEN raw::date::timestamp
+		ELSE raw::timestamptz AT TIME ZONE 'UTC'
+	END;
+EXCEPTION WHEN others THEN
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE FUNCTION pg_temp.parse_data_point_number(value json) RETURNS double precision AS $$
+BEGIN
+	RETURN CASE
+		WHEN json_typeof(value) = 'number' THEN (value #>> '{}')::double precision
+		WHEN json_typeof(value) = 'string' AND value #>> '{}' ~ '^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$'
+			THEN trim(value #>> '{}')::double precision
+	END;
+EXCEPTION WHEN others THEN
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+INSERT INTO "submetric_data_point" ("id", "submetricId", "timestamp", "rawTimestamp", "value", "confidence", "source", "dimensions", "createdAt", "updatedAt")
+SELECT DISTINCT ON (point."submetricId", point."timestamp")
+	gen_random_uuid()::text,
+	point."submetricId",
+	point."timestamp",
+	point."rawTimestamp",
+	point."value",
+	point."confidence",
+	point."source",
+	point."dimensions",
+	now(),
+	now()
+FROM (
+	SELECT
+		s."id" AS "submetricId",
+		e.ordinality,
+		e.value->>'timestamp' AS "rawTimestamp",
+		pg_temp.parse_data_point_timestamp(e.value->>'timestamp') AS "timestamp",
+		pg_temp.parse_data_point_number(e.value->'value') AS "value",
+		pg_temp.parse_data_point_number(e.value->'confidence') AS "confidence",
+		CASE WHEN json_typeof(e.value->'source') = 'string' THEN e.value->>'source' END AS "source",
+		CASE WHEN json_typeof(e.value->'dimensions') = 'object' THEN e.value->'dimensions' END AS "dimensions"
+	FROM "submetric" s
+	CROSS JOIN LATERAL json_array_elements(
+		CASE WHEN json_typeof(s."dataPoints") = 'array' THEN s."dataPoints" ELSE '[]'::json END
+	) WITH ORDINALITY AS e(value, ordinality)
+) AS point
+WHERE point."timestamp" IS NOT NULL AND point."value" IS NOT NULL
+ORDER BY point."submetricId", point."timestamp", point.ordinality DESC;--> statement-breakpoint
+ALTER TABLE "submetric" DROP COLUMN "dataPoints";
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "submetric_data_point_revision" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"timestamp" timestamp NOT NULL,
+	"rawTimestamp" text NOT NULL,
+	"action" text NOT NULL,
+	"value" double precision,
+	"previousValue" double precision,
+	"source" text,
+	"changedBy" text,
+	"apiKeyId" text,
+	"apiKeyName" text,
+	"createdAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_data_point" ADD COLUMN "originalValue" double precision;--> statement-breakpoint
+ALTER TABLE "submetric_data_point_revision" ADD CONSTRAINT "submetric_data_point_revision_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_data_point_revision" ADD CONSTRAINT "submetric_data_point_revision_changedBy_user_id_fk" FOREIGN KEY ("changedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_data_point_revision" ADD CONSTRAINT "submetric_data_point_revision_apiKeyId_api_key_id_fk" FOREIGN KEY ("apiKeyId") REFERENCES "public"."api_key"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_data_point_revision_submetric_timestamp_idx" ON "submetric_data_point_revision" USING btree ("submetricId","timestamp");--> statement-breakpoint
+CREATE INDEX "submetric_data_point_revision_created_at_idx" ON "submetric_data_point_revision" USING btree ("createdAt");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "ingest_job" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspaceId" text,
+	"slideId" text,
+	"apiKeyId" text,
+	"apiKeyName" text NOT NULL,
+	"idempotencyKey" text,
+	"requestHash" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"mode" text,
+	"dryRun" boolean DEFAULT false NOT NULL,
+	"payloadBytes" integer NOT NULL,
+	"counts" json,
+	"httpStatus" integer,
+	"response" json,
+	"error" text,
+	"durationMs" integer,
+	"clientIp" text,
+	"createdAt" timestamp NOT NULL,
+	"completedAt" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ingest_job" ADD CONSTRAINT "ingest_job_workspaceId_workspace_id_fk" FOREIGN KEY ("workspaceId") REFERENCES "public"."workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingest_job" ADD CONSTRAINT "ingest_job_slideId_slide_id_fk" FOREIGN KEY ("slideId") REFERENCES "public"."slide"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingest_job" ADD CONSTRAINT "ingest_job_apiKeyId_api_key_id_fk" FOREIGN KEY ("apiKeyId") REFERENCES "public"."api_key"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ingest_job_workspace_created_at_idx" ON "ingest_job" USING btree ("workspaceId","createdAt");--> statement-breakpoint
+CREATE INDEX "ingest_job_idempotency_key_idx" ON "ingest_job" USING btree ("idempotencyKey");
\ No newline at end of file
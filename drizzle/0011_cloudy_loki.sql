@@ -0,0 +1,42 @@
+CREATE TABLE "connector_run" (
+	"id" text PRIMARY KEY NOT NULL,
+	"connectorId" text NOT NULL,
+	"trigger" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"rowCount" integer,
+	"counts" json,
+	"error" text,
+	"durationMs" integer,
+	"triggeredBy" text,
+	"createdAt" timestamp NOT NULL,
+	"completedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "connector" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workspaceId" text NOT NULL,
+	"slideId" text,
+	"name" text NOT NULL,
+	"kind" text NOT NULL,
+	"config" json NOT NULL,
+	"secret" text NOT NULL,
+	"mapping" json NOT NULL,
+	"dataPointsMode" text DEFAULT 'replace' NOT NULL,
+	"schedule" text NOT NULL,
+	"isEnabled" boolean DEFAULT true NOT NULL,
+	"nextRunAt" timestamp,
+	"lastRunAt" timestamp,
+	"lastRunStatus" text,
+	"createdBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "connector_run" ADD CONSTRAINT "connector_run_connectorId_connector_id_fk" FOREIGN KEY ("connectorId") REFERENCES "public"."connector"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "connector_run" ADD CONSTRAINT "connector_run_triggeredBy_user_id_fk" FOREIGN KEY ("triggeredBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "connector" ADD CONSTRAINT "connector_workspaceId_workspace_id_fk" FOREIGN KEY ("workspaceId") REFERENCES "public"."workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "connector" ADD CONSTRAINT "connector_slideId_slide_id_fk" FOREIGN KEY ("slideId") REFERENCES "public"."slide"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "connector" ADD CONSTRAINT "connector_createdBy_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "connector_run_connector_created_at_idx" ON "connector_run" USING btree ("connectorId","createdAt");--> statement-breakpoint
+CREATE INDEX "connector_workspace_id_idx" ON "connector" USING btree ("workspaceId");--> statement-breakpoint
+CREATE INDEX "connector_next_run_at_idx" ON "connector" USING btree ("nextRunAt");
\ No newline at end of file
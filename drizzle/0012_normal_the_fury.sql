@@ -0,0 +1,14 @@
+CREATE TABLE "submetric_rule_set" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"preset" text NOT NULL,
+	"params" json NOT NULL,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_rule_set_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_rule_set" ADD CONSTRAINT "submetric_rule_set_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_rule_set" ADD CONSTRAINT "submetric_rule_set_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_rule_set_submetric_id_idx" ON "submetric_rule_set" USING btree ("submetricId");
\ No newline at end of file
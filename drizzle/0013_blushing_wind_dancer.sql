@@ -0,0 +1,15 @@
+CREATE TABLE "submetric_spec_limit" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"usl" double precision,
+	"lsl" double precision,
+	"target" double precision,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_spec_limit_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_spec_limit" ADD CONSTRAINT "submetric_spec_limit_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_spec_limit" ADD CONSTRAINT "submetric_spec_limit_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_spec_limit_submetric_id_idx" ON "submetric_spec_limit" USING btree ("submetricId");
\ No newline at end of file
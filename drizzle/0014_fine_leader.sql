@@ -0,0 +1,3 @@
+ALTER TABLE "submetric_data_point" ADD COLUMN "numerator" double precision;--> statement-breakpoint
+ALTER TABLE "submetric_data_point" ADD COLUMN "denominator" double precision;--> statement-breakpoint
+ALTER TABLE "submetric" ADD COLUMN "controlChart" text DEFAULT 'xmr' NOT NULL;
\ No newline at end of file
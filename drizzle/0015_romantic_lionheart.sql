@@ -0,0 +1,16 @@
+CREATE TABLE "submetric_shift_chart" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submetricId" text NOT NULL,
+	"view" text DEFAULT 'xmr' NOT NULL,
+	"lambda" double precision NOT NULL,
+	"k" double precision NOT NULL,
+	"h" double precision NOT NULL,
+	"updatedBy" text,
+	"createdAt" timestamp NOT NULL,
+	"updatedAt" timestamp NOT NULL,
+	CONSTRAINT "submetric_shift_chart_submetricId_unique" UNIQUE("submetricId")
+);
+--> statement-breakpoint
+ALTER TABLE "submetric_shift_chart" ADD CONSTRAINT "submetric_shift_chart_submetricId_submetric_id_fk" FOREIGN KEY ("submetricId") REFERENCES "public"."submetric"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submetric_shift_chart" ADD CONSTRAINT "submetric_shift_chart_updatedBy_user_id_fk" FOREIGN KEY ("updatedBy") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submetric_shift_chart_submetric_id_idx" ON "submetric_shift_chart" USING btree ("submetricId");
\ No newline at end of file
@@ -0,0 +1,15 @@
+DROP INDEX "ingest_job_idempotency_key_idx";--> statement-breakpoint
+-- Keys repeated before they were unique stay on each caller's latest job only
+UPDATE "ingest_job" SET "idempotencyKey" = NULL
+WHERE "id" IN (
+	SELECT "id" FROM (
+		SELECT "id", row_number() OVER (
+			PARTITION BY coalesce("apiKeyId", "apiKeyName"), "idempotencyKey"
+			ORDER BY "createdAt" DESC
+		) AS "position"
+		FROM "ingest_job"
+		WHERE "idempotencyKey" IS NOT NULL AND "status" <> 'failed' AND NOT "dryRun"
+	) AS "ranked"
+	WHERE "position" > 1
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "ingest_job_idempotency_key_idx" ON "ingest_job" USING btree (coalesce("apiKeyId", "apiKeyName"),"idempotencyKey") WHERE "ingest_job"."idempotencyKey" is not null and "ingest_job"."status" <> 'failed' and not "ingest_job"."dryRun";
\ No newline at end of file
@@ -26,6 +26,47 @@ async function resetDatabase() {
     await sql`DROP TABLE IF EXISTS "session" CASCADE`;
     console.log("  ✓ Dropped session");
 
+    await sql`DROP TABLE IF EXISTS "connector_run" CASCADE`;
+    console.log("  ✓ Dropped connector_run");
+
+    await sql`DROP TABLE IF EXISTS "connector" CASCADE`;
+    console.log("  ✓ Dropped connector");
+
+    await sql`DROP TABLE IF EXISTS "ingest_job" CASCADE`;
+    console.log("  ✓ Dropped ingest_job");
+
+    await sql`DROP TABLE IF EXISTS "api_key" CASCADE`;
+    console.log("  ✓ Dropped api_key");
+
+    await sql`DROP TABLE IF EXISTS "submetric_shift_chart" CASCADE`;
+    console.log("  ✓ Dropped submetric_shift_chart");
+    await sql`DROP TABLE IF EXISTS "submetric_spec_limit" CASCADE`;
+    console.log("  ✓ Dropped submetric_spec_limit");
+
+    await sql`DROP TABLE IF EXISTS "submetric_rule_set" CASCADE`;
+    console.log("  ✓ Dropped submetric_rule_set");
+
+    await sql`DROP TABLE IF EXISTS "submetric_divider" CASCADE`;
+    console.log("  ✓ Dropped submetric_divider");
+
+    await sql`DROP TABLE IF EXISTS "submetric_seasonality" CASCADE`;
+    console.log("  ✓ Dropped submetric_seasonality");
+
+    await sql`DROP TABLE IF EXISTS "submetric_trend_history" CASCADE`;
+    console.log("  ✓ Dropped submetric_trend_history");
+
+    await sql`DROP TABLE IF EXISTS "submetric_trend" CASCADE`;
+    console.log("  ✓ Dropped submetric_trend");
+
+    await sql`DROP TABLE IF EXISTS "submetric_lock_limit" CASCADE`;
+    console.log("  ✓ Dropped submetric_lock_limit");
+
+    await sql`DROP TABLE IF EXISTS "submetric_data_point_revision" CASCADE`;
+    console.log("  ✓ Dropped submetric_data_point_revision");
+
+    await sql`DROP TABLE IF EXISTS "submetric_data_point" CASCADE`;
+    console.log("  ✓ Dropped submetric_data_point");
+
     await sql`DROP TABLE IF EXISTS "submetric" CASCADE`;
     console.log("  ✓ Dropped submetric");
 
@@ -35,6 +76,9 @@ async function resetDatabase() {
     await sql`DROP TABLE IF EXISTS "slide" CASCADE`;
     console.log("  ✓ Dropped slide");
 
+    await sql`DROP TABLE IF EXISTS "workspace_member" CASCADE`;
+    console.log("  ✓ Dropped workspace_member");
+
     await sql`DROP TABLE IF EXISTS "workspace" CASCADE`;
     console.log("  ✓ Dropped workspace");
 
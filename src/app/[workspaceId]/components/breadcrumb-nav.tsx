@@ -53,6 +53,22 @@ export function BreadcrumbNav({ workspace, slides }: BreadcrumbNavProps) {
     }
   }
 
+  if (pathSegments[1] === "settings") {
+    breadcrumbItems.push({
+      label: "Settings",
+      href: `/${workspace.id}/settings`,
+      isClickable: true,
+    });
+
+    if (pathSegments[2] === "ingest-jobs") {
+      breadcrumbItems.push({
+        label: "Ingest Jobs",
+        href: `/${workspace.id}/settings/ingest-jobs`,
+        isClickable: true,
+      });
+    }
+  }
+
   return (
     <Breadcrumb>
       <BreadcrumbList>
@@ -45,11 +45,6 @@ export function DashboardLayout({
     console.log("Creating new slide");
   }, []);
 
-  const handleCreateMetric = React.useCallback((slideId: string) => {
-    // TODO: Implement metric creation
-    console.log("Creating new metric for slide:", slideId);
-  }, []);
-
   return (
     <SidebarProvider>
       <div className="flex h-screen w-full">
@@ -60,7 +55,6 @@ export function DashboardLayout({
           onWorkspaceChange={handleWorkspaceChange}
           onCreateWorkspace={handleCreateWorkspace}
           onCreateSlide={handleCreateSlide}
-          onCreateMetric={handleCreateMetric}
         />
         <div className="flex-1 flex flex-col overflow-hidden">
           <header className="flex h-16 items-center gap-4 border-b bg-background px-6">
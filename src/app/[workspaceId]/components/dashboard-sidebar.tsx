@@ -28,7 +28,6 @@ interface DashboardSidebarProps {
   onWorkspaceChange: (workspace: Workspace) => void;
   onCreateWorkspace: () => void;
   onCreateSlide: () => void;
-  onCreateMetric: (slideId: string) => void;
 }
 
 export function DashboardSidebar({
@@ -38,7 +37,6 @@ export function DashboardSidebar({
   onWorkspaceChange,
   onCreateWorkspace,
   onCreateSlide,
-  onCreateMetric,
 }: DashboardSidebarProps) {
   const pathname = usePathname();
 
@@ -132,15 +130,6 @@ export function DashboardSidebar({
                         </SidebarMenuSubButton>
                       </SidebarMenuSubItem>
                     ))}
-                    <SidebarMenuSubItem>
-                      <SidebarMenuSubButton
-                        onClick={() => onCreateMetric(slide.id)}
-                        className="text-muted-foreground hover:text-foreground"
-                      >
-                        <Plus className="h-3 w-3" />
-                        <span>Add Metric</span>
-                      </SidebarMenuSubButton>
-                    </SidebarMenuSubItem>
                   </SidebarMenuSub>
                 )} */}
               </SidebarMenuItem>
@@ -149,6 +138,19 @@ export function DashboardSidebar({
         </ScrollArea>
       </SidebarContent>
       <SidebarFooter className="p-4">
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              asChild
+              isActive={pathname.startsWith(`/${currentWorkspace.id}/settings`)}
+            >
+              <Link href={`/${currentWorkspace.id}/settings`}>
+                <Settings className="h-4 w-4" />
+                <span>Settings</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
         <div className="flex items-center gap-1 text-xs text-muted-foreground">
           <span>© 2026 by</span>
           <a
@@ -0,0 +1,173 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  RULE_PARAM_DEFINITIONS,
+  RULE_PARAMS,
+  RULE_SET_PRESET_DEFINITIONS,
+  RULE_SET_PRESETS,
+  type RuleSetPreset,
+  describeRule,
+  getPresetParams,
+  resolveRuleSet,
+} from "@/lib/rule-sets";
+import type { DetectionRuleParams } from "@/lib/xmr-calculations";
+import type { RuleSetConfig } from "@/types/db/workspace";
+
+// Parameters are kept as typed so a field can be cleared while editing
+export interface RuleSetForm {
+  preset: RuleSetPreset;
+  params: Record<keyof DetectionRuleParams, string>;
+}
+
+function toParamStrings(params: DetectionRuleParams): RuleSetForm["params"] {
+  return Object.fromEntries(
+    Object.entries(params).map(([param, value]) => [param, String(value)])
+  ) as RuleSetForm["params"];
+}
+
+export function toRuleSetForm(
+  config: RuleSetConfig | null | undefined
+): RuleSetForm {
+  const { preset, params } = resolveRuleSet(config);
+  return { preset, params: toParamStrings(params) };
+}
+
+// Blank or invalid fields are sent as typed, so the API reports them
+export function fromRuleSetForm(form: RuleSetForm): RuleSetConfig {
+  return {
+    preset: form.preset,
+    params: Object.fromEntries(
+      Object.entries(form.params).map(([param, value]) => [
+        param,
+        Number(value),
+      ])
+    ),
+  };
+}
+
+interface RuleSetFieldsProps {
+  id: string;
+  value: RuleSetForm;
+  onChange: (value: RuleSetForm) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Preset picker and the parameters of its rules, shared by the workspace
+ * default and the submetric override
+ */
+export function RuleSetFields({
+  id,
+  value,
+  onChange,
+  disabled,
+}: RuleSetFieldsProps) {
+  const definition = RULE_SET_PRESET_DEFINITIONS[value.preset];
+  const defaults = getPresetParams(value.preset);
+
+  // Titles follow the typed values, falling back to the defaults while blank
+  const ruleSet = {
+    rules: definition.rules,
+    params: Object.fromEntries(
+      Object.entries(defaults).map(([param, fallback]) => [
+        param,
+        Number(value.params[param as keyof DetectionRuleParams]) || fallback,
+      ])
+    ) as unknown as DetectionRuleParams,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label htmlFor={`${id}-preset`} className="text-sm font-medium">
+          Rule set
+        </label>
+        <Select
+          value={value.preset}
+          onValueChange={(preset) =>
+            onChange({
+              preset: preset as RuleSetPreset,
+              params: toParamStrings(getPresetParams(preset as RuleSetPreset)),
+            })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${id}-preset`} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_SET_PRESETS.map((preset) => (
+              <SelectItem key={preset} value={preset}>
+                {RULE_SET_PRESET_DEFINITIONS[preset].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {definition.description}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {definition.rules.map((rule) => {
+          const { title, description } = describeRule(ruleSet, rule);
+
+          return (
+            <div
+              key={rule}
+              className="flex items-center justify-between gap-4 rounded-md border px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{title}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                {RULE_PARAMS[rule].map((param) => {
+                  const { label, min, max } = RULE_PARAM_DEFINITIONS[param];
+
+                  return (
+                    <div key={param} className="flex items-center gap-1.5">
+                      <label
+                        htmlFor={`${id}-${param}`}
+                        className="text-xs text-muted-foreground"
+                      >
+                        {label}
+                      </label>
+                      <Input
+                        id={`${id}-${param}`}
+                        type="number"
+                        min={min}
+                        max={max}
+                        step={1}
+                        className="h-8 w-16"
+                        value={value.params[param]}
+                        onChange={(e) =>
+                          onChange({
+                            ...value,
+                            params: {
+                              ...value.params,
+                              [param]: e.target.value,
+                            },
+                          })
+                        }
+                        disabled={disabled}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
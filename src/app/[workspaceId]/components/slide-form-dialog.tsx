@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { CreateSlideInput } from "@/lib/api";
+import type { Slide } from "@/types/db/slide";
+
+interface SlideFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slide: Slide | null; // null creates a new slide
+  onSubmit: (data: CreateSlideInput) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function SlideFormDialog({
+  open,
+  onOpenChange,
+  slide,
+  onSubmit,
+  isSaving = false,
+}: SlideFormDialogProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [slideDate, setSlideDate] = useState("");
+  const [sortOrder, setSortOrder] = useState("");
+  const [isPublished, setIsPublished] = useState(false);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setTitle(slide?.title ?? "");
+    setDescription(slide?.description ?? "");
+    setSlideDate(slide?.slideDate ?? "");
+    setSortOrder(slide?.sortOrder != null ? String(slide.sortOrder) : "");
+    setIsPublished(slide?.isPublished ?? false);
+  }, [open, slide]);
+
+  const isSortOrderValid =
+    sortOrder.trim() === "" || Number.isInteger(Number(sortOrder));
+  const canSubmit = title.trim().length > 0 && isSortOrderValid && !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    await onSubmit({
+      title: title.trim(),
+      description: description.trim() || null,
+      slideDate: slideDate || null,
+      // Leaving the position empty appends a new slide to the end
+      ...(sortOrder.trim() !== "" && { sortOrder: Number(sortOrder) }),
+      isPublished,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>{slide ? "Edit Slide" : "New Slide"}</DialogTitle>
+            <DialogDescription>
+              {slide
+                ? "Update the slide details."
+                : "Create a slide to group related metrics."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="slide-title" className="text-sm font-medium">
+                Title
+              </label>
+              <Input
+                id="slide-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Weekly Business Review"
+                maxLength={200}
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label
+                htmlFor="slide-description"
+                className="text-sm font-medium"
+              >
+                Description
+              </label>
+              <Input
+                id="slide-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="slide-date" className="text-sm font-medium">
+                  Slide date
+                </label>
+                <Input
+                  id="slide-date"
+                  type="date"
+                  value={slideDate}
+                  onChange={(e) => setSlideDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label
+                  htmlFor="slide-sort-order"
+                  className="text-sm font-medium"
+                >
+                  Position
+                </label>
+                <Input
+                  id="slide-sort-order"
+                  type="number"
+                  step="1"
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value)}
+                  placeholder={slide ? "" : "Last"}
+                  className={isSortOrderValid ? "" : "border-red-500"}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="slide-published"
+                checked={isPublished}
+                onCheckedChange={setIsPublished}
+              />
+              <label htmlFor="slide-published" className="text-sm">
+                Published
+              </label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? "Saving..." : slide ? "Save" : "Create Slide"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,9 @@ import {
   Edit,
   FolderOpen,
   MoreVertical,
+  Plus,
   Trash2,
+  Upload,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -32,8 +34,10 @@ interface SlideTableProps {
   currentWorkspace: Workspace;
   slides: SlideWithMetrics[];
   onCreateSlide: () => void;
+  onUploadData?: () => void;
   onEditSlide: (slide: SlideWithMetrics) => void;
   onDeleteSlide: (slideId: string) => void;
+  canEdit?: boolean; // Editors and owners can create, edit and delete slides
   isLoading?: boolean;
 }
 
@@ -41,8 +45,10 @@ export function SlideTable({
   currentWorkspace,
   slides,
   onCreateSlide,
+  onUploadData,
   onEditSlide,
   onDeleteSlide,
+  canEdit = false,
   isLoading = false,
 }: SlideTableProps) {
   const handleRowClick = (slideId: string) => {
@@ -114,10 +120,24 @@ export function SlideTable({
             </p>
           )}
         </div>
-        {/* <Button onClick={onCreateSlide} className="flex items-center gap-2">
-          <Plus className="h-4 w-4" />
-          New Slide
-        </Button> */}
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {onUploadData && (
+              <Button
+                variant="outline"
+                onClick={onUploadData}
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Upload Data
+              </Button>
+            )}
+            <Button onClick={onCreateSlide} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New Slide
+            </Button>
+          </div>
+        )}
       </div>
 
       {slides.length === 0 ? (
@@ -130,10 +150,15 @@ export function SlideTable({
             <p className="text-sm text-muted-foreground text-center mb-4">
               Create your first slide to start building your metrics dashboard.
             </p>
-            {/* <Button onClick={onCreateSlide} className="flex items-center gap-2">
-              <Plus className="h-4 w-4" />
-              Create First Slide
-            </Button> */}
+            {canEdit && (
+              <Button
+                onClick={onCreateSlide}
+                className="flex items-center gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Create First Slide
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -220,7 +245,7 @@ export function SlideTable({
                               e.stopPropagation();
                               onEditSlide(slide);
                             }}
-                            disabled
+                            disabled={!canEdit}
                           >
                             <Edit className="mr-2 h-4 w-4" />
                             Edit
@@ -232,7 +257,7 @@ export function SlideTable({
                               onDeleteSlide(slide.id);
                             }}
                             className="text-destructive focus:text-destructive"
-                            disabled
+                            disabled={!canEdit}
                           >
                             <Trash2 className="mr-2 h-4 w-4 text-destructive" />
                             Delete
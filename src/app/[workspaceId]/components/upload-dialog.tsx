@@ -0,0 +1,511 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  type UploadColumns,
+  type UploadResult,
+  useIngestUpload,
+  useUploadColumns,
+} from "@/lib/api";
+import type { DataPointsMode } from "@/lib/ingest";
+import {
+  type ColumnMapping,
+  UPLOAD_FIELDS,
+  UPLOAD_FILE_TYPES,
+  type UploadField,
+} from "@/lib/ingest-upload";
+import type { IngestChangeCounts } from "@/types/db/ingest-job";
+import type { Slide } from "@/types/db/slide";
+
+interface UploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  slides: Slide[];
+  onUploaded: (slideId: string) => void;
+}
+
+type UploadStep = "file" | "mapping" | "preview";
+
+// Select values can't be empty, so unmapped fields and a new slide use these
+const NOT_MAPPED = "__none__";
+const NEW_SLIDE = "__new__";
+
+// Header words that suggest which field a column holds
+const COLUMN_HINTS: Record<UploadField, string[]> = {
+  metric_name: ["metric", "name", "kpi"],
+  submetric_label: ["submetric", "label", "series"],
+  category: ["category", "segment", "group"],
+  timestamp: ["timestamp", "date", "period", "month", "time"],
+  value: ["value", "amount", "count"],
+  unit: ["unit"],
+  trend: ["trend"],
+};
+
+// Map each field to the first unused column whose header matches a hint
+function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const { field } of UPLOAD_FIELDS) {
+    const column = columns.find(
+      (candidate) =>
+        !used.has(candidate) &&
+        COLUMN_HINTS[field].some((hint) =>
+          candidate.toLowerCase().includes(hint)
+        )
+    );
+    if (column) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  }
+
+  return mapping;
+}
+
+function formatCounts(counts: IngestChangeCounts): string {
+  const parts = [
+    counts.created > 0 && `${counts.created} new`,
+    counts.updated > 0 && `${counts.updated} updated`,
+    counts.unchanged > 0 && `${counts.unchanged} unchanged`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+export function UploadDialog({
+  open,
+  onOpenChange,
+  workspaceId,
+  slides,
+  onUploaded,
+}: UploadDialogProps) {
+  const uploadColumns = useUploadColumns();
+  const ingestUpload = useIngestUpload();
+
+  const [step, setStep] = useState<UploadStep>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<UploadColumns | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [slideId, setSlideId] = useState(NEW_SLIDE);
+  const [slideTitle, setSlideTitle] = useState("");
+  const [slideDate, setSlideDate] = useState("");
+  const [dataPointsMode, setDataPointsMode] =
+    useState<DataPointsMode>("replace");
+  const [preview, setPreview] = useState<UploadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setStep("file");
+    setFile(null);
+    setColumns(null);
+    setMapping({});
+    setSlideId(NEW_SLIDE);
+    setSlideTitle("");
+    setSlideDate("");
+    setDataPointsMode("replace");
+    setPreview(null);
+    setError(null);
+  }, [open]);
+
+  const isNewSlide = slideId === NEW_SLIDE;
+  const missingFields = UPLOAD_FIELDS.filter(
+    ({ field, required }) => required && !mapping[field]
+  );
+  const canPreview =
+    missingFields.length === 0 &&
+    (!isNewSlide || slideTitle.trim().length > 0) &&
+    !ingestUpload.isPending;
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setError(null);
+    if (!selected) return;
+
+    try {
+      const result = await uploadColumns.mutateAsync({
+        workspaceId,
+        file: selected,
+      });
+      setColumns(result);
+      setMapping(guessMapping(result.columns));
+      setSlideTitle(selected.name.replace(/\.[^.]+$/, ""));
+      setStep("mapping");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  };
+
+  const runUpload = async (dryRun: boolean) => {
+    if (!file) return;
+    setError(null);
+
+    try {
+      const result = await ingestUpload.mutateAsync({
+        workspaceId,
+        data: {
+          file,
+          mapping,
+          slideId: isNewSlide ? null : slideId,
+          slideTitle: isNewSlide ? slideTitle.trim() : undefined,
+          slideDate: isNewSlide ? slideDate || null : undefined,
+          // Existing slides keep their metrics; matching series are updated
+          mode: isNewSlide ? "create" : "merge",
+          dataPointsMode,
+          dryRun,
+        },
+      });
+
+      if (dryRun) {
+        setPreview(result);
+        setStep("preview");
+      } else if (result.data.slide_id) {
+        onUploaded(result.data.slide_id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload file");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Upload Data</DialogTitle>
+          <DialogDescription>
+            {step === "file" &&
+              "Upload a CSV or Excel (.xlsx) file with one data point per row."}
+            {step === "mapping" &&
+              "Choose the column that holds each field and where to save the data."}
+            {step === "preview" &&
+              "Check what will be saved. Nothing has been saved yet."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-2">
+            <label htmlFor="upload-file" className="text-sm font-medium">
+              File
+            </label>
+            <Input
+              id="upload-file"
+              type="file"
+              accept={UPLOAD_FILE_TYPES.join(",")}
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              disabled={uploadColumns.isPending}
+            />
+            {uploadColumns.isPending && (
+              <p className="text-sm text-muted-foreground">Reading file...</p>
+            )}
+          </div>
+        )}
+
+        {step === "mapping" && columns && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {UPLOAD_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <label
+                    htmlFor={`upload-field-${field}`}
+                    className="text-sm font-medium"
+                  >
+                    {label}
+                    {!required && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        (optional)
+                      </span>
+                    )}
+                  </label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field]: value === NOT_MAPPED ? undefined : value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger
+                      id={`upload-field-${field}`}
+                      className="w-full"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {columns.columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                First rows of {file?.name}{" "}
+                <span className="text-muted-foreground font-normal">
+                  ({columns.rowCount} rows)
+                </span>
+              </p>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="hover:bg-transparent">
+                      {columns.columns.map((column) => (
+                        <TableHead key={column}>{column}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {columns.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        {row.cells.map((cell, index) => (
+                          <TableCell
+                            key={columns.columns[index]}
+                            className="max-w-40 truncate"
+                          >
+                            {cell}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="upload-slide" className="text-sm font-medium">
+                  Slide
+                </label>
+                <Select value={slideId} onValueChange={setSlideId}>
+                  <SelectTrigger id="upload-slide" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_SLIDE}>New slide</SelectItem>
+                    {slides.map((slide) => (
+                      <SelectItem key={slide.id} value={slide.id}>
+                        {slide.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isNewSlide ? (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="upload-slide-title"
+                    className="text-sm font-medium"
+                  >
+                    Slide title
+                  </label>
+                  <Input
+                    id="upload-slide-title"
+                    value={slideTitle}
+                    onChange={(e) => setSlideTitle(e.target.value)}
+                    maxLength={200}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="upload-data-points-mode"
+                    className="text-sm font-medium"
+                  >
+                    Existing data points
+                  </label>
+                  <Select
+                    value={dataPointsMode}
+                    onValueChange={(value) =>
+                      setDataPointsMode(value as DataPointsMode)
+                    }
+                  >
+                    <SelectTrigger
+                      id="upload-data-points-mode"
+                      className="w-full"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="replace">
+                        Replace with values from the file
+                      </SelectItem>
+                      <SelectItem value="append">
+                        Keep, only add new periods
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {isNewSlide && (
+                <div className="space-y-2">
+                  <label
+                    htmlFor="upload-slide-date"
+                    className="text-sm font-medium"
+                  >
+                    Slide date
+                  </label>
+                  <Input
+                    id="upload-slide-date"
+                    type="date"
+                    value={slideDate}
+                    onChange={(e) => setSlideDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="font-medium">Metrics</p>
+                <p className="text-muted-foreground">
+                  {formatCounts(preview.data.metrics)}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Submetrics</p>
+                <p className="text-muted-foreground">
+                  {formatCounts(preview.data.submetrics)}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">Data points</p>
+                <p className="text-muted-foreground">
+                  {formatCounts(preview.data.data_points)}
+                </p>
+              </div>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead>Metric</TableHead>
+                    <TableHead>Submetric</TableHead>
+                    <TableHead className="text-right">Points</TableHead>
+                    <TableHead>Range</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.series.map((series) => (
+                    <TableRow
+                      key={`${series.metric_name}\u0000${series.label}\u0000${
+                        series.category ?? ""
+                      }`}
+                    >
+                      <TableCell className="font-medium">
+                        {series.metric_name}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {series.label}
+                          {series.category && (
+                            <Badge variant="outline">{series.category}</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {series.points}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {series.first_timestamp === series.last_timestamp
+                          ? series.first_timestamp
+                          : `${series.first_timestamp} – ${series.last_timestamp}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          {step === "file" && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === "mapping" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setStep("file");
+                  setError(null);
+                }}
+              >
+                Back
+              </Button>
+              <Button onClick={() => runUpload(true)} disabled={!canPreview}>
+                {ingestUpload.isPending ? "Checking..." : "Preview"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setStep("mapping");
+                  setError(null);
+                }}
+                disabled={ingestUpload.isPending}
+              >
+                Back
+              </Button>
+              <Button
+                onClick={() => runUpload(false)}
+                disabled={ingestUpload.isPending}
+              >
+                {ingestUpload.isPending ? "Uploading..." : "Upload"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Check, ChevronsUpDown, Plus } from "lucide-react";
+import { Check, ChevronsUpDown, Lock, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -57,7 +57,12 @@ export function WorkspaceSelector({
             className="flex items-center justify-between px-3 py-3"
           >
             <div className="flex flex-col min-w-0 flex-1">
-              <span className="font-medium truncate">{workspace.name}</span>
+              <span className="font-medium truncate flex items-center gap-1.5">
+                {!workspace.isPublic && (
+                  <Lock className="h-3 w-3 shrink-0 text-muted-foreground" />
+                )}
+                {workspace.name}
+              </span>
               {workspace.description && (
                 <span className="text-xs text-muted-foreground truncate mt-1">
                   {workspace.description}
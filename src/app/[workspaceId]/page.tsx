@@ -2,8 +2,18 @@
 
 import { use } from "react";
 import { useRouter } from "next/navigation";
-import { useWorkspace, useDeleteSlide } from "@/lib/api";
+import {
+  useWorkspace,
+  useWorkspaces,
+  useCreateSlide,
+  useUpdateSlide,
+  useDeleteSlide,
+  type CreateSlideInput,
+} from "@/lib/api";
+import type { SlideWithMetrics } from "@/types/db/slide";
+import { SlideFormDialog } from "./components/slide-form-dialog";
 import { SlideTable } from "./components/slide-table";
+import { UploadDialog } from "./components/upload-dialog";
 import * as React from "react";
 
 interface WorkspacePageProps {
@@ -16,22 +26,47 @@ export default function WorkspacePage({ params }: WorkspacePageProps) {
   const { workspaceId } = use(params);
   const router = useRouter();
   const { workspace, loading } = useWorkspace(workspaceId);
+  const { workspaces } = useWorkspaces();
+  const createSlide = useCreateSlide();
+  const updateSlide = useUpdateSlide();
   const deleteSlide = useDeleteSlide();
 
+  // null while closed; slide is null when creating
+  const [slideDialog, setSlideDialog] = React.useState<{
+    slide: SlideWithMetrics | null;
+  } | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = React.useState(false);
+
+  const role = workspaces.find((item) => item.id === workspaceId)?.role ?? null;
+  const canEdit = role === "owner" || role === "editor";
+
   const handleCreateSlide = React.useCallback(() => {
-    // TODO: Implement slide creation
-    console.log("Creating new slide");
+    setSlideDialog({ slide: null });
   }, []);
 
-  const handleCreateMetric = React.useCallback((slideId: string) => {
-    // TODO: Implement metric creation
-    console.log("Creating new metric for slide:", slideId);
+  const handleEditSlide = React.useCallback((slide: SlideWithMetrics) => {
+    setSlideDialog({ slide });
   }, []);
 
-  const handleEditSlide = React.useCallback((slide: any) => {
-    // TODO: Implement slide editing
-    console.log("Editing slide:", slide.title);
-  }, []);
+  const handleSubmitSlide = React.useCallback(
+    async (data: CreateSlideInput) => {
+      try {
+        if (slideDialog?.slide) {
+          await updateSlide.mutateAsync({
+            slideId: slideDialog.slide.id,
+            data,
+          });
+        } else {
+          await createSlide.mutateAsync({ workspaceId, data });
+        }
+        setSlideDialog(null);
+      } catch (error) {
+        console.error("Error saving slide:", error);
+        alert("Failed to save slide. Please try again.");
+      }
+    },
+    [slideDialog, createSlide, updateSlide, workspaceId]
+  );
 
   const handleDeleteSlide = React.useCallback(
     async (slideId: string) => {
@@ -58,6 +93,14 @@ export default function WorkspacePage({ params }: WorkspacePageProps) {
     [deleteSlide]
   );
 
+  const handleUploaded = React.useCallback(
+    (slideId: string) => {
+      setIsUploadOpen(false);
+      router.push(`/${workspaceId}/slide/${slideId}`);
+    },
+    [router, workspaceId]
+  );
+
   const handleViewSlide = React.useCallback(
     (slideId: string) => {
       router.push(`/${workspaceId}/slide/${slideId}`);
@@ -83,19 +126,40 @@ export default function WorkspacePage({ params }: WorkspacePageProps) {
         onCreateSlide={handleCreateSlide}
         onEditSlide={handleEditSlide}
         onDeleteSlide={handleDeleteSlide}
+        canEdit={false}
         isLoading={true}
       />
     );
   }
 
   return (
-    <SlideTable
-      currentWorkspace={workspace}
-      slides={workspace.slides}
-      onCreateSlide={handleCreateSlide}
-      onEditSlide={handleEditSlide}
-      onDeleteSlide={handleDeleteSlide}
-      isLoading={false}
-    />
+    <>
+      <SlideTable
+        currentWorkspace={workspace}
+        slides={workspace.slides}
+        onCreateSlide={handleCreateSlide}
+        onUploadData={() => setIsUploadOpen(true)}
+        onEditSlide={handleEditSlide}
+        onDeleteSlide={handleDeleteSlide}
+        canEdit={canEdit}
+        isLoading={false}
+      />
+      <SlideFormDialog
+        open={slideDialog !== null}
+        onOpenChange={(open) => {
+          if (!open) setSlideDialog(null);
+        }}
+        slide={slideDialog?.slide ?? null}
+        onSubmit={handleSubmitSlide}
+        isSaving={createSlide.isPending || updateSlide.isPending}
+      />
+      <UploadDialog
+        open={isUploadOpen}
+        onOpenChange={setIsUploadOpen}
+        workspaceId={workspaceId}
+        slides={workspace.slides}
+        onUploaded={handleUploaded}
+      />
+    </>
   );
 }
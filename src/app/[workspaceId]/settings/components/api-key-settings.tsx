@@ -0,0 +1,382 @@
+"use client";
+
+import { Check, Copy, History, KeyRound, Plus } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useApiKeys, useCreateApiKey, useRevokeApiKey } from "@/lib/api";
+import type { ApiKey, ApiKeyPermission } from "@/types/db/api-key";
+import type { WorkspaceWithRole } from "@/types/db/workspace";
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+interface ApiKeySettingsProps {
+  workspaceId: string;
+  workspaces: WorkspaceWithRole[];
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return "—";
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function getKeyStatus(apiKey: ApiKey): "active" | "expired" | "revoked" {
+  if (apiKey.revokedAt) return "revoked";
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    return "expired";
+  }
+  return "active";
+}
+
+export function ApiKeySettings({
+  workspaceId,
+  workspaces,
+}: ApiKeySettingsProps) {
+  const { apiKeys, loading } = useApiKeys(workspaceId);
+  const createApiKey = useCreateApiKey();
+  const revokeApiKey = useRevokeApiKey();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [permission, setPermission] = useState<ApiKeyPermission>("write");
+  const [expiry, setExpiry] = useState("90");
+  const [extraWorkspaceIds, setExtraWorkspaceIds] = useState<string[]>([]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Keys can only be scoped to other workspaces the user owns
+  const otherWorkspaces = workspaces.filter(
+    (workspace) => workspace.id !== workspaceId && workspace.role === "owner"
+  );
+  const workspaceNames = new Map(
+    workspaces.map((workspace) => [workspace.id, workspace.name])
+  );
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName("");
+    setPermission("write");
+    setExpiry("90");
+    setExtraWorkspaceIds([]);
+  };
+
+  const toggleWorkspace = (id: string, checked: boolean) => {
+    setExtraWorkspaceIds((prev) =>
+      checked ? [...prev, id] : prev.filter((existing) => existing !== id)
+    );
+  };
+
+  const handleCreate = async () => {
+    try {
+      const created = await createApiKey.mutateAsync({
+        workspaceId,
+        data: {
+          name: name.trim(),
+          permission,
+          expiresInDays: expiry === "never" ? null : Number(expiry),
+          workspaceIds: extraWorkspaceIds,
+        },
+      });
+      setNewKey(created.key);
+      setCopied(false);
+      resetForm();
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      alert("Failed to create API key. Please try again.");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (
+      !confirm(
+        `Revoke "${apiKey.name}"? Anything using this key will immediately lose access. This action cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await revokeApiKey.mutateAsync({ workspaceId, keyId: apiKey.id });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      alert("Failed to revoke API key. Please try again.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Keys used to send metrics to the ingestion API. A key can only access
+          the workspaces it is scoped to.
+        </CardDescription>
+        <CardAction className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            asChild
+          >
+            <Link href={`/${workspaceId}/settings/ingest-jobs`}>
+              <History className="h-4 w-4" />
+              Ingest Jobs
+            </Link>
+          </Button>
+          {!isCreating && (
+            <Button
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => {
+                setIsCreating(true);
+                setNewKey(null);
+              }}
+            >
+              <Plus className="h-4 w-4" />
+              New API Key
+            </Button>
+          )}
+        </CardAction>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {newKey && (
+          <div className="rounded-md border border-green-500/50 bg-green-500/10 p-4 space-y-2">
+            <p className="text-sm font-medium">
+              Copy your new API key now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={newKey} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy}>
+                {copied ? (
+                  <Check className="h-4 w-4" />
+                ) : (
+                  <Copy className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isCreating && (
+          <div className="rounded-md border p-4 space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="api-key-name" className="text-sm font-medium">
+                  Name
+                </label>
+                <Input
+                  id="api-key-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Nightly warehouse sync"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <label
+                  htmlFor="api-key-permission"
+                  className="text-sm font-medium"
+                >
+                  Access
+                </label>
+                <Select
+                  value={permission}
+                  onValueChange={(value) =>
+                    setPermission(value as ApiKeyPermission)
+                  }
+                >
+                  <SelectTrigger id="api-key-permission" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="write">Read & write</SelectItem>
+                    <SelectItem value="read">Read only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="api-key-expiry" className="text-sm font-medium">
+                  Expires
+                </label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger id="api-key-expiry" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {otherWorkspaces.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Also grant access to</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {otherWorkspaces.map((workspace) => (
+                    <div
+                      key={workspace.id}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Switch
+                        id={`api-key-workspace-${workspace.id}`}
+                        checked={extraWorkspaceIds.includes(workspace.id)}
+                        onCheckedChange={(checked) =>
+                          toggleWorkspace(workspace.id, checked)
+                        }
+                      />
+                      <label
+                        htmlFor={`api-key-workspace-${workspace.id}`}
+                        className="truncate"
+                      >
+                        {workspace.name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={!name.trim() || createApiKey.isPending}
+              >
+                {createApiKey.isPending ? "Creating..." : "Create Key"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No API keys yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead>Workspaces</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.map((apiKey) => {
+                const status = getKeyStatus(apiKey);
+
+                return (
+                  <TableRow key={apiKey.id}>
+                    <TableCell className="font-medium">{apiKey.name}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {apiKey.keyPrefix}…
+                    </TableCell>
+                    <TableCell>
+                      {apiKey.permission === "write"
+                        ? "Read & write"
+                        : "Read only"}
+                    </TableCell>
+                    <TableCell className="max-w-48 truncate">
+                      {apiKey.workspaceIds
+                        .map((id) => workspaceNames.get(id) ?? id)
+                        .join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      {apiKey.expiresAt
+                        ? formatDate(apiKey.expiresAt)
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>{formatDate(apiKey.lastUsedAt)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          status === "active" ? "secondary" : "destructive"
+                        }
+                        className="capitalize"
+                      >
+                        {status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {status !== "revoked" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleRevoke(apiKey)}
+                          disabled={revokeApiKey.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
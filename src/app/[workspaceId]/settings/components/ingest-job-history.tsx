@@ -0,0 +1,194 @@
+"use client";
+
+import { History, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useIngestJobs } from "@/lib/api";
+import type {
+  IngestChangeCounts,
+  IngestJob,
+  IngestJobStatus,
+} from "@/types/db/ingest-job";
+
+interface IngestJobHistoryProps {
+  workspaceId: string;
+}
+
+const STATUS_VARIANTS: Record<
+  IngestJobStatus,
+  "secondary" | "destructive" | "outline"
+> = {
+  succeeded: "secondary",
+  failed: "destructive",
+  running: "outline",
+};
+
+function formatDateTime(date: Date | string): string {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatCounts(counts: IngestChangeCounts): string {
+  const parts = [
+    counts.created > 0 && `${counts.created} created`,
+    counts.updated > 0 && `${counts.updated} updated`,
+    counts.unchanged > 0 && `${counts.unchanged} unchanged`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+function JobChanges({ job }: { job: IngestJob }) {
+  if (!job.counts) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="space-y-0.5 text-xs">
+      <div>Metrics: {formatCounts(job.counts.metrics)}</div>
+      <div>Submetrics: {formatCounts(job.counts.submetrics)}</div>
+      <div>Data points: {formatCounts(job.counts.data_points)}</div>
+    </div>
+  );
+}
+
+export function IngestJobHistory({ workspaceId }: IngestJobHistoryProps) {
+  const { ingestJobs, loading, refetch } = useIngestJobs(workspaceId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Ingest Jobs
+        </CardTitle>
+        <CardDescription>
+          The latest 100 calls to the ingestion API for this workspace, with the
+          key that made them and what they changed. Failed requests saved
+          nothing.
+        </CardDescription>
+        <CardAction>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => refetch()}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </CardAction>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : ingestJobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No ingest jobs yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Started</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Slide</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ingestJobs.map((job) => (
+                <TableRow key={job.id} className="align-top">
+                  <TableCell className="whitespace-nowrap">
+                    {formatDateTime(job.createdAt)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{job.apiKeyName}</div>
+                    {job.idempotencyKey && (
+                      <div
+                        className="text-xs text-muted-foreground font-mono max-w-40 truncate"
+                        title={job.idempotencyKey}
+                      >
+                        {job.idempotencyKey}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-48 truncate">
+                    {job.slideTitle ?? "—"}
+                  </TableCell>
+                  <TableCell className="max-w-72 whitespace-normal">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge
+                        variant={STATUS_VARIANTS[job.status]}
+                        className="capitalize"
+                      >
+                        {job.status}
+                      </Badge>
+                      {job.dryRun && <Badge variant="outline">Dry run</Badge>}
+                      {job.mode && (
+                        <span className="text-xs text-muted-foreground capitalize">
+                          {job.mode}
+                        </span>
+                      )}
+                    </div>
+                    {job.error && (
+                      <p className="mt-1 text-xs text-destructive">
+                        {job.httpStatus ? `${job.httpStatus}: ` : ""}
+                        {job.error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <JobChanges job={job} />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {formatBytes(job.payloadBytes)}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {formatDuration(job.durationMs)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
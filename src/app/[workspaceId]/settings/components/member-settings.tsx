@@ -0,0 +1,281 @@
+"use client";
+
+import { Crown, UserPlus, Users } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useClaimWorkspace,
+  useInviteWorkspaceMember,
+  useRemoveWorkspaceMember,
+  useUpdateWorkspaceMember,
+  useWorkspaceMembers,
+} from "@/lib/api";
+import type { WorkspaceMember, WorkspaceRole } from "@/types/db/workspace";
+
+const ROLE_OPTIONS: Array<{ value: WorkspaceRole; label: string }> = [
+  { value: "owner", label: "Owner" },
+  { value: "editor", label: "Editor" },
+  { value: "viewer", label: "Viewer" },
+];
+
+interface MemberSettingsProps {
+  workspaceId: string;
+  role: WorkspaceRole | null;
+}
+
+export function MemberSettings({ workspaceId, role }: MemberSettingsProps) {
+  const { members, canClaim, loading } = useWorkspaceMembers(workspaceId);
+  const inviteMember = useInviteWorkspaceMember();
+  const updateMember = useUpdateWorkspaceMember();
+  const removeMember = useRemoveWorkspaceMember();
+  const claimWorkspace = useClaimWorkspace();
+
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("viewer");
+
+  const isOwner = role === "owner";
+  const hasOwner = members.some((member) => member.role === "owner");
+
+  const handleInvite = async () => {
+    try {
+      await inviteMember.mutateAsync({
+        workspaceId,
+        email: email.trim(),
+        role: inviteRole,
+      });
+      setEmail("");
+      setInviteRole("viewer");
+    } catch (error) {
+      console.error("Error inviting member:", error);
+      alert(error instanceof Error ? error.message : "Failed to invite member");
+    }
+  };
+
+  const handleRoleChange = async (
+    member: WorkspaceMember,
+    newRole: WorkspaceRole
+  ) => {
+    try {
+      await updateMember.mutateAsync({
+        workspaceId,
+        memberId: member.id,
+        role: newRole,
+      });
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      alert(error instanceof Error ? error.message : "Failed to update role");
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (!confirm(`Remove ${member.email} from this workspace?`)) {
+      return;
+    }
+
+    try {
+      await removeMember.mutateAsync({ workspaceId, memberId: member.id });
+    } catch (error) {
+      console.error("Error removing member:", error);
+      alert(error instanceof Error ? error.message : "Failed to remove member");
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      await claimWorkspace.mutateAsync(workspaceId);
+    } catch (error) {
+      console.error("Error claiming workspace:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to claim workspace"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          Owners manage members and API keys, editors can change slides and
+          charts, viewers can only look. Signed-in users who are not members can
+          view public workspaces.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {!loading && !hasOwner && (
+          <div className="flex items-center justify-between gap-4 rounded-md border border-amber-500/50 bg-amber-500/10 p-4">
+            <p className="text-sm">
+              {canClaim
+                ? "This workspace has no owner yet. Claim it to manage its members and API keys."
+                : "This workspace has no owner yet. Ask an administrator to claim it."}
+            </p>
+            {canClaim && (
+              <Button
+                size="sm"
+                className="flex items-center gap-2"
+                onClick={handleClaim}
+                disabled={claimWorkspace.isPending}
+              >
+                <Crown className="h-4 w-4" />
+                Claim Ownership
+              </Button>
+            )}
+          </div>
+        )}
+
+        {isOwner && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <label htmlFor="member-email" className="text-sm font-medium">
+                Invite by email
+              </label>
+              <Input
+                id="member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@company.com"
+              />
+            </div>
+            <Select
+              value={inviteRole}
+              onValueChange={(value) => setInviteRole(value as WorkspaceRole)}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="flex items-center gap-2"
+              onClick={handleInvite}
+              disabled={!email.trim() || inviteMember.isPending}
+            >
+              <UserPlus className="h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No members yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-medium">
+                        {member.name || member.email}
+                      </span>
+                      {member.name ? (
+                        <span className="text-xs text-muted-foreground">
+                          {member.email}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          Has not signed in yet
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {isOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          handleRoleChange(member, value as WorkspaceRole)
+                        }
+                        disabled={updateMember.isPending}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLE_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="capitalize">{member.role}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(member.createdAt).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {isOwner && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => handleRemove(member)}
+                        disabled={removeMember.isPending}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
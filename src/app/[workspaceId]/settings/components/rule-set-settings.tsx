@@ -0,0 +1,95 @@
+"use client";
+
+import { ShieldAlert } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useSaveWorkspaceRuleSet } from "@/lib/api";
+import type { RuleSetConfig } from "@/types/db/workspace";
+import {
+  RuleSetFields,
+  fromRuleSetForm,
+  toRuleSetForm,
+} from "../../components/rule-set-fields";
+
+interface RuleSetSettingsProps {
+  workspaceId: string;
+  ruleSet: RuleSetConfig | null;
+}
+
+export function RuleSetSettings({
+  workspaceId,
+  ruleSet,
+}: RuleSetSettingsProps) {
+  const saveRuleSet = useSaveWorkspaceRuleSet();
+
+  const [form, setForm] = useState(() => toRuleSetForm(ruleSet));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Follow the saved rule set once the workspace has loaded or been saved
+  useEffect(() => {
+    setForm(toRuleSetForm(ruleSet));
+  }, [ruleSet]);
+
+  const handleSave = async (config: RuleSetConfig | null) => {
+    setFormError(null);
+    try {
+      await saveRuleSet.mutateAsync({ workspaceId, ruleSet: config });
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save rule set"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Detection Rules
+        </CardTitle>
+        <CardDescription>
+          Rules used to highlight signals on the workspace&apos;s charts and to
+          set their traffic lights. Editors can choose other rules for a single
+          submetric.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <RuleSetFields
+          id="workspace-rule-set"
+          value={form}
+          onChange={setForm}
+          disabled={saveRuleSet.isPending}
+        />
+
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+        <div className="flex justify-end gap-2">
+          {ruleSet && (
+            <Button
+              variant="outline"
+              onClick={() => handleSave(null)}
+              disabled={saveRuleSet.isPending}
+            >
+              Reset to Default
+            </Button>
+          )}
+          <Button
+            onClick={() => handleSave(fromRuleSetForm(form))}
+            disabled={saveRuleSet.isPending}
+          >
+            {saveRuleSet.isPending ? "Saving..." : "Save Rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
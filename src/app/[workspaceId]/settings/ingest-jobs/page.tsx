@@ -0,0 +1,42 @@
+"use client";
+
+import { use } from "react";
+import { useWorkspace, useWorkspaces } from "@/lib/api";
+import { IngestJobHistory } from "../components/ingest-job-history";
+
+interface IngestJobsPageProps {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export default function IngestJobsPage({ params }: IngestJobsPageProps) {
+  const { workspaceId } = use(params);
+  const { workspace } = useWorkspace(workspaceId);
+  const { workspaces, loading } = useWorkspaces();
+
+  const role =
+    workspaces.find((workspace) => workspace.id === workspaceId)?.role ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Ingest Jobs</h1>
+        <p className="text-muted-foreground mt-2">
+          Recent data sent to {workspace?.name || "this workspace"} through the
+          ingestion API
+        </p>
+      </div>
+
+      {role === "owner" ? (
+        <IngestJobHistory workspaceId={workspaceId} />
+      ) : (
+        !loading && (
+          <p className="text-sm text-muted-foreground">
+            Only workspace owners can view ingest jobs.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
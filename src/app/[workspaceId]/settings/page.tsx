@@ -0,0 +1,54 @@
+"use client";
+
+import { use } from "react";
+import { useWorkspace, useWorkspaces } from "@/lib/api";
+import { ApiKeySettings } from "./components/api-key-settings";
+import { ConnectorSettings } from "./components/connector-settings";
+import { MemberSettings } from "./components/member-settings";
+import { RuleSetSettings } from "./components/rule-set-settings";
+
+interface SettingsPageProps {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+}
+
+export default function SettingsPage({ params }: SettingsPageProps) {
+  const { workspaceId } = use(params);
+  const { workspace } = useWorkspace(workspaceId);
+  const { workspaces } = useWorkspaces();
+
+  const role =
+    workspaces.find((workspace) => workspace.id === workspaceId)?.role ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-2">
+          Manage settings for {workspace?.name || "this workspace"}
+        </p>
+      </div>
+
+      <MemberSettings workspaceId={workspaceId} role={role} />
+
+      {role === "owner" && (
+        <RuleSetSettings
+          workspaceId={workspaceId}
+          ruleSet={workspace?.settings?.ruleSet ?? null}
+        />
+      )}
+
+      {role === "owner" && (
+        <ApiKeySettings workspaceId={workspaceId} workspaces={workspaces} />
+      )}
+
+      {role === "owner" && (
+        <ConnectorSettings
+          workspaceId={workspaceId}
+          slides={workspace?.slides ?? []}
+        />
+      )}
+    </div>
+  );
+}
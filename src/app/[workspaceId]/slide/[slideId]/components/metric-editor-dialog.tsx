@@ -0,0 +1,451 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  type CreateMetricInput,
+  type CreateSubmetricInput,
+  useCreateMetric,
+  useCreateSubmetric,
+  useDeleteMetric,
+  useDeleteSubmetric,
+  useUpdateMetric,
+  useUpdateSubmetric,
+} from "@/lib/api";
+import type { Metric } from "@/types/db/metric";
+import type { Slide, SlideWithMetrics } from "@/types/db/slide";
+import type { Submetric } from "@/types/db/submetric";
+import { MetricFormDialog } from "./metric-form-dialog";
+import { SubmetricFormDialog } from "./submetric-form-dialog";
+
+interface MetricEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slide: SlideWithMetrics;
+  slides: Slide[]; // Workspace slides metrics can be moved to
+}
+
+/**
+ * Move the item at `index` by `offset` and return the position updates needed
+ * to persist the new order. Items keep their place in the list but are
+ * renumbered from zero, so ingested items that share a sortOrder get one.
+ */
+function getReorderUpdates<T extends { id: string; sortOrder: number | null }>(
+  items: T[],
+  index: number,
+  offset: -1 | 1
+): Array<{ id: string; sortOrder: number }> {
+  const reordered = [...items];
+  const [moved] = reordered.splice(index, 1);
+  reordered.splice(index + offset, 0, moved);
+
+  return reordered
+    .map((item, position) => ({ item, position }))
+    .filter(({ item, position }) => item.sortOrder !== position)
+    .map(({ item, position }) => ({ id: item.id, sortOrder: position }));
+}
+
+export function MetricEditorDialog({
+  open,
+  onOpenChange,
+  slide,
+  slides,
+}: MetricEditorDialogProps) {
+  const router = useRouter();
+  const createMetric = useCreateMetric();
+  const updateMetric = useUpdateMetric();
+  const deleteMetric = useDeleteMetric();
+  const createSubmetric = useCreateSubmetric();
+  const updateSubmetric = useUpdateSubmetric();
+  const deleteSubmetric = useDeleteSubmetric();
+
+  // null while closed; metric/submetric is null when creating
+  const [metricDialog, setMetricDialog] = useState<{
+    metric: Metric | null;
+  } | null>(null);
+  const [submetricDialog, setSubmetricDialog] = useState<{
+    metricId: string;
+    submetric: Submetric | null;
+  } | null>(null);
+  const [isReordering, setIsReordering] = useState(false);
+
+  const isBusy =
+    isReordering ||
+    deleteMetric.isPending ||
+    deleteSubmetric.isPending ||
+    updateMetric.isPending ||
+    updateSubmetric.isPending;
+
+  // The slide page is rendered from server data, so reload it after changes
+  const refreshSlide = () => router.refresh();
+
+  const handleSubmitMetric = async (
+    data: CreateMetricInput,
+    slideId: string
+  ) => {
+    try {
+      if (metricDialog?.metric) {
+        await updateMetric.mutateAsync({
+          metricId: metricDialog.metric.id,
+          data: {
+            ...data,
+            ...(slideId !== metricDialog.metric.slideId && { slideId }),
+          },
+        });
+      } else {
+        await createMetric.mutateAsync({ slideId: slide.id, data });
+      }
+      setMetricDialog(null);
+      refreshSlide();
+    } catch (error) {
+      console.error("Error saving metric:", error);
+      alert(error instanceof Error ? error.message : "Failed to save metric");
+    }
+  };
+
+  const handleSubmitSubmetric = async (
+    data: CreateSubmetricInput,
+    metricId: string
+  ) => {
+    if (!submetricDialog) return;
+
+    try {
+      if (submetricDialog.submetric) {
+        await updateSubmetric.mutateAsync({
+          submetricId: submetricDialog.submetric.id,
+          data: {
+            ...data,
+            ...(metricId !== submetricDialog.submetric.metricId && {
+              metricId,
+            }),
+          },
+        });
+      } else {
+        await createSubmetric.mutateAsync({
+          metricId: submetricDialog.metricId,
+          data,
+        });
+      }
+      setSubmetricDialog(null);
+      refreshSlide();
+    } catch (error) {
+      console.error("Error saving submetric:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to save submetric"
+      );
+    }
+  };
+
+  const handleMoveMetric = async (index: number, offset: -1 | 1) => {
+    setIsReordering(true);
+    try {
+      const updates = getReorderUpdates(slide.metrics, index, offset);
+      await Promise.all(
+        updates.map(({ id, sortOrder }) =>
+          updateMetric.mutateAsync({ metricId: id, data: { sortOrder } })
+        )
+      );
+      refreshSlide();
+    } catch (error) {
+      console.error("Error reordering metrics:", error);
+      alert("Failed to reorder metrics. Please try again.");
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  const handleMoveSubmetric = async (
+    submetrics: Submetric[],
+    index: number,
+    offset: -1 | 1
+  ) => {
+    setIsReordering(true);
+    try {
+      const updates = getReorderUpdates(submetrics, index, offset);
+      await Promise.all(
+        updates.map(({ id, sortOrder }) =>
+          updateSubmetric.mutateAsync({ submetricId: id, data: { sortOrder } })
+        )
+      );
+      refreshSlide();
+    } catch (error) {
+      console.error("Error reordering submetrics:", error);
+      alert("Failed to reorder submetrics. Please try again.");
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  const handleDeleteMetric = async (metric: Metric) => {
+    if (
+      !confirm(
+        `Delete "${metric.name}"? This also deletes its submetrics and their data points. This action cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteMetric.mutateAsync(metric.id);
+      refreshSlide();
+    } catch (error) {
+      console.error("Error deleting metric:", error);
+      alert("Failed to delete metric. Please try again.");
+    }
+  };
+
+  const handleDeleteSubmetric = async (submetric: Submetric) => {
+    if (
+      !confirm(
+        `Delete "${submetric.label}"? This also deletes its data points and chart settings. This action cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteSubmetric.mutateAsync(submetric.id);
+      refreshSlide();
+    } catch (error) {
+      console.error("Error deleting submetric:", error);
+      alert("Failed to delete submetric. Please try again.");
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Metrics</DialogTitle>
+            <DialogDescription>
+              Add, rename, reorder, move and delete the metrics and submetrics
+              on this slide. Ingestion in merge mode matches submetrics by label
+              and category, so renamed submetrics start a new series on the next
+              ingest unless the payload is renamed too.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {slide.metrics.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                This slide doesn't have any metrics yet.
+              </p>
+            )}
+
+            {slide.metrics.map((metric, metricIndex) => (
+              <div key={metric.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{metric.name}</p>
+                    {metric.description && (
+                      <p className="text-sm text-muted-foreground truncate">
+                        {metric.description}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Move up"
+                      onClick={() => handleMoveMetric(metricIndex, -1)}
+                      disabled={isBusy || metricIndex === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Move down"
+                      onClick={() => handleMoveMetric(metricIndex, 1)}
+                      disabled={
+                        isBusy || metricIndex === slide.metrics.length - 1
+                      }
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Edit metric"
+                      onClick={() => setMetricDialog({ metric })}
+                      disabled={isBusy}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      title="Delete metric"
+                      onClick={() => handleDeleteMetric(metric)}
+                      disabled={isBusy}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {metric.submetrics.map((submetric, submetricIndex) => (
+                    <div
+                      key={submetric.id}
+                      className="flex items-center justify-between gap-4 rounded-md bg-muted/40 px-3 py-2"
+                    >
+                      <div className="flex min-w-0 items-center gap-2">
+                        <span
+                          className="h-3 w-3 shrink-0 rounded-full border"
+                          style={{
+                            backgroundColor: submetric.color || "transparent",
+                          }}
+                        />
+                        <span className="truncate text-sm">
+                          {submetric.label}
+                        </span>
+                        {submetric.category && (
+                          <Badge variant="secondary">
+                            {submetric.category}
+                          </Badge>
+                        )}
+                        {submetric.unit && (
+                          <span className="text-xs text-muted-foreground">
+                            {submetric.unit}
+                          </span>
+                        )}
+                        {submetric.trend && (
+                          <Badge variant="outline" className="capitalize">
+                            {submetric.trend}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Move up"
+                          onClick={() =>
+                            handleMoveSubmetric(
+                              metric.submetrics,
+                              submetricIndex,
+                              -1
+                            )
+                          }
+                          disabled={isBusy || submetricIndex === 0}
+                        >
+                          <ArrowUp className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Move down"
+                          onClick={() =>
+                            handleMoveSubmetric(
+                              metric.submetrics,
+                              submetricIndex,
+                              1
+                            )
+                          }
+                          disabled={
+                            isBusy ||
+                            submetricIndex === metric.submetrics.length - 1
+                          }
+                        >
+                          <ArrowDown className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Edit submetric"
+                          onClick={() =>
+                            setSubmetricDialog({
+                              metricId: metric.id,
+                              submetric,
+                            })
+                          }
+                          disabled={isBusy}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          title="Delete submetric"
+                          onClick={() => handleDeleteSubmetric(submetric)}
+                          disabled={isBusy}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center gap-2 text-muted-foreground"
+                  onClick={() =>
+                    setSubmetricDialog({ metricId: metric.id, submetric: null })
+                  }
+                  disabled={isBusy}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Submetric
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              className="flex w-full items-center gap-2"
+              onClick={() => setMetricDialog({ metric: null })}
+              disabled={isBusy}
+            >
+              <Plus className="h-4 w-4" />
+              Add Metric
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MetricFormDialog
+        open={metricDialog !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setMetricDialog(null);
+        }}
+        metric={metricDialog?.metric ?? null}
+        slides={slides}
+        onSubmit={handleSubmitMetric}
+        isSaving={createMetric.isPending || updateMetric.isPending}
+      />
+      <SubmetricFormDialog
+        open={submetricDialog !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setSubmetricDialog(null);
+        }}
+        submetric={submetricDialog?.submetric ?? null}
+        metrics={slide.metrics}
+        onSubmit={handleSubmitSubmetric}
+        isSaving={createSubmetric.isPending || updateSubmetric.isPending}
+      />
+    </>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CreateMetricInput } from "@/lib/api";
+import type { Metric } from "@/types/db/metric";
+import type { Slide } from "@/types/db/slide";
+
+interface MetricFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  metric: Metric | null; // null creates a new metric
+  slides: Slide[]; // Slides an existing metric can be moved to
+  onSubmit: (data: CreateMetricInput, slideId: string) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function MetricFormDialog({
+  open,
+  onOpenChange,
+  metric,
+  slides,
+  onSubmit,
+  isSaving = false,
+}: MetricFormDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [slideId, setSlideId] = useState("");
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(metric?.name ?? "");
+    setDescription(metric?.description ?? "");
+    setSlideId(metric?.slideId ?? "");
+  }, [open, metric]);
+
+  const canSubmit = name.trim().length > 0 && !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    await onSubmit(
+      {
+        name: name.trim(),
+        description: description.trim() || null,
+      },
+      slideId
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>{metric ? "Edit Metric" : "New Metric"}</DialogTitle>
+            <DialogDescription>
+              {metric
+                ? "Rename the metric or move it to another slide."
+                : "Create a metric to group related submetrics."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="metric-name" className="text-sm font-medium">
+                Name
+              </label>
+              <Input
+                id="metric-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Revenue"
+                maxLength={200}
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label
+                htmlFor="metric-description"
+                className="text-sm font-medium"
+              >
+                Description
+              </label>
+              <Input
+                id="metric-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+
+            {metric && slides.length > 1 && (
+              <div className="space-y-2">
+                <label htmlFor="metric-slide" className="text-sm font-medium">
+                  Slide
+                </label>
+                <Select value={slideId} onValueChange={setSlideId}>
+                  <SelectTrigger id="metric-slide">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {slides.map((slide) => (
+                      <SelectItem key={slide.id} value={slide.id}>
+                        {slide.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? "Saving..." : metric ? "Save" : "Create Metric"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
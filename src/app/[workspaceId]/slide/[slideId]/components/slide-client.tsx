@@ -1,7 +1,11 @@
 "use client";
 
-import { useEffect } from "react";
+import { Pencil } from "lucide-react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useWorkspace, useWorkspaces } from "@/lib/api";
+import { MetricEditorDialog } from "./metric-editor-dialog";
 import { SlideContainer } from "./slide-container";
 import type { SlideWithMetrics } from "@/types/db/slide";
 import type { Workspace } from "@/types/db/workspace";
@@ -13,6 +17,16 @@ interface SlideClientProps {
 
 export function SlideClient({ slide, workspace }: SlideClientProps) {
   const router = useRouter();
+  const { workspaces } = useWorkspaces();
+  const { workspace: workspaceWithSlides } = useWorkspace(workspace.id);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const role = workspaces.find((item) => item.id === workspace.id)?.role;
+  const canEdit = role === "owner" || role === "editor";
+
+  // Saving the workspace default refreshes the workspace query
+  const workspaceRuleSet =
+    (workspaceWithSlides ?? workspace).settings?.ruleSet ?? null;
 
   // Verify slide belongs to the workspace
   useEffect(() => {
@@ -36,10 +50,33 @@ export function SlideClient({ slide, workspace }: SlideClientProps) {
               </p>
             )}
           </div>
+          {canEdit && (
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setIsEditorOpen(true)}
+            >
+              <Pencil className="h-4 w-4" />
+              Edit Metrics
+            </Button>
+          )}
         </div>
       </div>
 
-      <SlideContainer metrics={slide.metrics} />
+      <SlideContainer
+        metrics={slide.metrics}
+        canEdit={canEdit}
+        workspaceRuleSet={workspaceRuleSet}
+      />
+
+      {canEdit && (
+        <MetricEditorDialog
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          slide={slide}
+          slides={workspaceWithSlides?.slides ?? []}
+        />
+      )}
     </div>
   );
 }
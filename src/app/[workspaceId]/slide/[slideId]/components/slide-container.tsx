@@ -3,14 +3,21 @@
 import { useEffect, useRef, useCallback, useMemo } from "react";
 import { SubmetricLineChart } from "./submetric-card";
 import type { MetricWithSubmetrics } from "@/types/db/metric";
+import type { RuleSetConfig } from "@/types/db/workspace";
 import { Button } from "@/components/ui/button";
 import { ChevronUp, ChevronDown } from "lucide-react";
 
 interface SlideContainerProps {
   metrics: MetricWithSubmetrics[];
+  canEdit?: boolean;
+  workspaceRuleSet?: RuleSetConfig | null; // Default detection rules
 }
 
-export function SlideContainer({ metrics }: SlideContainerProps) {
+export function SlideContainer({
+  metrics,
+  canEdit = false,
+  workspaceRuleSet = null,
+}: SlideContainerProps) {
   const chartRefs = useRef<(HTMLDivElement | null)[]>([]);
   const navigationRef = useRef<HTMLDivElement>(null);
   // Use ref to track current index for instant navigation without re-renders
@@ -245,7 +252,11 @@ export function SlideContainer({ metrics }: SlideContainerProps) {
                       }}
                       className="transition-all duration-300 rounded-lg relative"
                     >
-                      <SubmetricLineChart submetric={submetric} />
+                      <SubmetricLineChart
+                        submetric={submetric}
+                        canEdit={canEdit}
+                        workspaceRuleSet={workspaceRuleSet}
+                      />
                       {totalCharts > 1 && (
                         <div className="absolute bottom-4 right-4 bg-background/80 backdrop-blur-sm border border-border/50 rounded-full px-3 py-1.5 text-xs font-semibold opacity-60">
                           <span className="text-foreground">
@@ -0,0 +1,94 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import type { ProcessCapability, SpecLimits } from "@/lib/xmr-calculations";
+
+interface SubmetricCapabilityPanelProps {
+  capability: ProcessCapability;
+  specLimits: SpecLimits;
+  unit: string | null;
+  warning: string | null; // Why the indices don't describe the process, if they don't
+}
+
+// Common thresholds: 1.33 or more is capable, below 1 produces out-of-spec values
+const getIndexColor = (value: number | null): string => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 1.33) return "text-green-600 dark:text-green-400";
+  if (value >= 1) return "text-amber-600 dark:text-amber-400";
+  return "text-red-600 dark:text-red-400";
+};
+
+const INDICES: Array<{
+  key: keyof Pick<ProcessCapability, "Cp" | "Cpk" | "Pp" | "Ppk">;
+  hint: string;
+}> = [
+  { key: "Cp", hint: "Spec width over the within-process spread" },
+  { key: "Cpk", hint: "Distance from the average to the nearest spec limit" },
+  { key: "Pp", hint: "Spec width over the overall spread" },
+  { key: "Ppk", hint: "Overall distance to the nearest spec limit" },
+];
+
+export function SubmetricCapabilityPanel({
+  capability,
+  specLimits,
+  unit,
+  warning,
+}: SubmetricCapabilityPanelProps) {
+  const formatLimit = (value: number | null) =>
+    value === null ? "—" : `${value}${unit ? ` ${unit}` : ""}`;
+
+  return (
+    <div className="mt-4 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-semibold">Process Capability</h4>
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span>
+            LSL:{" "}
+            <span className="font-semibold">{formatLimit(specLimits.LSL)}</span>
+          </span>
+          <span>
+            Target:{" "}
+            <span className="font-semibold">
+              {formatLimit(specLimits.target)}
+            </span>
+          </span>
+          <span>
+            USL:{" "}
+            <span className="font-semibold">{formatLimit(specLimits.USL)}</span>
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-3">
+        {INDICES.map(({ key, hint }) => (
+          <div key={key} title={hint}>
+            <div className="text-xs text-muted-foreground">{key}</div>
+            <div
+              className={`text-xl font-bold ${
+                warning
+                  ? "text-muted-foreground"
+                  : getIndexColor(capability[key])
+              }`}
+            >
+              {capability[key] === null ? "—" : capability[key].toFixed(2)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-muted-foreground mt-2">
+        σ within: {capability.sigmaWithin} · σ overall:{" "}
+        {capability.sigmaOverall}
+        {(specLimits.USL === null || specLimits.LSL === null) &&
+          " · Cp and Pp need both spec limits"}
+      </div>
+
+      {warning && (
+        <div className="flex items-start gap-2 mt-3 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      )}
+    </div>
+  );
+}
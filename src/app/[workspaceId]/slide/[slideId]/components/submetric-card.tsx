@@ -1,11 +1,25 @@
 "use client";
 
 import { useMemo, useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useTheme } from "next-themes";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Lock, LockOpen, TrendingUp, X } from "lucide-react";
-import type { Submetric } from "@/types/db/submetric";
+import {
+  History,
+  Lightbulb,
+  Lock,
+  LockOpen,
+  SeparatorVertical,
+  ShieldAlert,
+  SlidersHorizontal,
+  Table2,
+  Target,
+  TrendingUp,
+  X,
+} from "lucide-react";
+import type { DataPointJson, Submetric } from "@/types/db/submetric";
+import type { RuleSetConfig } from "@/types/db/workspace";
 import {
   generateXMRData,
   isProcessInControl,
@@ -18,48 +32,150 @@ import {
   calculateSeasonalFactors,
   determinePeriodicity,
   createTrendLines,
+  LockedLimitStatus,
+  isAvgXModified,
+  isUnplModified,
+  isLnplModified,
+  addDivider,
+  deleteDivider,
+  updateDividerPosition,
+  isShadowDivider,
+  sortDividers,
+  createBoundaryDividers,
+  calculateSegmentStats,
+  detectViolationsWithSegments,
+  calculateProcessCapability,
+  suggestProcessShifts,
+  MAX_DIVIDERS,
+  attributeStatistic,
+  generateAttributeData,
+  isAttributeChartType,
+  calculateEWMA,
+  calculateCUSUM,
+  DEFAULT_SHIFT_CHART_PARAMS,
+  SHIFT_CHART_VIEWS,
+  VIOLATION_DETAIL_KEYS,
+  VIOLATION_PRIORITY,
+  ViolationType,
+  type AttributeChartType,
+  type DividerLine,
   type DataPoint,
+  type ShiftSuggestion,
+  type ShiftChartParams,
+  type ShiftChartView,
   type XMRLimits,
+  type SpecLimits,
   type SeasonalityPeriod,
   type SeasonalityGrouping,
   type TrendLimits,
 } from "@/lib/xmr-calculations";
+import { parseTimestamp, toAttributeDataPoints } from "@/lib/data-points";
+import { RULE_SET_PRESET_DEFINITIONS, resolveRuleSet } from "@/lib/rule-sets";
+import {
+  useSubmetricLockLimits,
+  useSaveLockLimits,
+  useDeleteLockLimits,
+  useSubmetricTrend,
+  useSaveTrend,
+  useSubmetricSeasonality,
+  useSaveSeasonality,
+  useSubmetricDividers,
+  useSaveDividers,
+  useSubmetricRuleSet,
+  useSubmetricSpecLimits,
+  useSubmetricShiftChart,
+  useSaveShiftChart,
+  useSaveDataPoints,
+} from "@/lib/api/submetrics";
 import { SubmetricLockLimitsDialog } from "./submetric-lock-limits-dialog";
 import { SubmetricTrendDialog } from "./submetric-trend-dialog";
 import { SubmetricSeasonalityDialog } from "./submetric-seasonality-dialog";
-import { SubmetricXChart } from "./submetric-x-chart";
+import { SubmetricDataDialog } from "./submetric-data-dialog";
+import { SubmetricRevisionsDialog } from "./submetric-revisions-dialog";
+import { SubmetricRuleSetDialog } from "./submetric-rule-set-dialog";
+import { SubmetricSpecLimitsDialog } from "./submetric-spec-limits-dialog";
+import { SubmetricShiftChartDialog } from "./submetric-shift-chart-dialog";
+import { SubmetricCapabilityPanel } from "./submetric-capability-panel";
+import {
+  SubmetricXChart,
+  type ChartDivider,
+  type ChartSegment,
+} from "./submetric-x-chart";
 import { SubmetricMRChart } from "./submetric-mr-chart";
+import { SubmetricShiftChart } from "./submetric-shift-chart";
 
 interface SubmetricLineChartProps {
   submetric: Submetric;
+  canEdit?: boolean; // Whether the user may edit the submetric's data
+  workspaceRuleSet?: RuleSetConfig | null; // Used unless the submetric has its own
 }
 
-// Helper function to parse timestamps in various formats
-const parseTimestamp = (timestamp: string): Date => {
-  // Check if timestamp is in YYYYMM format (e.g., "202301", "202412")
-  if (/^\d{6}$/.test(timestamp)) {
-    const year = timestamp.substring(0, 4);
-    const month = timestamp.substring(4, 6);
-    // Create date string in YYYY-MM-DD format (use first day of month)
-    return new Date(`${year}-${month}-01`);
-  }
-
-  // Check if timestamp is in YYYYMMDD format (e.g., "20230115")
-  if (/^\d{8}$/.test(timestamp)) {
-    const year = timestamp.substring(0, 4);
-    const month = timestamp.substring(4, 6);
-    const day = timestamp.substring(6, 8);
-    return new Date(`${year}-${month}-${day}`);
-  }
-
-  // Otherwise, use standard Date constructor for ISO strings and other formats
-  return new Date(timestamp);
+// Violations that make the traffic light red, unless part of a gradual trend
+const CRITICAL_VIOLATIONS = [
+  ViolationType.OUTSIDE_LIMITS,
+  ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA,
+  ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA,
+];
+
+// Violations that make the traffic light yellow
+const PATTERN_VIOLATIONS = [
+  ViolationType.RUNNING_POINTS,
+  ViolationType.FOUR_NEAR_LIMIT,
+  ViolationType.TRENDING_POINTS,
+  ViolationType.ALTERNATING_POINTS,
+  ViolationType.EIGHT_BEYOND_ONE_SIGMA,
+];
+
+const SHIFT_CHART_VIEW_LABELS: Record<ShiftChartView, string> = {
+  xmr: "XmR",
+  ewma: "EWMA",
+  cusum: "CUSUM",
 };
 
-export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
+const ATTRIBUTE_CHART_LABELS: Record<AttributeChartType, string> = {
+  p: "p chart (%)",
+  np: "np chart",
+  c: "c chart",
+  u: "u chart",
+};
+
+// Each segment needs at least two points to have a moving range of its own
+const MIN_SEGMENT_POINTS = 2;
+
+// Helper function to check that dividers at these chart indices leave every segment usable
+const isValidDividerPlacement = (
+  indices: number[],
+  pointCount: number
+): boolean => {
+  const bounds = [0, ...[...indices].sort((a, b) => a - b), pointCount];
+  return bounds.every(
+    (bound, i) => i === 0 || bound - bounds[i - 1] >= MIN_SEGMENT_POINTS
+  );
+};
+
+// Helper function to describe which locked limits were manually edited
+const describeLockedLimitStatus = (status: LockedLimitStatus): string => {
+  const modified: string[] = [];
+  if (isAvgXModified(status)) modified.push("Avg X");
+  if (isUnplModified(status)) modified.push("UNPL");
+  if (isLnplModified(status)) modified.push("LNPL");
+  return modified.length > 0
+    ? `${modified.join(", ")} manually modified`
+    : "Calculated limits";
+};
+
+export function SubmetricLineChart({
+  submetric,
+  canEdit = false,
+  workspaceRuleSet = null,
+}: SubmetricLineChartProps) {
+  const router = useRouter();
   const { theme, resolvedTheme } = useTheme();
   const isDark = resolvedTheme === "dark";
 
+  // Ingested labels are "Metric - Submetric"; show the submetric part
+  const displayLabel = submetric.label.split("-")[1]?.trim() || submetric.label;
+
   // Check if label indicates trend or seasonality
   const labelHasTrend = useMemo(
     () => /\(Trend\)/i.test(submetric.label),
@@ -87,6 +203,19 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
   >([]); // Manually excluded points
   const [autoSuggestedLimits, setAutoSuggestedLimits] =
     useState<XMRLimits | null>(null);
+  const [lockedLimitStatus, setLockedLimitStatus] = useState<LockedLimitStatus>(
+    LockedLimitStatus.UNLOCKED
+  );
+
+  // Persisted lock state - hydrated once, then saved on every lock change
+  const {
+    lockLimits: savedLockLimits,
+    isSuccess: lockLimitsLoaded,
+    error: lockLimitsError,
+  } = useSubmetricLockLimits(submetric.id, submetric.settings?.lockLimits);
+  const saveLockLimitsMutation = useSaveLockLimits();
+  const deleteLockLimitsMutation = useDeleteLockLimits();
+  const [lockStateHydrated, setLockStateHydrated] = useState(false);
 
   // Trend state
   const [isTrendDialogOpen, setIsTrendDialogOpen] = useState(false);
@@ -97,6 +226,16 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
   const [storedTrendLines, setStoredTrendLines] = useState<TrendLimits | null>(
     null
   );
+  const [trendManuallyModified, setTrendManuallyModified] = useState(false);
+
+  // Persisted trend - hydrated once, then saved when applied or removed
+  const {
+    trend: savedTrend,
+    isSuccess: trendLoaded,
+    error: trendError,
+  } = useSubmetricTrend(submetric.id, submetric.settings?.trend);
+  const saveTrendMutation = useSaveTrend();
+  const [trendStateHydrated, setTrendStateHydrated] = useState(false);
 
   // Seasonality state
   const [isSeasonalityDialogOpen, setIsSeasonalityDialogOpen] = useState(false);
@@ -106,15 +245,134 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
   const [seasonalityGrouping, setSeasonalityGrouping] =
     useState<SeasonalityGrouping>("none");
   const [seasonalFactors, setSeasonalFactors] = useState<number[]>([]);
+  const [seasonalityManuallyModified, setSeasonalityManuallyModified] =
+    useState(false);
+
+  // Persisted seasonality - hydrated once, then saved when applied or removed
+  const {
+    seasonality: savedSeasonality,
+    isSuccess: seasonalityLoaded,
+    error: seasonalityError,
+  } = useSubmetricSeasonality(submetric.id, submetric.settings?.seasonality);
+  const saveSeasonalityMutation = useSaveSeasonality();
+  const [seasonalityStateHydrated, setSeasonalityStateHydrated] =
+    useState(false);
+
+  // Process change dividers - user-placed only, boundaries come from the data
+  const [dividers, setDividers] = useState<DividerLine[]>([]);
+  const {
+    dividers: savedDividers,
+    isSuccess: dividersLoaded,
+    error: dividersError,
+  } = useSubmetricDividers(submetric.id, submetric.settings?.dividers);
+  const saveDividersMutation = useSaveDividers();
+  const [dividersHydrated, setDividersHydrated] = useState(false);
+
+  // Detection rules - the submetric's own, or the workspace default
+  const [isRuleSetDialogOpen, setIsRuleSetDialogOpen] = useState(false);
+  const { ruleSet: savedRuleSet } = useSubmetricRuleSet(
+    submetric.id,
+    submetric.settings?.ruleSet
+  );
+  const ruleSet = useMemo(
+    () => resolveRuleSet(savedRuleSet ?? workspaceRuleSet),
+    [savedRuleSet, workspaceRuleSet]
+  );
+
+  // Specification limits - compared against the natural process limits
+  const [isSpecLimitsDialogOpen, setIsSpecLimitsDialogOpen] = useState(false);
+  const { specLimits: savedSpecLimits } = useSubmetricSpecLimits(
+    submetric.id,
+    submetric.settings?.specLimits
+  );
+  const specLimits = useMemo<SpecLimits | null>(
+    () =>
+      savedSpecLimits
+        ? {
+            USL: savedSpecLimits.usl,
+            LSL: savedSpecLimits.lsl,
+            target: savedSpecLimits.target,
+          }
+        : null,
+    [savedSpecLimits]
+  );
+
+  // EWMA or CUSUM chart in place of the moving range chart. Editors save the
+  // view they pick; viewers can switch views without saving.
+  const [isShiftChartDialogOpen, setIsShiftChartDialogOpen] = useState(false);
+  const [shiftChartViewOverride, setShiftChartViewOverride] =
+    useState<ShiftChartView | null>(null);
+  const { shiftChart: savedShiftChart } = useSubmetricShiftChart(
+    submetric.id,
+    submetric.settings?.shiftChart
+  );
+  const saveShiftChartMutation = useSaveShiftChart();
+  const shiftChartParams = useMemo<ShiftChartParams>(
+    () =>
+      savedShiftChart
+        ? {
+            lambda: savedShiftChart.lambda,
+            k: savedShiftChart.k,
+            h: savedShiftChart.h,
+          }
+        : DEFAULT_SHIFT_CHART_PARAMS,
+    [savedShiftChart]
+  );
+  const selectedShiftChartView =
+    shiftChartViewOverride ??
+    SHIFT_CHART_VIEWS.find((view) => view === savedShiftChart?.view) ??
+    "xmr";
+
+  // The saved view takes over again once it changes, e.g. after a reset
+  useEffect(() => {
+    setShiftChartViewOverride(null);
+  }, [savedShiftChart]);
+
+  // Chart settings save in the background; a failed save is shown on the card
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const settingsLoadError =
+    lockLimitsError || trendError || seasonalityError || dividersError;
+
+  // Manual data entry
+  const [isDataDialogOpen, setIsDataDialogOpen] = useState(false);
+  const [isRevisionsDialogOpen, setIsRevisionsDialogOpen] = useState(false);
+  const saveDataPointsMutation = useSaveDataPoints();
 
   // Track if auto-apply has been done
   const [autoAppliedTrend, setAutoAppliedTrend] = useState(false);
   const [autoAppliedSeasonality, setAutoAppliedSeasonality] = useState(false);
 
-  // Memoize raw data points transformation with deduplication
+  // p, np, c and u charts plot counts with limits from their subgroup sizes;
+  // lock limits, trends, seasonality and dividers only apply to XmR charts
+  const attributeChartType = isAttributeChartType(submetric.controlChart)
+    ? submetric.controlChart
+    : null;
+  const attributePoints = useMemo(
+    () =>
+      attributeChartType
+        ? toAttributeDataPoints(
+            submetric.periods ?? submetric.dataPoints ?? [],
+            attributeChartType
+          ).filter(
+            (point) => !Number.isNaN(parseTimestamp(point.timestamp).getTime())
+          )
+        : null,
+    [attributeChartType, submetric.periods, submetric.dataPoints]
+  );
+
+  // Memoize raw data points transformation. The data point table holds one
+  // point per point in time, so no deduplication is needed. Submetrics rolled
+  // up into periods are charted per period.
   const rawDataPoints = useMemo<DataPoint[]>(() => {
+    if (attributeChartType && attributePoints) {
+      return attributePoints.map((point) => ({
+        timestamp: point.timestamp,
+        value: attributeStatistic(point, attributeChartType),
+      }));
+    }
+
     const points =
-      submetric.dataPoints?.map((point) => ({
+      (submetric.periods ?? submetric.dataPoints)?.map((point) => ({
         timestamp: point.timestamp,
         value: Number(point.value),
         confidence: point.confidence ?? undefined,
@@ -134,42 +392,191 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         parseTimestamp(b.timestamp).getTime()
     );
 
-    // Deduplicate points with same timestamp
-    // Strategy: Keep the point with highest confidence, or last occurrence if no confidence
-    const deduplicated = new Map<string, DataPoint>();
+    return validPoints;
+  }, [
+    attributeChartType,
+    attributePoints,
+    submetric.periods,
+    submetric.dataPoints,
+  ]);
 
-    for (const point of validPoints) {
-      const timestampKey = parseTimestamp(point.timestamp).toISOString();
-      const existing = deduplicated.get(timestampKey);
+  // Points whose value changed after it was first recorded
+  const restatedPoints = useMemo(
+    () =>
+      (submetric.dataPoints ?? [])
+        .filter((point) => point.originalValue != null)
+        .sort(
+          (a, b) =>
+            parseTimestamp(a.timestamp).getTime() -
+            parseTimestamp(b.timestamp).getTime()
+        ),
+    [submetric.dataPoints]
+  );
 
-      if (!existing) {
-        // First occurrence, add it
-        deduplicated.set(timestampKey, point);
-      } else {
-        // Duplicate found - keep the one with higher confidence
-        const existingConfidence = existing.confidence ?? null;
-        const pointConfidence = point.confidence ?? null;
-
-        // If both have confidence, compare them
-        if (existingConfidence !== null && pointConfidence !== null) {
-          if (pointConfidence > existingConfidence) {
-            deduplicated.set(timestampKey, point);
-          }
-        } else if (pointConfidence !== null) {
-          // New point has confidence but existing doesn't, prefer new one
-          deduplicated.set(timestampKey, point);
-        }
-        // Otherwise keep existing (it either has confidence or both don't have confidence)
+  const originalValues = useMemo(
+    () =>
+      new Map(
+        restatedPoints.map((point) => [point.timestamp, point.originalValue])
+      ),
+    [restatedPoints]
+  );
+
+  // Excluded points are persisted by timestamp so they stay attached to the
+  // same data when new points are appended
+  const indicesToTimestamps = (indices: number[]): string[] =>
+    indices
+      .map((index) => rawDataPoints[index]?.timestamp)
+      .filter((timestamp): timestamp is string => !!timestamp);
+
+  // Restore saved trend once it has loaded
+  // A saved trend (or saved removal) takes precedence over the "(Trend)" label
+  useEffect(() => {
+    if (trendStateHydrated || !trendLoaded) {
+      return;
+    }
+
+    if (savedTrend) {
+      setAutoAppliedTrend(true);
+
+      if (
+        savedTrend.isActive &&
+        !attributeChartType &&
+        rawDataPoints.length >= 2
+      ) {
+        setTrendGradient(savedTrend.gradient);
+        setTrendIntercept(savedTrend.intercept);
+        setTrendManuallyModified(savedTrend.isManuallyModified);
+        setStoredTrendLines(null); // Lines are rebuilt from the saved parameters
+        setTrendActive(true);
+        setIsLimitsLocked(false);
+        setLockedLimits(null);
+      }
+    }
+
+    setTrendStateHydrated(true);
+  }, [
+    trendStateHydrated,
+    trendLoaded,
+    savedTrend,
+    attributeChartType,
+    rawDataPoints.length,
+  ]);
+
+  // Restore saved seasonality once it has loaded
+  // A saved seasonality (or saved removal) takes precedence over the "(Seasonality)" label
+  useEffect(() => {
+    if (seasonalityStateHydrated || !seasonalityLoaded) {
+      return;
+    }
+
+    if (savedSeasonality) {
+      setAutoAppliedSeasonality(true);
+
+      if (
+        savedSeasonality.isActive &&
+        !attributeChartType &&
+        savedSeasonality.factors.length > 0
+      ) {
+        setSeasonalityPeriod(savedSeasonality.period as SeasonalityPeriod);
+        setSeasonalityGrouping(
+          savedSeasonality.grouping as SeasonalityGrouping
+        );
+        setSeasonalFactors(savedSeasonality.factors);
+        setSeasonalityManuallyModified(savedSeasonality.isManuallyModified);
+        setSeasonalityActive(true);
+      }
+    }
+
+    setSeasonalityStateHydrated(true);
+  }, [
+    seasonalityStateHydrated,
+    seasonalityLoaded,
+    savedSeasonality,
+    attributeChartType,
+  ]);
+
+  // Restore saved dividers once they have loaded
+  useEffect(() => {
+    if (dividersHydrated || !dividersLoaded) {
+      return;
+    }
+
+    if (savedDividers) {
+      setDividers(savedDividers.dividers);
+    }
+
+    setDividersHydrated(true);
+  }, [dividersHydrated, dividersLoaded, savedDividers]);
+
+  // Restore saved lock state once it (and the saved trend/seasonality) has loaded
+  // Runs before auto-lock so a saved lock (or saved unlock) is never overridden
+  useEffect(() => {
+    if (
+      lockStateHydrated ||
+      !lockLimitsLoaded ||
+      !trendStateHydrated ||
+      !seasonalityStateHydrated
+    ) {
+      return;
+    }
+
+    // Trend and locked limits are mutually exclusive
+    const trendWillBeActive = savedTrend ? savedTrend.isActive : labelHasTrend;
+
+    if (savedLockLimits && !trendWillBeActive && !attributeChartType) {
+      const timestampsToIndices = (timestamps: string[] | null): number[] => {
+        const wanted = new Set(timestamps ?? []);
+        return rawDataPoints.flatMap((point, index) =>
+          wanted.has(point.timestamp) ? [index] : []
+        );
+      };
+
+      if (savedLockLimits.limits) {
+        setLockedLimits(savedLockLimits.limits);
+        setIsLimitsLocked(true);
+        setLockedLimitStatus(savedLockLimits.status);
+        setAutoLocked(savedLockLimits.isAutoLocked);
+        setHasEverBeenManuallyModified(savedLockLimits.isManuallyModified);
+        setOutlierIndices(
+          timestampsToIndices(savedLockLimits.outlierTimestamps)
+        );
+        setManuallyExcludedIndices(
+          timestampsToIndices(savedLockLimits.excludedTimestamps)
+        );
+      }
+
+      // Keep "Reset to Auto Lock" available for saved locks
+      if (
+        rawDataPoints.length >= MINIMUM_XMR_DATA_POINTS &&
+        shouldAutoLockLimits(rawDataPoints)
+      ) {
+        setOriginalAutoOutliers(
+          calculateLimitsWithOutlierRemoval(rawDataPoints).outlierIndices
+        );
       }
+
+      setAutoLockAttempted(true);
     }
 
-    return Array.from(deduplicated.values());
-  }, [submetric.dataPoints]);
+    setLockStateHydrated(true);
+  }, [
+    lockStateHydrated,
+    lockLimitsLoaded,
+    trendStateHydrated,
+    seasonalityStateHydrated,
+    savedLockLimits,
+    savedTrend,
+    labelHasTrend,
+    attributeChartType,
+    rawDataPoints,
+  ]);
 
   // Auto-apply trend based on label
   useEffect(() => {
     if (
+      trendStateHydrated &&
       labelHasTrend &&
+      !attributeChartType &&
       !autoAppliedTrend &&
       !trendActive &&
       rawDataPoints.length >= 2
@@ -202,12 +609,21 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         setLockedLimits(null);
       }
     }
-  }, [labelHasTrend, autoAppliedTrend, trendActive, rawDataPoints]);
+  }, [
+    trendStateHydrated,
+    labelHasTrend,
+    attributeChartType,
+    autoAppliedTrend,
+    trendActive,
+    rawDataPoints,
+  ]);
 
   // Auto-apply seasonality based on label
   useEffect(() => {
     if (
+      seasonalityStateHydrated &&
       labelHasSeasonality &&
+      !attributeChartType &&
       !autoAppliedSeasonality &&
       !seasonalityActive &&
       rawDataPoints.length >= MINIMUM_XMR_DATA_POINTS
@@ -231,13 +647,14 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         setSeasonalFactors(factors);
         setSeasonalityActive(true);
         setAutoAppliedSeasonality(true);
-        // Clear lock limits if active (seasonality changes the data)
-        setIsLimitsLocked(false);
-        setLockedLimits(null);
+        // Locks are left alone - auto-lock never runs for seasonality labels,
+        // so any lock here was saved on the deseasonalised data
       }
     }
   }, [
+    seasonalityStateHydrated,
     labelHasSeasonality,
+    attributeChartType,
     autoAppliedSeasonality,
     seasonalityActive,
     rawDataPoints,
@@ -248,7 +665,9 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
   // Will NOT re-trigger when removing trend/seasonality - only on initial load or explicit reset
   useEffect(() => {
     if (
+      lockStateHydrated &&
       !autoLockAttempted &&
+      !attributeChartType &&
       !trendActive &&
       !seasonalityActive &&
       !labelHasTrend &&
@@ -265,6 +684,7 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         setAutoSuggestedLimits(result.limits);
         setOutlierIndices(result.outlierIndices);
         setOriginalAutoOutliers(result.outlierIndices); // Store original auto-detected outliers
+        setLockedLimitStatus(LockedLimitStatus.LOCKED);
         setAutoLocked(true);
         setAutoLockAttempted(true);
       } else {
@@ -273,8 +693,10 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
       }
     }
   }, [
+    lockStateHydrated,
     rawDataPoints,
     autoLockAttempted,
+    attributeChartType,
     trendActive,
     seasonalityActive,
     labelHasTrend,
@@ -305,10 +727,141 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     seasonalityGrouping,
   ]);
 
+  // Warn when data has arrived (or changed) since the saved factors were fitted
+  const staleSeasonalityMessage = useMemo(() => {
+    if (!seasonalityActive || !savedSeasonality?.isActive) {
+      return null;
+    }
+
+    const newPointCount =
+      rawDataPoints.length - savedSeasonality.dataPointCount;
+    const lastTimestamp = rawDataPoints[rawDataPoints.length - 1]?.timestamp;
+
+    if (
+      newPointCount === 0 &&
+      lastTimestamp === savedSeasonality.dataEndTimestamp
+    ) {
+      return null;
+    }
+
+    const fittedRange = `${savedSeasonality.dataStartTimestamp ?? "?"} to ${
+      savedSeasonality.dataEndTimestamp ?? "?"
+    }`;
+
+    return newPointCount > 0
+      ? `${newPointCount} new data point${
+          newPointCount !== 1 ? "s have" : " has"
+        } arrived since the seasonal factors were fitted (${fittedRange}). Re-apply deseasonalisation to refit them.`
+      : `The data has changed since the seasonal factors were fitted (${fittedRange}). Re-apply deseasonalisation to refit them.`;
+  }, [seasonalityActive, savedSeasonality, rawDataPoints]);
+
   // Generate base XMR data first (needed for avgMovement in trend calculations)
   const baseXmrData = useMemo(() => {
-    return generateXMRData(processedDataPoints);
-  }, [processedDataPoints]);
+    return generateXMRData(processedDataPoints, false, ruleSet);
+  }, [processedDataPoints, ruleSet]);
+
+  // Plotted points with ISO timestamps - the segment helpers parse timestamps
+  // with the Date constructor, which does not understand YYYYMM/YYYYMMDD
+  const plottedPoints = useMemo(
+    () =>
+      baseXmrData.dataPoints.map((point) => ({
+        ...point,
+        timestamp: parseTimestamp(point.timestamp).toISOString(),
+      })),
+    [baseXmrData.dataPoints]
+  );
+
+  // Snap each divider to the first plotted point at or after it
+  // Dividers that would leave a segment too short (e.g. after data changed) are ignored
+  const dividerPositions = useMemo<ChartDivider[]>(() => {
+    const times = plottedPoints.map((point) =>
+      new Date(point.timestamp).getTime()
+    );
+    const positions: ChartDivider[] = [];
+
+    for (const divider of sortDividers(dividers)) {
+      const index = times.findIndex((time) => time >= divider.x);
+      if (
+        index !== -1 &&
+        isValidDividerPlacement(
+          [...positions.map((position) => position.index), index],
+          times.length
+        )
+      ) {
+        positions.push({ id: divider.id, index });
+      }
+    }
+
+    return positions;
+  }, [dividers, plottedPoints]);
+
+  // Split the chart into segments with their own limits
+  // Dividers and trend lines are mutually exclusive
+  const segmentation = useMemo(() => {
+    if (attributeChartType || trendActive || dividerPositions.length === 0) {
+      return null;
+    }
+
+    const segmentStats = calculateSegmentStats(plottedPoints, [
+      ...createBoundaryDividers(plottedPoints),
+      ...dividerPositions.map((position) => ({
+        id: position.id,
+        x: new Date(plottedPoints[position.index].timestamp).getTime(),
+      })),
+    ]);
+
+    let startIndex = 0;
+    const segments: ChartSegment[] = segmentStats.map((segment, index) => {
+      const range = {
+        startIndex,
+        endIndex: startIndex + segment.dataPoints.length - 1,
+        // Locked limits only apply to the first segment
+        limits:
+          index === 0 && isLimitsLocked && lockedLimits
+            ? lockedLimits
+            : segment.limits,
+      };
+      startIndex += segment.dataPoints.length;
+      return range;
+    });
+
+    return { segmentStats, segments };
+  }, [
+    attributeChartType,
+    trendActive,
+    dividerPositions,
+    plottedPoints,
+    isLimitsLocked,
+    lockedLimits,
+  ]);
+
+  // Shifts in the process that a divider could mark, within each segment
+  const shiftSuggestions = useMemo<ShiftSuggestion[]>(() => {
+    if (attributeChartType || trendActive) {
+      return [];
+    }
+
+    return suggestProcessShifts(
+      plottedPoints,
+      [
+        ...createBoundaryDividers(plottedPoints),
+        ...dividerPositions.map((position) => ({
+          id: position.id,
+          x: new Date(plottedPoints[position.index].timestamp).getTime(),
+        })),
+      ],
+      ruleSet,
+      MAX_DIVIDERS - dividers.length,
+      MIN_SEGMENT_POINTS
+    );
+  }, [
+    attributeChartType,
+    trendActive,
+    plottedPoints,
+    dividers.length,
+    dividerPositions,
+    ruleSet,
+  ]);
 
   // Calculate trend lines when trend is active (needs avgMovement from baseXmrData)
   const trendLines = useMemo<TrendLimits | null>(() => {
@@ -339,19 +892,52 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     storedTrendLines,
   ]);
 
+  // Attribute chart limits come from the counts rather than the moving ranges
+  const attributeData = useMemo(
+    () =>
+      attributeChartType && attributePoints
+        ? generateAttributeData(attributePoints, attributeChartType, ruleSet)
+        : null,
+    [attributeChartType, attributePoints, ruleSet]
+  );
+
   // Memoize XMR data generation with trend/locked limits support
   const xmrData = useMemo(() => {
+    if (attributeData) {
+      return attributeData;
+    }
+
     // If trend is active, use trend limits and recalculate violations relative to trend
     if (trendActive && trendLines) {
       // Recalculate violations relative to trend lines
       const updatedViolations = detectViolations(
         baseXmrData.dataPoints,
         baseXmrData.limits,
-        trendLines
+        trendLines,
+        ruleSet
+      );
+
+      return {
+        ...baseXmrData,
+        violations: updatedViolations,
+      };
+    }
+
+    // If dividers are placed, each segment is checked against its own limits
+    // The latest segment's limits describe the current process
+    if (segmentation) {
+      const updatedViolations = detectViolationsWithSegments(
+        plottedPoints,
+        segmentation.segmentStats,
+        isLimitsLocked ? lockedLimits : null,
+        null,
+        lockedLimitStatus,
+        ruleSet
       );
 
       return {
         ...baseXmrData,
+        limits: segmentation.segments[segmentation.segments.length - 1].limits,
         violations: updatedViolations,
       };
     }
@@ -361,7 +947,9 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
       // Recalculate violations based on locked limits
       const updatedViolations = detectViolations(
         baseXmrData.dataPoints,
-        lockedLimits
+        lockedLimits,
+        undefined,
+        ruleSet
       );
 
       return {
@@ -372,12 +960,26 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     }
 
     return baseXmrData;
-  }, [baseXmrData, isLimitsLocked, lockedLimits, trendActive, trendLines]);
+  }, [
+    attributeData,
+    baseXmrData,
+    isLimitsLocked,
+    lockedLimits,
+    lockedLimitStatus,
+    trendActive,
+    trendLines,
+    segmentation,
+    plottedPoints,
+    ruleSet,
+  ]);
 
   // Calculate unified effective limits based on active state
   // This is used for consistent traffic light calculations
   const effectiveLimits = useMemo(() => {
-    if (trendActive && trendLines) {
+    if (attributeData) {
+      // The latest point's limits
+      return xmrData.limits;
+    } else if (trendActive && trendLines) {
       // For trend, use the limits at the last point
       const lastIndex = xmrData.dataPoints.length - 1;
       return {
@@ -393,6 +995,9 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
           trendLines.upperQuartile[lastIndex]?.value ??
           xmrData.limits.upperQuartile,
       };
+    } else if (segmentation) {
+      // Use the latest segment's limits
+      return xmrData.limits;
     } else if (isLimitsLocked && lockedLimits) {
       // Use locked limits
       return lockedLimits;
@@ -401,10 +1006,12 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
       return xmrData.limits;
     }
   }, [
+    attributeData,
     trendActive,
     trendLines,
     isLimitsLocked,
     lockedLimits,
+    segmentation,
     xmrData.limits,
     xmrData.dataPoints.length,
   ]);
@@ -415,6 +1022,48 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     [xmrData.limits]
   );
 
+  // EWMA or CUSUM of the latest segment, around the limits of the X chart
+  // Attribute charts and trend limits have no single centre line to compare with
+  const shiftChartView: ShiftChartView =
+    attributeChartType || trendActive ? "xmr" : selectedShiftChartView;
+  const shiftChartData = useMemo(() => {
+    if (shiftChartView === "xmr") {
+      return null;
+    }
+
+    const startIndex = segmentation
+      ? segmentation.segments[segmentation.segments.length - 1].startIndex
+      : 0;
+    const points = plottedPoints.slice(startIndex);
+    const ewma =
+      shiftChartView === "ewma"
+        ? calculateEWMA(points, xmrData.limits, shiftChartParams.lambda)
+        : null;
+    const cusum =
+      shiftChartView === "cusum"
+        ? calculateCUSUM(
+            points,
+            xmrData.limits,
+            shiftChartParams.k,
+            shiftChartParams.h
+          )
+        : null;
+    const signals = ewma?.signals ?? cusum?.signals ?? [];
+
+    return {
+      startIndex,
+      ewma,
+      cusum,
+      signalAtLatestPoint: signals.includes(points.length - 1),
+    };
+  }, [
+    shiftChartView,
+    segmentation,
+    plottedPoints,
+    xmrData.limits,
+    shiftChartParams,
+  ]);
+
   // Memoize chart data transformation
   const chartData = useMemo(() => {
     // Check if data spans multiple years
@@ -424,6 +1073,12 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     const years = new Set(dates.map((date) => date.getFullYear()));
     const spansMultipleYears = years.size > 1;
 
+    // Each point's range is checked against its own segment's URL
+    const urlAt = (index: number) =>
+      segmentation?.segments.find(
+        (segment) => index >= segment.startIndex && index <= segment.endIndex
+      )?.limits.URL ?? xmrData.limits.URL;
+
     return xmrData.dataPoints.map((point, index) => {
       const date = parseTimestamp(point.timestamp);
 
@@ -435,24 +1090,22 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         xmrData.violations.twoOfThreeBeyondTwoSigma.includes(index);
       const isFifteenWithinOneSigma =
         xmrData.violations.fifteenWithinOneSigma.includes(index);
+      const isTrendingPoint = xmrData.violations.trendingPoints.includes(index);
+      const isAlternatingPoint =
+        xmrData.violations.alternatingPoints.includes(index);
+      const isFourOfFiveBeyondOneSigma =
+        xmrData.violations.fourOfFiveBeyondOneSigma.includes(index);
+      const isEightBeyondOneSigma =
+        xmrData.violations.eightBeyondOneSigma.includes(index);
 
       // Check if range exceeds URL (for MR chart)
-      const isRangeViolation = point.range > xmrData.limits.URL;
+      const isRangeViolation = point.range > urlAt(index);
 
       // Determine highest priority violation (for tooltip and hover display)
-      // Priority: Rule 1 > Rule 4 > Rule 3 > Rule 2 > Rule 5
-      let highestPriorityViolation: string | null = null;
-      if (isViolation) {
-        highestPriorityViolation = "rule1"; // Outside Control Limits
-      } else if (isTwoOfThreeBeyondTwoSigma) {
-        highestPriorityViolation = "rule4"; // 2 of 3 Beyond 2σ
-      } else if (isFourNearLimit) {
-        highestPriorityViolation = "rule3"; // 4 Near Limit Pattern
-      } else if (isRunningPoint) {
-        highestPriorityViolation = "rule2"; // Running Point Pattern
-      } else if (isFifteenWithinOneSigma) {
-        highestPriorityViolation = "rule5"; // Low Variation
-      }
+      const highestPriorityViolation =
+        VIOLATION_PRIORITY.find((type) =>
+          xmrData.violations[VIOLATION_DETAIL_KEYS[type]].includes(index)
+        ) ?? null;
 
       // Format timestamp with or without year depending on whether data spans multiple years
       const timestampFormat = spansMultipleYears
@@ -472,21 +1125,31 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         value: Number(point.value.toFixed(2)),
         range: Number(point.range.toFixed(2)),
         confidence: rawDataPoints[index + 1]?.confidence, // +1 because moving range starts from second point
+        numerator: attributePoints?.[index + 1]?.count ?? null,
+        denominator: attributePoints?.[index + 1]?.size ?? null,
         fullDate: date,
         isViolation,
         isRunningPoint,
         isFourNearLimit,
         isTwoOfThreeBeyondTwoSigma,
         isFifteenWithinOneSigma,
+        isTrendingPoint,
+        isAlternatingPoint,
+        isFourOfFiveBeyondOneSigma,
+        isEightBeyondOneSigma,
         isRangeViolation,
         highestPriorityViolation, // Add the highest priority violation
+        originalValue: originalValues.get(point.timestamp) ?? null, // Set when the point was restated
       };
     });
   }, [
     xmrData.dataPoints,
     xmrData.violations,
     xmrData.limits.URL,
+    segmentation,
     rawDataPoints,
+    attributePoints,
+    originalValues,
   ]);
 
   const hasData = chartData.length >= MINIMUM_XMR_DATA_POINTS;
@@ -644,15 +1307,19 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
 
     // --- Decision Logic (incorporating trend direction) ---
 
-    // Check for critical violations (Rule 1 and Rule 4)
-    const hasCriticalViolation =
-      lastPoint.isViolation || lastPoint.isTwoOfThreeBeyondTwoSigma;
+    // Check which of the rule set's violations the last point is part of
+    const isViolatingAny = (index: number, types: ViolationType[]) =>
+      types.some((type) =>
+        xmrData.violations[VIOLATION_DETAIL_KEYS[type]].includes(index)
+      );
+
+    // Check for critical violations (beyond the limits or clustered near them)
+    const hasCriticalViolation = isViolatingAny(lastIndex, CRITICAL_VIOLATIONS);
 
-    // Check for pattern violations (Rule 2 and Rule 3)
-    const hasPatternViolation =
-      lastPoint.isRunningPoint || lastPoint.isFourNearLimit;
+    // Check for pattern violations (runs, trends and points near a limit)
+    const hasPatternViolation = isViolatingAny(lastIndex, PATTERN_VIOLATIONS);
 
-    // Check for low variation (Rule 5)
+    // Check for low variation
     const hasLowVariation = lastPoint.isFifteenWithinOneSigma;
 
     // RED: True out-of-control situations (sudden, unexpected violations)
@@ -663,7 +1330,13 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         recentPoints.length >= 3 &&
         recentPoints
           .slice(0, -1)
-          .every((p) => !p.isViolation && !p.isTwoOfThreeBeyondTwoSigma);
+          .every(
+            (_, i) =>
+              !isViolatingAny(
+                chartData.length - recentPoints.length + i,
+                CRITICAL_VIOLATIONS
+              )
+          );
 
       // Unfavorable violations are more critical
       if (isUnfavorableMovement && (isSuddenSpike || isIsolatedViolation)) {
@@ -686,8 +1359,8 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
 
     // YELLOW: Warning conditions (within limits but concerning)
     const warningConditions = [
-      // Western Electric Pattern Violations
-      // 1. Pattern violations (Rule 2 and Rule 3) - always concerning
+      // Detection Rule Pattern Violations
+      // 1. Pattern violations (runs, trends, points near a limit) - always concerning
       hasPatternViolation,
 
       // Statistical Warning Conditions
@@ -733,6 +1406,9 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
       varianceFromBaseline > 2.0 &&
         normalizedDeviation > 1.5 &&
         isUnfavorableFromBaseline,
+
+      // 13. Sustained shift on the EWMA or CUSUM chart, when one is shown
+      !!shiftChartData?.signalAtLatestPoint,
     ];
 
     // Trigger yellow if ANY warning condition is met
@@ -740,7 +1416,7 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
       return "yellow";
     }
 
-    // GREEN with bonus indicator: Process is very stable (Rule 5)
+    // GREEN with bonus indicator: Process is very stable (low variation)
     // Note: Low variation is generally good, just informational
     // hasLowVariation is tracked but doesn't affect the color
 
@@ -753,6 +1429,7 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     submetric.trend,
     trendActive,
     trendLines,
+    shiftChartData,
   ]);
 
   // Memoize Y-axis domain calculation
@@ -763,49 +1440,164 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     const dataMin = Math.min(...values);
     const dataMax = Math.max(...values);
 
-    // Include control limits in the domain calculation
-    const minBound = Math.min(dataMin, xmrData.limits.LNPL);
-    const maxBound = Math.max(dataMax, xmrData.limits.UNPL);
+    // Include control limits in the domain calculation (every segment's, if divided)
+    const limitSets = segmentation
+      ? segmentation.segments.map((segment) => segment.limits)
+      : [xmrData.limits];
+    // Attribute chart limits widen where subgroups are small
+    const attributeBounds = attributeData
+      ? [
+          ...attributeData.pointLimits.unpl.map((point) => point.value),
+          ...attributeData.pointLimits.lnpl.map((point) => point.value),
+        ]
+      : [];
+    // Spec limits too, so their lines stay on the chart
+    const specValues = specLimits
+      ? [specLimits.USL, specLimits.LSL, specLimits.target].filter(
+          (value): value is number => value !== null
+        )
+      : [];
+    const minBound = Math.min(
+      dataMin,
+      ...limitSets.map((limits) => limits.LNPL),
+      ...attributeBounds,
+      ...specValues
+    );
+    const maxBound = Math.max(
+      dataMax,
+      ...limitSets.map((limits) => limits.UNPL),
+      ...attributeBounds,
+      ...specValues
+    );
     const fullRange = maxBound - minBound;
 
     // Use 15% padding of the full range (including control limits)
     const padding = fullRange * 0.15;
 
     return [minBound - padding, maxBound + padding];
-  }, [chartData, xmrData.limits]);
+  }, [chartData, xmrData.limits, segmentation, attributeData, specLimits]);
+
+  // Capability of the current process - the latest segment if divided
+  const capabilityReport = useMemo(() => {
+    // Capability indices assume a continuous measurement, not counts
+    if (
+      attributeChartType ||
+      !specLimits ||
+      plottedPoints.length < MINIMUM_XMR_DATA_POINTS
+    ) {
+      return null;
+    }
+
+    const startIndex = segmentation
+      ? segmentation.segments[segmentation.segments.length - 1].startIndex
+      : 0;
+    const capability = calculateProcessCapability(
+      plottedPoints.slice(startIndex),
+      xmrData.limits,
+      specLimits
+    );
+
+    // Indices only predict performance for a predictable process
+    const hasSignals = Object.values(xmrData.violations).some((indices) =>
+      indices.some((index: number) => index >= startIndex)
+    );
+    const warning = trendActive
+      ? "A trend is applied, so the process is not steady and the indices don't describe its future performance."
+      : hasSignals
+      ? "The process is unpredictable - the detection rules found signals - so the indices aren't meaningful until it is brought under control."
+      : null;
+
+    return { capability, warning };
+  }, [
+    attributeChartType,
+    specLimits,
+    plottedPoints,
+    segmentation,
+    xmrData.limits,
+    xmrData.violations,
+    trendActive,
+  ]);
 
   // Handlers
+  const handleSaveError = (action: string) => (error: Error) => {
+    console.error(`Error ${action}:`, error);
+    setSaveError(`Failed ${action}: ${error.message}`);
+  };
+
+  const persistLockState = (
+    limits: XMRLimits | null,
+    status: LockedLimitStatus,
+    isAutoLocked: boolean,
+    isManuallyModified: boolean,
+    excludedIndices: number[],
+    autoOutlierIndices: number[]
+  ) => {
+    // Viewers can lock limits to explore, but only editors save them. Saving
+    // before the stored state has loaded would overwrite it unseen.
+    if (!canEdit || !lockLimitsLoaded) return;
+
+    saveLockLimitsMutation.mutate(
+      {
+        submetricId: submetric.id,
+        data: {
+          limits,
+          status,
+          isAutoLocked,
+          isManuallyModified,
+          excludedTimestamps: indicesToTimestamps(excludedIndices),
+          outlierTimestamps: indicesToTimestamps(autoOutlierIndices),
+        },
+      },
+      {
+        onError: handleSaveError("saving lock limits"),
+      }
+    );
+  };
+
   const handleLockLimits = (
     limits: XMRLimits,
     isManuallyModified: boolean,
-    excludedIndices: number[]
+    excludedIndices: number[],
+    status: LockedLimitStatus
   ) => {
     setLockedLimits(limits);
     setIsLimitsLocked(true);
+    setLockedLimitStatus(status);
+
+    let nextAutoLocked = false;
+    let nextManuallyModified = hasEverBeenManuallyModified;
+    let nextExcludedIndices = excludedIndices;
+    let nextOutlierIndices = outlierIndices;
 
     // If user made any changes in the dialog (data edits, exclusions, or manual limit changes),
     // mark it as manual lock
     if (isManuallyModified) {
-      setAutoLocked(false);
-      setHasEverBeenManuallyModified(true);
-      setManuallyExcludedIndices(excludedIndices); // Store manually excluded indices
-      setOutlierIndices([]); // Clear auto-detected outlier indices
-    } else if (hasEverBeenManuallyModified) {
-      // Even if no changes this time, preserve manual state if ever modified
-      setAutoLocked(false);
-      setManuallyExcludedIndices(excludedIndices);
-    } else if (autoLocked) {
+      nextManuallyModified = true;
+      nextOutlierIndices = []; // Clear auto-detected outlier indices
+    } else if (autoLocked && !hasEverBeenManuallyModified) {
       // Was already auto-locked, preserve auto-lock state (user just re-opened and confirmed)
-      setAutoLocked(true);
-      setManuallyExcludedIndices([]);
+      nextAutoLocked = true;
+      nextExcludedIndices = [];
     } else {
-      // User manually opened dialog and locked (not from auto-lock) → manual lock
-      setAutoLocked(false);
-      setHasEverBeenManuallyModified(true);
-      setManuallyExcludedIndices(excludedIndices);
+      // Preserve manual state if ever modified, otherwise the user manually
+      // opened the dialog and locked (not from auto-lock) → manual lock
+      nextManuallyModified = true;
     }
 
+    setAutoLocked(nextAutoLocked);
+    setHasEverBeenManuallyModified(nextManuallyModified);
+    setManuallyExcludedIndices(nextExcludedIndices);
+    setOutlierIndices(nextOutlierIndices);
     setAutoSuggestedLimits(null); // Clear auto-suggestions after locking
+
+    persistLockState(
+      limits,
+      status,
+      nextAutoLocked,
+      nextManuallyModified,
+      nextExcludedIndices,
+      nextOutlierIndices
+    );
   };
 
   const handleUnlockLimits = () => {
@@ -815,8 +1607,12 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     setOutlierIndices([]);
     setManuallyExcludedIndices([]);
     setAutoLocked(false); // Reset auto-locked state when unlocking
+    setLockedLimitStatus(LockedLimitStatus.UNLOCKED);
     // Don't reset autoLockAttempted - once unlocked, chart uses default calculated limits
     // To restore auto-lock, user must explicitly click "Reset to Auto Lock Limit"
+
+    // Save the unlock so auto-lock does not re-apply on the next page load
+    persistLockState(null, LockedLimitStatus.UNLOCKED, false, false, [], []);
   };
 
   const handleResetToAutoLock = () => {
@@ -831,51 +1627,140 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     setAutoLocked(true);
     setHasEverBeenManuallyModified(false);
     setAutoLockAttempted(true);
+    setLockedLimitStatus(LockedLimitStatus.LOCKED);
+
+    // Drop the saved lock so auto-lock is recalculated from fresh data on load
+    if (!canEdit || !lockLimitsLoaded) return;
+    deleteLockLimitsMutation.mutate(submetric.id, {
+      onError: handleSaveError("resetting lock limits"),
+    });
   };
 
-  const handleApplyTrend = (gradient: number, intercept: number) => {
+  const persistTrend = (
+    isActive: boolean,
+    gradient: number,
+    intercept: number,
+    isManuallyModified: boolean
+  ) => {
+    if (!canEdit || !trendLoaded) return;
+
+    saveTrendMutation.mutate(
+      {
+        submetricId: submetric.id,
+        data: { isActive, gradient, intercept, isManuallyModified },
+      },
+      {
+        onError: handleSaveError("saving trend"),
+      }
+    );
+  };
+
+  const handleApplyTrend = (
+    gradient: number,
+    intercept: number,
+    isManuallyModified: boolean
+  ) => {
     setTrendGradient(gradient);
     setTrendIntercept(intercept);
+    setTrendManuallyModified(isManuallyModified);
     setTrendActive(true);
     setStoredTrendLines(null); // Clear stored lines to force recalculation
 
     // Clear incompatible states when applying trend
+    if (isLimitsLocked) {
+      persistLockState(null, LockedLimitStatus.UNLOCKED, false, false, [], []);
+    }
     setIsLimitsLocked(false);
     setLockedLimits(null);
+    setLockedLimitStatus(LockedLimitStatus.UNLOCKED);
     setAutoLocked(false);
     setAutoSuggestedLimits(null);
+
+    persistTrend(true, gradient, intercept, isManuallyModified);
   };
 
   const handleRemoveTrend = () => {
+    // Keep the last parameters in the audit trail
+    persistTrend(false, trendGradient, trendIntercept, trendManuallyModified);
+
     setTrendActive(false);
     setTrendGradient(0);
     setTrendIntercept(0);
     setStoredTrendLines(null); // Clear stored trend lines
+    setTrendManuallyModified(false);
 
     // Don't reset autoLockAttempted - auto-lock should only trigger on initial load
     // or when explicitly requested via "Reset to Auto Lock Limit"
   };
 
+  const persistSeasonality = (
+    isActive: boolean,
+    period: SeasonalityPeriod,
+    factors: number[],
+    grouping: SeasonalityGrouping,
+    isManuallyModified: boolean
+  ) => {
+    if (!canEdit || !seasonalityLoaded) return;
+
+    saveSeasonalityMutation.mutate(
+      {
+        submetricId: submetric.id,
+        data: {
+          isActive,
+          period,
+          grouping,
+          factors,
+          isManuallyModified,
+          // Remember the data the factors were fitted on
+          dataStartTimestamp: rawDataPoints[0]?.timestamp ?? null,
+          dataEndTimestamp:
+            rawDataPoints[rawDataPoints.length - 1]?.timestamp ?? null,
+          dataPointCount: rawDataPoints.length,
+        },
+      },
+      {
+        onError: handleSaveError("saving seasonality"),
+      }
+    );
+  };
+
   const handleApplySeasonality = (
     period: SeasonalityPeriod,
     factors: number[],
-    grouping: SeasonalityGrouping
+    grouping: SeasonalityGrouping,
+    isManuallyModified: boolean
   ) => {
     setSeasonalityPeriod(period);
     setSeasonalityGrouping(grouping);
     setSeasonalFactors(factors);
+    setSeasonalityManuallyModified(isManuallyModified);
     setSeasonalityActive(true);
     setStoredTrendLines(null); // Clear stored lines as data changes
 
     // Clear incompatible states when applying seasonality
+    if (isLimitsLocked) {
+      persistLockState(null, LockedLimitStatus.UNLOCKED, false, false, [], []);
+    }
+    setLockedLimitStatus(LockedLimitStatus.UNLOCKED);
     setIsLimitsLocked(false);
     setLockedLimits(null);
     setAutoLocked(false);
     setAutoSuggestedLimits(null);
+
+    persistSeasonality(true, period, factors, grouping, isManuallyModified);
   };
 
   const handleRemoveSeasonality = () => {
+    persistSeasonality(
+      false,
+      seasonalityPeriod,
+      seasonalFactors,
+      seasonalityGrouping,
+      seasonalityManuallyModified
+    );
+
     setSeasonalityActive(false);
+    setSeasonalityManuallyModified(false);
     setSeasonalFactors([]);
     setStoredTrendLines(null); // Clear stored lines as data changes
 
@@ -883,6 +1768,135 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
     // or when explicitly requested via "Reset to Auto Lock Limit"
   };
 
+  const persistDividers = (nextDividers: DividerLine[]) => {
+    if (!canEdit || !dividersLoaded) return;
+
+    saveDividersMutation.mutate(
+      { submetricId: submetric.id, dividers: nextDividers },
+      {
+        onError: handleSaveError("saving dividers"),
+      }
+    );
+  };
+
+  const dividerTimeAt = (index: number) =>
+    new Date(plottedPoints[index].timestamp).getTime();
+
+  const handleSaveDataPoints = async (dataPoints: DataPointJson[]) => {
+    try {
+      await saveDataPointsMutation.mutateAsync({
+        submetricId: submetric.id,
+        dataPoints,
+      });
+      setIsDataDialogOpen(false);
+      // The slide is rendered from server data, so reload it with the new points
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving data points:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to save data points"
+      );
+    }
+  };
+
+  const handleAddDivider = () => {
+    const withBoundaries = addDivider([
+      ...createBoundaryDividers(plottedPoints),
+      ...dividers,
+    ]);
+    const added = withBoundaries.find(
+      (divider) =>
+        !isShadowDivider(divider) &&
+        !dividers.some((existing) => existing.id === divider.id)
+    );
+    if (!added) return; // Maximum number of dividers reached
+
+    // Snap to the nearest point that leaves every segment usable
+    const occupied = dividerPositions.map((position) => position.index);
+    const target = plottedPoints.findIndex(
+      (point) => new Date(point.timestamp).getTime() >= added.x
+    );
+    const candidates = plottedPoints
+      .map((_, index) => index)
+      .sort((a, b) => Math.abs(a - target) - Math.abs(b - target));
+    const index = candidates.find((candidate) =>
+      isValidDividerPlacement([...occupied, candidate], plottedPoints.length)
+    );
+    if (index === undefined) return;
+
+    const nextDividers = [
+      ...dividers,
+      { id: added.id, x: dividerTimeAt(index) },
+    ];
+    setDividers(nextDividers);
+    persistDividers(nextDividers);
+  };
+
+  const handleAcceptShiftSuggestion = (suggestion: ShiftSuggestion) => {
+    const occupied = dividerPositions.map((position) => position.index);
+    if (
+      !isValidDividerPlacement(
+        [...occupied, suggestion.index],
+        plottedPoints.length
+      )
+    ) {
+      return;
+    }
+
+    const x = dividerTimeAt(suggestion.index);
+    const added = addDivider(
+      [...createBoundaryDividers(plottedPoints), ...dividers],
+      x
+    ).find(
+      (divider) =>
+        !isShadowDivider(divider) &&
+        !dividers.some((existing) => existing.id === divider.id)
+    );
+    if (!added) return; // Maximum number of dividers reached
+
+    const nextDividers = [...dividers, { id: added.id, x }];
+    setDividers(nextDividers);
+    persistDividers(nextDividers);
+  };
+
+  const handleMoveDivider = (dividerId: string, index: number) => {
+    const others = dividerPositions
+      .filter((position) => position.id !== dividerId)
+      .map((position) => position.index);
+    if (!isValidDividerPlacement([...others, index], plottedPoints.length)) {
+      return;
+    }
+
+    setDividers((current) =>
+      updateDividerPosition(current, dividerId, dividerTimeAt(index))
+    );
+  };
+
+  const handleShiftChartViewChange = (view: ShiftChartView) => {
+    setShiftChartViewOverride(view);
+    if (canEdit) {
+      saveShiftChartMutation.mutate(
+        {
+          submetricId: submetric.id,
+          shiftChart: { view, ...shiftChartParams },
+        },
+        {
+          onError: handleSaveError("saving shift chart"),
+        }
+      );
+    }
+  };
+
+  const handleDividerDragEnd = () => {
+    persistDividers(dividers);
+  };
+
+  const handleDeleteDivider = (dividerId: string) => {
+    const nextDividers = deleteDivider(dividers, dividerId);
+    setDividers(nextDividers);
+    persistDividers(nextDividers);
+  };
+
   return (
     <Card className="w-full gap-0">
       <CardHeader className="pb-0">
@@ -901,8 +1915,63 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 <span>{submetric.trend.toUpperCase()}</span>
               </span>
             )}
+            {attributeChartType && (
+              <span
+                className="px-2.5 py-1 rounded-full text-xs font-semibold bg-violet-100 text-violet-700 dark:bg-violet-950 dark:text-violet-300"
+                title="Limits come from the numerator and denominator of each point"
+              >
+                {ATTRIBUTE_CHART_LABELS[attributeChartType]}
+              </span>
+            )}
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsDataDialogOpen(true)}
+                className="gap-2"
+              >
+                <Table2 className="h-4 w-4" />
+                Edit Data
+              </Button>
+            )}
+            {restatedPoints.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsRevisionsDialogOpen(true)}
+                className="gap-2"
+              >
+                <History className="h-4 w-4" />
+                {restatedPoints.length} Restated
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsRuleSetDialogOpen(true)}
+              title={
+                savedRuleSet
+                  ? "Rules chosen for this submetric"
+                  : "Workspace default rules"
+              }
+              className="gap-2"
+            >
+              <ShieldAlert className="h-4 w-4" />
+              {RULE_SET_PRESET_DEFINITIONS[ruleSet.preset].name} Rules
+            </Button>
+            {(canEdit || savedSpecLimits) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsSpecLimitsDialogOpen(true)}
+                className="gap-2"
+              >
+                <Target className="h-4 w-4" />
+                Spec Limits
+              </Button>
+            )}
           </div>
-          {hasData && (
+          {hasData && !attributeChartType && (
             <div className="flex items-center gap-2">
               {/* Removal buttons beside the action buttons */}
               {isLimitsLocked && (
@@ -975,12 +2044,55 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 <div className="h-6 w-px bg-border mx-1" />
               )}
 
+              {/* Chart shown beside the X chart */}
+              <div
+                className="flex items-center rounded-md border"
+                title={
+                  trendActive
+                    ? "EWMA and CUSUM charts are not available with trend limits"
+                    : "Show moving ranges, or an EWMA or CUSUM chart for small sustained shifts"
+                }
+              >
+                {SHIFT_CHART_VIEWS.map((view) => (
+                  <Button
+                    key={view}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleShiftChartViewChange(view)}
+                    disabled={trendActive}
+                    className={`rounded-none first:rounded-l-md last:rounded-r-md ${
+                      shiftChartView === view
+                        ? "bg-accent text-accent-foreground"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    {SHIFT_CHART_VIEW_LABELS[view]}
+                  </Button>
+                ))}
+              </div>
+              {shiftChartView !== "xmr" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsShiftChartDialogOpen(true)}
+                  title="EWMA and CUSUM parameters"
+                  aria-label="Shift chart settings"
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                </Button>
+              )}
+
               {/* Action buttons */}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => setIsLockLimitsDialogOpen(true)}
                 disabled={trendActive}
+                title={
+                  isLimitsLocked
+                    ? describeLockedLimitStatus(lockedLimitStatus)
+                    : undefined
+                }
                 className={`gap-2 ${
                   isLimitsLocked
                     ? "bg-green-50 text-green-600 border-green-600 hover:bg-green-100 dark:bg-green-950 dark:hover:bg-green-900"
@@ -997,6 +2109,8 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                             })`
                           : ""
                       }`
+                    : lockedLimitStatus & ~LockedLimitStatus.LOCKED
+                    ? "Locked & Modified"
                     : "Limits Locked"
                   : "Lock Limits"}
               </Button>
@@ -1004,7 +2118,9 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => setIsTrendDialogOpen(true)}
-                disabled={isLimitsLocked || seasonalityActive}
+                disabled={
+                  isLimitsLocked || seasonalityActive || dividers.length > 0
+                }
                 className={`gap-2 ${
                   trendActive
                     ? "bg-green-50 text-green-600 border-green-600 hover:bg-green-100 dark:bg-green-950 dark:hover:bg-green-900"
@@ -1040,6 +2156,17 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 </svg>
                 {seasonalityActive ? "Deseasonalised" : "Deseasonalise"}
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddDivider}
+                disabled={trendActive || dividers.length >= MAX_DIVIDERS}
+                title="Mark a process change - each segment gets its own limits"
+                className="gap-2"
+              >
+                <SeparatorVertical className="h-4 w-4" />
+                Add Divider
+              </Button>
             </div>
           )}
         </div>
@@ -1054,7 +2181,7 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 </span>
               )}
               <CardTitle className="text-2xl font-bold overflow-hidden text-ellipsis whitespace-nowrap min-w-0">
-                {submetric.label.split("-")[1].trim()}
+                {displayLabel}
               </CardTitle>
             </div>
 
@@ -1063,6 +2190,57 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
                 Unit: <span className="font-semibold">{submetric.unit}</span>
               </div>
             )}
+
+            {staleSeasonalityMessage && (
+              <div className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+                ⚠️ {staleSeasonalityMessage}
+              </div>
+            )}
+
+            {segmentation && (
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-muted-foreground">
+                <span>Process changes (drag on the X chart to move):</span>
+                {dividerPositions.map((position) => (
+                  <span
+                    key={position.id}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-violet-100 text-violet-700 dark:bg-violet-950 dark:text-violet-300"
+                  >
+                    {chartData[position.index]?.fullTimestamp}
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteDivider(position.id)}
+                      className="hover:text-red-600"
+                      aria-label="Remove divider"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {hasData && shiftSuggestions.length > 0 && (
+              <div className="flex flex-col gap-1 mt-2 text-xs text-muted-foreground">
+                {shiftSuggestions.map((suggestion) => (
+                  <div
+                    key={suggestion.timestamp}
+                    className="flex items-center gap-2"
+                  >
+                    <Lightbulb className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+                    <span>Possible process change: {suggestion.evidence}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleAcceptShiftSuggestion(suggestion)}
+                      className="h-6 px-2 gap-1 text-xs"
+                    >
+                      <SeparatorVertical className="h-3 w-3" />
+                      Add Divider
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           {hasData && (
             <div className="flex flex-col items-end gap-2">
@@ -1086,12 +2264,34 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
             </div>
           )}
         </div>
+
+        {canEdit && settingsLoadError && (
+          <p className="mt-2 text-sm text-destructive">
+            Saved chart settings could not be loaded ({settingsLoadError}), so
+            changes made here are not saved
+          </p>
+        )}
+        {saveError && (
+          <div className="mt-2 flex items-center justify-between gap-2 rounded-md border border-destructive/50 px-3 py-1 text-sm text-destructive">
+            <span>{saveError}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSaveError(null)}
+              aria-label="Dismiss error"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="pt-0">
         {hasData ? (
           <div
-            className="grid grid-cols-1 lg:grid-cols-2"
+            className={`grid grid-cols-1 ${
+              attributeChartType ? "" : "lg:grid-cols-2"
+            }`}
             key={`chart-${trendActive}-${!!trendLines}-${isLimitsLocked}-${seasonalityActive}`}
           >
             {/* X Chart */}
@@ -1102,19 +2302,56 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
               yAxisDomain={yAxisDomain}
               isDark={isDark}
               isLimitsLocked={isLimitsLocked}
+              lockedLimitStatus={lockedLimitStatus}
               trendActive={trendActive}
               trendLines={trendLines}
               showReducedTrendLimits={showReducedTrendLimits}
+              dividers={segmentation ? dividerPositions : undefined}
+              segments={segmentation?.segments}
+              onDividerMove={handleMoveDivider}
+              onDividerDragEnd={handleDividerDragEnd}
+              ruleSet={ruleSet}
+              specLimits={specLimits}
+              attributeLimits={attributeData?.pointLimits}
             />
 
-            {/* MR Chart */}
-            <SubmetricMRChart
-              chartData={chartData}
-              xmrLimits={xmrData.limits}
-              submetric={submetric}
-              isDark={isDark}
-              isLimitsLocked={isLimitsLocked}
-            />
+            {/* EWMA or CUSUM Chart in place of the MR chart */}
+            {shiftChartData && (
+              <SubmetricShiftChart
+                chartData={chartData}
+                startIndex={shiftChartData.startIndex}
+                ewmaData={shiftChartData.ewma}
+                cusumData={shiftChartData.cusum}
+                submetric={submetric}
+                isDark={isDark}
+                dividers={segmentation ? dividerPositions : undefined}
+              />
+            )}
+
+            {/* MR Chart - attribute charts have no moving range limits */}
+            {!attributeChartType && !shiftChartData && (
+              <SubmetricMRChart
+                chartData={chartData}
+                xmrLimits={xmrData.limits}
+                submetric={submetric}
+                isDark={isDark}
+                isLimitsLocked={isLimitsLocked}
+                dividers={segmentation ? dividerPositions : undefined}
+                segments={segmentation?.segments}
+              />
+            )}
+
+            {/* Capability against the spec limits */}
+            {capabilityReport && specLimits && (
+              <div className="lg:col-span-2">
+                <SubmetricCapabilityPanel
+                  capability={capabilityReport.capability}
+                  specLimits={specLimits}
+                  unit={submetric.unit}
+                  warning={capabilityReport.warning}
+                />
+              </div>
+            )}
           </div>
         ) : (
           <div className="h-[500px] flex items-center justify-center text-muted-foreground">
@@ -1139,7 +2376,8 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         dataPoints={rawDataPoints}
         currentLimits={autoSuggestedLimits || xmrData.limits}
         onLockLimits={handleLockLimits}
-        submetricName={submetric.label.split("-")[1].trim()}
+        submetricId={submetric.id}
+        submetricName={displayLabel}
         outlierIndices={
           hasEverBeenManuallyModified ? manuallyExcludedIndices : outlierIndices
         }
@@ -1147,14 +2385,19 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         autoDetectedOutliers={originalAutoOutliers}
         onResetToAutoLock={handleResetToAutoLock}
         isAutoLocked={autoLocked}
+        lockedLimitStatus={isLimitsLocked ? lockedLimitStatus : undefined}
       />
 
       {/* Trend Dialog */}
       <SubmetricTrendDialog
         open={isTrendDialogOpen}
         onOpenChange={setIsTrendDialogOpen}
+        submetricId={submetric.id}
         dataPoints={rawDataPoints}
         onApplyTrend={handleApplyTrend}
+        initialGradient={trendActive ? trendGradient : undefined}
+        initialIntercept={trendActive ? trendIntercept : undefined}
+        initialIsManuallyEdited={trendActive && trendManuallyModified}
       />
 
       {/* Seasonality Dialog */}
@@ -1166,6 +2409,63 @@ export function SubmetricLineChart({ submetric }: SubmetricLineChartProps) {
         initialPeriod={seasonalityPeriod}
         initialFactors={seasonalFactors}
         initialGrouping={seasonalityGrouping}
+        initialFactorsManuallyEdited={seasonalityManuallyModified}
+        staleFactorsMessage={staleSeasonalityMessage}
+      />
+
+      {/* Data Editor Dialog */}
+      {canEdit && (
+        <SubmetricDataDialog
+          open={isDataDialogOpen}
+          onOpenChange={setIsDataDialogOpen}
+          submetricName={displayLabel}
+          dataPoints={submetric.dataPoints ?? []}
+          onSave={handleSaveDataPoints}
+          isSaving={saveDataPointsMutation.isPending}
+        />
+      )}
+
+      {/* Detection Rules Dialog */}
+      <SubmetricRuleSetDialog
+        open={isRuleSetDialogOpen}
+        onOpenChange={setIsRuleSetDialogOpen}
+        submetricId={submetric.id}
+        submetricName={displayLabel}
+        savedRuleSet={savedRuleSet}
+        workspaceRuleSet={workspaceRuleSet}
+        canEdit={canEdit}
+      />
+
+      {/* Spec Limits Dialog */}
+      <SubmetricSpecLimitsDialog
+        open={isSpecLimitsDialogOpen}
+        onOpenChange={setIsSpecLimitsDialogOpen}
+        submetricId={submetric.id}
+        submetricName={displayLabel}
+        unit={submetric.unit}
+        savedSpecLimits={savedSpecLimits}
+        canEdit={canEdit}
+      />
+
+      {/* Shift Chart Settings Dialog */}
+      <SubmetricShiftChartDialog
+        open={isShiftChartDialogOpen}
+        onOpenChange={setIsShiftChartDialogOpen}
+        submetricId={submetric.id}
+        submetricName={displayLabel}
+        view={shiftChartView}
+        savedShiftChart={savedShiftChart}
+        canEdit={canEdit}
+      />
+
+      {/* Restated Data Dialog */}
+      <SubmetricRevisionsDialog
+        open={isRevisionsDialogOpen}
+        onOpenChange={setIsRevisionsDialogOpen}
+        submetricId={submetric.id}
+        submetricName={displayLabel}
+        unit={submetric.unit}
+        restatedPoints={restatedPoints}
       />
     </Card>
   );
@@ -0,0 +1,363 @@
+"use client";
+
+import { ClipboardPaste, Plus, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  isValidTimestamp,
+  parseDataPointValue,
+  parseDataPointsCsv,
+  parseTimestamp,
+} from "@/lib/data-points";
+import type { DataPointJson } from "@/types/db/submetric";
+
+// Points typed or pasted in the editor are tagged with this source
+const MANUAL_SOURCE = "manual";
+
+interface DataRow {
+  key: string;
+  timestamp: string;
+  value: string;
+  original: DataPointJson | null; // Stored point the row was loaded from
+}
+
+interface SubmetricDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetricName: string;
+  dataPoints: DataPointJson[];
+  onSave: (dataPoints: DataPointJson[]) => Promise<void>;
+  isSaving?: boolean;
+}
+
+let nextRowKey = 0;
+const createRowKey = () => `row-${nextRowKey++}`;
+
+// Sort rows by time, leaving rows with unparseable timestamps at the end
+const sortRows = (rows: DataRow[]): DataRow[] =>
+  [...rows].sort((a, b) => {
+    const timeA = parseTimestamp(a.timestamp.trim()).getTime();
+    const timeB = parseTimestamp(b.timestamp.trim()).getTime();
+    if (Number.isNaN(timeA)) return Number.isNaN(timeB) ? 0 : 1;
+    if (Number.isNaN(timeB)) return -1;
+    return timeA - timeB;
+  });
+
+const toDataPoint = (row: DataRow, value: number): DataPointJson => {
+  const timestamp = row.timestamp.trim();
+  const original = row.original;
+
+  // Untouched points are saved exactly as they were stored
+  if (
+    original &&
+    original.timestamp === timestamp &&
+    Number(original.value) === value
+  ) {
+    return original;
+  }
+
+  return {
+    timestamp,
+    value,
+    // The editor only changes values; attribute chart counts are kept
+    numerator: original?.numerator ?? null,
+    denominator: original?.denominator ?? null,
+    confidence: original?.confidence ?? null,
+    source: MANUAL_SOURCE,
+    dimensions: original?.dimensions ?? null,
+  };
+};
+
+export function SubmetricDataDialog({
+  open,
+  onOpenChange,
+  submetricName,
+  dataPoints,
+  onSave,
+  isSaving = false,
+}: SubmetricDataDialogProps) {
+  const [rows, setRows] = useState<DataRow[]>([]);
+  const [pasteText, setPasteText] = useState("");
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  // Reset the editor whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setRows(
+      sortRows(
+        dataPoints.map((point) => ({
+          key: createRowKey(),
+          timestamp: point.timestamp,
+          value: String(point.value),
+          original: point,
+        }))
+      )
+    );
+    setPasteText("");
+    setImportMessage(null);
+  }, [open, dataPoints]);
+
+  // Per-row validation errors, keyed by row key
+  const rowErrors = useMemo(() => {
+    const errors = new Map<string, string>();
+    const seen = new Map<number, string>();
+
+    for (const row of rows) {
+      if (!isValidTimestamp(row.timestamp)) {
+        errors.set(row.key, "Invalid timestamp");
+        continue;
+      }
+      if (parseDataPointValue(row.value) === null) {
+        errors.set(row.key, "Invalid value");
+        continue;
+      }
+
+      const time = parseTimestamp(row.timestamp.trim()).getTime();
+      const duplicateOf = seen.get(time);
+      if (duplicateOf !== undefined) {
+        errors.set(row.key, `Same period as ${duplicateOf}`);
+      } else {
+        seen.set(time, row.timestamp.trim());
+      }
+    }
+
+    return errors;
+  }, [rows]);
+
+  const canSave = rowErrors.size === 0 && !isSaving;
+
+  const updateRow = (key: string, changes: Partial<DataRow>) => {
+    setRows((current) =>
+      current.map((row) => (row.key === key ? { ...row, ...changes } : row))
+    );
+  };
+
+  const handleAddRow = () => {
+    setRows((current) => [
+      ...current,
+      { key: createRowKey(), timestamp: "", value: "", original: null },
+    ]);
+  };
+
+  const handleDeleteRow = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key));
+  };
+
+  const handleImport = () => {
+    const parsed = parseDataPointsCsv(pasteText);
+    const valid = parsed.filter((row) => row.error === null);
+    const invalid = parsed.filter((row) => row.error !== null);
+
+    let added = 0;
+    let updated = 0;
+    const nextRows = [...rows];
+
+    // Pasted values replace rows for the same period and add the rest
+    for (const pastedRow of valid) {
+      const time = parseTimestamp(pastedRow.timestamp).getTime();
+      const index = nextRows.findIndex(
+        (row) =>
+          isValidTimestamp(row.timestamp) &&
+          parseTimestamp(row.timestamp.trim()).getTime() === time
+      );
+
+      if (index === -1) {
+        nextRows.push({
+          key: createRowKey(),
+          timestamp: pastedRow.timestamp,
+          value: String(pastedRow.value),
+          original: null,
+        });
+        added++;
+      } else {
+        nextRows[index] = {
+          ...nextRows[index],
+          value: String(pastedRow.value),
+        };
+        updated++;
+      }
+    }
+
+    setRows(sortRows(nextRows));
+
+    const skipped = invalid
+      .slice(0, 5)
+      .map((row) => `line ${row.line}: ${row.error}`)
+      .join("; ");
+    setImportMessage(
+      `Imported ${valid.length} row${valid.length !== 1 ? "s" : ""} ` +
+        `(${added} added, ${updated} updated).` +
+        (invalid.length > 0
+          ? ` Skipped ${invalid.length} line${
+              invalid.length !== 1 ? "s" : ""
+            } - ${skipped}${invalid.length > 5 ? "; ..." : ""}`
+          : "")
+    );
+    if (invalid.length === 0) {
+      setPasteText("");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    await onSave(
+      sortRows(rows).map((row) =>
+        toDataPoint(row, parseDataPointValue(row.value) as number)
+      )
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Data - {submetricName}</DialogTitle>
+          <DialogDescription>
+            Add, edit or delete data points, or paste two columns (timestamp and
+            value) copied from Excel or Sheets. Timestamps can be YYYYMM,
+            YYYYMMDD or ISO dates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="data-paste" className="text-sm font-medium">
+            Paste from a spreadsheet
+          </label>
+          <textarea
+            id="data-paste"
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder={"2025-01-06\t1234\n2025-01-13\t1180"}
+            rows={4}
+            className="border-input dark:bg-input/30 placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {importMessage ??
+                "Rows for a period that already exists replace its value."}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex shrink-0 items-center gap-2"
+              onClick={handleImport}
+              disabled={!pasteText.trim()}
+            >
+              <ClipboardPaste className="h-4 w-4" />
+              Import
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[40vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={3}
+                    className="text-center text-sm text-muted-foreground py-6"
+                  >
+                    No data points yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => {
+                  const error = rowErrors.get(row.key);
+                  return (
+                    <TableRow key={row.key}>
+                      <TableCell className="align-top">
+                        <Input
+                          value={row.timestamp}
+                          onChange={(e) =>
+                            updateRow(row.key, { timestamp: e.target.value })
+                          }
+                          placeholder="2025-01-06"
+                          aria-label="Timestamp"
+                          aria-invalid={!!error}
+                        />
+                        {error && (
+                          <p className="mt-1 text-xs text-destructive">
+                            {error}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Input
+                          value={row.value}
+                          onChange={(e) =>
+                            updateRow(row.key, { value: e.target.value })
+                          }
+                          inputMode="decimal"
+                          aria-label="Value"
+                        />
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-9 w-9 text-destructive"
+                          title="Delete data point"
+                          onClick={() => handleDeleteRow(row.key)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            className="flex items-center gap-2"
+            onClick={handleAddRow}
+          >
+            <Plus className="h-4 w-4" />
+            Add Row
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave}>
+              {isSaving
+                ? "Saving..."
+                : `Save ${rows.length} Point${rows.length !== 1 ? "s" : ""}`}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CreateSubmetricInput } from "@/lib/api";
+import type { Metric } from "@/types/db/metric";
+import type { Submetric } from "@/types/db/submetric";
+
+// Select items cannot have an empty value, so "none" stands for no trend
+const TREND_OPTIONS = [
+  { value: "none", label: "None" },
+  { value: "uptrend", label: "Uptrend (higher is better)" },
+  { value: "downtrend", label: "Downtrend (lower is better)" },
+  { value: "stable", label: "Stable" },
+];
+
+const CONTROL_CHART_OPTIONS = [
+  { value: "xmr", label: "XmR - individual values" },
+  { value: "p", label: "p - proportion defective (numerator / denominator)" },
+  { value: "np", label: "np - number defective, similar subgroup sizes" },
+  { value: "c", label: "c - count of defects, same area of opportunity" },
+  { value: "u", label: "u - defects per unit (numerator / denominator)" },
+];
+
+interface SubmetricFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetric: Submetric | null; // null creates a new submetric
+  metrics: Metric[]; // Metrics an existing submetric can be moved to
+  onSubmit: (data: CreateSubmetricInput, metricId: string) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function SubmetricFormDialog({
+  open,
+  onOpenChange,
+  submetric,
+  metrics,
+  onSubmit,
+  isSaving = false,
+}: SubmetricFormDialogProps) {
+  const [label, setLabel] = useState("");
+  const [category, setCategory] = useState("");
+  const [unit, setUnit] = useState("");
+  const [trend, setTrend] = useState("none");
+  const [controlChart, setControlChart] = useState("xmr");
+  const [color, setColor] = useState("");
+  const [metricId, setMetricId] = useState("");
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setLabel(submetric?.label ?? "");
+    setCategory(submetric?.category ?? "");
+    setUnit(submetric?.unit ?? "");
+    setTrend(submetric?.trend ?? "none");
+    setControlChart(submetric?.controlChart ?? "xmr");
+    setColor(submetric?.color ?? "");
+    setMetricId(submetric?.metricId ?? "");
+  }, [open, submetric]);
+
+  const canSubmit = label.trim().length > 0 && !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    await onSubmit(
+      {
+        label: label.trim(),
+        category: category.trim() || null,
+        unit: unit.trim() || null,
+        trend: trend === "none" ? null : trend,
+        controlChart,
+        color: color.trim() || null,
+      },
+      metricId
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>
+              {submetric ? "Edit Submetric" : "New Submetric"}
+            </DialogTitle>
+            <DialogDescription>
+              {submetric
+                ? "Update how this submetric is labelled and displayed."
+                : "Create a chart for a new series. Add data by ingesting it under the same label and category."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="submetric-label" className="text-sm font-medium">
+                Label
+              </label>
+              <Input
+                id="submetric-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Daily Active Users"
+                maxLength={200}
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label
+                  htmlFor="submetric-category"
+                  className="text-sm font-medium"
+                >
+                  Category
+                </label>
+                <Input
+                  id="submetric-category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="submetric-unit" className="text-sm font-medium">
+                  Unit
+                </label>
+                <Input
+                  id="submetric-unit"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="e.g. %, $, users"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label
+                  htmlFor="submetric-trend"
+                  className="text-sm font-medium"
+                >
+                  Direction
+                </label>
+                <Select value={trend} onValueChange={setTrend}>
+                  <SelectTrigger id="submetric-trend">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TREND_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label
+                  htmlFor="submetric-color"
+                  className="text-sm font-medium"
+                >
+                  Color
+                </label>
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-9 w-9 shrink-0 rounded-md border"
+                    style={{ backgroundColor: color || "transparent" }}
+                  />
+                  <Input
+                    id="submetric-color"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                    placeholder="#3b82f6"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label
+                htmlFor="submetric-control-chart"
+                className="text-sm font-medium"
+              >
+                Chart type
+              </label>
+              <Select value={controlChart} onValueChange={setControlChart}>
+                <SelectTrigger id="submetric-control-chart">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTROL_CHART_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {submetric && metrics.length > 1 && (
+              <div className="space-y-2">
+                <label
+                  htmlFor="submetric-metric"
+                  className="text-sm font-medium"
+                >
+                  Metric
+                </label>
+                <Select value={metricId} onValueChange={setMetricId}>
+                  <SelectTrigger id="submetric-metric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {metrics.map((metric) => (
+                      <SelectItem key={metric.id} value={metric.id}>
+                        {metric.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isSaving ? "Saving..." : submetric ? "Save" : "Create Submetric"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,7 +25,12 @@ import {
   generateXMRData,
   detectViolations,
   calculateXMRLimits,
+  LockedLimitStatus,
+  isAvgXModified,
+  isUnplModified,
+  isLnplModified,
 } from "@/lib/xmr-calculations";
+import { useSubmetricLockLimits } from "@/lib/api/submetrics";
 
 interface SubmetricLockLimitsDialogProps {
   open: boolean;
@@ -35,14 +40,17 @@ interface SubmetricLockLimitsDialogProps {
   onLockLimits: (
     limits: XMRLimits,
     isManuallyModified: boolean,
-    excludedIndices: number[]
+    excludedIndices: number[],
+    status: LockedLimitStatus
   ) => void;
+  submetricId: string;
   submetricName: string;
   outlierIndices?: number[];
   isCurrentLimitsManuallyLocked?: boolean;
   autoDetectedOutliers?: number[];
   onResetToAutoLock?: () => void;
   isAutoLocked?: boolean;
+  lockedLimitStatus?: LockedLimitStatus;
 }
 
 // Memoized table row component to prevent unnecessary re-renders
@@ -119,13 +127,18 @@ export function SubmetricLockLimitsDialog({
   dataPoints,
   currentLimits,
   onLockLimits,
+  submetricId,
   submetricName,
   outlierIndices = [],
   isCurrentLimitsManuallyLocked = false,
   autoDetectedOutliers = [],
   onResetToAutoLock,
   isAutoLocked = false,
+  lockedLimitStatus = LockedLimitStatus.UNLOCKED,
 }: SubmetricLockLimitsDialogProps) {
+  // Saved lock state (shares the cache populated by the chart card)
+  const { lockLimits: savedLockLimits } = useSubmetricLockLimits(submetricId);
+
   // State for editable data points (never actually removed, just marked as excluded)
   const [editedDataPoints, setEditedDataPoints] =
     useState<DataPoint[]>(dataPoints);
@@ -200,11 +213,12 @@ export function SubmetricLockLimitsDialog({
       setAvgMovement(currentLimits.avgMovement.toFixed(2));
       setUrl(currentLimits.URL.toFixed(2));
 
-      // Always reset field modification flags (to allow auto-recalculation)
+      // Restore modification flags from the saved lock status so manual
+      // overrides are not replaced by auto-recalculation
       setIsModified({
-        avgX: false,
-        unpl: false,
-        lnpl: false,
+        avgX: isAvgXModified(lockedLimitStatus),
+        unpl: isUnplModified(lockedLimitStatus),
+        lnpl: isLnplModified(lockedLimitStatus),
         avgMovement: false,
         url: false,
       });
@@ -217,7 +231,7 @@ export function SubmetricLockLimitsDialog({
         setHasUserMadeChanges(false);
       }
     }
-  }, [open, currentLimits, isCurrentLimitsManuallyLocked]);
+  }, [open, currentLimits, isCurrentLimitsManuallyLocked, lockedLimitStatus]);
 
   // Auto-recalculate limits when data or exclusions change
   // This provides real-time feedback as user modifies data or exclusions
@@ -360,6 +374,12 @@ export function SubmetricLockLimitsDialog({
     const isManuallyModified =
       hasUserMadeChanges || hasManualLimitModifications;
 
+    // Record which limits were hand-edited (drives quartile display)
+    let status = LockedLimitStatus.LOCKED;
+    if (isModified.avgX) status |= LockedLimitStatus.AVGX_MODIFIED;
+    if (isModified.unpl) status |= LockedLimitStatus.UNPL_MODIFIED;
+    if (isModified.lnpl) status |= LockedLimitStatus.LNPL_MODIFIED;
+
     onLockLimits(
       {
         avgX: Math.round(parsedAvgX * 100) / 100,
@@ -371,7 +391,8 @@ export function SubmetricLockLimitsDialog({
         upperQuartile: Math.round(upperQuartile * 100) / 100,
       },
       isManuallyModified,
-      excludedIndices // Pass the current excluded indices
+      excludedIndices, // Pass the current excluded indices
+      status
     );
 
     onOpenChange(false);
@@ -422,6 +443,19 @@ export function SubmetricLockLimitsDialog({
               Manual values take precedence. Click the trash icon to exclude
               data points, or the undo icon to include them back.
             </p>
+            {savedLockLimits?.limits && (
+              <p className="text-xs text-muted-foreground">
+                Limits saved{" "}
+                {new Date(savedLockLimits.updatedAt).toLocaleString("en-GB", {
+                  day: "2-digit",
+                  month: "short",
+                  year: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+                {savedLockLimits.isAutoLocked ? " (auto-locked)" : ""}
+              </p>
+            )}
             {outlierIndices.length > 0 && (
               <p className="text-sm font-medium text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 p-3 rounded-md border border-amber-200 dark:border-amber-800">
                 {isCurrentLimitsManuallyLocked ? (
@@ -1,6 +1,6 @@
 "use client";
 
-import { memo, useCallback, useMemo } from "react";
+import { Fragment, memo, useCallback, useMemo } from "react";
 import {
   LineChart,
   Line,
@@ -14,6 +14,11 @@ import {
 } from "recharts";
 import type { Submetric } from "@/types/db/submetric";
 import type { XMRLimits } from "@/lib/xmr-calculations";
+import {
+  createCategoryLookup,
+  type ChartDivider,
+  type ChartSegment,
+} from "./submetric-x-chart";
 
 interface SubmetricMRChartProps {
   chartData: any[];
@@ -21,8 +26,12 @@ interface SubmetricMRChartProps {
   submetric: Submetric;
   isDark: boolean;
   isLimitsLocked: boolean;
+  dividers?: ChartDivider[];
+  segments?: ChartSegment[] | null;
 }
 
+const NO_DIVIDERS: ChartDivider[] = [];
+
 export const SubmetricMRChart = memo(
   ({
     chartData,
@@ -30,18 +39,31 @@ export const SubmetricMRChart = memo(
     submetric,
     isDark,
     isLimitsLocked,
+    dividers = NO_DIVIDERS,
+    segments = null,
   }: SubmetricMRChartProps) => {
+    const isSegmented = !!segments && segments.length > 1;
+
+    const categoryAt = useMemo(
+      () => createCategoryLookup(chartData),
+      [chartData]
+    );
+
     // Calculate Y-axis domain for MR chart
     const mrYAxisDomain = useMemo(() => {
       if (chartData.length === 0) return [0, 100];
 
       const ranges = chartData.map((d) => d.range);
       const dataMax = Math.max(...ranges);
-      const maxBound = Math.max(dataMax, xmrLimits.URL);
+      const urls =
+        isSegmented && segments
+          ? segments.map((segment) => segment.limits.URL)
+          : [xmrLimits.URL];
+      const maxBound = Math.max(dataMax, ...urls);
       const padding = maxBound * 0.15;
 
       return [0, maxBound + padding];
-    }, [chartData, xmrLimits.URL]);
+    }, [chartData, xmrLimits.URL, isSegmented, segments]);
 
     // Memoize custom tooltip
     const CustomTooltip = useCallback(
@@ -254,23 +276,73 @@ export const SubmetricMRChart = memo(
             />
             <Tooltip content={CustomTooltip} />
 
-            {/* Average Movement Line */}
-            <ReferenceLine
-              y={xmrLimits.avgMovement}
-              stroke="#10b981"
-              strokeWidth={3}
-              strokeDasharray="8 4"
-              label={avgMovementLabel}
-            />
+            {isSegmented && segments ? (
+              // Step-wise limits - each segment is drawn up to the next divider
+              segments.map((segment, index) => {
+                const isLastSegment = index === segments.length - 1;
+                const start = categoryAt(segment.startIndex);
+                const end = categoryAt(
+                  segments[index + 1]?.startIndex ?? segment.endIndex
+                );
+                const isLockedSegment = index === 0 && isLimitsLocked;
 
-            {/* Upper Range Limit */}
-            <ReferenceLine
-              y={xmrLimits.URL}
-              stroke="#94a3b8"
-              strokeWidth={isLimitsLocked ? 2.5 : 2}
-              strokeDasharray={isLimitsLocked ? "" : "6 3"}
-              label={urlLabel}
-            />
+                return (
+                  <Fragment key={`segment-${segment.startIndex}`}>
+                    <ReferenceLine
+                      segment={[
+                        { x: start, y: segment.limits.avgMovement },
+                        { x: end, y: segment.limits.avgMovement },
+                      ]}
+                      stroke="#10b981"
+                      strokeWidth={3}
+                      strokeDasharray="8 4"
+                      label={isLastSegment ? avgMovementLabel : undefined}
+                    />
+                    <ReferenceLine
+                      segment={[
+                        { x: start, y: segment.limits.URL },
+                        { x: end, y: segment.limits.URL },
+                      ]}
+                      stroke="#94a3b8"
+                      strokeWidth={isLockedSegment ? 2.5 : 2}
+                      strokeDasharray={isLockedSegment ? "" : "6 3"}
+                      label={isLastSegment ? urlLabel : undefined}
+                    />
+                  </Fragment>
+                );
+              })
+            ) : (
+              <>
+                {/* Average Movement Line */}
+                <ReferenceLine
+                  y={xmrLimits.avgMovement}
+                  stroke="#10b981"
+                  strokeWidth={3}
+                  strokeDasharray="8 4"
+                  label={avgMovementLabel}
+                />
+
+                {/* Upper Range Limit */}
+                <ReferenceLine
+                  y={xmrLimits.URL}
+                  stroke="#94a3b8"
+                  strokeWidth={isLimitsLocked ? 2.5 : 2}
+                  strokeDasharray={isLimitsLocked ? "" : "6 3"}
+                  label={urlLabel}
+                />
+              </>
+            )}
+
+            {/* Process change dividers */}
+            {dividers.map((divider) => (
+              <ReferenceLine
+                key={divider.id}
+                x={categoryAt(divider.index)}
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+              />
+            ))}
 
             {/* Moving Range Line */}
             <Line
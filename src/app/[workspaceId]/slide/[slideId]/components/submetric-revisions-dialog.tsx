@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDataPointRevisions } from "@/lib/api/submetrics";
+import type {
+  DataPointJson,
+  SubmetricDataPointRevision,
+} from "@/types/db/submetric";
+
+interface SubmetricRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetricId: string;
+  submetricName: string;
+  unit: string | null;
+  restatedPoints: DataPointJson[]; // Points whose value has been restated
+}
+
+const formatValue = (value: number | null | undefined, unit: string | null) =>
+  value === null || value === undefined
+    ? "-"
+    : `${Number(value.toFixed(2))}${unit ? ` ${unit}` : ""}`;
+
+const formatChange = (original: number, current: number) => {
+  if (original === 0) return "-";
+  const change = ((current - original) / Math.abs(original)) * 100;
+  return `${change > 0 ? "+" : ""}${change.toFixed(1)}%`;
+};
+
+// Name of whoever made a change: the user, or the API key for ingestion
+const describeAuthor = (revision: SubmetricDataPointRevision) =>
+  revision.changedByName ||
+  revision.changedByEmail ||
+  (revision.apiKeyName ? `API key '${revision.apiKeyName}'` : "Unknown");
+
+const describeAction = (
+  revision: SubmetricDataPointRevision,
+  unit: string | null
+) => {
+  if (revision.action === "created") {
+    return `Created with ${formatValue(revision.value, unit)}`;
+  }
+  if (revision.action === "deleted") {
+    return `Deleted (was ${formatValue(revision.previousValue, unit)})`;
+  }
+  if (revision.value === revision.previousValue) {
+    return `Details updated (${formatValue(revision.value, unit)})`;
+  }
+  return `Restated ${formatValue(revision.previousValue, unit)} → ${formatValue(
+    revision.value,
+    unit
+  )}`;
+};
+
+export function SubmetricRevisionsDialog({
+  open,
+  onOpenChange,
+  submetricId,
+  submetricName,
+  unit,
+  restatedPoints,
+}: SubmetricRevisionsDialogProps) {
+  const [selectedTimestamp, setSelectedTimestamp] = useState<string | null>(
+    null
+  );
+
+  // Start from the most recent restated point whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedTimestamp(
+      restatedPoints[restatedPoints.length - 1]?.timestamp ?? null
+    );
+  }, [open, restatedPoints]);
+
+  const { revisions, loading } = useDataPointRevisions(
+    submetricId,
+    selectedTimestamp ?? undefined,
+    open && !!selectedTimestamp
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restated Data - {submetricName}</DialogTitle>
+          <DialogDescription>
+            Points whose value changed after it was first recorded. Select a
+            point to see every revision and who made it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[35vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Timestamp</TableHead>
+                <TableHead className="text-right">Original</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {restatedPoints.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={4}
+                    className="text-center text-sm text-muted-foreground py-6"
+                  >
+                    No points have been restated.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                [...restatedPoints].reverse().map((point) => (
+                  <TableRow
+                    key={point.timestamp}
+                    data-state={
+                      point.timestamp === selectedTimestamp
+                        ? "selected"
+                        : undefined
+                    }
+                    className="cursor-pointer"
+                    onClick={() => setSelectedTimestamp(point.timestamp)}
+                  >
+                    <TableCell className="font-medium">
+                      {point.timestamp}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatValue(point.originalValue, unit)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatValue(point.value, unit)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatChange(point.originalValue ?? 0, point.value)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {selectedTimestamp && (
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="font-semibold text-sm">
+              Revisions of {selectedTimestamp}:
+            </h3>
+            {loading ? (
+              <p className="text-xs text-muted-foreground">Loading...</p>
+            ) : revisions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No revisions were recorded for this point.
+              </p>
+            ) : (
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {revisions.map((revision) => (
+                  <li
+                    key={revision.id}
+                    className="text-xs text-muted-foreground flex justify-between gap-4"
+                  >
+                    <span>
+                      {describeAction(revision, unit)}
+                      {revision.source ? ` (${revision.source})` : ""}
+                    </span>
+                    <span className="whitespace-nowrap">
+                      {describeAuthor(revision)} ·{" "}
+                      {new Date(revision.createdAt).toLocaleString("en-GB", {
+                        day: "2-digit",
+                        month: "short",
+                        year: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDeleteRuleSet, useSaveRuleSet } from "@/lib/api/submetrics";
+import { RULE_SET_PRESET_DEFINITIONS, resolveRuleSet } from "@/lib/rule-sets";
+import type { SubmetricRuleSet } from "@/types/db/submetric";
+import type { RuleSetConfig } from "@/types/db/workspace";
+import {
+  RuleSetFields,
+  fromRuleSetForm,
+  toRuleSetForm,
+} from "../../../components/rule-set-fields";
+
+interface SubmetricRuleSetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetricId: string;
+  submetricName: string;
+  savedRuleSet: SubmetricRuleSet | null; // The submetric's own rules, if any
+  workspaceRuleSet: RuleSetConfig | null; // The workspace default, if any
+  canEdit: boolean;
+}
+
+export function SubmetricRuleSetDialog({
+  open,
+  onOpenChange,
+  submetricId,
+  submetricName,
+  savedRuleSet,
+  workspaceRuleSet,
+  canEdit,
+}: SubmetricRuleSetDialogProps) {
+  const saveRuleSetMutation = useSaveRuleSet();
+  const deleteRuleSetMutation = useDeleteRuleSet();
+
+  const [form, setForm] = useState(() =>
+    toRuleSetForm(savedRuleSet ?? workspaceRuleSet)
+  );
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Start from the rules in use each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(toRuleSetForm(savedRuleSet ?? workspaceRuleSet));
+      setFormError(null);
+    }
+  }, [open, savedRuleSet, workspaceRuleSet]);
+
+  const isPending =
+    saveRuleSetMutation.isPending || deleteRuleSetMutation.isPending;
+  const workspaceDefaultName =
+    RULE_SET_PRESET_DEFINITIONS[resolveRuleSet(workspaceRuleSet).preset].name;
+
+  const handleSave = async () => {
+    setFormError(null);
+    try {
+      await saveRuleSetMutation.mutateAsync({
+        submetricId,
+        ruleSet: fromRuleSetForm(form),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save rule set"
+      );
+    }
+  };
+
+  const handleUseWorkspaceDefault = async () => {
+    setFormError(null);
+    try {
+      await deleteRuleSetMutation.mutateAsync(submetricId);
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to clear rule set"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detection Rules - {submetricName}</DialogTitle>
+          <DialogDescription>
+            {savedRuleSet
+              ? `This submetric has its own rules instead of the workspace default (${workspaceDefaultName}).`
+              : `This submetric uses the workspace default (${workspaceDefaultName}).`}{" "}
+            The rules decide which points are highlighted and the traffic light.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RuleSetFields
+          id={`rule-set-${submetricId}`}
+          value={form}
+          onChange={setForm}
+          disabled={!canEdit || isPending}
+        />
+
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+        {canEdit && (
+          <DialogFooter className="sm:justify-between">
+            <Button
+              variant="outline"
+              onClick={handleUseWorkspaceDefault}
+              disabled={!savedRuleSet || isPending}
+            >
+              Use Workspace Default
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isPending}>
+                {saveRuleSetMutation.isPending ? "Saving..." : "Save Rules"}
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
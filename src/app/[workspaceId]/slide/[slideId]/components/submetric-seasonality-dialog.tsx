@@ -89,11 +89,14 @@ interface SubmetricSeasonalityDialogProps {
   onApplySeasonality: (
     period: SeasonalityPeriod,
     factors: number[],
-    grouping: SeasonalityGrouping
+    grouping: SeasonalityGrouping,
+    isManuallyModified: boolean
   ) => void;
   initialPeriod?: SeasonalityPeriod;
   initialFactors?: number[];
   initialGrouping?: SeasonalityGrouping;
+  initialFactorsManuallyEdited?: boolean;
+  staleFactorsMessage?: string | null;
 }
 
 export function SubmetricSeasonalityDialog({
@@ -104,6 +107,8 @@ export function SubmetricSeasonalityDialog({
   initialPeriod = "year",
   initialFactors = [],
   initialGrouping = "none",
+  initialFactorsManuallyEdited = false,
+  staleFactorsMessage = null,
 }: SubmetricSeasonalityDialogProps) {
   // Initialize with provided values or defaults
   const [period, setPeriod] = useState<SeasonalityPeriod>(initialPeriod);
@@ -113,6 +118,8 @@ export function SubmetricSeasonalityDialog({
     useState<DataPoint[]>(dataPoints);
   const [seasonalFactors, setSeasonalFactors] =
     useState<number[]>(initialFactors);
+  // Track if user has typed factors directly (these win over recalculation)
+  const [factorsManuallyEdited, setFactorsManuallyEdited] = useState(false);
 
   // Compute period disable map and coverage from edited data
   const periodDisableMap = useMemo(
@@ -168,6 +175,15 @@ export function SubmetricSeasonalityDialog({
     }
   }, [open]);
 
+  // Restore whether the applied factors were hand-edited when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFactorsManuallyEdited(
+        initialFactors.length > 0 && initialFactorsManuallyEdited
+      );
+    }
+  }, [open, initialFactors.length, initialFactorsManuallyEdited]);
+
   // Prepare seasonal data for table
   const seasonalData = useMemo(() => {
     return prepareSeasonalDataForTable(editedDataPoints, period);
@@ -232,6 +248,7 @@ export function SubmetricSeasonalityDialog({
       grouping
     );
     setSeasonalFactors(factors);
+    setFactorsManuallyEdited(false);
   }, [dataPoints, period, grouping]);
 
   // Recalculate seasonal factors from edited data
@@ -243,6 +260,7 @@ export function SubmetricSeasonalityDialog({
       grouping
     );
     setSeasonalFactors(factors);
+    setFactorsManuallyEdited(false);
   }, [dataPoints, editedDataPoints, period, grouping]);
 
   // Handle value change in seasonal data table
@@ -278,6 +296,7 @@ export function SubmetricSeasonalityDialog({
         newFactors[index] = numValue;
         return newFactors;
       });
+      setFactorsManuallyEdited(true);
     }
   }, []);
 
@@ -292,6 +311,7 @@ export function SubmetricSeasonalityDialog({
       grouping
     );
     setSeasonalFactors(factors);
+    setFactorsManuallyEdited(false);
   };
 
   // Handle grouping change and recalculate factors
@@ -305,24 +325,27 @@ export function SubmetricSeasonalityDialog({
       newGrouping
     );
     setSeasonalFactors(factors);
+    setFactorsManuallyEdited(false);
   };
 
-  // Handle applying seasonality (recalculate before applying)
+  // Handle applying seasonality
+  // Manually entered factors are applied as-is, otherwise recalculate from edited data
   const handleApplySeasonality = () => {
-    // Recalculate factors from current edited data before applying
-    const { factors } = calculateSeasonalFactors(
-      dataPoints, // xData - for initial date reference
-      editedDataPoints, // seasonalData - data to calculate factors from
-      period,
-      grouping
-    );
+    const factors = factorsManuallyEdited
+      ? seasonalFactors
+      : calculateSeasonalFactors(
+          dataPoints, // xData - for initial date reference
+          editedDataPoints, // seasonalData - data to calculate factors from
+          period,
+          grouping
+        ).factors;
 
     if (factors.length === 0) {
       alert("No seasonal factors calculated. Please check your data.");
       return;
     }
 
-    onApplySeasonality(period, factors, grouping);
+    onApplySeasonality(period, factors, grouping, factorsManuallyEdited);
     onOpenChange(false);
   };
 
@@ -363,6 +386,18 @@ export function SubmetricSeasonalityDialog({
             below. In case of conflict, the latter wins.
           </p>
 
+          {/* Warning for factors fitted before newer data arrived */}
+          {staleFactorsMessage && (
+            <div className="bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
+              <p className="text-sm font-semibold text-yellow-800 dark:text-yellow-200 mb-1">
+                Seasonal Factors Out of Date
+              </p>
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                {staleFactorsMessage}
+              </p>
+            </div>
+          )}
+
           {/* Warning for less than one period */}
           {hasLessThanOnePeriod && (
             <div className="bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3">
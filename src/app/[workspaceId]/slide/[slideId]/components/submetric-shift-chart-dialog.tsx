@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useDeleteShiftChart, useSaveShiftChart } from "@/lib/api/submetrics";
+import {
+  DEFAULT_SHIFT_CHART_PARAMS,
+  SHIFT_CHART_PARAM_DEFINITIONS,
+  type ShiftChartParams,
+  type ShiftChartView,
+} from "@/lib/xmr-calculations";
+import type { SubmetricShiftChart } from "@/types/db/submetric";
+
+interface SubmetricShiftChartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetricId: string;
+  submetricName: string;
+  view: ShiftChartView; // Saved along with the parameters
+  savedShiftChart: SubmetricShiftChart | null;
+  canEdit: boolean;
+}
+
+const SHIFT_CHART_PARAM_KEYS = Object.keys(
+  SHIFT_CHART_PARAM_DEFINITIONS
+) as Array<keyof ShiftChartParams>;
+
+// Values are kept as typed so a field can be cleared while editing
+const toShiftChartForm = (
+  shiftChart: SubmetricShiftChart | null
+): Record<keyof ShiftChartParams, string> => ({
+  lambda: (shiftChart?.lambda ?? DEFAULT_SHIFT_CHART_PARAMS.lambda).toString(),
+  k: (shiftChart?.k ?? DEFAULT_SHIFT_CHART_PARAMS.k).toString(),
+  h: (shiftChart?.h ?? DEFAULT_SHIFT_CHART_PARAMS.h).toString(),
+});
+
+export function SubmetricShiftChartDialog({
+  open,
+  onOpenChange,
+  submetricId,
+  submetricName,
+  view,
+  savedShiftChart,
+  canEdit,
+}: SubmetricShiftChartDialogProps) {
+  const saveShiftChartMutation = useSaveShiftChart();
+  const deleteShiftChartMutation = useDeleteShiftChart();
+
+  const [form, setForm] = useState(() => toShiftChartForm(savedShiftChart));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Start from the saved parameters each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(toShiftChartForm(savedShiftChart));
+      setFormError(null);
+    }
+  }, [open, savedShiftChart]);
+
+  const isPending =
+    saveShiftChartMutation.isPending || deleteShiftChartMutation.isPending;
+
+  const handleSave = async () => {
+    setFormError(null);
+
+    const params: ShiftChartParams = { ...DEFAULT_SHIFT_CHART_PARAMS };
+    for (const key of SHIFT_CHART_PARAM_KEYS) {
+      const { label, min, max } = SHIFT_CHART_PARAM_DEFINITIONS[key];
+      const value = Number(form[key].trim());
+      if (!form[key].trim() || !Number.isFinite(value)) {
+        setFormError(`${label} must be a number`);
+        return;
+      }
+      if (value < min || value > max) {
+        setFormError(`${label} must be from ${min} to ${max}`);
+        return;
+      }
+      params[key] = value;
+    }
+
+    try {
+      await saveShiftChartMutation.mutateAsync({
+        submetricId,
+        shiftChart: { view, ...params },
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save shift chart"
+      );
+    }
+  };
+
+  const handleReset = async () => {
+    setFormError(null);
+    try {
+      await deleteShiftChartMutation.mutateAsync(submetricId);
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to reset shift chart"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Shift Chart Settings - {submetricName}</DialogTitle>
+          <DialogDescription>
+            EWMA and CUSUM charts flag small sustained shifts sooner than the X
+            chart. A smaller λ or k finds smaller shifts; a larger h gives fewer
+            false alarms.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {SHIFT_CHART_PARAM_KEYS.map((key) => {
+            const { label, min, max } = SHIFT_CHART_PARAM_DEFINITIONS[key];
+            return (
+              <div
+                key={key}
+                className="grid grid-cols-[12rem_1fr] items-center gap-3"
+              >
+                <label
+                  htmlFor={`shift-chart-${submetricId}-${key}`}
+                  className="text-sm font-medium"
+                >
+                  {label}
+                </label>
+                <Input
+                  id={`shift-chart-${submetricId}-${key}`}
+                  type="number"
+                  step="any"
+                  min={min}
+                  max={max}
+                  placeholder={`${min} to ${max}`}
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  disabled={!canEdit || isPending}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+        {canEdit && (
+          <DialogFooter className="sm:justify-between">
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={!savedShiftChart || isPending}
+            >
+              Reset to Defaults
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isPending}>
+                {saveShiftChartMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { memo, useCallback, useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Label,
+  type TooltipContentProps,
+} from "recharts";
+import type { Submetric } from "@/types/db/submetric";
+import type { CusumData, EwmaData } from "@/lib/xmr-calculations";
+import { createCategoryLookup, type ChartDivider } from "./submetric-x-chart";
+
+// The X chart's points the EWMA or CUSUM is lined up with
+interface ShiftChartPoint {
+  timestamp: string;
+  fullTimestamp: string;
+  value: number;
+}
+
+// A chart point with the EWMA or CUSUM statistics lined up with it
+interface ShiftChartRow extends ShiftChartPoint {
+  ewma: number | null;
+  upperLimit: number | null;
+  lowerLimit: number | null;
+  upper: number | null;
+  lower: number | null;
+  isSignal: boolean;
+  isUpperSignal: boolean;
+  isLowerSignal: boolean;
+}
+
+// The props recharts passes to a custom dot that are read here
+interface ShiftChartDotProps {
+  cx?: number;
+  cy?: number | null;
+  index?: number;
+  dataKey?: unknown;
+  payload?: ShiftChartRow;
+}
+
+interface SubmetricShiftChartProps {
+  chartData: ShiftChartPoint[];
+  startIndex: number; // First chart point the EWMA or CUSUM covers
+  ewmaData?: EwmaData | null;
+  cusumData?: CusumData | null;
+  submetric: Submetric;
+  isDark: boolean;
+  dividers?: ChartDivider[];
+}
+
+const NO_DIVIDERS: ChartDivider[] = [];
+
+export const SubmetricShiftChart = memo(
+  ({
+    chartData,
+    startIndex,
+    ewmaData = null,
+    cusumData = null,
+    submetric,
+    isDark,
+    dividers = NO_DIVIDERS,
+  }: SubmetricShiftChartProps) => {
+    const isEwma = !!ewmaData;
+    const lineColor = submetric.color || "#3b82f6";
+
+    const categoryAt = useMemo(
+      () => createCategoryLookup(chartData),
+      [chartData]
+    );
+
+    // Line up the statistics with the X chart's points; points before the
+    // latest segment are left empty
+    const shiftChartData = useMemo(
+      () =>
+        chartData.map((point, index): ShiftChartRow => {
+          const shiftIndex = index - startIndex;
+          const ewmaPoint = ewmaData?.points[shiftIndex];
+          const cusumPoint = cusumData?.points[shiftIndex];
+          const signals = ewmaData?.signals ?? cusumData?.signals ?? [];
+          const decisionInterval = cusumData?.decisionInterval ?? 0;
+
+          return {
+            timestamp: point.timestamp,
+            fullTimestamp: point.fullTimestamp,
+            value: point.value,
+            ewma: ewmaPoint?.ewma ?? null,
+            upperLimit: ewmaPoint?.upperLimit ?? null,
+            lowerLimit: ewmaPoint?.lowerLimit ?? null,
+            upper: cusumPoint?.upper ?? null,
+            // The lower sum is drawn below zero so the two sides don't overlap
+            lower: cusumPoint ? -cusumPoint.lower : null,
+            isSignal: shiftIndex >= 0 && signals.includes(shiftIndex),
+            isUpperSignal: !!cusumPoint && cusumPoint.upper > decisionInterval,
+            isLowerSignal: !!cusumPoint && cusumPoint.lower > decisionInterval,
+          };
+        }),
+      [chartData, startIndex, ewmaData, cusumData]
+    );
+
+    // Calculate Y-axis domain for the EWMA or CUSUM chart
+    const yAxisDomain = useMemo(() => {
+      const values = shiftChartData.flatMap((d) =>
+        isEwma ? [d.ewma, d.upperLimit, d.lowerLimit] : [d.upper, d.lower]
+      );
+      const bounds = values.filter((value): value is number => value !== null);
+      if (cusumData) {
+        bounds.push(cusumData.decisionInterval, -cusumData.decisionInterval);
+      }
+      if (bounds.length === 0) return [0, 100];
+
+      const dataMin = Math.min(...bounds);
+      const dataMax = Math.max(...bounds);
+      const padding = (dataMax - dataMin) * 0.15 || 1;
+
+      return [dataMin - padding, dataMax + padding];
+    }, [shiftChartData, isEwma, cusumData]);
+
+    // Memoize custom tooltip
+    const CustomTooltip = useCallback(
+      ({ active, payload }: TooltipContentProps<number, string>) => {
+        if (active && payload && payload.length) {
+          const data: ShiftChartRow = payload[0].payload;
+          if (data.ewma === null && data.upper === null) return null;
+
+          return (
+            <div className="bg-background/95 backdrop-blur-sm border border-border rounded-lg p-4 shadow-xl max-w-xs">
+              <div className="space-y-2">
+                <p className="font-semibold text-base border-b pb-2">
+                  {data.fullTimestamp}
+                </p>
+
+                <div className="space-y-1 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Value:</span>
+                    <span className="font-medium ml-1">
+                      {Number(data.value).toFixed(2)}
+                      {submetric.unit && ` ${submetric.unit}`}
+                    </span>
+                  </div>
+                  {isEwma ? (
+                    <>
+                      <div>
+                        <span className="text-muted-foreground">EWMA:</span>
+                        <span className="text-primary font-medium ml-1">
+                          {Number(data.ewma).toFixed(2)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Limits:</span>
+                        <span className="font-medium ml-1">
+                          {Number(data.lowerLimit).toFixed(2)} to{" "}
+                          {Number(data.upperLimit).toFixed(2)}
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div>
+                        <span className="text-muted-foreground">CUSUM +:</span>
+                        <span className="text-primary font-medium ml-1">
+                          {Number(data.upper).toFixed(2)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">CUSUM −:</span>
+                        <span className="text-primary font-medium ml-1">
+                          {Number(-(data.lower ?? 0)).toFixed(2)}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {data.isSignal && (
+                  <div className="pt-2 border-t">
+                    <div className="flex items-start gap-2 text-red-600 font-medium text-sm">
+                      <span className="text-base mt-0.5">🔴</span>
+                      <div>
+                        <div>Sustained Shift</div>
+                        <div className="text-xs text-red-500 font-normal">
+                          {isEwma
+                            ? "EWMA beyond its limits"
+                            : "Cumulative sum beyond the decision interval"}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        }
+        return null;
+      },
+      [submetric.unit, isEwma]
+    );
+
+    // Memoize dot renderer
+    const renderDot = useCallback(
+      (props: ShiftChartDotProps) => {
+        const { cx, cy, payload, index, dataKey } = props;
+        if (cy === null || cy === undefined) return <g key={index} />;
+        // Each CUSUM line only marks the points where its own sum signals
+        const isSignal =
+          dataKey === "upper"
+            ? payload?.isUpperSignal
+            : dataKey === "lower"
+            ? payload?.isLowerSignal
+            : payload?.isSignal;
+        const dotStroke = isDark ? "#2a2a2a" : "#ffffff";
+
+        return (
+          <circle
+            key={`shift-dot-${dataKey}-${index}`}
+            cx={cx}
+            cy={cy}
+            r={isSignal ? 6 : 4}
+            fill={isSignal ? "#ef4444" : lineColor}
+            stroke={isSignal ? "#dc2626" : dotStroke}
+            strokeWidth={isSignal ? 3 : 2}
+            style={{
+              filter: isSignal
+                ? "drop-shadow(0 2px 4px rgba(0,0,0,0.3))"
+                : "none",
+            }}
+          />
+        );
+      },
+      [isDark, lineColor]
+    );
+
+    // Memoize tick formatter
+    const tickFormatter = useCallback(
+      (value: number) => Number(value).toFixed(1),
+      []
+    );
+
+    // Memoize static axis configurations
+    const axisLineConfig = useMemo(
+      () => ({ stroke: "currentColor", strokeWidth: 1 }),
+      []
+    );
+    const tickLineConfig = useMemo(
+      () => ({ stroke: "currentColor", strokeWidth: 1 }),
+      []
+    );
+    const tickConfig = useMemo(() => ({ fontSize: 12 }), []);
+
+    return (
+      <div className="h-[500px] w-full [&_.recharts-cartesian-grid-horizontal>line]:stroke-muted-foreground/20 [&_.recharts-cartesian-grid-vertical>line]:stroke-muted-foreground/20 [&_.recharts-tooltip-wrapper]:z-50">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={shiftChartData}
+            margin={{ top: 40, right: 60, left: 20, bottom: 40 }}
+          >
+            <CartesianGrid
+              strokeDasharray="2 2"
+              stroke="currentColor"
+              opacity={0.1}
+            />
+            <XAxis
+              dataKey="timestamp"
+              className="text-sm fill-foreground"
+              axisLine={axisLineConfig}
+              tickLine={tickLineConfig}
+              tick={tickConfig}
+              interval="preserveStartEnd"
+            >
+              <Label
+                value={`${submetric.xAxis}${
+                  submetric.timezone ? ` (${submetric.timezone})` : ""
+                } - ${isEwma ? "EWMA" : "CUSUM"} Plot`}
+                offset={-10}
+                position="insideBottom"
+                style={{ fontSize: "11px", fontWeight: "600" }}
+              />
+            </XAxis>
+            <YAxis
+              className="text-sm fill-foreground"
+              axisLine={axisLineConfig}
+              tickLine={tickLineConfig}
+              tick={tickConfig}
+              tickFormatter={tickFormatter}
+              domain={yAxisDomain}
+              width={50}
+            />
+            <Tooltip content={CustomTooltip} />
+
+            {ewmaData && (
+              <>
+                {/* Target the EWMA is compared with */}
+                <ReferenceLine
+                  y={ewmaData.target}
+                  stroke="#10b981"
+                  strokeWidth={3}
+                  strokeDasharray="8 4"
+                  label={{
+                    value: `Target: ${ewmaData.target.toFixed(2)}`,
+                    position: "insideTopRight",
+                    style: {
+                      fontSize: "12px",
+                      fontWeight: "bold",
+                      fill: "#10b981",
+                    },
+                  }}
+                />
+
+                {/* Limits widen over the first points */}
+                <Line
+                  type="linear"
+                  dataKey="upperLimit"
+                  stroke="#94a3b8"
+                  strokeWidth={2}
+                  strokeDasharray="6 3"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                />
+                <Line
+                  type="linear"
+                  dataKey="lowerLimit"
+                  stroke="#94a3b8"
+                  strokeWidth={2}
+                  strokeDasharray="6 3"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                />
+              </>
+            )}
+
+            {cusumData && (
+              <>
+                <ReferenceLine y={0} stroke="#10b981" strokeWidth={2} />
+                {[cusumData.decisionInterval, -cusumData.decisionInterval].map(
+                  (y) => (
+                    <ReferenceLine
+                      key={y}
+                      y={y}
+                      stroke="#94a3b8"
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                      label={{
+                        value: `H: ${y.toFixed(2)}`,
+                        position:
+                          y >= 0 ? "insideTopRight" : "insideBottomRight",
+                        style: {
+                          fontSize: "11px",
+                          fontWeight: "bold",
+                          fill: "#94a3b8",
+                        },
+                      }}
+                    />
+                  )
+                )}
+              </>
+            )}
+
+            {/* Process change dividers */}
+            {dividers.map((divider) => (
+              <ReferenceLine
+                key={divider.id}
+                x={categoryAt(divider.index)}
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+              />
+            ))}
+
+            {isEwma ? (
+              <Line
+                type="linear"
+                dataKey="ewma"
+                stroke={lineColor}
+                strokeWidth={3}
+                dot={renderDot}
+                connectNulls={false}
+              />
+            ) : (
+              <>
+                <Line
+                  type="linear"
+                  dataKey="upper"
+                  stroke={lineColor}
+                  strokeWidth={3}
+                  dot={renderDot}
+                  connectNulls={false}
+                />
+                <Line
+                  type="linear"
+                  dataKey="lower"
+                  stroke={lineColor}
+                  strokeWidth={3}
+                  strokeOpacity={0.6}
+                  dot={renderDot}
+                  connectNulls={false}
+                />
+              </>
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+);
+
+SubmetricShiftChart.displayName = "SubmetricShiftChart";
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useDeleteSpecLimits, useSaveSpecLimits } from "@/lib/api/submetrics";
+import type {
+  SpecLimitsInput,
+  SubmetricSpecLimits,
+} from "@/types/db/submetric";
+
+interface SubmetricSpecLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submetricId: string;
+  submetricName: string;
+  unit: string | null;
+  savedSpecLimits: SubmetricSpecLimits | null;
+  canEdit: boolean;
+}
+
+const SPEC_LIMIT_FIELDS: Array<{
+  field: keyof SpecLimitsInput;
+  label: string;
+  hint: string;
+}> = [
+  { field: "usl", label: "USL", hint: "Upper specification limit" },
+  { field: "target", label: "Target", hint: "Desired value" },
+  { field: "lsl", label: "LSL", hint: "Lower specification limit" },
+];
+
+// Values are kept as typed so a field can be cleared while editing
+const toSpecLimitsForm = (
+  specLimits: SubmetricSpecLimits | null
+): Record<keyof SpecLimitsInput, string> => ({
+  usl: specLimits?.usl?.toString() ?? "",
+  lsl: specLimits?.lsl?.toString() ?? "",
+  target: specLimits?.target?.toString() ?? "",
+});
+
+export function SubmetricSpecLimitsDialog({
+  open,
+  onOpenChange,
+  submetricId,
+  submetricName,
+  unit,
+  savedSpecLimits,
+  canEdit,
+}: SubmetricSpecLimitsDialogProps) {
+  const saveSpecLimitsMutation = useSaveSpecLimits();
+  const deleteSpecLimitsMutation = useDeleteSpecLimits();
+
+  const [form, setForm] = useState(() => toSpecLimitsForm(savedSpecLimits));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Start from the saved limits each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(toSpecLimitsForm(savedSpecLimits));
+      setFormError(null);
+    }
+  }, [open, savedSpecLimits]);
+
+  const isPending =
+    saveSpecLimitsMutation.isPending || deleteSpecLimitsMutation.isPending;
+
+  const handleSave = async () => {
+    setFormError(null);
+
+    const specLimits: SpecLimitsInput = { usl: null, lsl: null, target: null };
+    for (const { field, label } of SPEC_LIMIT_FIELDS) {
+      const value = form[field].trim();
+      if (!value) continue;
+      if (!Number.isFinite(Number(value))) {
+        setFormError(`${label} must be a number`);
+        return;
+      }
+      specLimits[field] = Number(value);
+    }
+
+    try {
+      await saveSpecLimitsMutation.mutateAsync({ submetricId, specLimits });
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save spec limits"
+      );
+    }
+  };
+
+  const handleClear = async () => {
+    setFormError(null);
+    try {
+      await deleteSpecLimitsMutation.mutateAsync(submetricId);
+      onOpenChange(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to clear spec limits"
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Spec Limits - {submetricName}</DialogTitle>
+          <DialogDescription>
+            Customer specification limits or SLA targets to compare with the
+            natural process limits. Leave a limit blank for a one-sided spec.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {SPEC_LIMIT_FIELDS.map(({ field, label, hint }) => (
+            <div
+              key={field}
+              className="grid grid-cols-[5rem_1fr] items-center gap-3"
+            >
+              <label
+                htmlFor={`spec-limits-${submetricId}-${field}`}
+                className="text-sm font-medium"
+                title={hint}
+              >
+                {label}
+              </label>
+              <Input
+                id={`spec-limits-${submetricId}-${field}`}
+                type="number"
+                step="any"
+                placeholder={unit ? `${hint} (${unit})` : hint}
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                disabled={!canEdit || isPending}
+              />
+            </div>
+          ))}
+        </div>
+
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+        {canEdit && (
+          <DialogFooter className="sm:justify-between">
+            <Button
+              variant="outline"
+              onClick={handleClear}
+              disabled={!savedSpecLimits || isPending}
+            >
+              Clear Spec Limits
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isPending}>
+                {saveSpecLimitsMutation.isPending
+                  ? "Saving..."
+                  : "Save Spec Limits"}
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
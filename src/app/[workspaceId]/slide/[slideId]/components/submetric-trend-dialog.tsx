@@ -20,20 +20,36 @@ import {
 } from "@/components/ui/table";
 import type { DataPoint } from "@/lib/xmr-calculations";
 import { calculateRegressionStats } from "@/lib/xmr-calculations";
+import { useSubmetricTrendHistory } from "@/lib/api/submetrics";
 
 interface SubmetricTrendDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  submetricId: string;
   dataPoints: DataPoint[];
-  onApplyTrend: (gradient: number, intercept: number) => void;
+  onApplyTrend: (
+    gradient: number,
+    intercept: number,
+    isManuallyModified: boolean
+  ) => void;
+  initialGradient?: number;
+  initialIntercept?: number;
+  initialIsManuallyEdited?: boolean;
 }
 
 export function SubmetricTrendDialog({
   open,
   onOpenChange,
+  submetricId,
   dataPoints,
   onApplyTrend,
+  initialGradient,
+  initialIntercept,
+  initialIsManuallyEdited = false,
 }: SubmetricTrendDialogProps) {
+  // Audit trail of saved trend changes (only fetched while the dialog is open)
+  const { history } = useSubmetricTrendHistory(submetricId, open);
+
   // Calculate initial regression stats
   const initialStats = useMemo(() => {
     return calculateRegressionStats(dataPoints);
@@ -65,6 +81,20 @@ export function SubmetricTrendDialog({
     setIsManuallyEdited(false);
   }, [dataPoints]);
 
+  // Restore saved manual equation values when the dialog opens
+  useEffect(() => {
+    if (
+      open &&
+      initialIsManuallyEdited &&
+      initialGradient !== undefined &&
+      initialIntercept !== undefined
+    ) {
+      setGradient(initialGradient.toFixed(8));
+      setIntercept(initialIntercept.toFixed(6));
+      setIsManuallyEdited(true);
+    }
+  }, [open, initialIsManuallyEdited, initialGradient, initialIntercept]);
+
   // Reset to original data (without recalculating)
   const handleResetToOriginal = useCallback(() => {
     setEditedDataPoints(dataPoints);
@@ -100,19 +130,21 @@ export function SubmetricTrendDialog({
     }
   }, [editedDataPoints, isManuallyEdited]);
 
-  // Handle applying trend limits (recalculate before applying)
+  // Handle applying trend limits
+  // Manually entered values are applied as-is, otherwise recalculate from edited data
   const handleApplyTrend = () => {
-    // Recalculate from current edited data before applying
-    const stats = calculateRegressionStats(editedDataPoints);
+    const stats = isManuallyEdited
+      ? null
+      : calculateRegressionStats(editedDataPoints);
     const m = stats ? stats.m : parseFloat(gradient);
     const c = stats ? stats.c : parseFloat(intercept);
 
-    if (isNaN(m) || isNaN(c)) {
+    if (Number.isNaN(m) || Number.isNaN(c)) {
       alert("Please enter valid numbers for gradient and intercept");
       return;
     }
 
-    onApplyTrend(m, c);
+    onApplyTrend(m, c, isManuallyEdited);
     onOpenChange(false);
   };
 
@@ -173,6 +205,43 @@ export function SubmetricTrendDialog({
             </div>
           </div>
 
+          {/* Change history */}
+          {history.length > 0 && (
+            <div className="border rounded-lg p-4 space-y-2">
+              <h3 className="font-semibold text-sm">Change history:</h3>
+              <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {history.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="text-xs text-muted-foreground flex justify-between gap-4"
+                  >
+                    <span>
+                      {entry.action === "removed" ? "Removed" : "Applied"}{" "}
+                      <span className="font-mono">
+                        y = {entry.gradient.toFixed(4)}x +{" "}
+                        {entry.intercept.toFixed(4)}
+                      </span>
+                      {entry.isManuallyModified ? " (manual)" : ""}
+                    </span>
+                    <span className="whitespace-nowrap">
+                      {entry.changedByName ||
+                        entry.changedByEmail ||
+                        "Unknown user"}{" "}
+                      ·{" "}
+                      {new Date(entry.createdAt).toLocaleString("en-GB", {
+                        day: "2-digit",
+                        month: "short",
+                        year: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Linear Regression Data */}
           <div className="flex flex-col min-h-0">
             <div className="flex items-center justify-between mb-2">
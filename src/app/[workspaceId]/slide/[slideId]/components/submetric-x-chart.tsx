@@ -1,6 +1,6 @@
 "use client";
 
-import { memo, useCallback, useMemo } from "react";
+import { Fragment, memo, useCallback, useMemo, useState } from "react";
 import {
   LineChart,
   Line,
@@ -12,9 +12,47 @@ import {
   LabelList,
   ReferenceLine,
   Label,
+  type MouseHandlerDataParam,
 } from "recharts";
 import type { Submetric } from "@/types/db/submetric";
-import type { XMRLimits, TrendLimits } from "@/lib/xmr-calculations";
+import {
+  DEFAULT_RULE_SET,
+  LockedLimitStatus,
+  shouldUseQuartile,
+  ViolationType,
+  type DetectionRuleSet,
+  type PointLimits,
+  type SpecLimits,
+  type XMRLimits,
+  type TrendLimits,
+} from "@/lib/xmr-calculations";
+import { describeRule } from "@/lib/rule-sets";
+
+// A process change divider, placed on the first point of the new segment
+export interface ChartDivider {
+  id: string;
+  index: number; // index into chartData
+}
+
+// Limits for a run of chartData between two dividers (inclusive indices)
+export interface ChartSegment {
+  startIndex: number;
+  endIndex: number;
+  limits: XMRLimits;
+}
+
+/**
+ * Map a chartData index to the value Recharts uses on the category axis.
+ * Recharts switches to index-based categories when labels repeat
+ * (e.g. several points on the same day).
+ */
+export function createCategoryLookup(
+  chartData: Array<{ timestamp: string }>
+): (index: number) => string | number {
+  const labels = chartData.map((point) => point.timestamp);
+  const hasDuplicates = new Set(labels).size !== labels.length;
+  return (index: number) => (hasDuplicates ? index : labels[index]);
+}
 
 interface SubmetricXChartProps {
   chartData: any[];
@@ -23,11 +61,132 @@ interface SubmetricXChartProps {
   yAxisDomain: number[];
   isDark: boolean;
   isLimitsLocked: boolean;
+  lockedLimitStatus?: LockedLimitStatus;
   trendActive: boolean;
   trendLines: TrendLimits | null;
   showReducedTrendLimits: boolean;
+  dividers?: ChartDivider[];
+  segments?: ChartSegment[] | null;
+  onDividerMove?: (dividerId: string, index: number) => void;
+  onDividerDragEnd?: () => void;
+  ruleSet?: DetectionRuleSet; // Rules the violations were detected with
+  specLimits?: SpecLimits | null; // Customer spec limits, drawn apart from the NPLs
+  attributeLimits?: PointLimits | null; // Per-point limits of a p, np, c or u chart
 }
 
+const NO_DIVIDERS: ChartDivider[] = [];
+
+// Spec limits are labelled on the left, away from the NPL labels
+const specLimitLabel = (
+  name: string,
+  value: number,
+  position: "insideTopLeft" | "insideBottomLeft"
+) => ({
+  value: `${name}: ${value.toFixed(2)}`,
+  position,
+  style: {
+    fontSize: "11px",
+    fontWeight: "bold",
+    fill: name === "Target" ? "#0ea5e9" : "#e11d48",
+  },
+});
+
+// Colours and dot sizes of each violation, larger for more serious ones
+const VIOLATION_STYLES: Record<
+  ViolationType,
+  {
+    fill: string;
+    stroke: string;
+    radius: number;
+    strokeWidth: number;
+    color: string;
+    lightColor: string;
+    emoji: string;
+  }
+> = {
+  [ViolationType.OUTSIDE_LIMITS]: {
+    fill: "#ef4444", // red
+    stroke: "#dc2626",
+    radius: 6,
+    strokeWidth: 3,
+    color: "text-red-600",
+    lightColor: "text-red-500",
+    emoji: "🔴",
+  },
+  [ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA]: {
+    fill: "#f97316", // orange
+    stroke: "#ea580c",
+    radius: 5.5,
+    strokeWidth: 2.5,
+    color: "text-orange-600",
+    lightColor: "text-orange-500",
+    emoji: "🟠",
+  },
+  [ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA]: {
+    fill: "#eab308", // yellow
+    stroke: "#ca8a04",
+    radius: 5.5,
+    strokeWidth: 2.5,
+    color: "text-yellow-600",
+    lightColor: "text-yellow-500",
+    emoji: "🟡",
+  },
+  [ViolationType.FOUR_NEAR_LIMIT]: {
+    fill: "#f59e0b", // amber
+    stroke: "#d97706",
+    radius: 5,
+    strokeWidth: 2.5,
+    color: "text-amber-600",
+    lightColor: "text-amber-500",
+    emoji: "🟡",
+  },
+  [ViolationType.EIGHT_BEYOND_ONE_SIGMA]: {
+    fill: "#ec4899", // pink
+    stroke: "#db2777",
+    radius: 5,
+    strokeWidth: 2.5,
+    color: "text-pink-600",
+    lightColor: "text-pink-500",
+    emoji: "🩷",
+  },
+  [ViolationType.RUNNING_POINTS]: {
+    fill: "#3b82f6", // blue
+    stroke: "#2563eb",
+    radius: 5,
+    strokeWidth: 2.5,
+    color: "text-blue-600",
+    lightColor: "text-blue-500",
+    emoji: "🔵",
+  },
+  [ViolationType.TRENDING_POINTS]: {
+    fill: "#8b5cf6", // purple
+    stroke: "#7c3aed",
+    radius: 5,
+    strokeWidth: 2.5,
+    color: "text-violet-600",
+    lightColor: "text-violet-500",
+    emoji: "🟣",
+  },
+  [ViolationType.ALTERNATING_POINTS]: {
+    fill: "#06b6d4", // cyan
+    stroke: "#0891b2",
+    radius: 5,
+    strokeWidth: 2.5,
+    color: "text-cyan-600",
+    lightColor: "text-cyan-500",
+    emoji: "🔷",
+  },
+  [ViolationType.FIFTEEN_WITHIN_ONE_SIGMA]: {
+    fill: "#10b981", // green
+    stroke: "#059669",
+    radius: 4.5,
+    strokeWidth: 2,
+    color: "text-green-600",
+    lightColor: "text-green-500",
+    emoji: "🟢",
+  },
+};
+
 // Memoized custom label component
 const CustomLabel = memo(
   ({
@@ -43,7 +202,8 @@ const CustomLabel = memo(
     payload: any;
     isDark: boolean;
   }) => {
-    const highestPriorityViolation = payload?.highestPriorityViolation;
+    const highestPriorityViolation: ViolationType | null =
+      payload?.highestPriorityViolation ?? null;
 
     // Define colors based on theme and violation type
     const labelBgColor = isDark ? "#2a2a2a" : "#ffffff";
@@ -51,25 +211,11 @@ const CustomLabel = memo(
     const labelBorderColor = isDark ? "#404040" : "#e5e7eb";
 
     // Determine color based on highest priority violation
-    let borderColor = labelBorderColor;
-    let textColor = labelTextColor;
-
-    if (highestPriorityViolation === "rule1") {
-      borderColor = "#ef4444"; // red
-      textColor = "#ef4444";
-    } else if (highestPriorityViolation === "rule4") {
-      borderColor = "#f97316"; // orange
-      textColor = "#f97316";
-    } else if (highestPriorityViolation === "rule3") {
-      borderColor = "#f59e0b"; // amber
-      textColor = "#f59e0b";
-    } else if (highestPriorityViolation === "rule2") {
-      borderColor = "#3b82f6"; // blue
-      textColor = "#3b82f6";
-    } else if (highestPriorityViolation === "rule5") {
-      borderColor = "#10b981"; // green
-      textColor = "#10b981";
-    }
+    const violationColor = highestPriorityViolation
+      ? VIOLATION_STYLES[highestPriorityViolation].fill
+      : null;
+    const borderColor = violationColor ?? labelBorderColor;
+    const textColor = violationColor ?? labelTextColor;
 
     // Calculate text width (approximate: 11px font, ~6.5px per character)
     const text = Number(value).toFixed(2);
@@ -119,12 +265,52 @@ export const SubmetricXChart = memo(
     yAxisDomain,
     isDark,
     isLimitsLocked,
+    lockedLimitStatus = LockedLimitStatus.UNLOCKED,
     trendActive,
     trendLines,
     showReducedTrendLimits,
+    dividers = NO_DIVIDERS,
+    segments = null,
+    onDividerMove,
+    onDividerDragEnd,
+    ruleSet = DEFAULT_RULE_SET,
+    specLimits = null,
+    attributeLimits = null,
   }: SubmetricXChartProps) => {
-    // Merge trend line data with chart data if trend is active
+    const [draggingDividerId, setDraggingDividerId] = useState<string | null>(
+      null
+    );
+
+    const categoryAt = useMemo(
+      () => createCategoryLookup(chartData),
+      [chartData]
+    );
+
+    // Hide quartiles that no longer sit between manually edited limits
+    const {
+      useUpperQuartile: showUpperQuartile,
+      useLowerQuartile: showLowerQuartile,
+    } = useMemo(
+      () =>
+        isLimitsLocked
+          ? shouldUseQuartile(lockedLimitStatus, xmrLimits)
+          : { useUpperQuartile: true, useLowerQuartile: true },
+      [isLimitsLocked, lockedLimitStatus, xmrLimits]
+    );
+
+    // Merge attribute or trend line data with chart data when drawn
     const mergedChartData = useMemo(() => {
+      if (attributeLimits) {
+        return chartData.map((point, index) => ({
+          ...point,
+          attributeCentre: attributeLimits.centreLine[index]?.value,
+          attributeUNPL: attributeLimits.unpl[index]?.value,
+          attributeLNPL: attributeLimits.lnpl[index]?.value,
+          attributeUpperQuartile: attributeLimits.upperQuartile[index]?.value,
+          attributeLowerQuartile: attributeLimits.lowerQuartile[index]?.value,
+        }));
+      }
+
       if (!trendActive || !trendLines) {
         return chartData;
       }
@@ -146,7 +332,7 @@ export const SubmetricXChart = memo(
             trendLines.reducedLowerQuartile[index]?.value,
         };
       });
-    }, [chartData, trendActive, trendLines]);
+    }, [chartData, trendActive, trendLines, attributeLimits]);
 
     // Memoize custom label wrapper
     const renderCustomLabel = useCallback(
@@ -165,58 +351,15 @@ export const SubmetricXChart = memo(
           const valuePayload =
             payload.find((p: any) => p.dataKey === "value") || payload[0];
           const data = valuePayload.payload;
-          const highestPriorityViolation = data.highestPriorityViolation;
-
-          // Violation display configuration based on priority
-          const violationConfig: Record<
-            string,
-            {
-              color: string;
-              lightColor: string;
-              emoji: string;
-              title: string;
-              description: string;
-            }
-          > = {
-            rule1: {
-              color: "text-red-600",
-              lightColor: "text-red-500",
-              emoji: "🔴",
-              title: "Outside Control Limits",
-              description: "Rule 1: Point beyond 3σ",
-            },
-            rule4: {
-              color: "text-orange-600",
-              lightColor: "text-orange-500",
-              emoji: "🟠",
-              title: "2 of 3 Beyond 2σ",
-              description: "Rule 4: Clustering near limits",
-            },
-            rule3: {
-              color: "text-amber-600",
-              lightColor: "text-amber-500",
-              emoji: "🟡",
-              title: "4 Near Limit Pattern",
-              description: "Rule 3: 3 of 4 in extreme quartiles",
-            },
-            rule2: {
-              color: "text-blue-600",
-              lightColor: "text-blue-500",
-              emoji: "🔵",
-              title: "Running Point Pattern",
-              description: "Rule 2: 8+ points on one side",
-            },
-            rule5: {
-              color: "text-green-600",
-              lightColor: "text-green-500",
-              emoji: "🟢",
-              title: "Low Variation",
-              description: "Rule 5: 15+ points within 1σ",
-            },
-          };
+          const highestPriorityViolation: ViolationType | null =
+            data.highestPriorityViolation ?? null;
 
+          // Violation display based on the rule it broke in the rule set
           const violation = highestPriorityViolation
-            ? violationConfig[highestPriorityViolation]
+            ? {
+                ...VIOLATION_STYLES[highestPriorityViolation],
+                ...describeRule(ruleSet, highestPriorityViolation),
+              }
             : null;
 
           return (
@@ -243,6 +386,14 @@ export const SubmetricXChart = memo(
                         {data.range.toFixed(2)}
                       </span>
                     </div>
+                    {data.denominator != null && (
+                      <div>
+                        <span className="text-muted-foreground">Count:</span>
+                        <span className="font-medium ml-1">
+                          {data.numerator} / {data.denominator}
+                        </span>
+                      </div>
+                    )}
                     {data.confidence && (
                       <div>
                         <span className="text-muted-foreground">
@@ -256,6 +407,19 @@ export const SubmetricXChart = memo(
                   </div>
                 </div>
 
+                {data.originalValue !== null &&
+                  data.originalValue !== undefined && (
+                    <div className="pt-2 border-t text-sm">
+                      <span className="text-muted-foreground">
+                        Restated - originally
+                      </span>
+                      <span className="font-medium ml-1">
+                        {Number(data.originalValue).toFixed(2)}
+                        {submetric.unit && ` ${submetric.unit}`}
+                      </span>
+                    </div>
+                  )}
+
                 {violation && (
                   <div className="pt-2 border-t">
                     <p className="text-xs font-semibold text-muted-foreground mb-1.5">
@@ -284,57 +448,28 @@ export const SubmetricXChart = memo(
         }
         return null;
       },
-      [submetric.unit]
+      [submetric.unit, ruleSet]
     );
 
     // Memoize dot renderer
     const renderDot = useCallback(
       (props: any) => {
         const { cx, cy, payload, index } = props;
-        const highestPriorityViolation = payload?.highestPriorityViolation;
+        const highestPriorityViolation: ViolationType | null =
+          payload?.highestPriorityViolation ?? null;
         const dotStroke = isDark ? "#2a2a2a" : "#ffffff";
 
         // Determine color and size based on highest priority violation
-        let fillColor = submetric.color || "#3b82f6";
-        let strokeColor = dotStroke;
-        let radius = 4;
-        let strokeWidth = 2;
-        let hasViolation = false;
-
-        // Map violation to colors and sizes (matching priority system)
-        if (highestPriorityViolation === "rule1") {
-          fillColor = "#ef4444"; // red
-          strokeColor = "#dc2626";
-          radius = 6;
-          strokeWidth = 3;
-          hasViolation = true;
-        } else if (highestPriorityViolation === "rule4") {
-          fillColor = "#f97316"; // orange
-          strokeColor = "#ea580c";
-          radius = 5.5;
-          strokeWidth = 2.5;
-          hasViolation = true;
-        } else if (highestPriorityViolation === "rule3") {
-          fillColor = "#f59e0b"; // amber
-          strokeColor = "#d97706";
-          radius = 5;
-          strokeWidth = 2.5;
-          hasViolation = true;
-        } else if (highestPriorityViolation === "rule2") {
-          fillColor = "#3b82f6"; // blue
-          strokeColor = "#2563eb";
-          radius = 5;
-          strokeWidth = 2.5;
-          hasViolation = true;
-        } else if (highestPriorityViolation === "rule5") {
-          fillColor = "#10b981"; // green
-          strokeColor = "#059669";
-          radius = 4.5;
-          strokeWidth = 2;
-          hasViolation = true;
-        }
+        const style = highestPriorityViolation
+          ? VIOLATION_STYLES[highestPriorityViolation]
+          : null;
+        const fillColor = style?.fill ?? (submetric.color || "#3b82f6");
+        const strokeColor = style?.stroke ?? dotStroke;
+        const radius = style?.radius ?? 4;
+        const strokeWidth = style?.strokeWidth ?? 2;
+        const hasViolation = style !== null;
 
-        return (
+        const dot = (
           <circle
             key={`dot-${index}`}
             cx={cx}
@@ -350,6 +485,26 @@ export const SubmetricXChart = memo(
             }}
           />
         );
+
+        // Restated points get a dashed ring around the dot
+        if (payload?.originalValue == null) {
+          return dot;
+        }
+
+        return (
+          <g key={`dot-${index}`}>
+            {dot}
+            <circle
+              cx={cx}
+              cy={cy}
+              r={radius + 3}
+              fill="none"
+              stroke={fillColor}
+              strokeWidth={1.5}
+              strokeDasharray="2 2"
+            />
+          </g>
+        );
       },
       [isDark, submetric.color]
     );
@@ -358,29 +513,15 @@ export const SubmetricXChart = memo(
     const renderActiveDot = useCallback(
       (props: any) => {
         const { cx, cy, payload } = props;
-        const highestPriorityViolation = payload?.highestPriorityViolation;
+        const highestPriorityViolation: ViolationType | null =
+          payload?.highestPriorityViolation ?? null;
 
         // Determine colors based on highest priority violation
-        let fillColor = isDark ? "#2a2a2a" : "#ffffff";
-        let strokeColor = submetric.color || "#3b82f6";
-
-        // Map violation to colors (matching priority system)
-        if (highestPriorityViolation === "rule1") {
-          fillColor = "#ef4444"; // red
-          strokeColor = "#dc2626"; // darker red
-        } else if (highestPriorityViolation === "rule4") {
-          fillColor = "#f97316"; // orange
-          strokeColor = "#ea580c"; // darker orange
-        } else if (highestPriorityViolation === "rule3") {
-          fillColor = "#f59e0b"; // amber
-          strokeColor = "#d97706"; // darker amber
-        } else if (highestPriorityViolation === "rule2") {
-          fillColor = "#3b82f6"; // blue
-          strokeColor = "#2563eb"; // darker blue
-        } else if (highestPriorityViolation === "rule5") {
-          fillColor = "#10b981"; // green
-          strokeColor = "#059669"; // darker green
-        }
+        const style = highestPriorityViolation
+          ? VIOLATION_STYLES[highestPriorityViolation]
+          : null;
+        const fillColor = style?.fill ?? (isDark ? "#2a2a2a" : "#ffffff");
+        const strokeColor = style?.stroke ?? (submetric.color || "#3b82f6");
 
         return (
           <circle
@@ -457,12 +598,61 @@ export const SubmetricXChart = memo(
       [xmrLimits.LNPL]
     );
 
+    // Divider dragging - dividers snap to the data point under the cursor
+    const handleMouseDown = useCallback(
+      (state: MouseHandlerDataParam) => {
+        if (!onDividerMove || dividers.length === 0) return;
+        const index = Number(state.activeTooltipIndex);
+        if (!Number.isInteger(index)) return;
+
+        // Grab the closest divider within one point of the cursor
+        const closest = dividers.reduce<ChartDivider | null>(
+          (best, divider) =>
+            Math.abs(divider.index - index) <= 1 &&
+            (!best ||
+              Math.abs(divider.index - index) < Math.abs(best.index - index))
+              ? divider
+              : best,
+          null
+        );
+        if (closest) setDraggingDividerId(closest.id);
+      },
+      [dividers, onDividerMove]
+    );
+
+    const handleMouseMove = useCallback(
+      (state: MouseHandlerDataParam) => {
+        if (!draggingDividerId || !onDividerMove) return;
+        const index = Number(state.activeTooltipIndex);
+        const current = dividers.find((d) => d.id === draggingDividerId);
+        if (Number.isInteger(index) && current && current.index !== index) {
+          onDividerMove(draggingDividerId, index);
+        }
+      },
+      [draggingDividerId, dividers, onDividerMove]
+    );
+
+    const handleMouseUp = useCallback(() => {
+      if (!draggingDividerId) return;
+      setDraggingDividerId(null);
+      onDividerDragEnd?.();
+    }, [draggingDividerId, onDividerDragEnd]);
+
+    const isSegmented = !!segments && segments.length > 1;
+
     return (
-      <div className="h-[500px] w-full [&_.recharts-cartesian-grid-horizontal>line]:stroke-muted-foreground/20 [&_.recharts-cartesian-grid-vertical>line]:stroke-muted-foreground/20 [&_.recharts-tooltip-wrapper]:z-50 [&_.recharts-label-list]:z-50">
+      <div
+        className="h-[500px] w-full [&_.recharts-cartesian-grid-horizontal>line]:stroke-muted-foreground/20 [&_.recharts-cartesian-grid-vertical>line]:stroke-muted-foreground/20 [&_.recharts-tooltip-wrapper]:z-50 [&_.recharts-label-list]:z-50"
+        style={{ cursor: draggingDividerId ? "col-resize" : undefined }}
+      >
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
             data={mergedChartData}
             margin={{ top: 40, right: 60, left: 20, bottom: 40 }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
           >
             <CartesianGrid
               strokeDasharray="2 2"
@@ -497,8 +687,65 @@ export const SubmetricXChart = memo(
             />
             <Tooltip content={CustomTooltip} />
 
-            {/* Control Limit Lines - Use trend lines if active, otherwise use reference lines */}
-            {trendActive && trendLines ? (
+            {/* Control Limit Lines - Attribute or trend lines when drawn, otherwise reference lines */}
+            {attributeLimits ? (
+              <>
+                {/* Attribute limits step with each subgroup's size */}
+                <Line
+                  type="step"
+                  dataKey="attributeCentre"
+                  stroke="#10b981"
+                  strokeWidth={3}
+                  strokeDasharray="8 4"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                  name="Centre Line"
+                />
+                <Line
+                  type="step"
+                  dataKey="attributeUNPL"
+                  stroke="#94a3b8"
+                  strokeWidth={2.5}
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                  name="Upper Limit"
+                />
+                <Line
+                  type="step"
+                  dataKey="attributeLNPL"
+                  stroke="#94a3b8"
+                  strokeWidth={2.5}
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                  name="Lower Limit"
+                />
+                <Line
+                  type="step"
+                  dataKey="attributeUpperQuartile"
+                  stroke="#9ca3af"
+                  strokeWidth={1.5}
+                  strokeDasharray="3 2"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                  name="Upper Quartile"
+                />
+                <Line
+                  type="step"
+                  dataKey="attributeLowerQuartile"
+                  stroke="#9ca3af"
+                  strokeWidth={1.5}
+                  strokeDasharray="3 2"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls={false}
+                  name="Lower Quartile"
+                />
+              </>
+            ) : trendActive && trendLines ? (
               <>
                 {/* Trend Centre Line */}
                 <Line
@@ -607,6 +854,66 @@ export const SubmetricXChart = memo(
                   </>
                 )}
               </>
+            ) : isSegmented && segments ? (
+              // Step-wise limits - each segment is drawn up to the next divider
+              segments.map((segment, index) => {
+                const isLastSegment = index === segments.length - 1;
+                const start = categoryAt(segment.startIndex);
+                const end = categoryAt(
+                  segments[index + 1]?.startIndex ?? segment.endIndex
+                );
+                const horizontal = (y: number) => [
+                  { x: start, y },
+                  { x: end, y },
+                ];
+                // Locked limits only ever apply to the first segment
+                const isLockedSegment = index === 0 && isLimitsLocked;
+                const quartiles = isLockedSegment
+                  ? shouldUseQuartile(lockedLimitStatus, segment.limits)
+                  : { useUpperQuartile: true, useLowerQuartile: true };
+
+                return (
+                  <Fragment key={`segment-${segment.startIndex}`}>
+                    <ReferenceLine
+                      segment={horizontal(segment.limits.avgX)}
+                      stroke="#10b981"
+                      strokeWidth={3}
+                      strokeDasharray="8 4"
+                      label={isLastSegment ? avgLabel : undefined}
+                    />
+                    <ReferenceLine
+                      segment={horizontal(segment.limits.UNPL)}
+                      stroke="#94a3b8"
+                      strokeWidth={isLockedSegment ? 2.5 : 2}
+                      strokeDasharray={isLockedSegment ? "" : "6 3"}
+                      label={isLastSegment ? unplLabel : undefined}
+                    />
+                    <ReferenceLine
+                      segment={horizontal(segment.limits.LNPL)}
+                      stroke="#94a3b8"
+                      strokeWidth={isLockedSegment ? 2.5 : 2}
+                      strokeDasharray={isLockedSegment ? "" : "6 3"}
+                      label={isLastSegment ? lnplLabel : undefined}
+                    />
+                    {quartiles.useUpperQuartile && (
+                      <ReferenceLine
+                        segment={horizontal(segment.limits.upperQuartile)}
+                        stroke="#9ca3af"
+                        strokeWidth={1.5}
+                        strokeDasharray="3 2"
+                      />
+                    )}
+                    {quartiles.useLowerQuartile && (
+                      <ReferenceLine
+                        segment={horizontal(segment.limits.lowerQuartile)}
+                        stroke="#9ca3af"
+                        strokeWidth={1.5}
+                        strokeDasharray="3 2"
+                      />
+                    )}
+                  </Fragment>
+                );
+              })
             ) : (
               <>
                 {/* Standard Reference Lines */}
@@ -632,21 +939,78 @@ export const SubmetricXChart = memo(
                   label={lnplLabel}
                 />
                 {/* Quartile Lines (without labels) */}
-                <ReferenceLine
-                  y={xmrLimits.upperQuartile}
-                  stroke="#9ca3af"
-                  strokeWidth={1.5}
-                  strokeDasharray="3 2"
-                />
-                <ReferenceLine
-                  y={xmrLimits.lowerQuartile}
-                  stroke="#9ca3af"
-                  strokeWidth={1.5}
-                  strokeDasharray="3 2"
-                />
+                {showUpperQuartile && (
+                  <ReferenceLine
+                    y={xmrLimits.upperQuartile}
+                    stroke="#9ca3af"
+                    strokeWidth={1.5}
+                    strokeDasharray="3 2"
+                  />
+                )}
+                {showLowerQuartile && (
+                  <ReferenceLine
+                    y={xmrLimits.lowerQuartile}
+                    stroke="#9ca3af"
+                    strokeWidth={1.5}
+                    strokeDasharray="3 2"
+                  />
+                )}
               </>
             )}
 
+            {/* Specification limits and target */}
+            {specLimits && specLimits.USL !== null && (
+              <ReferenceLine
+                y={specLimits.USL}
+                stroke="#e11d48"
+                strokeWidth={2}
+                strokeDasharray="2 4"
+                label={specLimitLabel("USL", specLimits.USL, "insideTopLeft")}
+              />
+            )}
+            {specLimits && specLimits.LSL !== null && (
+              <ReferenceLine
+                y={specLimits.LSL}
+                stroke="#e11d48"
+                strokeWidth={2}
+                strokeDasharray="2 4"
+                label={specLimitLabel(
+                  "LSL",
+                  specLimits.LSL,
+                  "insideBottomLeft"
+                )}
+              />
+            )}
+            {specLimits && specLimits.target !== null && (
+              <ReferenceLine
+                y={specLimits.target}
+                stroke="#0ea5e9"
+                strokeWidth={2}
+                strokeDasharray="10 4"
+                label={specLimitLabel(
+                  "Target",
+                  specLimits.target,
+                  "insideTopLeft"
+                )}
+              />
+            )}
+
+            {/* Process change dividers */}
+            {dividers.map((divider) => (
+              <ReferenceLine
+                key={divider.id}
+                x={categoryAt(divider.index)}
+                stroke="#8b5cf6"
+                strokeWidth={draggingDividerId === divider.id ? 3 : 2}
+                strokeDasharray="4 4"
+                label={{
+                  value: "⇔",
+                  position: "top",
+                  style: { fontSize: "12px", fill: "#8b5cf6" },
+                }}
+              />
+            ))}
+
             <Line
               type="linear"
               dataKey="value"
@@ -1,9 +1,15 @@
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { getAuthSession } from "@/lib/auth";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { slides, workspaces } from "@/lib/db/schema";
+import {
+  metricsWithDataPoints,
+  toMetricWithSubmetrics,
+} from "@/lib/action/data-point";
+import { withSubmetricSettings } from "@/lib/action/submetric";
+import { getWorkspaceRole } from "@/lib/action/workspace";
 import { SlideClient } from "./components/slide-client";
 import type { SlideWithMetrics } from "@/types/db/slide";
 import type { Workspace } from "@/types/db/workspace";
@@ -16,29 +22,42 @@ interface SlidePageProps {
 }
 
 // Server-side data fetching functions
-async function getSlideData(slideId: string): Promise<SlideWithMetrics | null> {
+// Private workspaces are only rendered for their members
+async function canViewWorkspace(workspaceId: string): Promise<boolean> {
   const session = await getAuthSession();
-  if (!session) return null;
+  if (!session) return false;
+
+  return (await getWorkspaceRole(workspaceId, session.user)) !== null;
+}
+
+async function getSlideData(
+  workspaceId: string,
+  slideId: string
+): Promise<SlideWithMetrics | null> {
+  if (!(await canViewWorkspace(workspaceId))) return null;
 
   const slide = await db.query.slides.findFirst({
-    where: eq(slides.id, slideId),
+    where: and(eq(slides.id, slideId), eq(slides.workspaceId, workspaceId)),
     with: {
-      metrics: {
-        with: {
-          submetrics: true,
-        },
-      },
+      metrics: metricsWithDataPoints(),
     },
   });
 
-  return slide || null;
+  if (!slide) return null;
+
+  // Chart settings come along so the cards don't each fetch their own
+  return {
+    ...slide,
+    metrics: await withSubmetricSettings(
+      slide.metrics.map(toMetricWithSubmetrics)
+    ),
+  };
 }
 
 async function getWorkspaceData(
   workspaceId: string
 ): Promise<Workspace | null> {
-  const session = await getAuthSession();
-  if (!session) return null;
+  if (!(await canViewWorkspace(workspaceId))) return null;
 
   const workspace = await db.query.workspaces.findFirst({
     where: eq(workspaces.id, workspaceId),
@@ -54,7 +73,7 @@ export async function generateMetadata({
   const { workspaceId, slideId } = await params;
 
   const [slide, workspace] = await Promise.all([
-    getSlideData(slideId),
+    getSlideData(workspaceId, slideId),
     getWorkspaceData(workspaceId),
   ]);
 
@@ -99,7 +118,7 @@ export default async function SlidePage({ params }: SlidePageProps) {
   const { workspaceId, slideId } = await params;
 
   const [slide, workspace] = await Promise.all([
-    getSlideData(slideId),
+    getSlideData(workspaceId, slideId),
     getWorkspaceData(workspaceId),
   ]);
 
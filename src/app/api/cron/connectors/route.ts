@@ -0,0 +1,59 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { type NextRequest, NextResponse } from "next/server";
+import { runDueConnectors } from "@/lib/action/connector";
+
+// Hash both sides so secrets of different lengths compare in constant time
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  return timingSafeEqual(
+    createHash("sha256")
+      .update(request.headers.get("authorization") ?? "")
+      .digest(),
+    createHash("sha256").update(`Bearer ${secret}`).digest()
+  );
+}
+
+/**
+ * Scheduled connector runner
+ *
+ * Called by Vercel Cron (see vercel.json) with `Authorization: Bearer
+ * <CRON_SECRET>`; any other scheduler can call it the same way. Runs every
+ * connector that is due and reports how each run went.
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    console.warn("[SECURITY] Connector runner called without a valid secret");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const runs = await runDueConnectors();
+
+    for (const run of runs) {
+      if (run.status === "failed") {
+        console.error(
+          `[ERROR] Connector ${run.connectorId} failed: ${run.error}`
+        );
+      }
+    }
+    console.log(`[AUDIT] Connector runner finished ${runs.length} runs`);
+
+    return NextResponse.json({
+      runs: runs.map((run) => ({
+        id: run.id,
+        connector_id: run.connectorId,
+        status: run.status,
+        rows: run.rowCount,
+        error: run.error,
+      })),
+    });
+  } catch (error) {
+    console.error("Error running connectors:", error);
+    return NextResponse.json(
+      { error: "Failed to run connectors" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,30 @@
-import { db } from "@/lib/db";
-import { metrics, slides, submetrics, workspaces } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { createHash } from "node:crypto";
+import {
+  type ApiKeyAccess,
+  canAccessWorkspace,
+  getClientIp,
+  validateApiKey,
+} from "@/lib/api-key-auth";
+import {
+  applyIngestRequest,
+  describeLocation,
+  IngestError,
+  type IngestLocation,
+} from "@/lib/action/ingest";
+import {
+  finishIngestJob,
+  IDEMPOTENCY_WINDOW_MS,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  releaseIdempotencyKey,
+  RUNNING_JOB_TIMEOUT_MS,
+  startIngestJob,
+} from "@/lib/action/ingest-job";
+import {
+  type IngestMode,
+  type IngestValidationError,
+  parseIngestRequest,
+} from "@/lib/ingest";
+import type { IngestJobCounts } from "@/types/db/ingest-job";
 import { type NextRequest, NextResponse } from "next/server";
 
 /**
@@ -9,15 +33,20 @@ import { type NextRequest, NextResponse } from "next/server";
  * POST /api/ingest/metrics
  *
  * Headers:
- *   - Authorization: Bearer <API_KEY>
+ *   - Authorization: Bearer <API_KEY> (a workspace API key with write access)
  *   - Content-Type: application/json
+ *   - Idempotency-Key: <unique key> (optional - a retry with the same key and
+ *     body within 24 hours returns the first response instead of ingesting again)
  *
  * Body:
  * {
- *   "workspace_id": "uuid", // optional - will create if not provided
+ *   "workspace_id": "uuid", // optional - will create if not provided (required for workspace-scoped keys)
  *   "slide_id": "uuid",     // optional - will create if not provided
  *   "slide_title": "My Slide Title", // required if slide_id not provided
  *   "slide_date": "2025-10-06",      // optional
+ *   "mode": "merge",                 // optional - "create" (default) or "merge"
+ *   "data_points_mode": "replace",   // optional - "replace" (default) or "append", merge mode only
+ *   "dry_run": true,                 // optional - validate and report counts without saving
  *   "metrics": [
  *     {
  *       "metric_name": "Transaction Count",
@@ -27,7 +56,7 @@ import { type NextRequest, NextResponse } from "next/server";
  *         {
  *           "label": "Transaction Count",
  *           "category": "Adidas",
- *           "timezone": "ltz",
+ *           "timezone": "UTC",
  *           "xaxis": "period",
  *           "trend": "downtrend",
  *           "unit": "%",              // optional
@@ -46,337 +75,353 @@ import { type NextRequest, NextResponse } from "next/server";
  *     }
  *   ]
  * }
+ *
+ * Modes:
+ *   - create: always inserts new metrics and submetrics
+ *   - merge:  matches existing metrics on the slide by name and submetrics by
+ *             label + category, then merges data points by point in time
+ *             ("replace" overwrites matching timestamps, "append" only adds new ones)
+ *
+ * The payload is validated before anything is written; a 400 response lists
+ * every invalid field by path (e.g. "metrics[2].submetrics[0].data_points[5].value").
+ * A dry run applies the payload in a transaction that is always rolled back,
+ * so it reports exactly what a real request would create or update.
+ *
+ * Timestamps may be YYYYMM, YYYYMMDD or ISO strings. Two timestamps for the
+ * same instant (e.g. "202501" and "2025-01-01") are the same data point.
  */
 
-interface DataPointInput {
-  timestamp: string;
-  value: number;
-  confidence?: number;
-  source?: string;
-  dimensions?: Record<string, unknown>;
+// Validation errors listed in a 400 response; the rest are only counted
+const MAX_REPORTED_ERRORS = 50;
+
+// The response to a request and what it saved, recorded on its job
+interface IngestOutcome {
+  status: number;
+  body: Record<string, unknown>;
+  error: string | null;
+  workspaceId: string | null;
+  slideId: string | null;
+  mode: IngestMode | null;
+  dryRun: boolean;
+  counts: IngestJobCounts | null;
 }
 
-interface SubmetricInput {
-  label: string;
-  category?: string;
-  timezone?: string;
-  xaxis?: string;
-  trend?: "uptrend" | "downtrend" | "stable" | null;
-  unit?: string;
-  aggregation_type?: string;
-  color?: string;
-  metadata?: Record<string, unknown>;
-  data_points: DataPointInput[];
+function describeValidationError(error: IngestValidationError): string {
+  return error.path ? `'${error.path}' ${error.message}` : error.message;
 }
 
-interface MetricInput {
-  metric_name: string;
-  description?: string;
-  chart_type?: "line" | "bar" | "area" | "pie" | "scatter";
-  submetrics: SubmetricInput[];
-}
+// Validate and apply a request body, describing the response and what was
+// saved so the job can record it
+async function ingest(
+  payload: string,
+  access: ApiKeyAccess,
+  clientIp: string,
+  startTime: number
+): Promise<IngestOutcome> {
+  // Updated inside the transaction so a failure can be traced to its item
+  const progress: { at: IngestLocation | null } = { at: null };
+  // Set once the key is known to have access to the requested workspace
+  let requestedWorkspaceId: string | null = null;
+  let mode: IngestMode | null = null;
+  let dryRun = false;
+
+  const failed = (
+    status: number,
+    error: string,
+    details?: Record<string, unknown>
+  ): IngestOutcome => ({
+    status,
+    body: { error, ...details },
+    error,
+    workspaceId: requestedWorkspaceId,
+    slideId: null,
+    mode,
+    dryRun,
+    counts: null,
+  });
 
-interface IngestRequest {
-  workspace_id?: string;
-  slide_id?: string;
-  slide_title?: string;
-  slide_date?: string;
-  slide_description?: string;
-  metrics: MetricInput[];
-}
+  try {
+    // Parse and validate request body
+    let rawBody: unknown;
+    try {
+      rawBody = JSON.parse(payload);
+    } catch {
+      return failed(400, "Invalid request - body is not valid JSON");
+    }
 
-// Validate API key from environment variable
-function validateApiKey(request: NextRequest): {
-  valid: boolean;
-  error?: string;
-} {
-  const authHeader = request.headers.get("authorization");
-  const apiKey = process.env.METRICS_API_KEY;
+    const parsed = parseIngestRequest(rawBody);
+    if ("errors" in parsed) {
+      const [first, ...rest] = parsed.errors;
+      return failed(
+        400,
+        `Invalid request - ${describeValidationError(first)}${
+          rest.length > 0 ? ` (and ${rest.length} more)` : ""
+        }`,
+        { errors: parsed.errors.slice(0, MAX_REPORTED_ERRORS) }
+      );
+    }
 
-  // Check if API key is configured
-  if (!apiKey) {
-    console.error(
-      "[SECURITY] METRICS_API_KEY environment variable not set. Ingestion endpoint is disabled."
-    );
-    return { valid: false, error: "Service temporarily unavailable" };
-  }
+    const body = parsed.data;
+    const ingestMode: IngestMode = body.mode ?? "create";
+    mode = ingestMode;
+    dryRun = body.dry_run ?? false;
 
-  // Validate API key strength (minimum 32 characters)
-  if (apiKey.length < 32) {
-    console.error(
-      "[SECURITY] METRICS_API_KEY is too weak (< 32 characters). Please use a stronger key."
+    // Scoped keys may only write to the workspaces they were created for
+    if (!body.workspace_id && access.workspaceIds !== null) {
+      return failed(
+        400,
+        "Invalid request - 'workspace_id' is required for workspace-scoped API keys"
+      );
+    }
+
+    if (body.workspace_id && !canAccessWorkspace(access, body.workspace_id)) {
+      console.warn(
+        `[SECURITY] API key '${access.name}' denied access to workspace ${body.workspace_id} from ${clientIp}`
+      );
+      return failed(
+        403,
+        `API key does not have access to workspace '${body.workspace_id}'`
+      );
+    }
+    requestedWorkspaceId = body.workspace_id ?? null;
+
+    // The whole payload is applied in one transaction: if any metric or
+    // submetric fails, nothing from this request is saved
+    const result = await applyIngestRequest(
+      body,
+      // Data point revisions are attributed to the API key
+      { apiKeyId: access.keyId, apiKeyName: access.name },
+      progress
     );
-    return { valid: false, error: "Service configuration error" };
-  }
+    const {
+      workspaceId,
+      slideId,
+      metricIds,
+      metricCounts,
+      submetricCounts,
+      dataPointCounts,
+    } = result;
 
-  // Check authorization header format
-  if (!authHeader?.startsWith("Bearer ")) {
-    console.warn(
-      `[SECURITY] Invalid authorization header format from ${
-        request.headers.get("x-forwarded-for") ||
-        request.headers.get("x-real-ip") ||
-        "unknown IP"
-      }`
+    const duration = Date.now() - startTime;
+    console.log(
+      `[AUDIT] ${
+        dryRun ? "Dry run of" : "Successfully ingested"
+      } metrics from ${clientIp}: ` +
+        `workspace=${workspaceId}, slide=${slideId}, ` +
+        `mode=${ingestMode}, metrics=${JSON.stringify(metricCounts)}, ` +
+        `submetrics=${JSON.stringify(submetricCounts)}, ` +
+        `datapoints=${JSON.stringify(dataPointCounts)}, duration=${duration}ms`
     );
-    return { valid: false, error: "Invalid authorization header" };
-  }
 
-  const providedKey = authHeader.substring(7);
+    // A dry run's new rows were rolled back, so only existing IDs are returned
+    const savedWorkspaceId = dryRun ? requestedWorkspaceId : workspaceId;
+    const savedSlideId = dryRun ? body.slide_id ?? null : slideId;
 
-  // Validate provided key
-  if (!providedKey || providedKey.length === 0) {
-    console.warn(
-      `[SECURITY] Empty API key provided from ${
-        request.headers.get("x-forwarded-for") ||
-        request.headers.get("x-real-ip") ||
-        "unknown IP"
-      }`
+    return {
+      status: ingestMode === "create" && !dryRun ? 201 : 200,
+      body: {
+        success: true,
+        message: dryRun
+          ? "Dry run - payload is valid, no changes were saved"
+          : "Metrics ingested successfully",
+        dry_run: dryRun,
+        data: {
+          workspace_id: savedWorkspaceId,
+          slide_id: savedSlideId,
+          mode: ingestMode,
+          metrics_created: metricCounts.created,
+          submetrics_created: submetricCounts.created,
+          data_points_created: dataPointCounts.created,
+          ...(!dryRun && { metric_ids: metricIds }),
+          metrics: metricCounts,
+          submetrics: submetricCounts,
+          data_points: dataPointCounts,
+        },
+      },
+      error: null,
+      workspaceId: savedWorkspaceId,
+      slideId: savedSlideId,
+      mode,
+      dryRun,
+      counts: {
+        metrics: metricCounts,
+        submetrics: submetricCounts,
+        data_points: dataPointCounts,
+      },
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error(
+      `[ERROR] Failed to ingest metrics from ${clientIp} after ${duration}ms:`,
+      error
     );
-    return { valid: false, error: "Invalid API key" };
-  }
 
-  // Use timing-safe comparison to prevent timing attacks
-  if (providedKey === apiKey) {
-    return { valid: true };
-  }
+    if (error instanceof IngestError) {
+      return failed(error.status, error.message);
+    }
 
-  // Log failed authentication attempts
-  console.warn(
-    `[SECURITY] Failed API key authentication attempt from ${
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      "unknown IP"
-    }`
-  );
-  return { valid: false, error: "Invalid API key" };
+    // Don't leak internal error details to the client
+    const isValidationError =
+      error instanceof Error &&
+      (error.message.includes("not found") ||
+        error.message.includes("required") ||
+        error.message.includes("invalid"));
+    const reason = isValidationError
+      ? error.message
+      : "Internal server error - please contact support";
+
+    // The transaction was rolled back, so point at the item that failed
+    return failed(
+      isValidationError ? 400 : 500,
+      progress.at
+        ? `Failed to ingest ${describeLocation(
+            progress.at
+          )} - no changes were saved`
+        : reason,
+      {
+        ...(progress.at && { failed_at: progress.at, reason }),
+        ...(process.env.NODE_ENV === "development" && {
+          debug: error instanceof Error ? error.message : "Unknown error",
+        }),
+      }
+    );
+  }
 }
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
-  const clientIp =
-    request.headers.get("x-forwarded-for") ||
-    request.headers.get("x-real-ip") ||
-    "unknown";
+  const clientIp = getClientIp(request);
 
   try {
     // Validate API key
-    const authResult = validateApiKey(request);
-    if (!authResult.valid) {
+    const authResult = await validateApiKey(request, "write");
+    if (!authResult.valid || !authResult.access) {
       console.warn(
         `[SECURITY] Unauthorized ingest attempt from ${clientIp}: ${authResult.error}`
       );
       return NextResponse.json(
         { error: authResult.error || "Unauthorized" },
-        { status: 401 }
+        { status: authResult.status ?? 401 }
       );
     }
 
-    // Log successful authentication
-    console.log(`[AUDIT] Authenticated ingest request from ${clientIp}`);
+    const access = authResult.access;
 
-    // Parse request body
-    const body: IngestRequest = await request.json();
+    // Log successful authentication
+    console.log(
+      `[AUDIT] Authenticated ingest request from ${clientIp} with key '${access.name}'`
+    );
 
-    // Validate required fields
-    if (
-      !body.metrics ||
-      !Array.isArray(body.metrics) ||
-      body.metrics.length === 0
-    ) {
+    const idempotencyKey =
+      request.headers.get("idempotency-key")?.trim() || null;
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
       return NextResponse.json(
-        { error: "Invalid request - 'metrics' array is required" },
+        {
+          error: `Invalid request - 'Idempotency-Key' must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        },
         { status: 400 }
       );
     }
 
-    // Get or validate workspace
-    let workspaceId = body.workspace_id;
-    if (!workspaceId) {
-      // Create a new public workspace if not provided
-      const [newWorkspace] = await db
-        .insert(workspaces)
-        .values({
-          name: body.slide_title || "API Ingestion Workspace",
-          description: "Created via API",
-          isPublic: true,
-        })
-        .returning();
-      workspaceId = newWorkspace.id;
-    } else {
-      // Verify workspace exists
-      const workspace = await db.query.workspaces.findFirst({
-        where: eq(workspaces.id, workspaceId),
-      });
+    const payload = await request.text();
+    const requestHash = createHash("sha256").update(payload).digest("hex");
 
-      if (!workspace) {
-        return NextResponse.json(
-          { error: `Workspace with id '${workspaceId}' not found` },
-          { status: 404 }
-        );
-      }
+    if (idempotencyKey) {
+      await releaseIdempotencyKey(
+        access,
+        idempotencyKey,
+        new Date(Date.now() - IDEMPOTENCY_WINDOW_MS),
+        new Date(Date.now() - RUNNING_JOB_TIMEOUT_MS)
+      );
     }
 
-    // Get or create slide
-    let slideId = body.slide_id;
-    if (!slideId) {
-      if (!body.slide_title) {
+    // Inserted before the payload is applied, so a request with the same key
+    // finds this job instead of applying it again
+    const { job, isNew } = await startIngestJob({
+      access,
+      idempotencyKey,
+      requestHash,
+      payloadBytes: Buffer.byteLength(payload),
+      clientIp,
+    });
+
+    if (!isNew) {
+      if (job.requestHash !== requestHash) {
         return NextResponse.json(
-          { error: "Either 'slide_id' or 'slide_title' is required" },
-          { status: 400 }
+          {
+            error:
+              "Idempotency-Key was already used with a different request body",
+          },
+          { status: 422 }
         );
       }
 
-      // Create new slide
-      const [newSlide] = await db
-        .insert(slides)
-        .values({
-          title: body.slide_title,
-          description: body.slide_description || null,
-          workspaceId,
-          slideDate: body.slide_date || null,
-        })
-        .returning();
-      slideId = newSlide.id;
-    } else {
-      // Verify slide exists and belongs to workspace
-      const slide = await db.query.slides.findFirst({
-        where: eq(slides.id, slideId),
-      });
-
-      if (!slide) {
-        return NextResponse.json(
-          { error: `Slide with id '${slideId}' not found` },
-          { status: 404 }
+      if (job.status === "succeeded" && job.response) {
+        console.log(
+          `[AUDIT] Replayed ingest job ${job.id} for idempotency key '${idempotencyKey}' from ${clientIp}`
         );
+        return NextResponse.json(job.response, {
+          status: job.httpStatus ?? 200,
+          headers: { "Idempotent-Replayed": "true" },
+        });
       }
 
-      if (slide.workspaceId !== workspaceId) {
-        return NextResponse.json(
-          { error: "Slide does not belong to the specified workspace" },
-          { status: 400 }
-        );
-      }
+      return NextResponse.json(
+        {
+          error: "A request with this Idempotency-Key is still being processed",
+        },
+        { status: 409 }
+      );
     }
 
-    // Insert metrics, submetrics, and data points
-    const insertedMetrics: string[] = [];
-    let totalSubmetrics = 0;
-    let totalDataPoints = 0;
-
-    for (const metricInput of body.metrics) {
-      // Insert metric
-      const [metric] = await db
-        .insert(metrics)
-        .values({
-          name: metricInput.metric_name,
-          description: metricInput.description || null,
-          slideId,
-          chartType: metricInput.chart_type || "line",
-          sortOrder: 0,
-        })
-        .returning();
-
-      insertedMetrics.push(metric.id);
-
-      // Insert submetrics with data points
-      for (const submetricInput of metricInput.submetrics) {
-        // Prepare data points as JSON array
-        const dataPointsJson =
-          submetricInput.data_points && submetricInput.data_points.length > 0
-            ? submetricInput.data_points.map((dp) => ({
-                timestamp: dp.timestamp,
-                value: dp.value,
-                confidence: dp.confidence ?? null,
-                source: dp.source ?? null,
-                dimensions: dp.dimensions ?? null,
-              }))
-            : [];
-
-        await db.insert(submetrics).values({
-          label: submetricInput.label,
-          category: submetricInput.category || null,
-          metricId: metric.id,
-          xAxis: submetricInput.xaxis || "date",
-          timezone: submetricInput.timezone || "UTC",
-          trend: submetricInput.trend || null,
-          unit: submetricInput.unit || null,
-          aggregationType: submetricInput.aggregation_type || "none",
-          color: submetricInput.color || null,
-          metadata: submetricInput.metadata || null,
-          dataPoints: dataPointsJson,
-        });
-
-        totalSubmetrics++;
-        totalDataPoints += dataPointsJson.length;
-      }
+    const outcome = await ingest(payload, access, clientIp, startTime);
+    const response = { ...outcome.body, job_id: job.id };
+
+    try {
+      await finishIngestJob(job.id, {
+        status: outcome.status < 400 ? "succeeded" : "failed",
+        httpStatus: outcome.status,
+        response,
+        workspaceId: outcome.workspaceId,
+        slideId: outcome.slideId,
+        mode: outcome.mode,
+        dryRun: outcome.dryRun,
+        counts: outcome.counts,
+        error: outcome.error,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      // The payload was already applied, so the caller still gets its result
+      console.error(`[ERROR] Failed to record ingest job ${job.id}:`, error);
     }
 
-    const duration = Date.now() - startTime;
-    console.log(
-      `[AUDIT] Successfully ingested metrics from ${clientIp}: ` +
-        `workspace=${workspaceId}, slide=${slideId}, ` +
-        `metrics=${insertedMetrics.length}, submetrics=${totalSubmetrics}, ` +
-        `datapoints=${totalDataPoints}, duration=${duration}ms`
-    );
-
-    return NextResponse.json(
-      {
-        success: true,
-        message: "Metrics ingested successfully",
-        data: {
-          workspace_id: workspaceId,
-          slide_id: slideId,
-          metrics_created: insertedMetrics.length,
-          submetrics_created: totalSubmetrics,
-          data_points_created: totalDataPoints,
-          metric_ids: insertedMetrics,
-        },
-      },
-      { status: 201 }
-    );
+    return NextResponse.json(response, { status: outcome.status });
   } catch (error) {
-    const duration = Date.now() - startTime;
     console.error(
-      `[ERROR] Failed to ingest metrics from ${clientIp} after ${duration}ms:`,
+      `[ERROR] Failed to ingest metrics from ${clientIp} after ${
+        Date.now() - startTime
+      }ms:`,
       error
     );
-
-    // Don't leak internal error details to the client
-    const isValidationError =
-      error instanceof Error &&
-      (error.message.includes("not found") ||
-        error.message.includes("required") ||
-        error.message.includes("invalid"));
-
     return NextResponse.json(
-      {
-        error: isValidationError
-          ? error.message
-          : "Internal server error - please contact support",
-        ...(process.env.NODE_ENV === "development" && {
-          debug: error instanceof Error ? error.message : "Unknown error",
-        }),
-      },
-      { status: isValidationError ? 400 : 500 }
+      { error: "Internal server error - please contact support" },
+      { status: 500 }
     );
   }
 }
 
 // GET endpoint to check API status (also requires authentication)
 export async function GET(request: NextRequest) {
-  const clientIp =
-    request.headers.get("x-forwarded-for") ||
-    request.headers.get("x-real-ip") ||
-    "unknown";
+  const clientIp = getClientIp(request);
 
-  const authResult = validateApiKey(request);
+  const authResult = await validateApiKey(request, "read");
   if (!authResult.valid) {
     console.warn(
       `[SECURITY] Unauthorized GET attempt to ingest endpoint from ${clientIp}`
     );
     return NextResponse.json(
       { error: "Unauthorized - API documentation requires authentication" },
-      { status: 401 }
+      { status: authResult.status ?? 401 }
     );
   }
 
@@ -386,17 +431,27 @@ export async function GET(request: NextRequest) {
     endpoint: "/api/ingest/metrics",
     methods: ["POST", "GET"],
     description: "Ingest metrics with Bearer token authentication",
+    idempotency: {
+      header: "Idempotency-Key: <unique key>",
+      note: "Optional. A successful request is not applied again when retried with the same key and body within 24 hours; the first response is returned with an Idempotent-Replayed header",
+    },
     authentication: {
       type: "Bearer",
-      header: "Authorization: Bearer <METRICS_API_KEY>",
-      note: "API key must be at least 32 characters",
+      header: "Authorization: Bearer <API_KEY>",
+      note: "Create keys from the workspace settings page. POST requires a key with write access; workspace-scoped keys must send a workspace_id they have access to",
     },
     post_body_example: {
-      workspace_id: "uuid (optional - will create if not provided)",
+      workspace_id:
+        "uuid (optional - will create if not provided; required for workspace-scoped keys)",
       slide_id: "uuid (optional - will create if not provided)",
       slide_title: "My Slide Title (required if slide_id not provided)",
       slide_date: "2025-10-06 (optional)",
       slide_description: "Optional description",
+      mode: "create (default) or merge - merge updates matching metrics/submetrics instead of duplicating them",
+      data_points_mode:
+        "replace (default) or append - how merge mode handles timestamps that already exist",
+      dry_run:
+        "false (default) or true - validate and report what would be created or updated without saving",
       metrics: [
         {
           metric_name: "% of MCB Count to Total Transactions",
@@ -406,7 +461,7 @@ export async function GET(request: NextRequest) {
             {
               label: "[Adidas] - % of MCB Count",
               category: "Adidas",
-              timezone: "ltz",
+              timezone: "UTC",
               xaxis: "period",
               trend: "downtrend",
               unit: "%",
@@ -0,0 +1,636 @@
+import { createHash, type Hash } from "node:crypto";
+import {
+  type ApiKeyAccess,
+  canAccessWorkspace,
+  getClientIp,
+  validateApiKey,
+} from "@/lib/api-key-auth";
+import {
+  applyIngestRequest,
+  createIngestContext,
+  describeLocation,
+  IngestError,
+  type IngestContext,
+  type IngestLocation,
+} from "@/lib/action/ingest";
+import {
+  finishIngestJob,
+  IDEMPOTENCY_WINDOW_MS,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+  releaseIdempotencyKey,
+  RUNNING_JOB_TIMEOUT_MS,
+  startIngestJob,
+} from "@/lib/action/ingest-job";
+import { withTransactionPool } from "@/lib/db";
+import {
+  type IngestStreamDataPointRecord,
+  type IngestStreamSlideRecord,
+  type IngestStreamSubmetricRecord,
+  type IngestValidationError,
+  type MetricInput,
+  parseIngestStreamRecord,
+  type SubmetricInput,
+} from "@/lib/ingest";
+import type {
+  IngestChangeCounts,
+  IngestJobCounts,
+} from "@/types/db/ingest-job";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * Streaming Metric Ingestion API
+ *
+ * POST /api/ingest/metrics/stream
+ *
+ * Headers:
+ *   - Authorization: Bearer <API_KEY> (a workspace API key with write access)
+ *   - Content-Type: application/x-ndjson
+ *   - Idempotency-Key: <unique key> (optional - as on /api/ingest/metrics; a
+ *     retry is only read to check that its body matches)
+ *
+ * Body: one JSON record per line. The first line says where the data goes;
+ * the rest are submetric attributes and data points, in any order:
+ *
+ *   {"type": "slide", "workspace_id": "uuid", "slide_title": "Backfill", "data_points_mode": "replace"}
+ *   {"type": "submetric", "metric_name": "Revenue", "label": "EU", "unit": "$", "trend": "uptrend"}
+ *   {"type": "data_point", "metric_name": "Revenue", "label": "EU", "timestamp": "2020-01-01", "value": 1200}
+ *
+ * The body is read line by line and applied in batches of data points, each
+ * in its own transaction, so memory use does not grow with the size of the
+ * upload. The slide, metrics and submetrics are looked up once and batches
+ * share one connection pool; each batch only reads the stored points at its
+ * own timestamps. Records are always merged into the slide (see merge mode
+ * on /api/ingest/metrics), so a failed backfill can simply be sent again.
+ *
+ * Invalid lines are skipped and reported with their line number; the other
+ * lines are still saved. With "dry_run": true every line is validated and
+ * nothing is written.
+ */
+
+// Lines applied per transaction
+const BATCH_SIZE = 2000;
+// Longest line accepted; longer lines are reported and skipped
+const MAX_LINE_LENGTH = 64 * 1024;
+// Line errors kept for the response; the rest are only counted
+const MAX_REPORTED_ERRORS = 100;
+
+interface LineError {
+  line: number;
+  message: string;
+}
+
+// The response to a request and what it saved, recorded on its job
+interface StreamOutcome {
+  status: number;
+  body: Record<string, unknown>;
+  error: string | null;
+  workspaceId: string | null;
+  slideId: string | null;
+  dryRun: boolean;
+  counts: IngestJobCounts | null;
+}
+
+function emptyCounts(): IngestChangeCounts {
+  return { created: 0, updated: 0, unchanged: 0 };
+}
+
+function describeValidationErrors(errors: IngestValidationError[]): string {
+  return errors
+    .map((error) =>
+      error.path ? `'${error.path}' ${error.message}` : error.message
+    )
+    .join("; ");
+}
+
+// Hash a body without applying it, to compare it with an earlier request
+async function hashBody(body: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = body.getReader();
+  const hash = createHash("sha256");
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Read a request body as lines without holding more than one chunk and one
+ * line in memory. Every chunk is fed to `hash` and counted in `bytes`.
+ */
+async function* readLines(
+  body: ReadableStream<Uint8Array>,
+  hash: Hash,
+  bytes: { count: number }
+): AsyncGenerator<{ line: number; text: string | null }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let line = 0;
+  // Set while skipping the rest of a line that is too long
+  let overflowing = false;
+
+  // A line can be too long in one chunk or over several
+  const emit = (text: string) => {
+    line++;
+    const tooLong = overflowing || text.length > MAX_LINE_LENGTH;
+    overflowing = false;
+    return { line, text: tooLong ? null : text.replace(/\r$/, "") };
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    hash.update(value);
+    bytes.count += value.byteLength;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      yield emit(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+
+    if (buffer.length > MAX_LINE_LENGTH) {
+      overflowing = true;
+      buffer = "";
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer !== "" || overflowing) yield emit(buffer);
+}
+
+// Data points and submetric attributes waiting to be applied together
+class StreamBatch {
+  readonly metrics: MetricInput[] = [];
+  readonly lines: number[] = [];
+  private readonly submetrics = new Map<string, SubmetricInput>();
+
+  get isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  private submetric(
+    metricName: string,
+    label: string,
+    category: string | null
+  ): { metric: MetricInput; submetric: SubmetricInput } {
+    let metric = this.metrics.find((item) => item.metric_name === metricName);
+    if (!metric) {
+      metric = { metric_name: metricName, submetrics: [] };
+      this.metrics.push(metric);
+    }
+
+    const key = JSON.stringify([metricName, label, category]);
+    let submetric = this.submetrics.get(key);
+    if (!submetric) {
+      submetric = { label, category, data_points: [] };
+      this.submetrics.set(key, submetric);
+      metric.submetrics.push(submetric);
+    }
+
+    return { metric, submetric };
+  }
+
+  addSubmetric(record: IngestStreamSubmetricRecord, line: number): void {
+    const {
+      type: _type,
+      metric_name,
+      description,
+      chart_type,
+      ...attributes
+    } = record;
+    const { metric, submetric } = this.submetric(
+      metric_name,
+      attributes.label,
+      attributes.category ?? null
+    );
+
+    if (description !== undefined) metric.description = description;
+    if (chart_type !== undefined) metric.chart_type = chart_type;
+    Object.assign(submetric, attributes);
+    this.lines.push(line);
+  }
+
+  addDataPoint(record: IngestStreamDataPointRecord, line: number): void {
+    const { metric_name, label, category, ...point } = record;
+    const { submetric } = this.submetric(
+      metric_name,
+      label ?? metric_name,
+      category ?? null
+    );
+
+    submetric.data_points?.push({
+      timestamp: point.timestamp,
+      value: point.value,
+      numerator: point.numerator,
+      denominator: point.denominator,
+      confidence: point.confidence,
+      source: point.source,
+      dimensions: point.dimensions,
+    });
+    this.lines.push(line);
+  }
+}
+
+// Validate every line and apply the records in batches
+async function ingestStream(
+  body: ReadableStream<Uint8Array>,
+  access: ApiKeyAccess,
+  clientIp: string,
+  hash: Hash,
+  bytes: { count: number },
+  context: IngestContext
+): Promise<StreamOutcome> {
+  // Updated inside each transaction so a failure can be traced to its item
+  const progress: { at: IngestLocation | null } = { at: null };
+  const errors: LineError[] = [];
+  const dataPointCounts = emptyCounts();
+  let slide: IngestStreamSlideRecord | null = null;
+  let slideId: string | null = null;
+  let linesRead = 0;
+  let linesIngested = 0;
+  let linesFailed = 0;
+  let batches = 0;
+  let metricsCreated = 0;
+  let submetricsCreated = 0;
+  let batch = new StreamBatch();
+
+  const failed = (status: number, error: string): StreamOutcome => ({
+    status,
+    body: { error, ...(errors.length > 0 && { errors }) },
+    error,
+    workspaceId: slide?.workspace_id ?? null,
+    slideId,
+    dryRun: slide?.dry_run ?? false,
+    counts: null,
+  });
+
+  const lineFailed = (line: number, message: string, count = 1) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push({ line, message });
+    linesFailed += count;
+  };
+
+  const flush = async () => {
+    if (!slide || batch.isEmpty) return;
+    const current = batch;
+    batch = new StreamBatch();
+
+    if (slide.dry_run) {
+      linesIngested += current.lines.length;
+      return;
+    }
+
+    try {
+      // Later batches go to the slide the first one created
+      const result = await applyIngestRequest(
+        {
+          workspace_id: slide.workspace_id,
+          slide_id: slideId,
+          slide_title: slide.slide_title,
+          slide_date: slide.slide_date,
+          slide_description: slide.slide_description,
+          mode: "merge",
+          data_points_mode: slide.data_points_mode,
+          metrics: current.metrics,
+        },
+        { apiKeyId: access.keyId, apiKeyName: access.name },
+        progress,
+        context
+      );
+
+      slideId = result.slideId;
+      slide.workspace_id = result.workspaceId;
+      batches++;
+      linesIngested += current.lines.length;
+      metricsCreated += result.metricCounts.created;
+      submetricsCreated += result.submetricCounts.created;
+      dataPointCounts.created += result.dataPointCounts.created;
+      dataPointCounts.updated += result.dataPointCounts.updated;
+      dataPointCounts.unchanged += result.dataPointCounts.unchanged;
+    } catch (error) {
+      // The workspace or slide is wrong, so no later batch can succeed
+      if (error instanceof IngestError) throw error;
+
+      const first = current.lines[0];
+      const last = current.lines[current.lines.length - 1];
+      console.error(
+        `[ERROR] Failed to ingest batch of lines ${first}-${last} from ${clientIp}:`,
+        error
+      );
+      lineFailed(
+        first,
+        `${
+          current.lines.length
+        } lines between line ${first} and ${last} were not saved - failed to ingest ${
+          progress.at ? describeLocation(progress.at) : "batch"
+        }`,
+        current.lines.length
+      );
+    }
+  };
+
+  try {
+    for await (const { line, text } of readLines(body, hash, bytes)) {
+      if (text === null) {
+        linesRead++;
+        lineFailed(
+          line,
+          `Line is longer than ${MAX_LINE_LENGTH} characters and was skipped`
+        );
+        continue;
+      }
+      if (!text.trim()) continue;
+      linesRead++;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        if (!slide) {
+          return failed(
+            400,
+            `Invalid request - line ${line} is not valid JSON`
+          );
+        }
+        lineFailed(line, "Line is not valid JSON");
+        continue;
+      }
+
+      const parsed = parseIngestStreamRecord(value);
+
+      if (!slide) {
+        // Nothing can be saved without knowing where it goes
+        if ("errors" in parsed) {
+          return failed(
+            400,
+            `Invalid request - line ${line}: ${describeValidationErrors(
+              parsed.errors
+            )}`
+          );
+        }
+        if (parsed.data.type !== "slide") {
+          return failed(
+            400,
+            `Invalid request - line ${line} must be a 'slide' record`
+          );
+        }
+
+        const header = parsed.data;
+        if (!header.workspace_id && access.workspaceIds !== null) {
+          return failed(
+            400,
+            "Invalid request - 'workspace_id' is required for workspace-scoped API keys"
+          );
+        }
+        if (
+          header.workspace_id &&
+          !canAccessWorkspace(access, header.workspace_id)
+        ) {
+          console.warn(
+            `[SECURITY] API key '${access.name}' denied access to workspace ${header.workspace_id} from ${clientIp}`
+          );
+          return failed(
+            403,
+            `API key does not have access to workspace '${header.workspace_id}'`
+          );
+        }
+
+        slide = header;
+        slideId = header.slide_id ?? null;
+        linesIngested++;
+        continue;
+      }
+
+      if ("errors" in parsed) {
+        lineFailed(line, describeValidationErrors(parsed.errors));
+        continue;
+      }
+
+      const record = parsed.data;
+      if (record.type === "slide") {
+        lineFailed(line, "Only the first line may be a 'slide' record");
+      } else if (record.type === "submetric") {
+        batch.addSubmetric(record, line);
+      } else {
+        batch.addDataPoint(record, line);
+      }
+      if (batch.lines.length >= BATCH_SIZE) await flush();
+    }
+
+    if (!slide) {
+      return failed(400, "Invalid request - body is empty");
+    }
+
+    await flush();
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return failed(error.status, error.message);
+    }
+
+    // e.g. the client disconnected; batches already applied stay saved
+    console.error(`[ERROR] Failed to read stream from ${clientIp}:`, error);
+    return failed(500, "Internal server error - please contact support");
+  }
+
+  const dryRun = slide.dry_run ?? false;
+
+  console.log(
+    `[AUDIT] ${
+      dryRun ? "Dry run of" : "Streamed"
+    } metrics from ${clientIp}: workspace=${
+      slide.workspace_id ?? null
+    }, slide=${slideId}, lines=${linesRead}, failed=${linesFailed}, ` +
+      `batches=${batches}, datapoints=${JSON.stringify(dataPointCounts)}`
+  );
+
+  return {
+    status: 200,
+    body: {
+      success: linesFailed === 0,
+      message:
+        linesFailed === 0
+          ? dryRun
+            ? "Dry run - every line is valid, no changes were saved"
+            : "Metrics ingested successfully"
+          : `${linesFailed} of ${linesRead} lines failed${
+              dryRun ? "" : " - the other lines were saved"
+            }`,
+      dry_run: dryRun,
+      data: {
+        workspace_id: slide.workspace_id ?? null,
+        slide_id: slideId,
+        lines: {
+          total: linesRead,
+          ingested: linesIngested,
+          failed: linesFailed,
+        },
+        // A dry run only validates the lines
+        ...(!dryRun && {
+          batches,
+          metrics_created: metricsCreated,
+          submetrics_created: submetricsCreated,
+          data_points: dataPointCounts,
+        }),
+      },
+      errors,
+    },
+    error: linesFailed > 0 ? `${linesFailed} lines failed` : null,
+    workspaceId: slide.workspace_id ?? null,
+    slideId,
+    dryRun,
+    // Metrics and submetrics span batches, so only their creation is counted
+    counts: dryRun
+      ? null
+      : {
+          metrics: { ...emptyCounts(), created: metricsCreated },
+          submetrics: { ...emptyCounts(), created: submetricsCreated },
+          data_points: dataPointCounts,
+        },
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientIp = getClientIp(request);
+
+  try {
+    // Validate API key
+    const authResult = await validateApiKey(request, "write");
+    if (!authResult.valid || !authResult.access) {
+      console.warn(
+        `[SECURITY] Unauthorized ingest attempt from ${clientIp}: ${authResult.error}`
+      );
+      return NextResponse.json(
+        { error: authResult.error || "Unauthorized" },
+        { status: authResult.status ?? 401 }
+      );
+    }
+
+    const access = authResult.access;
+
+    console.log(
+      `[AUDIT] Authenticated streaming ingest request from ${clientIp} with key '${access.name}'`
+    );
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: "Invalid request - body is empty" },
+        { status: 400 }
+      );
+    }
+
+    const idempotencyKey =
+      request.headers.get("idempotency-key")?.trim() || null;
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'Idempotency-Key' must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (idempotencyKey) {
+      await releaseIdempotencyKey(
+        access,
+        idempotencyKey,
+        new Date(Date.now() - IDEMPOTENCY_WINDOW_MS),
+        new Date(Date.now() - RUNNING_JOB_TIMEOUT_MS)
+      );
+    }
+
+    const { job, isNew } = await startIngestJob({
+      access,
+      idempotencyKey,
+      // Filled in once the body has been read
+      requestHash: "",
+      payloadBytes: 0,
+      clientIp,
+    });
+
+    if (!isNew) {
+      // A running stream's hash is not known yet, so it is not compared
+      if (job.status !== "succeeded" || !job.response) {
+        return NextResponse.json(
+          {
+            error:
+              "A request with this Idempotency-Key is still being processed",
+          },
+          { status: 409 }
+        );
+      }
+
+      if ((await hashBody(request.body)) !== job.requestHash) {
+        return NextResponse.json(
+          {
+            error:
+              "Idempotency-Key was already used with a different request body",
+          },
+          { status: 422 }
+        );
+      }
+
+      console.log(
+        `[AUDIT] Replayed ingest job ${job.id} for idempotency key '${idempotencyKey}' from ${clientIp}`
+      );
+      return NextResponse.json(job.response, {
+        status: job.httpStatus ?? 200,
+        headers: { "Idempotent-Replayed": "true" },
+      });
+    }
+
+    const body = request.body;
+    const hash = createHash("sha256");
+    const bytes = { count: 0 };
+    const outcome = await withTransactionPool((transaction) =>
+      ingestStream(
+        body,
+        access,
+        clientIp,
+        hash,
+        bytes,
+        createIngestContext(transaction)
+      )
+    );
+    const response = { ...outcome.body, job_id: job.id };
+
+    try {
+      await finishIngestJob(job.id, {
+        status: outcome.status < 400 ? "succeeded" : "failed",
+        httpStatus: outcome.status,
+        response,
+        workspaceId: outcome.workspaceId,
+        slideId: outcome.slideId,
+        mode: "merge",
+        dryRun: outcome.dryRun,
+        counts: outcome.counts,
+        error: outcome.error,
+        durationMs: Date.now() - startTime,
+        requestHash: hash.digest("hex"),
+        payloadBytes: bytes.count,
+      });
+    } catch (error) {
+      // The batches were already applied, so the caller still gets its result
+      console.error(`[ERROR] Failed to record ingest job ${job.id}:`, error);
+    }
+
+    return NextResponse.json(response, { status: outcome.status });
+  } catch (error) {
+    console.error(
+      `[ERROR] Failed to stream metrics from ${clientIp} after ${
+        Date.now() - startTime
+      }ms:`,
+      error
+    );
+    return NextResponse.json(
+      { error: "Internal server error - please contact support" },
+      { status: 500 }
+    );
+  }
+}
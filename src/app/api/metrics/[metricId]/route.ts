@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import {
+  getWorkspaceIdForMetric,
+  getWorkspaceIdForSlide,
+} from "@/lib/action/workspace";
+import {
+  deleteMetric,
+  getMetricById,
+  parseMetricInput,
+  updateMetric,
+} from "@/lib/action/metric";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ metricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { metricId } = await params;
+    const workspaceId = await getWorkspaceIdForMetric(metricId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const metric = await getMetricById(metricId);
+
+    if (!metric) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ metric });
+  } catch (error) {
+    console.error("Error fetching metric:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch metric" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ metricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { metricId } = await params;
+    const workspaceId = await getWorkspaceIdForMetric(metricId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseMetricInput(body, false);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Moving a metric also requires edit access to the target slide
+    if (parsed.data.slideId) {
+      const targetWorkspaceId = await getWorkspaceIdForSlide(
+        parsed.data.slideId
+      );
+
+      if (!targetWorkspaceId) {
+        return NextResponse.json(
+          { error: "Target slide not found" },
+          { status: 404 }
+        );
+      }
+
+      const targetDenied = await checkWorkspaceAccess(
+        session,
+        targetWorkspaceId,
+        "editor"
+      );
+      if (targetDenied) {
+        return targetDenied;
+      }
+    }
+
+    const metric = await updateMetric(metricId, parsed.data);
+
+    if (!metric) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ metric });
+  } catch (error) {
+    console.error("Error updating metric:", error);
+    return NextResponse.json(
+      { error: "Failed to update metric" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ metricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { metricId } = await params;
+    const workspaceId = await getWorkspaceIdForMetric(metricId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    await deleteMetric(metricId);
+
+    return NextResponse.json({
+      message: "Metric deleted successfully",
+      metricId,
+    });
+  } catch (error) {
+    console.error("Error deleting metric:", error);
+    return NextResponse.json(
+      { error: "Failed to delete metric" },
+      { status: 500 }
+    );
+  }
+}
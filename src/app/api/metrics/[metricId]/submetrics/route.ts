@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForMetric } from "@/lib/action/workspace";
+import { createSubmetric, parseSubmetricInput } from "@/lib/action/submetric";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ metricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { metricId } = await params;
+    const workspaceId = await getWorkspaceIdForMetric(metricId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Metric not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSubmetricInput(body, true);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const submetric = await createSubmetric(metricId, {
+      ...parsed.data,
+      label: parsed.data.label ?? "",
+    });
+
+    return NextResponse.json({ submetric }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating submetric:", error);
+    return NextResponse.json(
+      { error: "Failed to create submetric" },
+      { status: 500 }
+    );
+  }
+}
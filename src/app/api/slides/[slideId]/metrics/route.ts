@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSlide } from "@/lib/action/workspace";
+import { createMetric, parseMetricInput } from "@/lib/action/metric";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ slideId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slideId } = await params;
+    const workspaceId = await getWorkspaceIdForSlide(slideId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Slide not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseMetricInput(body, true);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const metric = await createMetric(slideId, {
+      ...parsed.data,
+      name: parsed.data.name ?? "",
+    });
+
+    return NextResponse.json({ metric }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating metric:", error);
+    return NextResponse.json(
+      { error: "Failed to create metric" },
+      { status: 500 }
+    );
+  }
+}
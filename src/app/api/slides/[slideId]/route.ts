@@ -1,5 +1,14 @@
 import { NextResponse } from "next/server";
 import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSlide } from "@/lib/action/workspace";
+import { parseSlideInput, updateSlide } from "@/lib/action/slide";
+import { withSubmetricSettings } from "@/lib/action/submetric";
+import {
+  metricsWithDataPoints,
+  toMetricWithSubmetrics,
+} from "@/lib/action/data-point";
+import { parseTimestamp } from "@/lib/data-points";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
 import { eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { slides } from "@/lib/db/schema";
@@ -16,14 +25,32 @@ export async function GET(
     }
 
     const { slideId } = await params;
+    const workspaceId = await getWorkspaceIdForSlide(slideId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Slide not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    // Optional ?since=<timestamp> limits data points to that date onwards
+    const sinceParam = new URL(request.url).searchParams.get("since");
+    const since = sinceParam ? parseTimestamp(sinceParam) : undefined;
+
+    if (since && Number.isNaN(since.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid request - 'since' must be a timestamp" },
+        { status: 400 }
+      );
+    }
+
     const slide = await db.query.slides.findFirst({
       where: eq(slides.id, slideId),
       with: {
-        metrics: {
-          with: {
-            submetrics: true,
-          },
-        },
+        metrics: metricsWithDataPoints(since),
       },
     });
 
@@ -31,7 +58,14 @@ export async function GET(
       return NextResponse.json({ error: "Slide not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ slide });
+    return NextResponse.json({
+      slide: {
+        ...slide,
+        metrics: await withSubmetricSettings(
+          slide.metrics.map(toMetricWithSubmetrics)
+        ),
+      },
+    });
   } catch (error) {
     console.error("Error fetching slide:", error);
     return NextResponse.json(
@@ -41,7 +75,7 @@ export async function GET(
   }
 }
 
-export async function DELETE(
+export async function PUT(
   request: Request,
   { params }: { params: Promise<{ slideId: string }> }
 ) {
@@ -53,16 +87,63 @@ export async function DELETE(
     }
 
     const { slideId } = await params;
+    const workspaceId = await getWorkspaceIdForSlide(slideId);
 
-    // First check if the slide exists
-    const slide = await db.query.slides.findFirst({
-      where: eq(slides.id, slideId),
-    });
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Slide not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSlideInput(body, false);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const slide = await updateSlide(slideId, parsed.data);
 
     if (!slide) {
       return NextResponse.json({ error: "Slide not found" }, { status: 404 });
     }
 
+    return NextResponse.json({ slide });
+  } catch (error) {
+    console.error("Error updating slide:", error);
+    return NextResponse.json(
+      { error: "Failed to update slide" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ slideId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slideId } = await params;
+    const workspaceId = await getWorkspaceIdForSlide(slideId);
+
+    if (!workspaceId) {
+      return NextResponse.json({ error: "Slide not found" }, { status: 404 });
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
     // Delete the slide - this will cascade to metrics and submetrics (with datapoints)
     await db.delete(slides).where(eq(slides.id, slideId));
 
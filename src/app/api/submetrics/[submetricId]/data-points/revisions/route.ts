@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { getDataPointRevisions } from "@/lib/action/data-point";
+import { parseTimestamp } from "@/lib/data-points";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+/**
+ * Revision history of a submetric's data points, newest first.
+ * `?timestamp=<timestamp>` returns the history of a single point.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const timestampParam = new URL(request.url).searchParams.get("timestamp");
+    const timestamp = timestampParam
+      ? parseTimestamp(timestampParam)
+      : undefined;
+
+    if (timestamp && Number.isNaN(timestamp.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid request - 'timestamp' must be a timestamp" },
+        { status: 400 }
+      );
+    }
+
+    const revisions = await getDataPointRevisions(submetricId, timestamp);
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error("Error fetching data point revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch data point revisions" },
+      { status: 500 }
+    );
+  }
+}
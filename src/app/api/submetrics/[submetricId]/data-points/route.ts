@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { replaceDataPoints } from "@/lib/action/data-point";
+import { parseDataPointsInput } from "@/lib/data-points";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+const MAX_DATA_POINTS = 10000;
+
+/**
+ * Replace a submetric's data points with the series from the data editor
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || !Array.isArray(body.dataPoints)) {
+      return NextResponse.json(
+        { error: "Invalid request - 'dataPoints' array is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.dataPoints.length > MAX_DATA_POINTS) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - at most ${MAX_DATA_POINTS} data points are allowed`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseDataPointsInput(body.dataPoints);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const dataPoints = await replaceDataPoints(submetricId, parsed.dataPoints, {
+      userId: session.user?.id ?? null,
+    });
+
+    return NextResponse.json({ dataPoints });
+  } catch (error) {
+    console.error("Error saving data points:", error);
+    return NextResponse.json(
+      { error: "Failed to save data points" },
+      { status: 500 }
+    );
+  }
+}
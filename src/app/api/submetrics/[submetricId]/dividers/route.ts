@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { getDividers, saveDividers } from "@/lib/action/submetric";
+
+// Matches the limit enforced by addDivider in xmr-calculations
+const MAX_DIVIDERS = 3;
+
+function isValidDivider(value: unknown): value is { id: string; x: number } {
+  if (!value || typeof value !== "object") return false;
+  const divider = value as Record<string, unknown>;
+  return typeof divider.id === "string" && Number.isFinite(divider.x);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const dividers = await getDividers(submetricId);
+
+    return NextResponse.json({ dividers });
+  } catch (error) {
+    console.error("Error fetching dividers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dividers" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || !Array.isArray(body.dividers)) {
+      return NextResponse.json(
+        { error: "Invalid request - 'dividers' array is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.dividers.length > MAX_DIVIDERS) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - at most ${MAX_DIVIDERS} dividers are allowed`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!body.dividers.every(isValidDivider)) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid request - each divider must have a string 'id' and numeric 'x'",
+        },
+        { status: 400 }
+      );
+    }
+
+    const dividers = await saveDividers(
+      submetricId,
+      body.dividers.map((divider: { id: string; x: number }) => ({
+        id: divider.id,
+        x: divider.x,
+      })),
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ dividers });
+  } catch (error) {
+    console.error("Error saving dividers:", error);
+    return NextResponse.json(
+      { error: "Failed to save dividers" },
+      { status: 500 }
+    );
+  }
+}
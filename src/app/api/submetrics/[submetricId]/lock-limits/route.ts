@@ -0,0 +1,198 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import {
+  deleteLockLimits,
+  getLockLimits,
+  saveLockLimits,
+} from "@/lib/action/submetric";
+import type { LockedLimitsJson } from "@/types/db/submetric";
+
+const LIMIT_KEYS: Array<keyof LockedLimitsJson> = [
+  "avgX",
+  "avgMovement",
+  "UNPL",
+  "LNPL",
+  "URL",
+  "lowerQuartile",
+  "upperQuartile",
+];
+
+function isValidLimits(limits: unknown): limits is LockedLimitsJson {
+  if (!limits || typeof limits !== "object") return false;
+  return LIMIT_KEYS.every((key) =>
+    Number.isFinite((limits as Record<string, unknown>)[key])
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const lockLimits = await getLockLimits(submetricId);
+
+    return NextResponse.json({ lockLimits });
+  } catch (error) {
+    console.error("Error fetching lock limits:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch lock limits" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request - JSON body is required" },
+        { status: 400 }
+      );
+    }
+
+    // Null limits record an explicit unlock
+    if (body.limits !== null && !isValidLimits(body.limits)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'limits' must be null or contain numeric ${LIMIT_KEYS.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(body.status) || body.status < 0) {
+      return NextResponse.json(
+        { error: "Invalid request - 'status' must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    for (const key of ["excludedTimestamps", "outlierTimestamps"]) {
+      if (body[key] != null && !isStringArray(body[key])) {
+        return NextResponse.json(
+          { error: `Invalid request - '${key}' must be an array of strings` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const lockLimits = await saveLockLimits(
+      submetricId,
+      {
+        limits: body.limits,
+        status: body.status,
+        isAutoLocked: Boolean(body.isAutoLocked),
+        isManuallyModified: Boolean(body.isManuallyModified),
+        excludedTimestamps: body.excludedTimestamps ?? [],
+        outlierTimestamps: body.outlierTimestamps ?? [],
+      },
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ lockLimits });
+  } catch (error) {
+    console.error("Error saving lock limits:", error);
+    return NextResponse.json(
+      { error: "Failed to save lock limits" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    await deleteLockLimits(submetricId);
+
+    return NextResponse.json({
+      message: "Lock limits cleared successfully",
+      submetricId,
+    });
+  } catch (error) {
+    console.error("Error deleting lock limits:", error);
+    return NextResponse.json(
+      { error: "Failed to delete lock limits" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import {
+  getWorkspaceIdForMetric,
+  getWorkspaceIdForSubmetric,
+} from "@/lib/action/workspace";
+import {
+  deleteSubmetric,
+  getSubmetricById,
+  parseSubmetricInput,
+  updateSubmetric,
+} from "@/lib/action/submetric";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const submetric = await getSubmetricById(submetricId);
+
+    if (!submetric) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ submetric });
+  } catch (error) {
+    console.error("Error fetching submetric:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch submetric" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSubmetricInput(body, false);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Moving a submetric also requires edit access to the target metric
+    if (parsed.data.metricId) {
+      const targetWorkspaceId = await getWorkspaceIdForMetric(
+        parsed.data.metricId
+      );
+
+      if (!targetWorkspaceId) {
+        return NextResponse.json(
+          { error: "Target metric not found" },
+          { status: 404 }
+        );
+      }
+
+      const targetDenied = await checkWorkspaceAccess(
+        session,
+        targetWorkspaceId,
+        "editor"
+      );
+      if (targetDenied) {
+        return targetDenied;
+      }
+    }
+
+    const submetric = await updateSubmetric(submetricId, parsed.data);
+
+    if (!submetric) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ submetric });
+  } catch (error) {
+    console.error("Error updating submetric:", error);
+    return NextResponse.json(
+      { error: "Failed to update submetric" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    await deleteSubmetric(submetricId);
+
+    return NextResponse.json({
+      message: "Submetric deleted successfully",
+      submetricId,
+    });
+  } catch (error) {
+    console.error("Error deleting submetric:", error);
+    return NextResponse.json(
+      { error: "Failed to delete submetric" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { parseRuleSetConfig } from "@/lib/rule-sets";
+import { deleteRuleSet, getRuleSet, saveRuleSet } from "@/lib/action/submetric";
+
+/**
+ * The submetric's own detection rule set. Null when it uses the workspace
+ * default.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const ruleSet = await getRuleSet(submetricId);
+
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    console.error("Error fetching rule set:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rule set" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseRuleSetConfig(body);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const ruleSet = await saveRuleSet(
+      submetricId,
+      parsed.data,
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    console.error("Error saving rule set:", error);
+    return NextResponse.json(
+      { error: "Failed to save rule set" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    await deleteRuleSet(submetricId);
+
+    return NextResponse.json({
+      message: "Rule set cleared successfully",
+      submetricId,
+    });
+  } catch (error) {
+    console.error("Error deleting rule set:", error);
+    return NextResponse.json(
+      { error: "Failed to delete rule set" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { getSeasonality, saveSeasonality } from "@/lib/action/submetric";
+import { parseTimestamp } from "@/lib/data-points";
+
+const PERIODS = ["year", "quarter", "month", "week"];
+const GROUPINGS = ["none", "week", "month", "quarter"];
+// The first and last points the factors were fitted on
+const DATA_RANGE_KEYS = ["dataStartTimestamp", "dataEndTimestamp"];
+
+function isTimestamp(value: unknown): value is string {
+  return (
+    typeof value === "string" && !Number.isNaN(parseTimestamp(value).getTime())
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const seasonality = await getSeasonality(submetricId);
+
+    return NextResponse.json({ seasonality });
+  } catch (error) {
+    console.error("Error fetching seasonality:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch seasonality" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request - JSON body is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.isActive !== "boolean") {
+      return NextResponse.json(
+        { error: "Invalid request - 'isActive' must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    if (!PERIODS.includes(body.period)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'period' must be one of: ${PERIODS.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!GROUPINGS.includes(body.grouping)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'grouping' must be one of: ${GROUPINGS.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(body.factors) ||
+      !body.factors.every((factor: unknown) => Number.isFinite(factor))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid request - 'factors' must be an array of numbers" },
+        { status: 400 }
+      );
+    }
+
+    for (const key of DATA_RANGE_KEYS) {
+      if (body[key] != null && !isTimestamp(body[key])) {
+        return NextResponse.json(
+          { error: `Invalid request - '${key}' must be a timestamp or null` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const seasonality = await saveSeasonality(
+      submetricId,
+      {
+        isActive: body.isActive,
+        period: body.period,
+        grouping: body.grouping,
+        factors: body.factors,
+        isManuallyModified: Boolean(body.isManuallyModified),
+        dataStartTimestamp: body.dataStartTimestamp ?? null,
+        dataEndTimestamp: body.dataEndTimestamp ?? null,
+        dataPointCount: Number.isInteger(body.dataPointCount)
+          ? body.dataPointCount
+          : 0,
+      },
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ seasonality });
+  } catch (error) {
+    console.error("Error saving seasonality:", error);
+    return NextResponse.json(
+      { error: "Failed to save seasonality" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import {
+  deleteShiftChart,
+  getShiftChart,
+  parseShiftChartInput,
+  saveShiftChart,
+} from "@/lib/action/submetric";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const shiftChart = await getShiftChart(submetricId);
+
+    return NextResponse.json({ shiftChart });
+  } catch (error) {
+    console.error("Error fetching shift chart:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch shift chart" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseShiftChartInput(body);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const shiftChart = await saveShiftChart(
+      submetricId,
+      parsed.data,
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ shiftChart });
+  } catch (error) {
+    console.error("Error saving shift chart:", error);
+    return NextResponse.json(
+      { error: "Failed to save shift chart" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    await deleteShiftChart(submetricId);
+
+    return NextResponse.json({
+      message: "Shift chart reset successfully",
+      submetricId,
+    });
+  } catch (error) {
+    console.error("Error deleting shift chart:", error);
+    return NextResponse.json(
+      { error: "Failed to delete shift chart" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { getWorkspaceIdForSubmetric } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { getTrend, saveTrend } from "@/lib/action/submetric";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const trend = await getTrend(submetricId);
+
+    return NextResponse.json({ trend });
+  } catch (error) {
+    console.error("Error fetching trend:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trend" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ submetricId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { submetricId } = await params;
+    const workspaceId = await getWorkspaceIdForSubmetric(submetricId);
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "Submetric not found" },
+        { status: 404 }
+      );
+    }
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request - JSON body is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.isActive !== "boolean") {
+      return NextResponse.json(
+        { error: "Invalid request - 'isActive' must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isFinite(body.gradient) || !Number.isFinite(body.intercept)) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid request - 'gradient' and 'intercept' must be finite numbers",
+        },
+        { status: 400 }
+      );
+    }
+
+    const trend = await saveTrend(
+      submetricId,
+      {
+        isActive: body.isActive,
+        gradient: body.gradient,
+        intercept: body.intercept,
+        isManuallyModified: Boolean(body.isManuallyModified),
+      },
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ trend });
+  } catch (error) {
+    console.error("Error saving trend:", error);
+    return NextResponse.json(
+      { error: "Failed to save trend" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { revokeApiKey } from "@/lib/action/api-key";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; keyId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, keyId } = await params;
+
+    // Only owners manage the keys that can write to their workspace
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const apiKey = await revokeApiKey(keyId, workspaceId);
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: "API key not found or already revoked" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ apiKey });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
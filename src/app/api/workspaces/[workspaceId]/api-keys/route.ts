@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { createApiKey, getApiKeysForWorkspace } from "@/lib/action/api-key";
+import {
+  getExistingWorkspaceIds,
+  getWorkspaceRole,
+  hasWorkspaceRole,
+} from "@/lib/action/workspace";
+import type { ApiKeyPermission } from "@/types/db/api-key";
+
+const PERMISSIONS: ApiKeyPermission[] = ["read", "write"];
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 3650;
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    // Only owners manage the keys that can write to their workspace
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const apiKeys = await getApiKeysForWorkspace(workspaceId);
+
+    return NextResponse.json({ apiKeys });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    // Only owners manage the keys that can write to their workspace
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request - JSON body is required" },
+        { status: 400 }
+      );
+    }
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'name' must be 1-${MAX_NAME_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!PERMISSIONS.includes(body.permission)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'permission' must be one of: ${PERMISSIONS.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Null means the key never expires
+    if (
+      body.expiresInDays != null &&
+      (!Number.isInteger(body.expiresInDays) ||
+        body.expiresInDays < 1 ||
+        body.expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'expiresInDays' must be null or an integer between 1 and ${MAX_EXPIRY_DAYS}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.workspaceIds != null && !isStringArray(body.workspaceIds)) {
+      return NextResponse.json(
+        {
+          error: "Invalid request - 'workspaceIds' must be an array of strings",
+        },
+        { status: 400 }
+      );
+    }
+
+    // The key is always scoped to the workspace it was created from
+    const workspaceIds: string[] = Array.from(
+      new Set([workspaceId, ...(body.workspaceIds ?? [])])
+    );
+    const existingIds = await getExistingWorkspaceIds(workspaceIds);
+
+    if (!existingIds.includes(workspaceId)) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    const missingIds = workspaceIds.filter((id) => !existingIds.includes(id));
+    if (missingIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - workspaces not found: ${missingIds.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // A key can only be scoped to workspaces the user also owns
+    for (const id of workspaceIds) {
+      if (id === workspaceId) continue;
+
+      const role = await getWorkspaceRole(id, session.user);
+      if (!hasWorkspaceRole(role, "owner")) {
+        return NextResponse.json(
+          { error: `Forbidden - requires owner access to workspace '${id}'` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const created = await createApiKey(
+      {
+        name,
+        workspaceIds,
+        permission: body.permission,
+        expiresAt:
+          body.expiresInDays != null
+            ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000)
+            : null,
+      },
+      session.user?.id ?? null
+    );
+
+    // The full key is only returned here - it cannot be retrieved later
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return NextResponse.json(
+      { error: "Failed to create API key" },
+      { status: 500 }
+    );
+  }
+}
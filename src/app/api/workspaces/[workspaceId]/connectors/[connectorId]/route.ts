@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import {
+  ConnectorError,
+  deleteConnector,
+  getConnectorById,
+  updateConnector,
+} from "@/lib/action/connector";
+import { getWorkspaceIdForSlide } from "@/lib/action/workspace";
+import { parseConnectorInput } from "@/lib/connectors";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; connectorId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, connectorId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const current = await getConnectorById(connectorId, workspaceId);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: "Connector not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseConnectorInput(body, current.kind);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (
+      parsed.data.slideId !== undefined &&
+      (await getWorkspaceIdForSlide(parsed.data.slideId)) !== workspaceId
+    ) {
+      return NextResponse.json(
+        { error: "Invalid request - slide not found in this workspace" },
+        { status: 400 }
+      );
+    }
+
+    const connector = await updateConnector(
+      connectorId,
+      workspaceId,
+      parsed.data
+    );
+
+    if (!connector) {
+      return NextResponse.json(
+        { error: "Connector not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ connector });
+  } catch (error) {
+    console.error("Error updating connector:", error);
+
+    if (error instanceof ConnectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update connector" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; connectorId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, connectorId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const deleted = await deleteConnector(connectorId, workspaceId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Connector not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Connector deleted successfully",
+      connectorId,
+    });
+  } catch (error) {
+    console.error("Error deleting connector:", error);
+    return NextResponse.json(
+      { error: "Failed to delete connector" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import {
+  getConnectorById,
+  getConnectorRuns,
+  runConnectorNow,
+} from "@/lib/action/connector";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; connectorId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, connectorId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const connector = await getConnectorById(connectorId, workspaceId);
+
+    if (!connector) {
+      return NextResponse.json(
+        { error: "Connector not found" },
+        { status: 404 }
+      );
+    }
+
+    const runs = await getConnectorRuns(connectorId);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Error fetching connector runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch connector runs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Run a connector now, outside its schedule. The run is returned once it has
+ * finished; a failed run is still a successful request.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; connectorId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, connectorId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const run = await runConnectorNow(
+      connectorId,
+      workspaceId,
+      session.user?.id ?? null
+    );
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Connector not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    console.error("Error running connector:", error);
+    return NextResponse.json(
+      { error: "Failed to run connector" },
+      { status: 500 }
+    );
+  }
+}
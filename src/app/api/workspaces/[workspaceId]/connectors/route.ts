@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import {
+  ConnectorError,
+  createConnector,
+  getConnectorsForWorkspace,
+} from "@/lib/action/connector";
+import { getWorkspaceIdForSlide } from "@/lib/action/workspace";
+import { type ConnectorInput, parseConnectorInput } from "@/lib/connectors";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const connectors = await getConnectorsForWorkspace(workspaceId);
+
+    return NextResponse.json({ connectors });
+  } catch (error) {
+    console.error("Error fetching connectors:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch connectors" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    // Connectors hold credentials, so only owners manage them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseConnectorInput(body);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const data = parsed.data as ConnectorInput;
+
+    if ((await getWorkspaceIdForSlide(data.slideId)) !== workspaceId) {
+      return NextResponse.json(
+        { error: "Invalid request - slide not found in this workspace" },
+        { status: 400 }
+      );
+    }
+
+    const connector = await createConnector(
+      workspaceId,
+      data,
+      session.user?.id ?? null
+    );
+
+    return NextResponse.json({ connector }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating connector:", error);
+
+    if (error instanceof ConnectorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create connector" },
+      { status: 500 }
+    );
+  }
+}
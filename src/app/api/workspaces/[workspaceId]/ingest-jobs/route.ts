@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { getIngestJobsForWorkspace } from "@/lib/action/ingest-job";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    // Jobs show which keys write to the workspace, so only owners see them
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const ingestJobs = await getIngestJobsForWorkspace(workspaceId);
+
+    return NextResponse.json({ ingestJobs });
+  } catch (error) {
+    console.error("Error fetching ingest jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ingest jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import {
+  LastOwnerError,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+  WORKSPACE_ROLES,
+} from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; memberId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, memberId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || !WORKSPACE_ROLES.includes(body.role)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'role' must be one of: ${WORKSPACE_ROLES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const member = await updateWorkspaceMemberRole(
+      workspaceId,
+      memberId,
+      body.role
+    );
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ member });
+  } catch (error) {
+    // A workspace must keep at least one owner
+    if (error instanceof LastOwnerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to update workspace member" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string; memberId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId, memberId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const removed = await removeWorkspaceMember(workspaceId, memberId);
+
+    if (!removed) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: "Member removed successfully",
+      memberId,
+    });
+  } catch (error) {
+    if (error instanceof LastOwnerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error removing workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to remove workspace member" },
+      { status: 500 }
+    );
+  }
+}
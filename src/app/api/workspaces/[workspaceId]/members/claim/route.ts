@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import {
+  claimWorkspaceOwnership,
+  isWorkspaceAdmin,
+} from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+// Workspaces created before memberships existed (or by API ingestion) have no
+// owner; an administrator listed in WORKSPACE_ADMIN_EMAILS can claim them
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    if (!session.user?.email || !isWorkspaceAdmin(session.user.email)) {
+      return NextResponse.json(
+        { error: "Forbidden - only administrators can claim a workspace" },
+        { status: 403 }
+      );
+    }
+
+    const member = await claimWorkspaceOwnership(
+      workspaceId,
+      session.user.email
+    );
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "This workspace already has an owner" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ member });
+  } catch (error) {
+    console.error("Error claiming workspace ownership:", error);
+    return NextResponse.json(
+      { error: "Failed to claim workspace ownership" },
+      { status: 500 }
+    );
+  }
+}
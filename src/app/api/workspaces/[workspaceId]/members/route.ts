@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import {
+  addWorkspaceMember,
+  getWorkspaceMembers,
+  isWorkspaceAdmin,
+  WORKSPACE_ROLES,
+} from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
+    const members = await getWorkspaceMembers(workspaceId);
+
+    return NextResponse.json({
+      members,
+      canClaim: isWorkspaceAdmin(session.user?.email),
+    });
+  } catch (error) {
+    console.error("Error fetching workspace members:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspace members" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (
+      !body ||
+      typeof body.email !== "string" ||
+      !EMAIL_PATTERN.test(body.email.trim())
+    ) {
+      return NextResponse.json(
+        { error: "Invalid request - a valid 'email' is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!WORKSPACE_ROLES.includes(body.role)) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - 'role' must be one of: ${WORKSPACE_ROLES.join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const member = await addWorkspaceMember(
+      workspaceId,
+      body.email,
+      body.role,
+      session.user?.id ?? null
+    );
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "This email is already a member of the workspace" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ member }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding workspace member:", error);
+    return NextResponse.json(
+      { error: "Failed to add workspace member" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getAuthSession } from "@/lib/auth";
 import { getWorkspaceById } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
 
 export async function GET(
   request: Request,
@@ -14,6 +15,12 @@ export async function GET(
     }
 
     const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "viewer");
+    if (denied) {
+      return denied;
+    }
+
     const workspace = await getWorkspaceById(workspaceId);
 
     if (!workspace) {
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { saveWorkspaceRuleSet } from "@/lib/action/workspace";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+import { parseRuleSetConfig } from "@/lib/rule-sets";
+
+/**
+ * Set the default detection rule set of the workspace's charts. Submetrics
+ * with their own rule set keep it.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseRuleSetConfig(body);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const workspace = await saveWorkspaceRuleSet(workspaceId, parsed.data);
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("Error saving workspace rule set:", error);
+    return NextResponse.json(
+      { error: "Failed to save workspace rule set" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Go back to the default Western Electric rules
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "owner");
+    if (denied) {
+      return denied;
+    }
+
+    const workspace = await saveWorkspaceRuleSet(workspaceId, null);
+
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "Workspace not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("Error clearing workspace rule set:", error);
+    return NextResponse.json(
+      { error: "Failed to clear workspace rule set" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/auth";
+import { createSlide, parseSlideInput } from "@/lib/action/slide";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSlideInput(body, true);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const slide = await createSlide(workspaceId, {
+      ...parsed.data,
+      title: parsed.data.title ?? "",
+    });
+
+    return NextResponse.json({ slide }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating slide:", error);
+    return NextResponse.json(
+      { error: "Failed to create slide" },
+      { status: 500 }
+    );
+  }
+}
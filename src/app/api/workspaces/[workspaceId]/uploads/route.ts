@@ -0,0 +1,257 @@
+import { NextResponse } from "next/server";
+import {
+  InvalidInputError,
+  InvalidSpreadsheetError,
+  readSheet,
+} from "read-excel-file/node";
+import { getAuthSession } from "@/lib/auth";
+import {
+  applyIngestRequest,
+  describeLocation,
+  IngestError,
+  type IngestLocation,
+} from "@/lib/action/ingest";
+import { parseIngestRequest } from "@/lib/ingest";
+import {
+  buildUploadMetrics,
+  describeUploadSeries,
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_ROWS,
+  parseColumnMapping,
+  parseCsvTable,
+  toCellText,
+  toUploadTable,
+  type UploadTable,
+} from "@/lib/ingest-upload";
+import { checkWorkspaceAccess } from "@/lib/workspace-auth";
+
+// Rows returned with the columns so the mapping step can show examples
+const SAMPLE_ROWS = 10;
+// Row errors listed in a 400 response; the rest are only counted
+const MAX_REPORTED_ERRORS = 50;
+
+async function readUploadTable(file: File): Promise<UploadTable | null> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".csv")) {
+    return parseCsvTable(await file.text());
+  }
+
+  if (name.endsWith(".xlsx")) {
+    // Only the first sheet is read
+    const sheet = await readSheet(Buffer.from(await file.arrayBuffer()));
+    return toUploadTable(
+      sheet.map((row, index) => ({
+        line: index + 1,
+        cells: row.map(toCellText),
+      }))
+    );
+  }
+
+  return null;
+}
+
+function formField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Ingest a CSV or .xlsx file into a slide
+ *
+ * Without a `mapping` field, returns the file's columns and first rows so the
+ * columns can be mapped. With one, the rows are grouped into metrics and
+ * submetrics and applied exactly like a JSON ingest payload; `dry_run=true`
+ * previews the result without saving anything.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  // Updated inside the transaction so a failure can be traced to its series
+  const progress: { at: IngestLocation | null } = { at: null };
+
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { workspaceId } = await params;
+
+    const denied = await checkWorkspaceAccess(session, workspaceId, "editor");
+    if (denied) {
+      return denied;
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get("file");
+
+    if (!formData || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Invalid request - a 'file' upload is required" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - files may be at most ${
+            MAX_UPLOAD_BYTES / (1024 * 1024)
+          } MB`,
+        },
+        { status: 413 }
+      );
+    }
+
+    let table: UploadTable | null;
+    try {
+      table = await readUploadTable(file);
+    } catch (error) {
+      if (
+        error instanceof InvalidInputError ||
+        error instanceof InvalidSpreadsheetError
+      ) {
+        return NextResponse.json(
+          { error: "Invalid request - the file is not a readable .xlsx file" },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (!table) {
+      return NextResponse.json(
+        { error: "Invalid request - upload a .csv or .xlsx file" },
+        { status: 400 }
+      );
+    }
+
+    if (table.columns.length === 0) {
+      return NextResponse.json(
+        { error: "Invalid request - the file is empty" },
+        { status: 400 }
+      );
+    }
+
+    if (table.rows.length > MAX_UPLOAD_ROWS) {
+      return NextResponse.json(
+        {
+          error: `Invalid request - files may have at most ${MAX_UPLOAD_ROWS} rows`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rawMapping = formField(formData, "mapping");
+
+    if (!rawMapping) {
+      return NextResponse.json({
+        columns: table.columns,
+        rows: table.rows.slice(0, SAMPLE_ROWS),
+        rowCount: table.rows.length,
+      });
+    }
+
+    let mappingInput: unknown;
+    try {
+      mappingInput = JSON.parse(rawMapping);
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid request - 'mapping' is not valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const mapping = parseColumnMapping(mappingInput, table.columns);
+    if ("error" in mapping) {
+      return NextResponse.json({ error: mapping.error }, { status: 400 });
+    }
+
+    const built = buildUploadMetrics(table, mapping.data);
+    if ("errors" in built) {
+      const [first, ...rest] = built.errors;
+      return NextResponse.json(
+        {
+          error: `Row ${first.line}: ${first.message}${
+            rest.length > 0 ? ` (and ${rest.length} more)` : ""
+          }`,
+          errors: built.errors.slice(0, MAX_REPORTED_ERRORS),
+        },
+        { status: 400 }
+      );
+    }
+
+    // The form fields are checked with the same rules as a JSON payload
+    const parsed = parseIngestRequest({
+      workspace_id: workspaceId,
+      slide_id: formField(formData, "slide_id") ?? null,
+      slide_title: formField(formData, "slide_title"),
+      slide_date: formField(formData, "slide_date") ?? null,
+      mode: formField(formData, "mode"),
+      data_points_mode: formField(formData, "data_points_mode"),
+      dry_run: formField(formData, "dry_run") === "true",
+      metrics: built.data,
+    });
+
+    if ("errors" in parsed) {
+      const [first] = parsed.errors;
+      return NextResponse.json(
+        {
+          error: `Invalid request - ${first.path ? `'${first.path}' ` : ""}${
+            first.message
+          }`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = parsed.data;
+    const dryRun = body.dry_run ?? false;
+
+    const result = await applyIngestRequest(
+      body,
+      { userId: session.user?.id ?? null },
+      progress
+    );
+
+    return NextResponse.json(
+      {
+        dry_run: dryRun,
+        series: describeUploadSeries(built.data),
+        data: {
+          // A dry run's new slide was rolled back
+          slide_id: dryRun ? body.slide_id ?? null : result.slideId,
+          metrics: result.metricCounts,
+          submetrics: result.submetricCounts,
+          data_points: result.dataPointCounts,
+        },
+      },
+      { status: body.mode !== "merge" && !dryRun ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error ingesting upload:", error);
+
+    if (error instanceof IngestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: progress.at
+          ? `Failed to ingest ${describeLocation(
+              progress.at
+            )} - no changes were saved`
+          : "Failed to ingest upload",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { getAuthSession } from "@/lib/auth";
-import { getAllWorkspaces } from "@/lib/action/workspace";
+import {
+  createWorkspace,
+  getAccessibleWorkspaces,
+} from "@/lib/action/workspace";
 
 export async function GET() {
   try {
@@ -10,7 +13,8 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const workspaces = await getAllWorkspaces();
+    // Private workspaces are only listed for their members
+    const workspaces = await getAccessibleWorkspaces(session.user);
     return NextResponse.json({ workspaces });
   } catch (error) {
     console.error("Error fetching workspaces:", error);
@@ -20,3 +24,47 @@ export async function GET() {
     );
   }
 }
+
+export async function POST(request: Request) {
+  try {
+    const session = await getAuthSession();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!session.user?.email) {
+      return NextResponse.json(
+        { error: "An email address is required to own a workspace" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json(
+        { error: "Invalid request - 'name' is required" },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await createWorkspace(
+      {
+        name: body.name.trim(),
+        description:
+          typeof body.description === "string" ? body.description : null,
+        isPublic: typeof body.isPublic === "boolean" ? body.isPublic : true,
+      },
+      session.user.email
+    );
+
+    return NextResponse.json(workspace, { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to create workspace" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { db } from "@/lib/db";
+import { apiKeys } from "@/lib/db/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import type {
+  ApiKey,
+  ApiKeyPermission,
+  CreatedApiKey,
+} from "@/types/db/api-key";
+
+/**
+ * Server-side API key actions for API routes
+ *
+ * Keys are generated as `xmr_<random>` and only their SHA-256 hash is stored.
+ * The first characters of the key are kept in the clear so a presented key can
+ * be looked up without scanning every hash.
+ */
+
+export const API_KEY_PREFIX = "xmr_";
+const KEY_PREFIX_LENGTH = 12;
+
+type ApiKeyRow = typeof apiKeys.$inferSelect;
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Strip the hash before a key leaves the server
+function toApiKey({ keyHash: _keyHash, ...row }: ApiKeyRow): ApiKey {
+  return { ...row, permission: row.permission as ApiKeyPermission };
+}
+
+export async function getApiKeysForWorkspace(
+  workspaceId: string
+): Promise<ApiKey[]> {
+  try {
+    const result = await db
+      .select()
+      .from(apiKeys)
+      .where(
+        sql`${apiKeys.workspaceIds}::jsonb @> ${JSON.stringify([
+          workspaceId,
+        ])}::jsonb`
+      )
+      .orderBy(desc(apiKeys.createdAt));
+
+    return result.map(toApiKey);
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    throw new Error("Failed to fetch API keys");
+  }
+}
+
+export async function createApiKey(
+  data: Pick<ApiKey, "name" | "workspaceIds" | "permission" | "expiresAt">,
+  createdBy: string | null
+): Promise<CreatedApiKey> {
+  try {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+    const [created] = await db
+      .insert(apiKeys)
+      .values({
+        name: data.name,
+        keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+        workspaceIds: data.workspaceIds,
+        permission: data.permission,
+        expiresAt: data.expiresAt,
+        createdBy,
+      })
+      .returning();
+
+    return { apiKey: toApiKey(created), key };
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    throw new Error("Failed to create API key");
+  }
+}
+
+export async function revokeApiKey(
+  keyId: string,
+  workspaceId: string
+): Promise<ApiKey | null> {
+  try {
+    // Only keys scoped to the workspace can be revoked from it
+    const revoked = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(apiKeys.id, keyId),
+          isNull(apiKeys.revokedAt),
+          sql`${apiKeys.workspaceIds}::jsonb @> ${JSON.stringify([
+            workspaceId,
+          ])}::jsonb`
+        )
+      )
+      .returning();
+
+    return revoked[0] ? toApiKey(revoked[0]) : null;
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    throw new Error("Failed to revoke API key");
+  }
+}
+
+/**
+ * Resolve a presented key to an active (not revoked, not expired) API key
+ * and record that it was used. Returns null when the key is not valid.
+ */
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  try {
+    const candidates = await db
+      .select()
+      .from(apiKeys)
+      .where(
+        and(
+          eq(apiKeys.keyPrefix, key.slice(0, KEY_PREFIX_LENGTH)),
+          isNull(apiKeys.revokedAt)
+        )
+      );
+
+    const presentedHash = Buffer.from(hashApiKey(key), "hex");
+    const match = candidates.find((candidate) =>
+      timingSafeEqual(Buffer.from(candidate.keyHash, "hex"), presentedHash)
+    );
+
+    if (!match || (match.expiresAt && match.expiresAt <= new Date())) {
+      return null;
+    }
+
+    const [used] = await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, match.id))
+      .returning();
+
+    return toApiKey(used);
+  } catch (error) {
+    console.error("Error verifying API key:", error);
+    throw new Error("Failed to verify API key");
+  }
+}
@@ -0,0 +1,924 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+import { lookup } from "node:dns";
+import {
+  type IncomingMessage,
+  request as httpRequest,
+  type RequestOptions,
+} from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction, Socket } from "node:net";
+import { Client, types } from "pg";
+import { db } from "@/lib/db";
+import { connectorRuns, connectors, slides } from "@/lib/db/schema";
+import { and, asc, desc, eq, lte } from "drizzle-orm";
+import {
+  applyIngestRequest,
+  describeLocation,
+  IngestError,
+  type IngestLocation,
+} from "@/lib/action/ingest";
+import {
+  type ConnectorInput,
+  describeConnectionTarget,
+} from "@/lib/connectors";
+import { nextCronRun, parseCron } from "@/lib/cron";
+import { parseIngestRequest } from "@/lib/ingest";
+import {
+  buildUploadMetrics,
+  type ColumnMapping,
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_ROWS,
+  toCellText,
+  toUploadTable,
+  type UploadRow,
+  type UploadTable,
+} from "@/lib/ingest-upload";
+import { type JsonPath, parseJsonPath, selectJsonPath } from "@/lib/json-path";
+import type {
+  Connector,
+  ConnectorKind,
+  ConnectorRun,
+  ConnectorRunStatus,
+  ConnectorRunTrigger,
+  HttpConnectorConfig,
+  PostgresConnectorConfig,
+} from "@/types/db/connector";
+import type { IngestJobCounts } from "@/types/db/ingest-job";
+
+/**
+ * Server-side connector actions for API routes and the scheduled runner
+ *
+ * A connector pulls rows from a Postgres query, or records from an HTTP JSON
+ * response, on a cron schedule. It maps them like the columns of a file
+ * upload and merges them into its slide through the same path as the
+ * ingestion API. Credentials are encrypted with CONNECTOR_SECRET_KEY and
+ * never leave the server. Every run is recorded with its outcome.
+ */
+
+// Rows a query or records a response may return, as for a file upload
+const MAX_CONNECTOR_ROWS = MAX_UPLOAD_ROWS;
+const MAX_RESPONSE_BYTES = MAX_UPLOAD_BYTES;
+const CONNECT_TIMEOUT_MS = 10_000;
+const QUERY_TIMEOUT_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 60_000;
+// Connectors started per call of the scheduled runner
+const MAX_DUE_CONNECTORS = 10;
+
+type ConnectorRow = typeof connectors.$inferSelect;
+type ConnectorRunRow = typeof connectorRuns.$inferSelect;
+
+/**
+ * A connector that cannot run as configured. The message is recorded on the
+ * run and shown to workspace owners.
+ */
+export class ConnectorError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+function secretKey(): Buffer {
+  const secret = process.env.CONNECTOR_SECRET_KEY;
+  if (!secret) {
+    throw new ConnectorError(
+      "Connectors are not configured - set CONNECTOR_SECRET_KEY",
+      503
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+// AES-256-GCM, stored as iv.tag.ciphertext
+function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", secretKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", secretKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    throw new ConnectorError(
+      "The stored credentials cannot be read - CONNECTOR_SECRET_KEY has changed since they were saved. Enter them again."
+    );
+  }
+}
+
+function nextRunTime(schedule: string, after: Date): Date | null {
+  const parsed = parseCron(schedule);
+  return "data" in parsed ? nextCronRun(parsed.data, after) : null;
+}
+
+// Strip the credentials before a connector leaves the server
+function toConnector(
+  { secret: _secret, ...row }: ConnectorRow,
+  slideTitle: string | null
+): Connector {
+  // The config is stored as JSON in the shape of its kind
+  return {
+    ...row,
+    slideTitle,
+    lastRunStatus: row.lastRunStatus as ConnectorRunStatus | null,
+  } as unknown as Connector;
+}
+
+/**
+ * Source settings after a change, kept for the fields left out. Only POST
+ * requests send a body.
+ */
+function toSourceConfig(
+  kind: ConnectorKind,
+  data: Partial<ConnectorInput>,
+  current: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (kind === "http") {
+    const config = current as Partial<HttpConnectorConfig>;
+    const method = data.method ?? config.method;
+    return {
+      url: data.url ?? config.url,
+      method,
+      requestBody:
+        method === "POST"
+          ? data.requestBody !== undefined
+            ? data.requestBody
+            : config.requestBody ?? null
+          : null,
+      headers: data.headers ?? config.headers,
+      secretHeaderNames: data.secretHeaders
+        ? Object.keys(data.secretHeaders)
+        : config.secretHeaderNames,
+      recordsPath: data.recordsPath ?? config.recordsPath,
+    };
+  }
+
+  const config = current as Partial<PostgresConnectorConfig>;
+  return {
+    query: data.query ?? config.query,
+    target: data.connectionString
+      ? describeConnectionTarget(data.connectionString)
+      : config.target,
+  };
+}
+
+// The credentials a source is given, when they change
+function toSourceSecret(
+  kind: ConnectorKind,
+  data: Partial<ConnectorInput>
+): string | undefined {
+  if (kind === "http") {
+    return data.secretHeaders && JSON.stringify(data.secretHeaders);
+  }
+  return data.connectionString;
+}
+
+function toConnectorRun(row: ConnectorRunRow): ConnectorRun {
+  return {
+    ...row,
+    trigger: row.trigger as ConnectorRunTrigger,
+    status: row.status as ConnectorRunStatus,
+  };
+}
+
+export async function getConnectorsForWorkspace(
+  workspaceId: string
+): Promise<Connector[]> {
+  try {
+    const result = await db
+      .select({ connector: connectors, slideTitle: slides.title })
+      .from(connectors)
+      .leftJoin(slides, eq(connectors.slideId, slides.id))
+      .where(eq(connectors.workspaceId, workspaceId))
+      .orderBy(desc(connectors.createdAt));
+
+    return result.map(({ connector, slideTitle }) =>
+      toConnector(connector, slideTitle)
+    );
+  } catch (error) {
+    console.error("Error fetching connectors:", error);
+    throw new Error("Failed to fetch connectors");
+  }
+}
+
+async function getConnectorRow(
+  connectorId: string,
+  workspaceId: string
+): Promise<ConnectorRow | null> {
+  const [row] = await db
+    .select()
+    .from(connectors)
+    .where(
+      and(
+        eq(connectors.id, connectorId),
+        eq(connectors.workspaceId, workspaceId)
+      )
+    );
+
+  return row ?? null;
+}
+
+export async function getConnectorById(
+  connectorId: string,
+  workspaceId: string
+): Promise<Connector | null> {
+  try {
+    const [result] = await db
+      .select({ connector: connectors, slideTitle: slides.title })
+      .from(connectors)
+      .leftJoin(slides, eq(connectors.slideId, slides.id))
+      .where(
+        and(
+          eq(connectors.id, connectorId),
+          eq(connectors.workspaceId, workspaceId)
+        )
+      );
+
+    return result ? toConnector(result.connector, result.slideTitle) : null;
+  } catch (error) {
+    console.error("Error fetching connector:", error);
+    throw new Error("Failed to fetch connector");
+  }
+}
+
+export async function createConnector(
+  workspaceId: string,
+  data: ConnectorInput,
+  createdBy: string | null
+): Promise<Connector> {
+  try {
+    const [created] = await db
+      .insert(connectors)
+      .values({
+        workspaceId,
+        slideId: data.slideId,
+        name: data.name,
+        kind: data.kind,
+        config: toSourceConfig(data.kind, data),
+        secret: encryptSecret(toSourceSecret(data.kind, data) ?? ""),
+        mapping: data.mapping,
+        dataPointsMode: data.dataPointsMode,
+        schedule: data.schedule,
+        isEnabled: data.isEnabled,
+        nextRunAt: data.isEnabled
+          ? nextRunTime(data.schedule, new Date())
+          : null,
+        createdBy,
+      })
+      .returning();
+
+    return (await getConnectorById(created.id, workspaceId)) as Connector;
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    console.error("Error creating connector:", error);
+    throw new Error("Failed to create connector");
+  }
+}
+
+export async function updateConnector(
+  connectorId: string,
+  workspaceId: string,
+  data: Partial<ConnectorInput>
+): Promise<Connector | null> {
+  try {
+    const current = await getConnectorRow(connectorId, workspaceId);
+    if (!current) {
+      return null;
+    }
+
+    const {
+      kind: _kind,
+      connectionString: _connectionString,
+      query: _query,
+      url: _url,
+      method: _method,
+      requestBody: _requestBody,
+      headers: _headers,
+      secretHeaders: _secretHeaders,
+      recordsPath: _recordsPath,
+      ...fields
+    } = data;
+    const kind = current.kind as ConnectorKind;
+    const secret = toSourceSecret(kind, data);
+    const changes: Partial<ConnectorRow> = {
+      ...fields,
+      config: toSourceConfig(kind, data, current.config),
+      updatedAt: new Date(),
+    };
+
+    if (secret !== undefined) {
+      changes.secret = encryptSecret(secret);
+    }
+
+    // The next run moves with the schedule and is cleared while disabled
+    if (data.schedule !== undefined || data.isEnabled !== undefined) {
+      const isEnabled = data.isEnabled ?? current.isEnabled;
+      changes.nextRunAt = isEnabled
+        ? nextRunTime(data.schedule ?? current.schedule, new Date())
+        : null;
+    }
+
+    await db
+      .update(connectors)
+      .set(changes)
+      .where(eq(connectors.id, connectorId));
+
+    return getConnectorById(connectorId, workspaceId);
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    console.error("Error updating connector:", error);
+    throw new Error("Failed to update connector");
+  }
+}
+
+export async function deleteConnector(
+  connectorId: string,
+  workspaceId: string
+): Promise<boolean> {
+  try {
+    const deleted = await db
+      .delete(connectors)
+      .where(
+        and(
+          eq(connectors.id, connectorId),
+          eq(connectors.workspaceId, workspaceId)
+        )
+      )
+      .returning({ id: connectors.id });
+
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Error deleting connector:", error);
+    throw new Error("Failed to delete connector");
+  }
+}
+
+export async function getConnectorRuns(
+  connectorId: string,
+  limit = 20
+): Promise<ConnectorRun[]> {
+  try {
+    const result = await db
+      .select()
+      .from(connectorRuns)
+      .where(eq(connectorRuns.connectorId, connectorId))
+      .orderBy(desc(connectorRuns.createdAt))
+      .limit(limit);
+
+    return result.map(toConnectorRun);
+  } catch (error) {
+    console.error("Error fetching connector runs:", error);
+    throw new Error("Failed to fetch connector runs");
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4 addresses written as IPv6 (::ffff:127.0.0.1) match the IPv4 ranges
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_ADDRESSES.check(address, "ipv4");
+  return family !== 6 || PRIVATE_ADDRESSES.check(address, "ipv6");
+}
+
+/**
+ * Hosts listed in CONNECTOR_ALLOWED_HOSTS (comma-separated) may be private,
+ * e.g. a database on the same network. Connectors can reach no other private
+ * address, so they cannot be pointed at the server's internal services.
+ */
+function isAllowedHost(host: string): boolean {
+  const allowed = (process.env.CONNECTOR_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return allowed.includes(host.toLowerCase());
+}
+
+function privateHostError(host: string, address: string): ConnectorError {
+  return new ConnectorError(
+    `${host}${
+      host === address ? " is" : ` resolves to ${address}, which is`
+    } a private address - add the host to CONNECTOR_ALLOWED_HOSTS to connect to it`
+  );
+}
+
+/**
+ * Resolve a host as dns.lookup does, failing if any of its addresses is
+ * private. Sockets connect to the addresses checked here, so a host cannot
+ * resolve to a public address when checked and a private one when used.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    const privateAddress = isAllowedHost(hostname)
+      ? undefined
+      : addresses.find(({ address }) => isPrivateAddress(address));
+    if (privateAddress) {
+      callback(privateHostError(hostname, privateAddress.address), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// A socket for pg that only connects to public addresses over TCP
+function createPublicSocket(): Socket {
+  const socket = new Socket();
+  const connect = socket.connect.bind(socket);
+
+  // pg connects with (port, host), or (path) for a Unix socket
+  socket.connect = ((port: number | string, host?: string) => {
+    if (typeof port !== "number" || !host) {
+      process.nextTick(() =>
+        socket.destroy(
+          new ConnectorError("Connecting over a Unix socket is not allowed")
+        )
+      );
+      return socket;
+    }
+    // Addresses are connected to without a lookup, so are checked here
+    if (isIP(host) && isPrivateAddress(host) && !isAllowedHost(host)) {
+      process.nextTick(() => socket.destroy(privateHostError(host, host)));
+      return socket;
+    }
+    return connect({ port, host, lookup: publicLookup });
+  }) as Socket["connect"];
+
+  return socket;
+}
+
+// Dates stay as written rather than becoming midnight in the server's timezone
+const getTypeParser = ((oid: number, format?: "text" | "binary") =>
+  oid === types.builtins.DATE
+    ? (value: string) => value
+    : types.getTypeParser(oid, format)) as typeof types.getTypeParser;
+
+/**
+ * Run a connector's query in a read-only transaction, with its rows capped.
+ * The query is sent as a named prepared statement, which Postgres parses as
+ * exactly one statement, so text that closes the subquery and appends more
+ * statements (e.g. a COMMIT) is rejected instead of run.
+ */
+async function fetchPostgresTable(
+  connectionString: string,
+  query: string
+): Promise<UploadTable> {
+  const client = new Client({
+    connectionString,
+    connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    statement_timeout: QUERY_TIMEOUT_MS,
+    types: { getTypeParser },
+    stream: createPublicSocket,
+  });
+
+  try {
+    await client.connect();
+  } catch (error) {
+    throw new ConnectorError(
+      `Could not connect to the database: ${(error as Error).message}`
+    );
+  }
+
+  try {
+    await client.query("BEGIN READ ONLY");
+    const result = await client.query<unknown[]>({
+      // Naming the query makes pg use the extended protocol
+      name: "connector_query",
+      text: `SELECT * FROM (${query}) AS connector_query LIMIT ${
+        MAX_CONNECTOR_ROWS + 1
+      }`,
+      rowMode: "array",
+    });
+    await client.query("ROLLBACK");
+
+    if (result.rows.length > MAX_CONNECTOR_ROWS) {
+      throw new ConnectorError(
+        `The query returned more than ${MAX_CONNECTOR_ROWS} rows`
+      );
+    }
+
+    // Rows are numbered from 1 after the column names
+    return toUploadTable([
+      { line: 0, cells: result.fields.map((field) => field.name) },
+      ...result.rows.map((row, index) => ({
+        line: index + 1,
+        cells: row.map(toCellText),
+      })),
+    ]);
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    throw new ConnectorError(`The query failed: ${(error as Error).message}`);
+  } finally {
+    await client.end().catch(() => undefined);
+  }
+}
+
+// Read at most MAX_RESPONSE_BYTES, whatever the response claims its size is
+async function readResponseText(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += (chunk as Buffer).byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      response.destroy();
+      throw new ConnectorError(
+        `The response is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024} MB`
+      );
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Send a request to a public address only. Node's fetch cannot check the
+ * address it connects to, so the request is made with the checked lookup.
+ * Redirects are not followed.
+ */
+function sendHttpRequest(
+  url: URL,
+  options: RequestOptions,
+  body: string | undefined
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    // Addresses are connected to without a lookup, so are checked here
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (isIP(host) && isPrivateAddress(host) && !isAllowedHost(host)) {
+      reject(privateHostError(host, host));
+      return;
+    }
+
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const request = send(url, { ...options, lookup: publicLookup }, resolve);
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// JSON values as they would appear in a CSV export
+function toJsonCellText(value: unknown): string {
+  return value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : toCellText(value);
+}
+
+/**
+ * Send a connector's request and read the records at its records path. Each
+ * record becomes a row with a column for every mapped path, so the rows map
+ * like a file upload.
+ */
+async function fetchHttpTable(
+  config: HttpConnectorConfig,
+  secretHeaders: Record<string, string>,
+  mapping: ColumnMapping
+): Promise<UploadTable> {
+  let response: IncomingMessage;
+  try {
+    response = await sendHttpRequest(
+      new URL(config.url),
+      {
+        method: config.method,
+        headers: {
+          Accept: "application/json",
+          ...config.headers,
+          ...secretHeaders,
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      config.method === "POST" ? config.requestBody ?? undefined : undefined
+    );
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    throw new ConnectorError(`The request failed: ${(error as Error).message}`);
+  }
+
+  const status = response.statusCode ?? 0;
+  // Secret headers are never sent on to another URL
+  if (status >= 300 && status < 400) {
+    response.destroy();
+    throw new ConnectorError(
+      `The request was redirected to ${
+        response.headers.location ?? "another URL"
+      } - use that URL instead`
+    );
+  }
+  if (status < 200 || status >= 300) {
+    response.destroy();
+    throw new ConnectorError(
+      `The request failed with status ${status} ${
+        response.statusMessage ?? ""
+      }`.trim()
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await readResponseText(response));
+  } catch (error) {
+    if (error instanceof ConnectorError) throw error;
+    throw new ConnectorError("The response is not JSON");
+  }
+
+  const recordsPath = parseJsonPath(config.recordsPath);
+  const records =
+    "data" in recordsPath ? selectJsonPath(json, recordsPath.data) : undefined;
+  if (!Array.isArray(records)) {
+    throw new ConnectorError(
+      `The response has no list of records at '${config.recordsPath}'`
+    );
+  }
+  if (records.length > MAX_CONNECTOR_ROWS) {
+    throw new ConnectorError(
+      `The response has more than ${MAX_CONNECTOR_ROWS} records`
+    );
+  }
+
+  const columns = [...new Set(Object.values(mapping))];
+  const paths = columns.map((column) => {
+    const path = parseJsonPath(column);
+    return "data" in path ? path.data : ([] as JsonPath);
+  });
+  const rows: UploadRow[] = records.map((record, index) => ({
+    line: index + 1,
+    cells: paths.map((path) => toJsonCellText(selectJsonPath(record, path))),
+  }));
+
+  // A mistyped path would otherwise only show up as empty values on every row
+  const missing = columns.filter(
+    (_, index) =>
+      rows.length > 0 && rows.every((row) => row.cells[index] === "")
+  );
+  if (missing.length > 0) {
+    throw new ConnectorError(
+      `No record has a value at the mapped path${
+        missing.length > 1 ? "s" : ""
+      } ${missing.map((column) => `'${column}'`).join(", ")}`
+    );
+  }
+
+  // Records are numbered from 1 after the paths
+  return toUploadTable([{ line: 0, cells: columns }, ...rows]);
+}
+
+function fetchTable(connector: ConnectorRow): Promise<UploadTable> {
+  const secret = decryptSecret(connector.secret);
+
+  if (connector.kind === "http") {
+    return fetchHttpTable(
+      connector.config as unknown as HttpConnectorConfig,
+      JSON.parse(secret) as Record<string, string>,
+      connector.mapping as ColumnMapping
+    );
+  }
+
+  const config = connector.config as unknown as PostgresConnectorConfig;
+  return fetchPostgresTable(secret, config.query);
+}
+
+// Merge the rows into the connector's slide like an ingest payload
+async function ingestTable(
+  connector: ConnectorRow,
+  table: UploadTable
+): Promise<IngestJobCounts | null> {
+  if (!connector.slideId) {
+    throw new ConnectorError(
+      "The connector's slide was deleted - choose another slide"
+    );
+  }
+
+  const mapping = connector.mapping as ColumnMapping;
+  const missing = Object.values(mapping).filter(
+    (column) => !table.columns.includes(column)
+  );
+  if (missing.length > 0) {
+    throw new ConnectorError(
+      `The query did not return the mapped column${
+        missing.length > 1 ? "s" : ""
+      } ${missing.map((column) => `'${column}'`).join(", ")}`
+    );
+  }
+
+  if (table.rows.length === 0) {
+    return null;
+  }
+
+  const built = buildUploadMetrics(table, mapping);
+  if ("errors" in built) {
+    const [first, ...rest] = built.errors;
+    throw new ConnectorError(
+      `Row ${first.line}: ${first.message}${
+        rest.length > 0 ? ` (and ${rest.length} more)` : ""
+      }`
+    );
+  }
+
+  const parsed = parseIngestRequest({
+    workspace_id: connector.workspaceId,
+    slide_id: connector.slideId,
+    mode: "merge",
+    data_points_mode: connector.dataPointsMode,
+    metrics: built.data,
+  });
+  if ("errors" in parsed) {
+    const [first] = parsed.errors;
+    throw new ConnectorError(
+      `${first.path ? `'${first.path}' ` : ""}${first.message}`
+    );
+  }
+
+  const progress: { at: IngestLocation | null } = { at: null };
+  try {
+    const result = await applyIngestRequest(
+      parsed.data,
+      { apiKeyName: `${connector.name} connector` },
+      progress
+    );
+
+    return {
+      metrics: result.metricCounts,
+      submetrics: result.submetricCounts,
+      data_points: result.dataPointCounts,
+    };
+  } catch (error) {
+    if (error instanceof IngestError) {
+      throw new ConnectorError(error.message);
+    }
+    if (progress.at) {
+      console.error("Error ingesting connector rows:", error);
+      throw new ConnectorError(
+        `Failed to ingest ${describeLocation(
+          progress.at
+        )} - no changes were saved`
+      );
+    }
+    throw error;
+  }
+}
+
+async function runConnector(
+  connector: ConnectorRow,
+  trigger: ConnectorRunTrigger,
+  triggeredBy: string | null
+): Promise<ConnectorRun> {
+  const startedAt = Date.now();
+
+  const [run] = await db
+    .insert(connectorRuns)
+    .values({ connectorId: connector.id, trigger, triggeredBy })
+    .returning();
+  await db
+    .update(connectors)
+    .set({ lastRunAt: new Date(), lastRunStatus: "running" })
+    .where(eq(connectors.id, connector.id));
+
+  let rowCount: number | null = null;
+  let counts: IngestJobCounts | null = null;
+  let runError: string | null = null;
+
+  try {
+    const table = await fetchTable(connector);
+    rowCount = table.rows.length;
+    counts = await ingestTable(connector, table);
+  } catch (error) {
+    if (!(error instanceof ConnectorError)) {
+      console.error("Error running connector:", error);
+    }
+    runError =
+      error instanceof ConnectorError ? error.message : "Failed to run";
+  }
+
+  const status: ConnectorRunStatus = runError ? "failed" : "succeeded";
+  const [finished] = await db
+    .update(connectorRuns)
+    .set({
+      status,
+      rowCount,
+      counts,
+      error: runError,
+      durationMs: Date.now() - startedAt,
+      completedAt: new Date(),
+    })
+    .where(eq(connectorRuns.id, run.id))
+    .returning();
+  await db
+    .update(connectors)
+    .set({ lastRunStatus: status })
+    .where(eq(connectors.id, connector.id));
+
+  return toConnectorRun(finished);
+}
+
+/**
+ * Run a connector now, outside its schedule. Returns null when it is not in
+ * the workspace.
+ */
+export async function runConnectorNow(
+  connectorId: string,
+  workspaceId: string,
+  triggeredBy: string | null
+): Promise<ConnectorRun | null> {
+  try {
+    const connector = await getConnectorRow(connectorId, workspaceId);
+    return connector
+      ? await runConnector(connector, "manual", triggeredBy)
+      : null;
+  } catch (error) {
+    console.error("Error running connector:", error);
+    throw new Error("Failed to run connector");
+  }
+}
+
+/**
+ * Run the enabled connectors whose next run is due, oldest first. Each one is
+ * claimed by moving its next run on before it starts, so overlapping runners
+ * never run a connector twice.
+ */
+export async function runDueConnectors(
+  now = new Date()
+): Promise<ConnectorRun[]> {
+  try {
+    const due = await db
+      .select()
+      .from(connectors)
+      .where(
+        and(eq(connectors.isEnabled, true), lte(connectors.nextRunAt, now))
+      )
+      .orderBy(asc(connectors.nextRunAt))
+      .limit(MAX_DUE_CONNECTORS);
+
+    const runs: ConnectorRun[] = [];
+    for (const connector of due) {
+      const [claimed] = await db
+        .update(connectors)
+        .set({ nextRunAt: nextRunTime(connector.schedule, now) })
+        .where(
+          and(
+            eq(connectors.id, connector.id),
+            eq(connectors.nextRunAt, connector.nextRunAt as Date)
+          )
+        )
+        .returning();
+
+      if (claimed) {
+        runs.push(await runConnector(claimed, "schedule", null));
+      }
+    }
+
+    return runs;
+  } catch (error) {
+    console.error("Error running due connectors:", error);
+    throw new Error("Failed to run due connectors");
+  }
+}
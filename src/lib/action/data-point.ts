@@ -0,0 +1,447 @@
+import { db, type Transaction, withTransaction } from "@/lib/db";
+import {
+  metrics,
+  submetricDataPointRevisions,
+  submetricDataPoints,
+  submetrics,
+  users,
+} from "@/lib/db/schema";
+import { isSameDataPoint, parseTimestamp } from "@/lib/data-points";
+import { getRollup, rollUpDataPoints } from "@/lib/rollup";
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import type { DataPointsMode } from "@/lib/ingest";
+import type { IngestChangeCounts } from "@/types/db/ingest-job";
+import type { MetricWithSubmetrics } from "@/types/db/metric";
+import type {
+  DataPointJson,
+  Submetric,
+  SubmetricDataPointRevision,
+} from "@/types/db/submetric";
+
+/**
+ * Server-side data point actions for API routes
+ *
+ * Points live in their own table, one row per submetric and point in time.
+ * They are handed to the rest of the app as `DataPointJson`, keeping the
+ * timestamp string exactly as it was sent. Every change is recorded in the
+ * revision table with the user or API key that made it.
+ */
+
+// Rows per insert statement, well below Postgres' parameter limit
+const INSERT_CHUNK_SIZE = 500;
+
+type DataPointRow = typeof submetricDataPoints.$inferSelect;
+type SubmetricRow = typeof submetrics.$inferSelect;
+type MetricRow = typeof metrics.$inferSelect;
+
+type SubmetricRowWithDataPoints = SubmetricRow & { dataPoints: DataPointRow[] };
+
+export function toDataPointJson(row: DataPointRow): DataPointJson {
+  return {
+    timestamp: row.rawTimestamp,
+    value: row.value,
+    numerator: row.numerator,
+    denominator: row.denominator,
+    confidence: row.confidence,
+    source: row.source,
+    dimensions: row.dimensions,
+    originalValue: row.originalValue,
+  };
+}
+
+/**
+ * A submetric as handed to the app. Submetrics with a period x-axis and an
+ * aggregation also carry their points rolled up into periods for the charts.
+ */
+export function withPeriods(
+  submetric: SubmetricRow,
+  dataPoints: DataPointJson[]
+): Submetric {
+  const rollup = getRollup(submetric);
+  return {
+    ...submetric,
+    dataPoints,
+    periods: rollup ? rollUpDataPoints(dataPoints, rollup) : null,
+  };
+}
+
+export function toSubmetric({
+  dataPoints,
+  ...submetric
+}: SubmetricRowWithDataPoints): Submetric {
+  return withPeriods(submetric, dataPoints.map(toDataPointJson));
+}
+
+export function toMetricWithSubmetrics({
+  submetrics: submetricRows,
+  ...metric
+}: MetricRow & {
+  submetrics: SubmetricRowWithDataPoints[];
+}): MetricWithSubmetrics {
+  return { ...metric, submetrics: submetricRows.map(toSubmetric) };
+}
+
+/**
+ * Relational query config for a metric's submetrics with their data points,
+ * in display and time order. `since` limits the points to that date onwards.
+ */
+export function submetricsWithDataPoints(since?: Date) {
+  return {
+    with: {
+      dataPoints: {
+        where: since ? gte(submetricDataPoints.timestamp, since) : undefined,
+        orderBy: [asc(submetricDataPoints.timestamp)],
+      },
+    },
+    orderBy: [submetrics.sortOrder, submetrics.createdAt],
+  };
+}
+
+/**
+ * Relational query config for a slide's metrics down to their data points
+ */
+export function metricsWithDataPoints(since?: Date) {
+  return {
+    with: { submetrics: submetricsWithDataPoints(since) },
+    orderBy: [metrics.sortOrder, metrics.createdAt],
+  };
+}
+
+/**
+ * Keep one point per point in time; later points win, as they would when
+ * written one after another
+ */
+export function dedupeDataPoints(points: DataPointJson[]): DataPointJson[] {
+  const byTime = new Map<number, DataPointJson>();
+  for (const point of points) {
+    byTime.set(parseTimestamp(point.timestamp).getTime(), point);
+  }
+  return [...byTime.values()];
+}
+
+type DataPointValues = typeof submetricDataPoints.$inferInsert;
+type RevisionValues = typeof submetricDataPointRevisions.$inferInsert;
+
+/**
+ * Who changed a series: a signed-in user, or the API key used for ingestion
+ */
+export interface DataPointActor {
+  userId?: string | null;
+  apiKeyId?: string | null;
+  apiKeyName?: string | null;
+}
+
+function toDataPointValues(
+  submetricId: string,
+  point: DataPointJson,
+  stored: DataPointRow | undefined
+): DataPointValues {
+  return {
+    submetricId,
+    timestamp: parseTimestamp(point.timestamp),
+    rawTimestamp: point.timestamp,
+    value: point.value,
+    // The first value a point had is kept once it has been restated
+    originalValue: stored
+      ? stored.originalValue ??
+        (stored.value !== point.value ? stored.value : null)
+      : null,
+    numerator: point.numerator ?? null,
+    denominator: point.denominator ?? null,
+    confidence: point.confidence ?? null,
+    source: point.source ?? null,
+    dimensions: point.dimensions ?? null,
+  };
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += INSERT_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// Stored points at the given points in time
+async function getStoredDataPoints(
+  tx: Transaction,
+  submetricId: string,
+  timestamps: Date[]
+): Promise<DataPointRow[]> {
+  const stored: DataPointRow[] = [];
+  for (const timestampsToFind of chunk(timestamps)) {
+    stored.push(
+      ...(await tx
+        .select()
+        .from(submetricDataPoints)
+        .where(
+          and(
+            eq(submetricDataPoints.submetricId, submetricId),
+            inArray(submetricDataPoints.timestamp, timestampsToFind)
+          )
+        ))
+    );
+  }
+  return stored;
+}
+
+/**
+ * Write the points that differ from the stored series and record a revision
+ * for each change. Only the stored points at the same points in time are
+ * read, unless `mode` is "replaceAll": then the whole series is, and stored
+ * points that are not in `points` are deleted. With "append", stored points
+ * are left as they are and only new ones are written.
+ */
+async function writeDataPoints(
+  tx: Transaction,
+  submetricId: string,
+  points: DataPointJson[],
+  actor: DataPointActor,
+  mode: "upsert" | "append" | "replaceAll"
+): Promise<IngestChangeCounts> {
+  const incoming = dedupeDataPoints(points);
+  const stored =
+    mode === "replaceAll"
+      ? await tx
+          .select()
+          .from(submetricDataPoints)
+          .where(eq(submetricDataPoints.submetricId, submetricId))
+      : await getStoredDataPoints(
+          tx,
+          submetricId,
+          incoming.map((point) => parseTimestamp(point.timestamp))
+        );
+  const storedByTime = new Map(
+    stored.map((row) => [row.timestamp.getTime(), row])
+  );
+
+  const actorValues = {
+    changedBy: actor.userId ?? null,
+    apiKeyId: actor.apiKeyId ?? null,
+    apiKeyName: actor.apiKeyName ?? null,
+  };
+  const counts: IngestChangeCounts = { created: 0, updated: 0, unchanged: 0 };
+  const rows: DataPointValues[] = [];
+  const revisions: RevisionValues[] = [];
+  const kept = new Set<string>();
+
+  for (const point of incoming) {
+    const timestamp = parseTimestamp(point.timestamp);
+    const existing = storedByTime.get(timestamp.getTime());
+
+    if (existing) {
+      kept.add(existing.id);
+      if (
+        mode === "append" ||
+        isSameDataPoint(toDataPointJson(existing), point)
+      ) {
+        counts.unchanged++;
+        continue;
+      }
+    }
+
+    rows.push(toDataPointValues(submetricId, point, existing));
+    revisions.push({
+      submetricId,
+      timestamp,
+      rawTimestamp: point.timestamp,
+      action: existing ? "updated" : "created",
+      value: point.value,
+      previousValue: existing?.value ?? null,
+      source: point.source ?? null,
+      ...actorValues,
+    });
+    if (existing) {
+      counts.updated++;
+    } else {
+      counts.created++;
+    }
+  }
+
+  const deleted =
+    mode === "replaceAll" ? stored.filter((row) => !kept.has(row.id)) : [];
+
+  for (const row of deleted) {
+    revisions.push({
+      submetricId,
+      timestamp: row.timestamp,
+      rawTimestamp: row.rawTimestamp,
+      action: "deleted",
+      value: null,
+      previousValue: row.value,
+      source: row.source,
+      ...actorValues,
+    });
+  }
+
+  for (const rowsToDelete of chunk(deleted)) {
+    await tx.delete(submetricDataPoints).where(
+      inArray(
+        submetricDataPoints.id,
+        rowsToDelete.map((row) => row.id)
+      )
+    );
+  }
+
+  for (const rowsToWrite of chunk(rows)) {
+    await tx
+      .insert(submetricDataPoints)
+      .values(rowsToWrite)
+      .onConflictDoUpdate({
+        target: [
+          submetricDataPoints.submetricId,
+          submetricDataPoints.timestamp,
+        ],
+        set: {
+          rawTimestamp: sql`excluded."rawTimestamp"`,
+          value: sql`excluded."value"`,
+          originalValue: sql`excluded."originalValue"`,
+          numerator: sql`excluded."numerator"`,
+          denominator: sql`excluded."denominator"`,
+          confidence: sql`excluded."confidence"`,
+          source: sql`excluded."source"`,
+          dimensions: sql`excluded."dimensions"`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  for (const revisionsToWrite of chunk(revisions)) {
+    await tx.insert(submetricDataPointRevisions).values(revisionsToWrite);
+  }
+
+  return counts;
+}
+
+export async function getDataPoints(
+  submetricId: string,
+  since?: Date
+): Promise<DataPointJson[]> {
+  try {
+    const rows = await db
+      .select()
+      .from(submetricDataPoints)
+      .where(
+        and(
+          eq(submetricDataPoints.submetricId, submetricId),
+          since ? gte(submetricDataPoints.timestamp, since) : undefined
+        )
+      )
+      .orderBy(asc(submetricDataPoints.timestamp));
+
+    return rows.map(toDataPointJson);
+  } catch (error) {
+    console.error("Error fetching data points:", error);
+    throw new Error("Failed to fetch data points");
+  }
+}
+
+/**
+ * Insert points, overwriting any stored point for the same point in time.
+ * Runs in `tx` when given, otherwise in a transaction of its own.
+ */
+export async function upsertDataPoints(
+  submetricId: string,
+  points: DataPointJson[],
+  actor: DataPointActor,
+  tx?: Transaction
+): Promise<void> {
+  try {
+    if (tx) {
+      await writeDataPoints(tx, submetricId, points, actor, "upsert");
+    } else {
+      await withTransaction((transaction) =>
+        writeDataPoints(transaction, submetricId, points, actor, "upsert")
+      );
+    }
+  } catch (error) {
+    console.error("Error saving data points:", error);
+    throw new Error("Failed to save data points");
+  }
+}
+
+/**
+ * Merge points into a stored series by point in time, as ingestion does in
+ * merge mode, and count what changed. With `dataPointsMode` "append", points
+ * already stored are not overwritten.
+ */
+export function mergeDataPoints(
+  submetricId: string,
+  points: DataPointJson[],
+  dataPointsMode: DataPointsMode,
+  actor: DataPointActor,
+  tx: Transaction
+): Promise<IngestChangeCounts> {
+  return writeDataPoints(
+    tx,
+    submetricId,
+    points,
+    actor,
+    dataPointsMode === "append" ? "append" : "upsert"
+  );
+}
+
+/**
+ * Replace a submetric's whole series; points left out are deleted
+ */
+export async function replaceDataPoints(
+  submetricId: string,
+  points: DataPointJson[],
+  actor: DataPointActor
+): Promise<DataPointJson[]> {
+  try {
+    await withTransaction((tx) =>
+      writeDataPoints(tx, submetricId, points, actor, "replaceAll")
+    );
+
+    return getDataPoints(submetricId);
+  } catch (error) {
+    console.error("Error replacing data points:", error);
+    throw new Error("Failed to save data points");
+  }
+}
+
+/**
+ * Recorded changes to a submetric's points, newest first. `timestamp` limits
+ * the history to one point in time.
+ */
+export async function getDataPointRevisions(
+  submetricId: string,
+  timestamp?: Date,
+  limit = 100
+): Promise<SubmetricDataPointRevision[]> {
+  try {
+    const result = await db
+      .select({
+        id: submetricDataPointRevisions.id,
+        submetricId: submetricDataPointRevisions.submetricId,
+        timestamp: submetricDataPointRevisions.rawTimestamp,
+        action: submetricDataPointRevisions.action,
+        value: submetricDataPointRevisions.value,
+        previousValue: submetricDataPointRevisions.previousValue,
+        source: submetricDataPointRevisions.source,
+        changedBy: submetricDataPointRevisions.changedBy,
+        changedByName: users.name,
+        changedByEmail: users.email,
+        apiKeyName: submetricDataPointRevisions.apiKeyName,
+        createdAt: submetricDataPointRevisions.createdAt,
+      })
+      .from(submetricDataPointRevisions)
+      .leftJoin(users, eq(submetricDataPointRevisions.changedBy, users.id))
+      .where(
+        and(
+          eq(submetricDataPointRevisions.submetricId, submetricId),
+          timestamp
+            ? eq(submetricDataPointRevisions.timestamp, timestamp)
+            : undefined
+        )
+      )
+      .orderBy(desc(submetricDataPointRevisions.createdAt))
+      .limit(limit);
+
+    return result;
+  } catch (error) {
+    console.error("Error fetching data point revisions:", error);
+    throw new Error("Failed to fetch data point revisions");
+  }
+}
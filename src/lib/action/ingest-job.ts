@@ -0,0 +1,223 @@
+import { db } from "@/lib/db";
+import { ingestJobs, slides, workspaces } from "@/lib/db/schema";
+import { and, desc, eq, isNull, lt, ne } from "drizzle-orm";
+import type { ApiKeyAccess } from "@/lib/api-key-auth";
+import type {
+  IngestJob,
+  IngestJobCounts,
+  IngestJobStatus,
+} from "@/types/db/ingest-job";
+
+/**
+ * Server-side ingest job actions for API routes
+ *
+ * Every call to the ingestion API is recorded as a job when it starts and
+ * completed with its outcome. A job's stored response is what a retry with
+ * the same idempotency key gets back.
+ */
+
+type IngestJobRow = typeof ingestJobs.$inferSelect;
+
+// How long a repeated Idempotency-Key returns the first response
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A job still running after this long is assumed to have died
+export const RUNNING_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export interface StartIngestJobInput {
+  access: ApiKeyAccess;
+  idempotencyKey: string | null;
+  requestHash: string;
+  payloadBytes: number;
+  clientIp: string;
+}
+
+export interface FinishIngestJobInput {
+  status: Exclude<IngestJobStatus, "running">;
+  httpStatus: number;
+  response: Record<string, unknown>;
+  workspaceId: string | null;
+  slideId: string | null;
+  mode: string | null;
+  dryRun: boolean;
+  counts: IngestJobCounts | null;
+  error: string | null;
+  durationMs: number;
+  // A streamed body is only hashed and measured once it has been read
+  requestHash?: string;
+  payloadBytes?: number;
+}
+
+// Jobs made with the same key; the environment key has no row of its own
+function sameCaller(access: ApiKeyAccess) {
+  return access.keyId
+    ? eq(ingestJobs.apiKeyId, access.keyId)
+    : and(isNull(ingestJobs.apiKeyId), eq(ingestJobs.apiKeyName, access.name));
+}
+
+/**
+ * Record a job as started. A job with an idempotency key is only inserted if
+ * the caller holds no other job with that key; otherwise nothing is written
+ * and that job is returned, with `isNew` false. The check and the insert are
+ * one statement, so two requests with the same key cannot both start. If the
+ * other job gives the key up before it is read back, the insert is retried.
+ */
+export async function startIngestJob(
+  data: StartIngestJobInput
+): Promise<{ job: IngestJobRow; isNew: boolean }> {
+  try {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const [job] = await db
+        .insert(ingestJobs)
+        .values({
+          apiKeyId: data.access.keyId,
+          apiKeyName: data.access.name,
+          idempotencyKey: data.idempotencyKey,
+          requestHash: data.requestHash,
+          payloadBytes: data.payloadBytes,
+          clientIp: data.clientIp,
+        })
+        // Only the unique index on the caller and idempotency key can conflict
+        .onConflictDoNothing()
+        .returning();
+
+      if (job) {
+        return { job, isNew: true };
+      }
+
+      const [existing] = await db
+        .select()
+        .from(ingestJobs)
+        .where(
+          and(
+            sameCaller(data.access),
+            eq(ingestJobs.idempotencyKey, data.idempotencyKey ?? ""),
+            ne(ingestJobs.status, "failed"),
+            eq(ingestJobs.dryRun, false)
+          )
+        )
+        .limit(1);
+
+      if (existing) {
+        return { job: existing, isNew: false };
+      }
+    }
+
+    throw new Error("The idempotency key kept changing hands");
+  } catch (error) {
+    console.error("Error starting ingest job:", error);
+    throw new Error("Failed to start ingest job");
+  }
+}
+
+export async function finishIngestJob(
+  jobId: string,
+  data: FinishIngestJobInput
+): Promise<void> {
+  try {
+    // A request can fail because its workspace does not exist
+    const workspace = data.workspaceId
+      ? await db.query.workspaces.findFirst({
+          where: eq(workspaces.id, data.workspaceId),
+          columns: { id: true },
+        })
+      : undefined;
+
+    await db
+      .update(ingestJobs)
+      .set({
+        ...data,
+        workspaceId: workspace?.id ?? null,
+        slideId: workspace ? data.slideId : null,
+        completedAt: new Date(),
+      })
+      .where(eq(ingestJobs.id, jobId));
+  } catch (error) {
+    console.error("Error finishing ingest job:", error);
+    throw new Error("Failed to finish ingest job");
+  }
+}
+
+/**
+ * Free the caller's `idempotencyKey` for a new request where its job no
+ * longer holds it: jobs created before `expiredBefore` give the key up, and
+ * jobs still running since before `stalledBefore` are assumed to have died
+ * and are failed. Failed jobs and dry runs never hold a key.
+ */
+export async function releaseIdempotencyKey(
+  access: ApiKeyAccess,
+  idempotencyKey: string,
+  expiredBefore: Date,
+  stalledBefore: Date
+): Promise<void> {
+  try {
+    const held = and(
+      sameCaller(access),
+      eq(ingestJobs.idempotencyKey, idempotencyKey)
+    );
+
+    await db
+      .update(ingestJobs)
+      .set({ idempotencyKey: null })
+      .where(and(held, lt(ingestJobs.createdAt, expiredBefore)));
+
+    await db
+      .update(ingestJobs)
+      .set({
+        status: "failed",
+        error: "The request did not finish",
+        completedAt: new Date(),
+      })
+      .where(
+        and(
+          held,
+          eq(ingestJobs.status, "running"),
+          lt(ingestJobs.createdAt, stalledBefore)
+        )
+      );
+  } catch (error) {
+    console.error("Error releasing idempotency key:", error);
+    throw new Error("Failed to release idempotency key");
+  }
+}
+
+export async function getIngestJobsForWorkspace(
+  workspaceId: string,
+  limit = 100
+): Promise<IngestJob[]> {
+  try {
+    const result = await db
+      .select({
+        id: ingestJobs.id,
+        workspaceId: ingestJobs.workspaceId,
+        slideId: ingestJobs.slideId,
+        slideTitle: slides.title,
+        apiKeyId: ingestJobs.apiKeyId,
+        apiKeyName: ingestJobs.apiKeyName,
+        idempotencyKey: ingestJobs.idempotencyKey,
+        status: ingestJobs.status,
+        mode: ingestJobs.mode,
+        dryRun: ingestJobs.dryRun,
+        payloadBytes: ingestJobs.payloadBytes,
+        counts: ingestJobs.counts,
+        httpStatus: ingestJobs.httpStatus,
+        error: ingestJobs.error,
+        durationMs: ingestJobs.durationMs,
+        createdAt: ingestJobs.createdAt,
+        completedAt: ingestJobs.completedAt,
+      })
+      .from(ingestJobs)
+      .leftJoin(slides, eq(ingestJobs.slideId, slides.id))
+      .where(eq(ingestJobs.workspaceId, workspaceId))
+      .orderBy(desc(ingestJobs.createdAt))
+      .limit(limit);
+
+    return result.map((job) => ({
+      ...job,
+      status: job.status as IngestJobStatus,
+    }));
+  } catch (error) {
+    console.error("Error fetching ingest jobs:", error);
+    throw new Error("Failed to fetch ingest jobs");
+  }
+}
@@ -0,0 +1,488 @@
+import {
+  type DataPointActor,
+  dedupeDataPoints,
+  mergeDataPoints,
+  upsertDataPoints,
+} from "@/lib/action/data-point";
+import { getNextMetricSortOrder } from "@/lib/action/metric";
+import {
+  type Transaction,
+  type TransactionRunner,
+  withTransaction,
+} from "@/lib/db";
+import { metrics, slides, submetrics, workspaces } from "@/lib/db/schema";
+import type {
+  DataPointInput,
+  DataPointsMode,
+  IngestMode,
+  IngestRequest,
+  SubmetricInput,
+} from "@/lib/ingest";
+import { toAggregationType } from "@/lib/rollup";
+import type { IngestChangeCounts } from "@/types/db/ingest-job";
+import type { DataPointJson } from "@/types/db/submetric";
+import { and, eq, inArray } from "drizzle-orm";
+
+/**
+ * Server-side ingestion actions shared by the ingest API routes
+ *
+ * A validated payload is applied in one transaction: the workspace and slide
+ * are resolved or created, then metrics and submetrics are created or merged
+ * with the ones already on the slide. Any failure rolls everything back.
+ */
+
+type SubmetricRow = typeof submetrics.$inferSelect;
+type MetricRow = typeof metrics.$inferSelect;
+
+interface SlideMetric {
+  metric: MetricRow;
+  submetrics: SubmetricRow[];
+}
+
+/**
+ * Position in the payload of the metric or submetric being written
+ */
+export interface IngestLocation {
+  metric_index: number;
+  metric_name: string;
+  submetric_index?: number;
+  submetric_label?: string;
+}
+
+/**
+ * A rejected payload; throwing it rolls back everything written so far
+ */
+export class IngestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "IngestError";
+  }
+}
+
+export interface IngestResult {
+  workspaceId: string;
+  slideId: string;
+  metricIds: string[];
+  metricCounts: IngestChangeCounts;
+  submetricCounts: IngestChangeCounts;
+  dataPointCounts: IngestChangeCounts;
+}
+
+/**
+ * A request applied in several calls, e.g. batch by batch. The calls share
+ * one connection pool, and the slide, metrics and submetrics each call
+ * commits are remembered, so later calls do not look them up again.
+ */
+export interface IngestContext {
+  transaction: TransactionRunner;
+  resolved: {
+    workspaceId: string;
+    slideId: string;
+    metrics: SlideMetric[];
+  } | null;
+}
+
+export function createIngestContext(
+  transaction: TransactionRunner
+): IngestContext {
+  return { transaction, resolved: null };
+}
+
+// Thrown at the end of a dry run so its writes are rolled back
+class DryRunRollback extends Error {
+  constructor(readonly result: IngestResult) {
+    super("Dry run rolled back");
+    this.name = "DryRunRollback";
+  }
+}
+
+// Apply the payload in one transaction. A dry run goes through exactly the
+// same steps, then rolls back and returns what it would have saved.
+async function runIngest(
+  dryRun: boolean,
+  transaction: TransactionRunner,
+  apply: (tx: Transaction) => Promise<IngestResult>
+): Promise<IngestResult> {
+  try {
+    return await transaction(async (tx) => {
+      const result = await apply(tx);
+      if (dryRun) throw new DryRunRollback(result);
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof DryRunRollback) return error.result;
+    throw error;
+  }
+}
+
+export function describeLocation(location: IngestLocation): string {
+  const metric = `metric ${location.metric_index} ('${location.metric_name}')`;
+  return location.submetric_index === undefined
+    ? metric
+    : `${metric}, submetric ${location.submetric_index} ('${location.submetric_label}')`;
+}
+
+function emptyCounts(): IngestChangeCounts {
+  return { created: 0, updated: 0, unchanged: 0 };
+}
+
+function fromDataPointInput(dp: DataPointInput): DataPointJson {
+  return {
+    timestamp: dp.timestamp.trim(),
+    value: dp.value,
+    numerator: dp.numerator ?? null,
+    denominator: dp.denominator ?? null,
+    confidence: dp.confidence ?? null,
+    source: dp.source ?? null,
+    dimensions: dp.dimensions ?? null,
+  };
+}
+
+// Submetric attributes provided in the payload, in column form
+function submetricAttributes(input: SubmetricInput) {
+  return {
+    xAxis: input.xaxis,
+    timezone: input.timezone,
+    trend: input.trend,
+    unit: input.unit,
+    aggregationType:
+      input.aggregation_type == null
+        ? input.aggregation_type
+        : toAggregationType(input.aggregation_type),
+    controlChart: input.control_chart,
+    color: input.color,
+    metadata: input.metadata,
+  };
+}
+
+// Only attributes present in the payload are changed on an existing submetric
+function changedSubmetricAttributes(
+  existing: SubmetricRow,
+  input: SubmetricInput
+): Partial<SubmetricRow> {
+  const changes: Partial<SubmetricRow> = {};
+
+  for (const [key, value] of Object.entries(submetricAttributes(input))) {
+    const column = key as keyof ReturnType<typeof submetricAttributes>;
+    if (
+      value !== undefined &&
+      JSON.stringify(existing[column] ?? null) !== JSON.stringify(value)
+    ) {
+      Object.assign(changes, { [column]: value });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply a validated payload. `progress.at` follows the metric or submetric
+ * being written, so a failure can be traced to its place in the payload.
+ * With a `context`, the call runs in its pool and reuses what earlier calls
+ * resolved.
+ */
+export async function applyIngestRequest(
+  body: IngestRequest,
+  actor: DataPointActor,
+  progress: { at: IngestLocation | null },
+  context?: IngestContext
+): Promise<IngestResult> {
+  const ingestMode: IngestMode = body.mode ?? "create";
+  const dataPointsMode: DataPointsMode = body.data_points_mode ?? "replace";
+  const dryRun = body.dry_run ?? false;
+  // Only the same slide in merge mode can reuse what was resolved
+  const resolved =
+    ingestMode === "merge" &&
+    context?.resolved &&
+    context.resolved.slideId === body.slide_id &&
+    context.resolved.workspaceId === body.workspace_id
+      ? context.resolved
+      : null;
+  // Metrics matched or created by this call, kept once it commits
+  let slideMetrics: SlideMetric[] = [];
+
+  const transaction = context?.transaction ?? withTransaction;
+
+  const result = await runIngest(dryRun, transaction, async (tx) => {
+    // Get or validate workspace
+    let workspaceId = body.workspace_id;
+    if (!workspaceId) {
+      // Create a new public workspace if not provided
+      const [newWorkspace] = await tx
+        .insert(workspaces)
+        .values({
+          name: body.slide_title || "API Ingestion Workspace",
+          description: "Created via API",
+          isPublic: true,
+        })
+        .returning();
+      workspaceId = newWorkspace.id;
+    } else if (!resolved) {
+      // Verify workspace exists, unless already resolved
+      const workspace = await tx.query.workspaces.findFirst({
+        where: eq(workspaces.id, workspaceId),
+      });
+
+      if (!workspace) {
+        throw new IngestError(
+          `Workspace with id '${workspaceId}' not found`,
+          404
+        );
+      }
+    }
+
+    // Get or create slide
+    let slideId = body.slide_id;
+    if (!slideId) {
+      // Create new slide
+      const [newSlide] = await tx
+        .insert(slides)
+        .values({
+          title: body.slide_title as string,
+          description: body.slide_description || null,
+          workspaceId,
+          slideDate: body.slide_date || null,
+        })
+        .returning();
+      slideId = newSlide.id;
+    } else if (!resolved) {
+      // Verify slide exists and belongs to workspace, unless already resolved
+      const slide = await tx.query.slides.findFirst({
+        where: eq(slides.id, slideId),
+      });
+
+      if (!slide) {
+        throw new IngestError(`Slide with id '${slideId}' not found`, 404);
+      }
+
+      if (slide.workspaceId !== workspaceId) {
+        throw new IngestError(
+          "Slide does not belong to the specified workspace",
+          400
+        );
+      }
+    }
+
+    // In merge mode, load the slide's metrics named in the payload so they can
+    // be matched; the rest of the slide and the stored points are never read.
+    // Entries are copied so a rollback leaves the resolved ones unchanged.
+    slideMetrics =
+      resolved?.metrics.map((entry) => ({
+        metric: entry.metric,
+        submetrics: [...entry.submetrics],
+      })) ?? [];
+    const metricNames = body.metrics
+      .map((metric) => metric.metric_name)
+      .filter(
+        (name) => !slideMetrics.some(({ metric }) => metric.name === name)
+      );
+    if (ingestMode === "merge" && metricNames.length > 0) {
+      slideMetrics.push(
+        ...(
+          await tx.query.metrics.findMany({
+            where: and(
+              eq(metrics.slideId, slideId),
+              inArray(metrics.name, metricNames)
+            ),
+            with: { submetrics: true },
+          })
+        ).map(({ submetrics: existingSubmetrics, ...metric }) => ({
+          metric,
+          submetrics: existingSubmetrics,
+        }))
+      );
+    }
+
+    // New metrics and submetrics are appended after the existing ones
+    let nextMetricSortOrder = await getNextMetricSortOrder(slideId, tx);
+
+    const metricIds: string[] = [];
+    const metricCounts = emptyCounts();
+    const submetricCounts = emptyCounts();
+    const dataPointCounts = emptyCounts();
+
+    for (const [metricIndex, metricInput] of body.metrics.entries()) {
+      progress.at = {
+        metric_index: metricIndex,
+        metric_name: metricInput.metric_name,
+      };
+
+      let entry = slideMetrics.find(
+        ({ metric }) => metric.name === metricInput.metric_name
+      );
+      let metricCreated = false;
+      let metricChanged = false;
+
+      if (!entry) {
+        // Insert metric
+        const [metric] = await tx
+          .insert(metrics)
+          .values({
+            name: metricInput.metric_name,
+            description: metricInput.description || null,
+            slideId,
+            chartType: metricInput.chart_type || "line",
+            sortOrder: nextMetricSortOrder++,
+          })
+          .returning();
+
+        entry = { metric, submetrics: [] };
+        if (ingestMode === "merge") slideMetrics.push(entry);
+        metricCreated = true;
+        metricCounts.created++;
+      } else {
+        // Update metric attributes that were provided and differ
+        const metricChanges: Partial<MetricRow> = {};
+        if (
+          metricInput.description !== undefined &&
+          metricInput.description !== entry.metric.description
+        ) {
+          metricChanges.description = metricInput.description;
+        }
+        if (
+          metricInput.chart_type !== undefined &&
+          metricInput.chart_type !== entry.metric.chartType
+        ) {
+          metricChanges.chartType = metricInput.chart_type;
+        }
+
+        if (Object.keys(metricChanges).length > 0) {
+          const [metric] = await tx
+            .update(metrics)
+            .set({ ...metricChanges, updatedAt: new Date() })
+            .where(eq(metrics.id, entry.metric.id))
+            .returning();
+          entry.metric = metric;
+          metricChanged = true;
+        }
+      }
+
+      const metricId = entry.metric.id;
+      if (!metricIds.includes(metricId)) metricIds.push(metricId);
+
+      // Insert or merge submetrics with data points
+      for (const [
+        submetricIndex,
+        submetricInput,
+      ] of metricInput.submetrics.entries()) {
+        progress.at = {
+          metric_index: metricIndex,
+          metric_name: metricInput.metric_name,
+          submetric_index: submetricIndex,
+          submetric_label: submetricInput.label,
+        };
+
+        // One point per point in time; later duplicates in the payload win
+        const dataPointsJson = dedupeDataPoints(
+          (submetricInput.data_points ?? []).map(fromDataPointInput)
+        );
+
+        const existing = entry.submetrics.find(
+          (submetric) =>
+            submetric.label === submetricInput.label &&
+            (submetric.category ?? null) === (submetricInput.category || null)
+        );
+
+        if (!existing) {
+          const [submetric] = await tx
+            .insert(submetrics)
+            .values({
+              label: submetricInput.label,
+              category: submetricInput.category || null,
+              metricId,
+              xAxis: submetricInput.xaxis || "date",
+              timezone: submetricInput.timezone || "UTC",
+              trend: submetricInput.trend || null,
+              unit: submetricInput.unit || null,
+              aggregationType: toAggregationType(
+                submetricInput.aggregation_type || "none"
+              ),
+              controlChart: submetricInput.control_chart || "xmr",
+              color: submetricInput.color || null,
+              metadata: submetricInput.metadata || null,
+              sortOrder:
+                Math.max(
+                  -1,
+                  ...entry.submetrics.map(
+                    (submetric) => submetric.sortOrder ?? 0
+                  )
+                ) + 1,
+            })
+            .returning();
+
+          await upsertDataPoints(submetric.id, dataPointsJson, actor, tx);
+
+          entry.submetrics.push(submetric);
+          submetricCounts.created++;
+          dataPointCounts.created += dataPointsJson.length;
+          metricChanged = true;
+          continue;
+        }
+
+        const counts = await mergeDataPoints(
+          existing.id,
+          dataPointsJson,
+          dataPointsMode,
+          actor,
+          tx
+        );
+        const attributeChanges = changedSubmetricAttributes(
+          existing,
+          submetricInput
+        );
+
+        dataPointCounts.created += counts.created;
+        dataPointCounts.updated += counts.updated;
+        dataPointCounts.unchanged += counts.unchanged;
+
+        if (
+          counts.created === 0 &&
+          counts.updated === 0 &&
+          Object.keys(attributeChanges).length === 0
+        ) {
+          submetricCounts.unchanged++;
+          continue;
+        }
+
+        const [submetric] = await tx
+          .update(submetrics)
+          .set({ ...attributeChanges, updatedAt: new Date() })
+          .where(eq(submetrics.id, existing.id))
+          .returning();
+
+        entry.submetrics[entry.submetrics.indexOf(existing)] = submetric;
+        submetricCounts.updated++;
+        metricChanged = true;
+      }
+
+      if (!metricCreated) {
+        if (metricChanged) {
+          metricCounts.updated++;
+        } else {
+          metricCounts.unchanged++;
+        }
+      }
+    }
+
+    progress.at = null;
+
+    return {
+      workspaceId,
+      slideId,
+      metricIds,
+      metricCounts,
+      submetricCounts,
+      dataPointCounts,
+    };
+  });
+
+  if (context && ingestMode === "merge" && !dryRun) {
+    context.resolved = {
+      workspaceId: result.workspaceId,
+      slideId: result.slideId,
+      metrics: slideMetrics,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,177 @@
+import { db, type Transaction } from "@/lib/db";
+import { metrics } from "@/lib/db/schema";
+import { eq, max } from "drizzle-orm";
+import {
+  submetricsWithDataPoints,
+  toMetricWithSubmetrics,
+} from "@/lib/action/data-point";
+import type {
+  Metric,
+  MetricInput,
+  MetricWithSubmetrics,
+} from "@/types/db/metric";
+
+/**
+ * Server-side metric actions for API routes
+ */
+
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * Validate a create or update body. Fields that are not present are left out
+ * of the result; `name` is required when creating. `slideId` moves the metric
+ * and is only read on update.
+ */
+export function parseMetricInput(
+  body: unknown,
+  requireName: boolean
+): { data: Partial<MetricInput> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const data: Partial<MetricInput> = {};
+
+  if (input.name !== undefined || requireName) {
+    if (
+      typeof input.name !== "string" ||
+      !input.name.trim() ||
+      input.name.trim().length > MAX_NAME_LENGTH
+    ) {
+      return {
+        error: `Invalid request - 'name' must be 1-${MAX_NAME_LENGTH} characters`,
+      };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      return { error: "Invalid request - 'description' must be a string" };
+    }
+    data.description = input.description?.trim() || null;
+  }
+
+  if (input.chartType !== undefined) {
+    if (typeof input.chartType !== "string" || !input.chartType.trim()) {
+      return { error: "Invalid request - 'chartType' must be a string" };
+    }
+    data.chartType = input.chartType.trim();
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      return { error: "Invalid request - 'sortOrder' must be an integer" };
+    }
+    data.sortOrder = input.sortOrder as number;
+  }
+
+  if (!requireName && input.slideId !== undefined) {
+    if (typeof input.slideId !== "string" || !input.slideId) {
+      return { error: "Invalid request - 'slideId' must be a slide ID" };
+    }
+    data.slideId = input.slideId;
+  }
+
+  return { data };
+}
+
+export async function getNextMetricSortOrder(
+  slideId: string,
+  tx?: Transaction
+): Promise<number> {
+  const [result] = await (tx ?? db)
+    .select({ value: max(metrics.sortOrder) })
+    .from(metrics)
+    .where(eq(metrics.slideId, slideId));
+
+  return (result?.value ?? -1) + 1;
+}
+
+export async function getMetricById(
+  metricId: string
+): Promise<MetricWithSubmetrics | null> {
+  try {
+    const metric = await db.query.metrics.findFirst({
+      where: eq(metrics.id, metricId),
+      with: {
+        submetrics: submetricsWithDataPoints(),
+      },
+    });
+
+    return metric ? toMetricWithSubmetrics(metric) : null;
+  } catch (error) {
+    console.error("Error fetching metric by ID:", error);
+    throw new Error("Failed to fetch metric");
+  }
+}
+
+export async function createMetric(
+  slideId: string,
+  data: Partial<MetricInput> & Pick<MetricInput, "name">
+): Promise<Metric> {
+  try {
+    // New metrics go to the end of the slide unless placed explicitly
+    const sortOrder = data.sortOrder ?? (await getNextMetricSortOrder(slideId));
+
+    const [created] = await db
+      .insert(metrics)
+      .values({
+        slideId,
+        name: data.name,
+        description: data.description ?? null,
+        chartType: data.chartType ?? "line",
+        sortOrder,
+      })
+      .returning();
+
+    return created;
+  } catch (error) {
+    console.error("Error creating metric:", error);
+    throw new Error("Failed to create metric");
+  }
+}
+
+export async function updateMetric(
+  metricId: string,
+  data: Partial<MetricInput>
+): Promise<Metric | null> {
+  try {
+    const changes = { ...data };
+
+    // A metric moved to another slide is appended unless placed explicitly
+    if (changes.slideId && changes.sortOrder === undefined) {
+      const [current] = await db
+        .select({ slideId: metrics.slideId })
+        .from(metrics)
+        .where(eq(metrics.id, metricId))
+        .limit(1);
+
+      if (current && current.slideId !== changes.slideId) {
+        changes.sortOrder = await getNextMetricSortOrder(changes.slideId);
+      }
+    }
+
+    const [updated] = await db
+      .update(metrics)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(metrics.id, metricId))
+      .returning();
+
+    return updated ?? null;
+  } catch (error) {
+    console.error("Error updating metric:", error);
+    throw new Error("Failed to update metric");
+  }
+}
+
+export async function deleteMetric(metricId: string): Promise<void> {
+  try {
+    // Cascades to the metric's submetrics and their chart settings
+    await db.delete(metrics).where(eq(metrics.id, metricId));
+  } catch (error) {
+    console.error("Error deleting metric:", error);
+    throw new Error("Failed to delete metric");
+  }
+}
@@ -0,0 +1,130 @@
+import { db } from "@/lib/db";
+import { slides } from "@/lib/db/schema";
+import { eq, max } from "drizzle-orm";
+import type { Slide, SlideInput } from "@/types/db/slide";
+
+/**
+ * Server-side slide actions for API routes
+ */
+
+const MAX_TITLE_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a create or update body. Fields that are not present are left out
+ * of the result; `title` is required when creating.
+ */
+export function parseSlideInput(
+  body: unknown,
+  requireTitle: boolean
+): { data: Partial<SlideInput> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const data: Partial<SlideInput> = {};
+
+  if (input.title !== undefined || requireTitle) {
+    if (
+      typeof input.title !== "string" ||
+      !input.title.trim() ||
+      input.title.trim().length > MAX_TITLE_LENGTH
+    ) {
+      return {
+        error: `Invalid request - 'title' must be 1-${MAX_TITLE_LENGTH} characters`,
+      };
+    }
+    data.title = input.title.trim();
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      return { error: "Invalid request - 'description' must be a string" };
+    }
+    data.description = input.description?.trim() || null;
+  }
+
+  if (input.slideDate !== undefined) {
+    if (
+      input.slideDate !== null &&
+      (typeof input.slideDate !== "string" ||
+        !DATE_PATTERN.test(input.slideDate) ||
+        Number.isNaN(Date.parse(input.slideDate)))
+    ) {
+      return {
+        error: "Invalid request - 'slideDate' must be a YYYY-MM-DD date",
+      };
+    }
+    data.slideDate = input.slideDate;
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      return { error: "Invalid request - 'sortOrder' must be an integer" };
+    }
+    data.sortOrder = input.sortOrder as number;
+  }
+
+  if (input.isPublished !== undefined) {
+    if (typeof input.isPublished !== "boolean") {
+      return { error: "Invalid request - 'isPublished' must be a boolean" };
+    }
+    data.isPublished = input.isPublished;
+  }
+
+  return { data };
+}
+
+export async function createSlide(
+  workspaceId: string,
+  data: Partial<SlideInput> & Pick<SlideInput, "title">
+): Promise<Slide> {
+  try {
+    let sortOrder = data.sortOrder;
+
+    // New slides go to the end of the workspace unless placed explicitly
+    if (sortOrder === undefined || sortOrder === null) {
+      const [result] = await db
+        .select({ value: max(slides.sortOrder) })
+        .from(slides)
+        .where(eq(slides.workspaceId, workspaceId));
+      sortOrder = (result?.value ?? -1) + 1;
+    }
+
+    const [created] = await db
+      .insert(slides)
+      .values({
+        workspaceId,
+        title: data.title,
+        description: data.description ?? null,
+        slideDate: data.slideDate ?? null,
+        sortOrder,
+        isPublished: data.isPublished ?? false,
+      })
+      .returning();
+
+    return created;
+  } catch (error) {
+    console.error("Error creating slide:", error);
+    throw new Error("Failed to create slide");
+  }
+}
+
+export async function updateSlide(
+  slideId: string,
+  data: Partial<SlideInput>
+): Promise<Slide | null> {
+  try {
+    const [updated] = await db
+      .update(slides)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(slides.id, slideId))
+      .returning();
+
+    return updated ?? null;
+  } catch (error) {
+    console.error("Error updating slide:", error);
+    throw new Error("Failed to update slide");
+  }
+}
@@ -0,0 +1,862 @@
+import { db } from "@/lib/db";
+import {
+  submetrics,
+  submetricDataPoints,
+  submetricDividers,
+  submetricLockLimits,
+  submetricRuleSets,
+  submetricSeasonality,
+  submetricShiftCharts,
+  submetricSpecLimits,
+  submetricTrends,
+  submetricTrendHistory,
+  users,
+} from "@/lib/db/schema";
+import { asc, desc, eq, inArray, max } from "drizzle-orm";
+import {
+  getDataPoints,
+  toSubmetric,
+  withPeriods,
+} from "@/lib/action/data-point";
+import type {
+  Submetric,
+  SubmetricDividers,
+  SubmetricInput,
+  SubmetricLockLimits,
+  SubmetricRuleSet,
+  SubmetricSettings,
+  SpecLimitsInput,
+  SubmetricSeasonality,
+  SubmetricShiftChart,
+  ShiftChartInput,
+  SubmetricSpecLimits,
+  SubmetricTrend,
+  SubmetricTrendHistoryEntry,
+} from "@/types/db/submetric";
+import type { MetricWithSubmetrics } from "@/types/db/metric";
+import type { RuleSetConfig } from "@/types/db/workspace";
+import {
+  CONTROL_CHART_TYPES,
+  DEFAULT_SHIFT_CHART_PARAMS,
+  SHIFT_CHART_PARAM_DEFINITIONS,
+  SHIFT_CHART_VIEWS,
+} from "@/lib/xmr-calculations";
+
+/**
+ * Server-side submetric actions for API routes
+ */
+
+const MAX_LABEL_LENGTH = 200;
+const SUBMETRIC_TRENDS = ["uptrend", "downtrend", "stable"];
+
+/**
+ * Validate a create or update body. Fields that are not present are left out
+ * of the result; `label` is required when creating. `metricId` moves the
+ * submetric and is only read on update.
+ */
+export function parseSubmetricInput(
+  body: unknown,
+  requireLabel: boolean
+): { data: Partial<SubmetricInput> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const data: Partial<SubmetricInput> = {};
+
+  if (input.label !== undefined || requireLabel) {
+    if (
+      typeof input.label !== "string" ||
+      !input.label.trim() ||
+      input.label.trim().length > MAX_LABEL_LENGTH
+    ) {
+      return {
+        error: `Invalid request - 'label' must be 1-${MAX_LABEL_LENGTH} characters`,
+      };
+    }
+    data.label = input.label.trim();
+  }
+
+  // Optional text attributes; empty strings clear them
+  for (const field of ["category", "unit", "color"] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") {
+      return { error: `Invalid request - '${field}' must be a string` };
+    }
+    data[field] = value?.trim() || null;
+  }
+
+  if (input.trend !== undefined) {
+    if (
+      input.trend !== null &&
+      (typeof input.trend !== "string" ||
+        !SUBMETRIC_TRENDS.includes(input.trend))
+    ) {
+      return {
+        error: `Invalid request - 'trend' must be one of: ${SUBMETRIC_TRENDS.join(
+          ", "
+        )}`,
+      };
+    }
+    data.trend = input.trend;
+  }
+
+  if (input.controlChart !== undefined) {
+    const controlChart = CONTROL_CHART_TYPES.find(
+      (chartType) => chartType === input.controlChart
+    );
+    if (!controlChart) {
+      return {
+        error: `Invalid request - 'controlChart' must be one of: ${CONTROL_CHART_TYPES.join(
+          ", "
+        )}`,
+      };
+    }
+    data.controlChart = controlChart;
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (!Number.isInteger(input.sortOrder)) {
+      return { error: "Invalid request - 'sortOrder' must be an integer" };
+    }
+    data.sortOrder = input.sortOrder as number;
+  }
+
+  if (!requireLabel && input.metricId !== undefined) {
+    if (typeof input.metricId !== "string" || !input.metricId) {
+      return { error: "Invalid request - 'metricId' must be a metric ID" };
+    }
+    data.metricId = input.metricId;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a spec limits body. At least one of `usl`, `lsl` and `target` is
+ * required; a target must sit within the limits that are set.
+ */
+export function parseSpecLimitsInput(
+  body: unknown
+): { data: SpecLimitsInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const data: SpecLimitsInput = { usl: null, lsl: null, target: null };
+
+  for (const field of ["usl", "lsl", "target"] as const) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { error: `Invalid request - '${field}' must be a number` };
+    }
+    data[field] = value;
+  }
+
+  if (data.usl === null && data.lsl === null && data.target === null) {
+    return {
+      error:
+        "Invalid request - at least one of 'usl', 'lsl' or 'target' is required",
+    };
+  }
+
+  if (data.usl !== null && data.lsl !== null && data.lsl >= data.usl) {
+    return { error: "Invalid request - 'lsl' must be less than 'usl'" };
+  }
+
+  if (
+    data.target !== null &&
+    ((data.usl !== null && data.target > data.usl) ||
+      (data.lsl !== null && data.target < data.lsl))
+  ) {
+    return {
+      error: "Invalid request - 'target' must be within 'lsl' and 'usl'",
+    };
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a shift chart body. `view` is required; parameters that are left
+ * out use their defaults.
+ */
+export function parseShiftChartInput(
+  body: unknown
+): { data: ShiftChartInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+  const view = SHIFT_CHART_VIEWS.find((v) => v === input.view);
+  if (!view) {
+    return {
+      error: `Invalid request - 'view' must be one of: ${SHIFT_CHART_VIEWS.join(
+        ", "
+      )}`,
+    };
+  }
+
+  const data: ShiftChartInput = { view, ...DEFAULT_SHIFT_CHART_PARAMS };
+  for (const field of ["lambda", "k", "h"] as const) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    const { min, max } = SHIFT_CHART_PARAM_DEFINITIONS[field];
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max
+    ) {
+      return {
+        error: `Invalid request - '${field}' must be a number from ${min} to ${max}`,
+      };
+    }
+    data[field] = value;
+  }
+
+  return { data };
+}
+
+async function getNextSubmetricSortOrder(metricId: string): Promise<number> {
+  const [result] = await db
+    .select({ value: max(submetrics.sortOrder) })
+    .from(submetrics)
+    .where(eq(submetrics.metricId, metricId));
+
+  return (result?.value ?? -1) + 1;
+}
+
+export async function getSubmetricById(
+  submetricId: string
+): Promise<Submetric | null> {
+  try {
+    const result = await db.query.submetrics.findFirst({
+      where: eq(submetrics.id, submetricId),
+      with: {
+        dataPoints: {
+          orderBy: [asc(submetricDataPoints.timestamp)],
+        },
+      },
+    });
+
+    return result ? toSubmetric(result) : null;
+  } catch (error) {
+    console.error("Error fetching submetric by ID:", error);
+    throw new Error("Failed to fetch submetric");
+  }
+}
+
+export async function createSubmetric(
+  metricId: string,
+  data: Partial<SubmetricInput> & Pick<SubmetricInput, "label">
+): Promise<Submetric> {
+  try {
+    // New submetrics go to the end of the metric unless placed explicitly
+    const sortOrder =
+      data.sortOrder ?? (await getNextSubmetricSortOrder(metricId));
+
+    const [created] = await db
+      .insert(submetrics)
+      .values({
+        metricId,
+        label: data.label,
+        category: data.category ?? null,
+        unit: data.unit ?? null,
+        trend: data.trend ?? null,
+        controlChart: data.controlChart ?? "xmr",
+        color: data.color ?? null,
+        sortOrder,
+      })
+      .returning();
+
+    return withPeriods(created, []);
+  } catch (error) {
+    console.error("Error creating submetric:", error);
+    throw new Error("Failed to create submetric");
+  }
+}
+
+export async function updateSubmetric(
+  submetricId: string,
+  data: Partial<SubmetricInput>
+): Promise<Submetric | null> {
+  try {
+    const changes = { ...data };
+
+    // A submetric moved to another metric is appended unless placed explicitly
+    if (changes.metricId && changes.sortOrder === undefined) {
+      const current = await getSubmetricById(submetricId);
+
+      if (current && current.metricId !== changes.metricId) {
+        changes.sortOrder = await getNextSubmetricSortOrder(changes.metricId);
+      }
+    }
+
+    const [updated] = await db
+      .update(submetrics)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(submetrics.id, submetricId))
+      .returning();
+
+    if (!updated) {
+      return null;
+    }
+
+    return withPeriods(updated, await getDataPoints(submetricId));
+  } catch (error) {
+    console.error("Error updating submetric:", error);
+    throw new Error("Failed to update submetric");
+  }
+}
+
+export async function deleteSubmetric(submetricId: string): Promise<void> {
+  try {
+    // Cascades to lock limits, trend, seasonality and dividers
+    await db.delete(submetrics).where(eq(submetrics.id, submetricId));
+  } catch (error) {
+    console.error("Error deleting submetric:", error);
+    throw new Error("Failed to delete submetric");
+  }
+}
+
+export async function getLockLimits(
+  submetricId: string
+): Promise<SubmetricLockLimits | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricLockLimits)
+      .where(eq(submetricLockLimits.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching lock limits:", error);
+    throw new Error("Failed to fetch lock limits");
+  }
+}
+
+export async function saveLockLimits(
+  submetricId: string,
+  data: Pick<
+    SubmetricLockLimits,
+    | "limits"
+    | "status"
+    | "isAutoLocked"
+    | "isManuallyModified"
+    | "excludedTimestamps"
+    | "outlierTimestamps"
+  >,
+  lockedBy: string | null
+): Promise<SubmetricLockLimits> {
+  try {
+    const values = {
+      limits: data.limits,
+      status: data.status,
+      isAutoLocked: data.isAutoLocked,
+      isManuallyModified: data.isManuallyModified,
+      excludedTimestamps: data.excludedTimestamps,
+      outlierTimestamps: data.outlierTimestamps,
+      lockedBy,
+    };
+
+    // One lock record per submetric - overwrite the previous state
+    const saved = await db
+      .insert(submetricLockLimits)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricLockLimits.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving lock limits:", error);
+    throw new Error("Failed to save lock limits");
+  }
+}
+
+export async function deleteLockLimits(submetricId: string): Promise<void> {
+  try {
+    await db
+      .delete(submetricLockLimits)
+      .where(eq(submetricLockLimits.submetricId, submetricId));
+  } catch (error) {
+    console.error("Error deleting lock limits:", error);
+    throw new Error("Failed to delete lock limits");
+  }
+}
+
+export async function getTrend(
+  submetricId: string
+): Promise<SubmetricTrend | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricTrends)
+      .where(eq(submetricTrends.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching trend:", error);
+    throw new Error("Failed to fetch trend");
+  }
+}
+
+export async function saveTrend(
+  submetricId: string,
+  data: Pick<
+    SubmetricTrend,
+    "isActive" | "gradient" | "intercept" | "isManuallyModified"
+  >,
+  updatedBy: string | null
+): Promise<SubmetricTrend> {
+  try {
+    const values = {
+      isActive: data.isActive,
+      gradient: data.gradient,
+      intercept: data.intercept,
+      isManuallyModified: data.isManuallyModified,
+      updatedBy,
+    };
+
+    const saved = await db
+      .insert(submetricTrends)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricTrends.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    // Record who changed the trend and to what
+    await db.insert(submetricTrendHistory).values({
+      submetricId,
+      action: data.isActive ? "applied" : "removed",
+      gradient: data.gradient,
+      intercept: data.intercept,
+      isManuallyModified: data.isManuallyModified,
+      changedBy: updatedBy,
+    });
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving trend:", error);
+    throw new Error("Failed to save trend");
+  }
+}
+
+export async function getTrendHistory(
+  submetricId: string,
+  limit = 20
+): Promise<SubmetricTrendHistoryEntry[]> {
+  try {
+    const result = await db
+      .select({
+        id: submetricTrendHistory.id,
+        submetricId: submetricTrendHistory.submetricId,
+        action: submetricTrendHistory.action,
+        gradient: submetricTrendHistory.gradient,
+        intercept: submetricTrendHistory.intercept,
+        isManuallyModified: submetricTrendHistory.isManuallyModified,
+        changedBy: submetricTrendHistory.changedBy,
+        changedByName: users.name,
+        changedByEmail: users.email,
+        createdAt: submetricTrendHistory.createdAt,
+      })
+      .from(submetricTrendHistory)
+      .leftJoin(users, eq(submetricTrendHistory.changedBy, users.id))
+      .where(eq(submetricTrendHistory.submetricId, submetricId))
+      .orderBy(desc(submetricTrendHistory.createdAt))
+      .limit(limit);
+
+    return result;
+  } catch (error) {
+    console.error("Error fetching trend history:", error);
+    throw new Error("Failed to fetch trend history");
+  }
+}
+
+export async function getSeasonality(
+  submetricId: string
+): Promise<SubmetricSeasonality | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricSeasonality)
+      .where(eq(submetricSeasonality.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching seasonality:", error);
+    throw new Error("Failed to fetch seasonality");
+  }
+}
+
+export async function saveSeasonality(
+  submetricId: string,
+  data: Pick<
+    SubmetricSeasonality,
+    | "isActive"
+    | "period"
+    | "grouping"
+    | "factors"
+    | "isManuallyModified"
+    | "dataStartTimestamp"
+    | "dataEndTimestamp"
+    | "dataPointCount"
+  >,
+  updatedBy: string | null
+): Promise<SubmetricSeasonality> {
+  try {
+    const values = {
+      isActive: data.isActive,
+      period: data.period,
+      grouping: data.grouping,
+      factors: data.factors,
+      isManuallyModified: data.isManuallyModified,
+      dataStartTimestamp: data.dataStartTimestamp,
+      dataEndTimestamp: data.dataEndTimestamp,
+      dataPointCount: data.dataPointCount,
+      updatedBy,
+    };
+
+    const saved = await db
+      .insert(submetricSeasonality)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricSeasonality.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving seasonality:", error);
+    throw new Error("Failed to save seasonality");
+  }
+}
+
+export async function getDividers(
+  submetricId: string
+): Promise<SubmetricDividers | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricDividers)
+      .where(eq(submetricDividers.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching dividers:", error);
+    throw new Error("Failed to fetch dividers");
+  }
+}
+
+export async function saveDividers(
+  submetricId: string,
+  dividers: SubmetricDividers["dividers"],
+  updatedBy: string | null
+): Promise<SubmetricDividers> {
+  try {
+    const values = { dividers, updatedBy };
+
+    const saved = await db
+      .insert(submetricDividers)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricDividers.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving dividers:", error);
+    throw new Error("Failed to save dividers");
+  }
+}
+
+export async function getRuleSet(
+  submetricId: string
+): Promise<SubmetricRuleSet | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricRuleSets)
+      .where(eq(submetricRuleSets.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching rule set:", error);
+    throw new Error("Failed to fetch rule set");
+  }
+}
+
+export async function saveRuleSet(
+  submetricId: string,
+  config: RuleSetConfig,
+  updatedBy: string | null
+): Promise<SubmetricRuleSet> {
+  try {
+    const values = {
+      preset: config.preset,
+      params: config.params,
+      updatedBy,
+    };
+
+    const saved = await db
+      .insert(submetricRuleSets)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricRuleSets.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving rule set:", error);
+    throw new Error("Failed to save rule set");
+  }
+}
+
+// The submetric goes back to the workspace's default rule set
+export async function deleteRuleSet(submetricId: string): Promise<void> {
+  try {
+    await db
+      .delete(submetricRuleSets)
+      .where(eq(submetricRuleSets.submetricId, submetricId));
+  } catch (error) {
+    console.error("Error deleting rule set:", error);
+    throw new Error("Failed to delete rule set");
+  }
+}
+
+export async function getSpecLimits(
+  submetricId: string
+): Promise<SubmetricSpecLimits | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricSpecLimits)
+      .where(eq(submetricSpecLimits.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching spec limits:", error);
+    throw new Error("Failed to fetch spec limits");
+  }
+}
+
+export async function saveSpecLimits(
+  submetricId: string,
+  data: SpecLimitsInput,
+  updatedBy: string | null
+): Promise<SubmetricSpecLimits> {
+  try {
+    const values = {
+      usl: data.usl,
+      lsl: data.lsl,
+      target: data.target,
+      updatedBy,
+    };
+
+    const saved = await db
+      .insert(submetricSpecLimits)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricSpecLimits.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving spec limits:", error);
+    throw new Error("Failed to save spec limits");
+  }
+}
+
+export async function deleteSpecLimits(submetricId: string): Promise<void> {
+  try {
+    await db
+      .delete(submetricSpecLimits)
+      .where(eq(submetricSpecLimits.submetricId, submetricId));
+  } catch (error) {
+    console.error("Error deleting spec limits:", error);
+    throw new Error("Failed to delete spec limits");
+  }
+}
+
+export async function getShiftChart(
+  submetricId: string
+): Promise<SubmetricShiftChart | null> {
+  try {
+    const result = await db
+      .select()
+      .from(submetricShiftCharts)
+      .where(eq(submetricShiftCharts.submetricId, submetricId))
+      .limit(1);
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error("Error fetching shift chart:", error);
+    throw new Error("Failed to fetch shift chart");
+  }
+}
+
+export async function saveShiftChart(
+  submetricId: string,
+  data: ShiftChartInput,
+  updatedBy: string | null
+): Promise<SubmetricShiftChart> {
+  try {
+    const values = {
+      view: data.view,
+      lambda: data.lambda,
+      k: data.k,
+      h: data.h,
+      updatedBy,
+    };
+
+    const saved = await db
+      .insert(submetricShiftCharts)
+      .values({ submetricId, ...values })
+      .onConflictDoUpdate({
+        target: submetricShiftCharts.submetricId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return saved[0];
+  } catch (error) {
+    console.error("Error saving shift chart:", error);
+    throw new Error("Failed to save shift chart");
+  }
+}
+
+export async function deleteShiftChart(submetricId: string): Promise<void> {
+  try {
+    await db
+      .delete(submetricShiftCharts)
+      .where(eq(submetricShiftCharts.submetricId, submetricId));
+  } catch (error) {
+    console.error("Error deleting shift chart:", error);
+    throw new Error("Failed to delete shift chart");
+  }
+}
+
+// Rows of a settings table, which has one row per submetric
+function bySubmetricId<T extends { submetricId: string }>(
+  rows: T[]
+): Map<string, T> {
+  return new Map(rows.map((row) => [row.submetricId, row]));
+}
+
+/**
+ * Load the saved chart settings of many submetrics with one query per
+ * settings table, keyed by submetric id
+ */
+export async function getSubmetricSettings(
+  submetricIds: string[]
+): Promise<Map<string, SubmetricSettings>> {
+  if (submetricIds.length === 0) return new Map();
+
+  try {
+    const [
+      lockLimits,
+      trends,
+      seasonality,
+      dividers,
+      ruleSets,
+      specLimits,
+      shiftCharts,
+    ] = await Promise.all([
+      db
+        .select()
+        .from(submetricLockLimits)
+        .where(inArray(submetricLockLimits.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricTrends)
+        .where(inArray(submetricTrends.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricSeasonality)
+        .where(inArray(submetricSeasonality.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricDividers)
+        .where(inArray(submetricDividers.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricRuleSets)
+        .where(inArray(submetricRuleSets.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricSpecLimits)
+        .where(inArray(submetricSpecLimits.submetricId, submetricIds))
+        .then(bySubmetricId),
+      db
+        .select()
+        .from(submetricShiftCharts)
+        .where(inArray(submetricShiftCharts.submetricId, submetricIds))
+        .then(bySubmetricId),
+    ]);
+
+    return new Map(
+      submetricIds.map((id) => [
+        id,
+        {
+          lockLimits: lockLimits.get(id) ?? null,
+          trend: trends.get(id) ?? null,
+          seasonality: seasonality.get(id) ?? null,
+          dividers: dividers.get(id) ?? null,
+          ruleSet: ruleSets.get(id) ?? null,
+          specLimits: specLimits.get(id) ?? null,
+          shiftChart: shiftCharts.get(id) ?? null,
+        },
+      ])
+    );
+  } catch (error) {
+    console.error("Error fetching submetric settings:", error);
+    throw new Error("Failed to fetch submetric settings");
+  }
+}
+
+/**
+ * Attach each submetric's saved chart settings, for rendering a slide
+ */
+export async function withSubmetricSettings(
+  metricList: MetricWithSubmetrics[]
+): Promise<MetricWithSubmetrics[]> {
+  const settings = await getSubmetricSettings(
+    metricList.flatMap((metric) => metric.submetrics.map(({ id }) => id))
+  );
+
+  return metricList.map((metric) => ({
+    ...metric,
+    submetrics: metric.submetrics.map((submetric) => ({
+      ...submetric,
+      settings: settings.get(submetric.id),
+    })),
+  }));
+}
@@ -1,12 +1,204 @@
-import { db } from "@/lib/db";
-import { workspaces, slides } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
-import type { Workspace, WorkspaceWithSlides } from "@/types/db/workspace";
+import { db, type Transaction, withTransaction } from "@/lib/db";
+import {
+  metrics,
+  slides,
+  submetrics,
+  users,
+  workspaceMembers,
+  workspaces,
+} from "@/lib/db/schema";
+import { and, asc, count, eq, inArray, isNotNull, or } from "drizzle-orm";
+import {
+  metricsWithDataPoints,
+  toMetricWithSubmetrics,
+} from "@/lib/action/data-point";
+import type { Session } from "next-auth";
+import type {
+  RuleSetConfig,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceSettings,
+  WorkspaceWithRole,
+  WorkspaceWithSlides,
+} from "@/types/db/workspace";
 
 /**
  * Server-side workspace actions for API routes
+ *
+ * Access rules: members get their role on the workspace; signed-in users who
+ * are not members can view public workspaces; private workspaces are only
+ * visible to their members.
  */
 
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "editor", "viewer"];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasWorkspaceRole(
+  role: WorkspaceRole | null,
+  required: WorkspaceRole
+): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Administrators listed in WORKSPACE_ADMIN_EMAILS (comma-separated) are the
+ * only users who can claim a workspace that has no owner.
+ */
+export function isWorkspaceAdmin(email: string | null | undefined): boolean {
+  if (!email) {
+    return false;
+  }
+
+  const admins = (process.env.WORKSPACE_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean);
+
+  return admins.includes(normalizeEmail(email));
+}
+
+export async function getAccessibleWorkspaces(
+  user: Session["user"]
+): Promise<WorkspaceWithRole[]> {
+  try {
+    // Empty email never matches a member, leaving only public workspaces
+    const email = user.email ? normalizeEmail(user.email) : "";
+
+    const result = await db
+      .select({ workspace: workspaces, memberRole: workspaceMembers.role })
+      .from(workspaces)
+      .leftJoin(
+        workspaceMembers,
+        and(
+          eq(workspaceMembers.workspaceId, workspaces.id),
+          eq(workspaceMembers.email, email)
+        )
+      )
+      .where(
+        and(
+          eq(workspaces.isArchived, false),
+          or(eq(workspaces.isPublic, true), isNotNull(workspaceMembers.id))
+        )
+      )
+      .orderBy(workspaces.updatedAt);
+
+    return result.map(({ workspace, memberRole }) => ({
+      ...workspace,
+      role: (memberRole ?? "viewer") as WorkspaceRole,
+    }));
+  } catch (error) {
+    console.error("Error fetching accessible workspaces:", error);
+    throw new Error("Failed to fetch workspaces");
+  }
+}
+
+/**
+ * Resolve the user's role on a workspace. Returns null when the workspace
+ * does not exist or the user cannot see it.
+ */
+export async function getWorkspaceRole(
+  workspaceId: string,
+  user: Session["user"]
+): Promise<WorkspaceRole | null> {
+  try {
+    const [workspace] = await db
+      .select({ isPublic: workspaces.isPublic })
+      .from(workspaces)
+      .where(eq(workspaces.id, workspaceId))
+      .limit(1);
+
+    if (!workspace) {
+      return null;
+    }
+
+    if (user.email) {
+      const [member] = await db
+        .select({ role: workspaceMembers.role })
+        .from(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.email, normalizeEmail(user.email))
+          )
+        )
+        .limit(1);
+
+      if (member) {
+        return member.role as WorkspaceRole;
+      }
+    }
+
+    return workspace.isPublic ? "viewer" : null;
+  } catch (error) {
+    console.error("Error resolving workspace role:", error);
+    throw new Error("Failed to resolve workspace access");
+  }
+}
+
+export async function getWorkspaceIdForSlide(
+  slideId: string
+): Promise<string | null> {
+  try {
+    const [slide] = await db
+      .select({ workspaceId: slides.workspaceId })
+      .from(slides)
+      .where(eq(slides.id, slideId))
+      .limit(1);
+
+    return slide?.workspaceId ?? null;
+  } catch (error) {
+    console.error("Error fetching slide workspace:", error);
+    throw new Error("Failed to fetch slide");
+  }
+}
+
+export async function getWorkspaceIdForMetric(
+  metricId: string
+): Promise<string | null> {
+  try {
+    const [row] = await db
+      .select({ workspaceId: slides.workspaceId })
+      .from(metrics)
+      .innerJoin(slides, eq(metrics.slideId, slides.id))
+      .where(eq(metrics.id, metricId))
+      .limit(1);
+
+    return row?.workspaceId ?? null;
+  } catch (error) {
+    console.error("Error fetching metric workspace:", error);
+    throw new Error("Failed to fetch metric");
+  }
+}
+
+export async function getWorkspaceIdForSubmetric(
+  submetricId: string
+): Promise<string | null> {
+  try {
+    const [row] = await db
+      .select({ workspaceId: slides.workspaceId })
+      .from(submetrics)
+      .innerJoin(metrics, eq(submetrics.metricId, metrics.id))
+      .innerJoin(slides, eq(metrics.slideId, slides.id))
+      .where(eq(submetrics.id, submetricId))
+      .limit(1);
+
+    return row?.workspaceId ?? null;
+  } catch (error) {
+    console.error("Error fetching submetric workspace:", error);
+    throw new Error("Failed to fetch submetric");
+  }
+}
+
 export async function getAllWorkspaces(): Promise<Workspace[]> {
   try {
     const result = await db
@@ -41,18 +233,17 @@ export async function getWorkspaceById(
     const workspaceSlides = await db.query.slides.findMany({
       where: eq(slides.workspaceId, workspaceId),
       with: {
-        metrics: {
-          with: {
-            submetrics: true,
-          },
-        },
+        metrics: metricsWithDataPoints(),
       },
       orderBy: [slides.sortOrder, slides.createdAt],
     });
 
     return {
       ...workspace[0],
-      slides: workspaceSlides,
+      slides: workspaceSlides.map((slide) => ({
+        ...slide,
+        metrics: slide.metrics.map(toMetricWithSubmetrics),
+      })),
     };
   } catch (error) {
     console.error("Error fetching workspace by ID:", error);
@@ -60,8 +251,32 @@ export async function getWorkspaceById(
   }
 }
 
+export async function getExistingWorkspaceIds(
+  workspaceIds: string[]
+): Promise<string[]> {
+  if (workspaceIds.length === 0) return [];
+
+  try {
+    const result = await db
+      .select({ id: workspaces.id })
+      .from(workspaces)
+      .where(
+        and(
+          inArray(workspaces.id, workspaceIds),
+          eq(workspaces.isArchived, false)
+        )
+      );
+
+    return result.map((workspace) => workspace.id);
+  } catch (error) {
+    console.error("Error checking workspaces:", error);
+    throw new Error("Failed to check workspaces");
+  }
+}
+
 export async function createWorkspace(
-  data: Partial<Workspace>
+  data: Partial<Workspace>,
+  ownerEmail: string | null = null
 ): Promise<Workspace> {
   try {
     const newWorkspace = await db
@@ -75,6 +290,15 @@ export async function createWorkspace(
       })
       .returning();
 
+    // The creator owns the workspace
+    if (ownerEmail) {
+      await db.insert(workspaceMembers).values({
+        workspaceId: newWorkspace[0].id,
+        email: normalizeEmail(ownerEmail),
+        role: "owner",
+      });
+    }
+
     return newWorkspace[0];
   } catch (error) {
     console.error("Error creating workspace:", error);
@@ -107,6 +331,42 @@ export async function updateWorkspace(
   }
 }
 
+/**
+ * Set or clear (null) the workspace's default detection rule set, keeping the
+ * rest of its settings. Null when the workspace does not exist.
+ */
+export async function saveWorkspaceRuleSet(
+  workspaceId: string,
+  ruleSet: RuleSetConfig | null
+): Promise<Workspace | null> {
+  try {
+    const [workspace] = await db
+      .select({ settings: workspaces.settings })
+      .from(workspaces)
+      .where(eq(workspaces.id, workspaceId))
+      .limit(1);
+
+    if (!workspace) {
+      return null;
+    }
+
+    const { ruleSet: _previous, ...rest } = (workspace.settings ??
+      {}) as WorkspaceSettings;
+    const settings: WorkspaceSettings = ruleSet ? { ...rest, ruleSet } : rest;
+
+    const [updated] = await db
+      .update(workspaces)
+      .set({ settings, updatedAt: new Date() })
+      .where(eq(workspaces.id, workspaceId))
+      .returning();
+
+    return updated ?? null;
+  } catch (error) {
+    console.error("Error saving workspace rule set:", error);
+    throw new Error("Failed to save workspace rule set");
+  }
+}
+
 export async function deleteWorkspace(workspaceId: string): Promise<void> {
   try {
     // Soft delete by marking as archived
@@ -122,3 +382,263 @@ export async function deleteWorkspace(workspaceId: string): Promise<void> {
     throw new Error("Failed to delete workspace");
   }
 }
+
+const memberColumns = {
+  id: workspaceMembers.id,
+  workspaceId: workspaceMembers.workspaceId,
+  email: workspaceMembers.email,
+  role: workspaceMembers.role,
+  invitedBy: workspaceMembers.invitedBy,
+  createdAt: workspaceMembers.createdAt,
+  updatedAt: workspaceMembers.updatedAt,
+  name: users.name,
+  image: users.image,
+};
+
+export async function getWorkspaceMembers(
+  workspaceId: string
+): Promise<WorkspaceMember[]> {
+  try {
+    const result = await db
+      .select(memberColumns)
+      .from(workspaceMembers)
+      .leftJoin(users, eq(users.email, workspaceMembers.email))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+
+    return result.map((member) => ({
+      ...member,
+      role: member.role as WorkspaceRole,
+    }));
+  } catch (error) {
+    console.error("Error fetching workspace members:", error);
+    throw new Error("Failed to fetch workspace members");
+  }
+}
+
+async function getWorkspaceMember(
+  workspaceId: string,
+  memberId: string
+): Promise<WorkspaceMember | null> {
+  const [member] = await db
+    .select(memberColumns)
+    .from(workspaceMembers)
+    .leftJoin(users, eq(users.email, workspaceMembers.email))
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.id, memberId)
+      )
+    )
+    .limit(1);
+
+  return member ? { ...member, role: member.role as WorkspaceRole } : null;
+}
+
+/**
+ * Invite a member by email. Returns null if the email is already a member.
+ */
+export async function addWorkspaceMember(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole,
+  invitedBy: string | null
+): Promise<WorkspaceMember | null> {
+  try {
+    const [created] = await db
+      .insert(workspaceMembers)
+      .values({
+        workspaceId,
+        email: normalizeEmail(email),
+        role,
+        invitedBy,
+      })
+      .onConflictDoNothing({
+        target: [workspaceMembers.workspaceId, workspaceMembers.email],
+      })
+      .returning();
+
+    return created ? getWorkspaceMember(workspaceId, created.id) : null;
+  } catch (error) {
+    console.error("Error adding workspace member:", error);
+    throw new Error("Failed to add workspace member");
+  }
+}
+
+/**
+ * A member change that would leave the workspace without an owner
+ */
+export class LastOwnerError extends Error {
+  constructor() {
+    super("Invalid request - a workspace must keep at least one owner");
+    this.name = "LastOwnerError";
+  }
+}
+
+/**
+ * Refuse to demote or remove the workspace's last owner. The workspace row
+ * stays locked until the transaction ends, so concurrent changes cannot both
+ * see another owner left.
+ */
+async function assertKeepsOwner(
+  tx: Transaction,
+  workspaceId: string,
+  memberId: string
+): Promise<void> {
+  await tx
+    .select({ id: workspaces.id })
+    .from(workspaces)
+    .where(eq(workspaces.id, workspaceId))
+    .for("update");
+
+  const [member] = await tx
+    .select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.id, memberId)
+      )
+    );
+
+  if (member?.role !== "owner") {
+    return;
+  }
+
+  const [owners] = await tx
+    .select({ value: count() })
+    .from(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.role, "owner")
+      )
+    );
+
+  if ((owners?.value ?? 0) <= 1) {
+    throw new LastOwnerError();
+  }
+}
+
+/**
+ * Change a member's role. Throws `LastOwnerError` when it would demote the
+ * last owner; returns null if the member is not found.
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  memberId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember | null> {
+  try {
+    const updatedId = await withTransaction(async (tx) => {
+      if (role !== "owner") {
+        await assertKeepsOwner(tx, workspaceId, memberId);
+      }
+
+      const [updated] = await tx
+        .update(workspaceMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.id, memberId)
+          )
+        )
+        .returning({ id: workspaceMembers.id });
+
+      return updated?.id ?? null;
+    });
+
+    return updatedId ? getWorkspaceMember(workspaceId, updatedId) : null;
+  } catch (error) {
+    if (error instanceof LastOwnerError) throw error;
+    console.error("Error updating workspace member:", error);
+    throw new Error("Failed to update workspace member");
+  }
+}
+
+/**
+ * Remove a member. Throws `LastOwnerError` when it is the last owner;
+ * returns false if the member is not found.
+ */
+export async function removeWorkspaceMember(
+  workspaceId: string,
+  memberId: string
+): Promise<boolean> {
+  try {
+    return await withTransaction(async (tx) => {
+      await assertKeepsOwner(tx, workspaceId, memberId);
+
+      const removed = await tx
+        .delete(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.id, memberId)
+          )
+        )
+        .returning({ id: workspaceMembers.id });
+
+      return removed.length > 0;
+    });
+  } catch (error) {
+    if (error instanceof LastOwnerError) throw error;
+    console.error("Error removing workspace member:", error);
+    throw new Error("Failed to remove workspace member");
+  }
+}
+
+/**
+ * Make the user an owner of a workspace that has none, e.g. one created
+ * before memberships existed or by API ingestion. Returns null if the
+ * workspace already has an owner. The workspace row is locked while the
+ * owners are counted, so concurrent claims cannot both succeed.
+ */
+export async function claimWorkspaceOwnership(
+  workspaceId: string,
+  email: string
+): Promise<WorkspaceMember | null> {
+  try {
+    const claimedId = await withTransaction(async (tx) => {
+      const [workspace] = await tx
+        .select({ id: workspaces.id })
+        .from(workspaces)
+        .where(eq(workspaces.id, workspaceId))
+        .for("update");
+
+      if (!workspace) {
+        return null;
+      }
+
+      const [owners] = await tx
+        .select({ value: count() })
+        .from(workspaceMembers)
+        .where(
+          and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.role, "owner")
+          )
+        );
+
+      if ((owners?.value ?? 0) > 0) {
+        return null;
+      }
+
+      const [claimed] = await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId, email: normalizeEmail(email), role: "owner" })
+        .onConflictDoUpdate({
+          target: [workspaceMembers.workspaceId, workspaceMembers.email],
+          set: { role: "owner", updatedAt: new Date() },
+        })
+        .returning({ id: workspaceMembers.id });
+
+      return claimed.id;
+    });
+
+    return claimedId ? getWorkspaceMember(workspaceId, claimedId) : null;
+  } catch (error) {
+    console.error("Error claiming workspace ownership:", error);
+    throw new Error("Failed to claim workspace ownership");
+  }
+}
@@ -0,0 +1,152 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { API_KEY_PREFIX, verifyApiKey } from "@/lib/action/api-key";
+import type { ApiKeyPermission } from "@/types/db/api-key";
+
+/**
+ * Bearer API key authentication for machine-to-machine endpoints
+ *
+ * Workspace-scoped keys are created from the workspace settings page. The
+ * legacy METRICS_API_KEY environment variable is still accepted as a key with
+ * write access to every workspace.
+ */
+
+export interface ApiKeyAccess {
+  keyId: string | null; // null for the METRICS_API_KEY environment key
+  name: string;
+  workspaceIds: string[] | null; // null grants every workspace
+  permission: ApiKeyPermission;
+}
+
+export interface ApiKeyValidationResult {
+  valid: boolean;
+  status?: number;
+  error?: string;
+  access?: ApiKeyAccess;
+}
+
+export function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get("x-forwarded-for") ||
+    request.headers.get("x-real-ip") ||
+    "unknown IP"
+  );
+}
+
+// Hash both sides so keys of different lengths can be compared in constant time
+function safeCompare(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest()
+  );
+}
+
+function matchesEnvironmentKey(providedKey: string): boolean {
+  const envKey = process.env.METRICS_API_KEY;
+
+  if (!envKey) return false;
+
+  // Validate API key strength (minimum 32 characters)
+  if (envKey.length < 32) {
+    console.error(
+      "[SECURITY] METRICS_API_KEY is too weak (< 32 characters) and is ignored. Please use a stronger key."
+    );
+    return false;
+  }
+
+  return safeCompare(providedKey, envKey);
+}
+
+export function hasPermission(
+  access: ApiKeyAccess,
+  permission: ApiKeyPermission
+): boolean {
+  // Write access includes read access
+  return access.permission === "write" || permission === "read";
+}
+
+export function canAccessWorkspace(
+  access: ApiKeyAccess,
+  workspaceId: string
+): boolean {
+  return (
+    access.workspaceIds === null || access.workspaceIds.includes(workspaceId)
+  );
+}
+
+export async function validateApiKey(
+  request: NextRequest,
+  permission: ApiKeyPermission
+): Promise<ApiKeyValidationResult> {
+  const authHeader = request.headers.get("authorization");
+
+  // Check authorization header format
+  if (!authHeader?.startsWith("Bearer ")) {
+    console.warn(
+      `[SECURITY] Invalid authorization header format from ${getClientIp(
+        request
+      )}`
+    );
+    return {
+      valid: false,
+      status: 401,
+      error: "Invalid authorization header",
+    };
+  }
+
+  const providedKey = authHeader.substring(7).trim();
+
+  // Validate provided key
+  if (!providedKey) {
+    console.warn(
+      `[SECURITY] Empty API key provided from ${getClientIp(request)}`
+    );
+    return { valid: false, status: 401, error: "Invalid API key" };
+  }
+
+  let access: ApiKeyAccess | null = null;
+
+  if (providedKey.startsWith(API_KEY_PREFIX)) {
+    const apiKey = await verifyApiKey(providedKey);
+    if (apiKey) {
+      access = {
+        keyId: apiKey.id,
+        name: apiKey.name,
+        workspaceIds: apiKey.workspaceIds,
+        permission: apiKey.permission,
+      };
+    }
+  } else if (matchesEnvironmentKey(providedKey)) {
+    access = {
+      keyId: null,
+      name: "METRICS_API_KEY",
+      workspaceIds: null,
+      permission: "write",
+    };
+  }
+
+  if (!access) {
+    // Log failed authentication attempts
+    console.warn(
+      `[SECURITY] Failed API key authentication attempt from ${getClientIp(
+        request
+      )}`
+    );
+    return { valid: false, status: 401, error: "Invalid API key" };
+  }
+
+  if (!hasPermission(access, permission)) {
+    console.warn(
+      `[SECURITY] API key '${
+        access.name
+      }' without ${permission} access used from ${getClientIp(request)}`
+    );
+    return {
+      valid: false,
+      status: 403,
+      error: `API key does not have ${permission} access`,
+    };
+  }
+
+  return { valid: true, access };
+}
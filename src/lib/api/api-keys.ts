@@ -0,0 +1,105 @@
+// API key management client and hooks
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BaseApiClient } from "./base";
+import type {
+  ApiKey,
+  ApiKeyPermission,
+  CreatedApiKey,
+} from "@/types/db/api-key";
+
+export interface CreateApiKeyInput {
+  name: string;
+  permission: ApiKeyPermission;
+  expiresInDays: number | null; // null never expires
+  workspaceIds?: string[]; // Additional workspaces besides the current one
+}
+
+export class ApiKeyApiClient extends BaseApiClient {
+  async getApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    const response = await this.request<{ apiKeys: ApiKey[] }>(
+      `/workspaces/${workspaceId}/api-keys`
+    );
+    return response.apiKeys;
+  }
+
+  async createApiKey(
+    workspaceId: string,
+    data: CreateApiKeyInput
+  ): Promise<CreatedApiKey> {
+    return this.request(`/workspaces/${workspaceId}/api-keys`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async revokeApiKey(workspaceId: string, keyId: string): Promise<ApiKey> {
+    const response = await this.request<{ apiKey: ApiKey }>(
+      `/workspaces/${workspaceId}/api-keys/${keyId}`,
+      { method: "DELETE" }
+    );
+    return response.apiKey;
+  }
+}
+
+// Default API key client instance
+export const apiKeyApiClient = new ApiKeyApiClient();
+
+// Query keys for React Query cache management
+export const apiKeyKeys = {
+  all: ["api-keys"] as const,
+  lists: () => [...apiKeyKeys.all, "list"] as const,
+  list: (workspaceId: string) => [...apiKeyKeys.lists(), workspaceId] as const,
+};
+
+// React Query hooks for API key data fetching
+export function useApiKeys(workspaceId: string) {
+  const query = useQuery({
+    queryKey: apiKeyKeys.list(workspaceId),
+    queryFn: () => apiKeyApiClient.getApiKeys(workspaceId),
+    enabled: !!workspaceId,
+  });
+
+  return {
+    apiKeys: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+// Mutation hooks for API key operations
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      data,
+    }: {
+      workspaceId: string;
+      data: CreateApiKeyInput;
+    }) => apiKeyApiClient.createApiKey(workspaceId, data),
+    onSuccess: () => {
+      // A key can be scoped to several workspaces
+      queryClient.invalidateQueries({ queryKey: apiKeyKeys.lists() });
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      keyId,
+    }: {
+      workspaceId: string;
+      keyId: string;
+    }) => apiKeyApiClient.revokeApiKey(workspaceId, keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiKeyKeys.lists() });
+    },
+  });
+}
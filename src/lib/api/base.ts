@@ -20,7 +20,10 @@ export class BaseApiClient {
 
     const response = await fetch(url, {
       headers: {
-        "Content-Type": "application/json",
+        // Form data bodies set their own multipart content type
+        ...(!(options.body instanceof FormData) && {
+          "Content-Type": "application/json",
+        }),
         ...options.headers,
       },
       credentials: "include", // Include cookies for session authentication
@@ -0,0 +1,210 @@
+// Connector management client and hooks
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BaseApiClient } from "./base";
+import { slideKeys } from "./slides";
+import { workspaceKeys } from "./workspaces";
+import type { ConnectorInput } from "@/lib/connectors";
+import type { Connector, ConnectorRun } from "@/types/db/connector";
+
+export type CreateConnectorInput = ConnectorInput;
+// The connection string is only sent when it changes
+export type UpdateConnectorInput = Partial<ConnectorInput>;
+
+export class ConnectorApiClient extends BaseApiClient {
+  async getConnectors(workspaceId: string): Promise<Connector[]> {
+    const response = await this.request<{ connectors: Connector[] }>(
+      `/workspaces/${workspaceId}/connectors`
+    );
+    return response.connectors;
+  }
+
+  async createConnector(
+    workspaceId: string,
+    data: CreateConnectorInput
+  ): Promise<Connector> {
+    const response = await this.request<{ connector: Connector }>(
+      `/workspaces/${workspaceId}/connectors`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.connector;
+  }
+
+  async updateConnector(
+    workspaceId: string,
+    connectorId: string,
+    data: UpdateConnectorInput
+  ): Promise<Connector> {
+    const response = await this.request<{ connector: Connector }>(
+      `/workspaces/${workspaceId}/connectors/${connectorId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.connector;
+  }
+
+  async deleteConnector(
+    workspaceId: string,
+    connectorId: string
+  ): Promise<void> {
+    await this.request(`/workspaces/${workspaceId}/connectors/${connectorId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async getConnectorRuns(
+    workspaceId: string,
+    connectorId: string
+  ): Promise<ConnectorRun[]> {
+    const response = await this.request<{ runs: ConnectorRun[] }>(
+      `/workspaces/${workspaceId}/connectors/${connectorId}/runs`
+    );
+    return response.runs;
+  }
+
+  async runConnector(
+    workspaceId: string,
+    connectorId: string
+  ): Promise<ConnectorRun> {
+    const response = await this.request<{ run: ConnectorRun }>(
+      `/workspaces/${workspaceId}/connectors/${connectorId}/runs`,
+      { method: "POST" }
+    );
+    return response.run;
+  }
+}
+
+// Default connector client instance
+export const connectorApiClient = new ConnectorApiClient();
+
+// Query keys for React Query cache management
+export const connectorKeys = {
+  all: ["connectors"] as const,
+  lists: () => [...connectorKeys.all, "list"] as const,
+  list: (workspaceId: string) =>
+    [...connectorKeys.lists(), workspaceId] as const,
+  runs: (connectorId: string) =>
+    [...connectorKeys.all, "runs", connectorId] as const,
+};
+
+// React Query hooks for connector data fetching
+export function useConnectors(workspaceId: string) {
+  const query = useQuery({
+    queryKey: connectorKeys.list(workspaceId),
+    queryFn: () => connectorApiClient.getConnectors(workspaceId),
+    enabled: !!workspaceId,
+  });
+
+  return {
+    connectors: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useConnectorRuns(workspaceId: string, connectorId: string) {
+  const query = useQuery({
+    queryKey: connectorKeys.runs(connectorId),
+    queryFn: () =>
+      connectorApiClient.getConnectorRuns(workspaceId, connectorId),
+    enabled: !!workspaceId && !!connectorId,
+  });
+
+  return {
+    runs: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+// Mutation hooks for connector operations
+export function useCreateConnector() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      data,
+    }: {
+      workspaceId: string;
+      data: CreateConnectorInput;
+    }) => connectorApiClient.createConnector(workspaceId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: connectorKeys.list(variables.workspaceId),
+      });
+    },
+  });
+}
+
+export function useUpdateConnector() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      connectorId,
+      data,
+    }: {
+      workspaceId: string;
+      connectorId: string;
+      data: UpdateConnectorInput;
+    }) => connectorApiClient.updateConnector(workspaceId, connectorId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: connectorKeys.list(variables.workspaceId),
+      });
+    },
+  });
+}
+
+export function useDeleteConnector() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      connectorId,
+    }: {
+      workspaceId: string;
+      connectorId: string;
+    }) => connectorApiClient.deleteConnector(workspaceId, connectorId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: connectorKeys.list(variables.workspaceId),
+      });
+    },
+  });
+}
+
+export function useRunConnector() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      connectorId,
+    }: {
+      workspaceId: string;
+      connectorId: string;
+    }) => connectorApiClient.runConnector(workspaceId, connectorId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: connectorKeys.list(variables.workspaceId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: connectorKeys.runs(variables.connectorId),
+      });
+      // A run merges rows into the connector's slide
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
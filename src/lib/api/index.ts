@@ -5,6 +5,11 @@ export { BaseApiClient } from "./base";
 export { WorkspaceApiClient, workspaceApiClient } from "./workspaces";
 export { SlideApiClient, slideApiClient } from "./slides";
 export { MetricApiClient, metricApiClient } from "./metrics";
+export { SubmetricApiClient, submetricApiClient } from "./submetrics";
+export { ApiKeyApiClient, apiKeyApiClient } from "./api-keys";
+export { IngestJobApiClient, ingestJobApiClient } from "./ingest-jobs";
+export { UploadApiClient, uploadApiClient } from "./uploads";
+export { ConnectorApiClient, connectorApiClient } from "./connectors";
 
 // Export all hooks
 export {
@@ -13,6 +18,12 @@ export {
   useCreateWorkspace,
   useUpdateWorkspace,
   useDeleteWorkspace,
+  useWorkspaceMembers,
+  useInviteWorkspaceMember,
+  useUpdateWorkspaceMember,
+  useRemoveWorkspaceMember,
+  useClaimWorkspace,
+  useSaveWorkspaceRuleSet,
   workspaceKeys,
 } from "./workspaces";
 export {
@@ -22,27 +33,104 @@ export {
   useDeleteSlide,
   slideKeys,
 } from "./slides";
-export { useMetric } from "./metrics";
+export {
+  useMetric,
+  useCreateMetric,
+  useUpdateMetric,
+  useDeleteMetric,
+  metricKeys,
+} from "./metrics";
+export {
+  useCreateSubmetric,
+  useUpdateSubmetric,
+  useDeleteSubmetric,
+  useSaveDataPoints,
+  useDataPointRevisions,
+  useSubmetricLockLimits,
+  useSaveLockLimits,
+  useDeleteLockLimits,
+  useSubmetricTrend,
+  useSubmetricTrendHistory,
+  useSaveTrend,
+  useSubmetricSeasonality,
+  useSaveSeasonality,
+  useSubmetricDividers,
+  useSaveDividers,
+  useSubmetricRuleSet,
+  useSaveRuleSet,
+  useDeleteRuleSet,
+  useSubmetricSpecLimits,
+  useSaveSpecLimits,
+  useDeleteSpecLimits,
+  useSubmetricShiftChart,
+  useSaveShiftChart,
+  useDeleteShiftChart,
+  submetricKeys,
+} from "./submetrics";
+export {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+  apiKeyKeys,
+} from "./api-keys";
+export { useIngestJobs, ingestJobKeys } from "./ingest-jobs";
+export { useUploadColumns, useIngestUpload } from "./uploads";
+export {
+  useConnectors,
+  useConnectorRuns,
+  useCreateConnector,
+  useUpdateConnector,
+  useDeleteConnector,
+  useRunConnector,
+  connectorKeys,
+} from "./connectors";
 
 // Export types
 export type { ApiError } from "./base";
+export type {
+  SaveLockLimitsInput,
+  SaveTrendInput,
+  SaveSeasonalityInput,
+  CreateSubmetricInput,
+  UpdateSubmetricInput,
+} from "./submetrics";
+export type { CreateMetricInput, UpdateMetricInput } from "./metrics";
+export type { CreateSlideInput, UpdateSlideInput } from "./slides";
+export type { CreateApiKeyInput } from "./api-keys";
+export type { UploadColumns, IngestUploadInput, UploadResult } from "./uploads";
+export type { CreateConnectorInput, UpdateConnectorInput } from "./connectors";
 
 // Legacy compatibility - create a combined client for backward compatibility
 import { BaseApiClient } from "./base";
 import { WorkspaceApiClient } from "./workspaces";
 import { SlideApiClient } from "./slides";
 import { MetricApiClient } from "./metrics";
+import { SubmetricApiClient } from "./submetrics";
+import { ApiKeyApiClient } from "./api-keys";
+import { IngestJobApiClient } from "./ingest-jobs";
+import { UploadApiClient } from "./uploads";
+import { ConnectorApiClient } from "./connectors";
 
 export class ApiClient extends BaseApiClient {
   public workspaces: WorkspaceApiClient;
   public slides: SlideApiClient;
   public metrics: MetricApiClient;
+  public submetrics: SubmetricApiClient;
+  public apiKeys: ApiKeyApiClient;
+  public ingestJobs: IngestJobApiClient;
+  public uploads: UploadApiClient;
+  public connectors: ConnectorApiClient;
 
   constructor(baseUrl: string = "") {
     super(baseUrl);
     this.workspaces = new WorkspaceApiClient(baseUrl);
     this.slides = new SlideApiClient(baseUrl);
     this.metrics = new MetricApiClient(baseUrl);
+    this.submetrics = new SubmetricApiClient(baseUrl);
+    this.apiKeys = new ApiKeyApiClient(baseUrl);
+    this.ingestJobs = new IngestJobApiClient(baseUrl);
+    this.uploads = new UploadApiClient(baseUrl);
+    this.connectors = new ConnectorApiClient(baseUrl);
   }
 
   // Legacy methods for backward compatibility
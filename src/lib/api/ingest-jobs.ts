@@ -0,0 +1,41 @@
+// Ingest job history client and hooks
+
+import { useQuery } from "@tanstack/react-query";
+import { BaseApiClient } from "./base";
+import type { IngestJob } from "@/types/db/ingest-job";
+
+export class IngestJobApiClient extends BaseApiClient {
+  async getIngestJobs(workspaceId: string): Promise<IngestJob[]> {
+    const response = await this.request<{ ingestJobs: IngestJob[] }>(
+      `/workspaces/${workspaceId}/ingest-jobs`
+    );
+    return response.ingestJobs;
+  }
+}
+
+// Default ingest job client instance
+export const ingestJobApiClient = new IngestJobApiClient();
+
+// Query keys for React Query cache management
+export const ingestJobKeys = {
+  all: ["ingest-jobs"] as const,
+  lists: () => [...ingestJobKeys.all, "list"] as const,
+  list: (workspaceId: string) =>
+    [...ingestJobKeys.lists(), workspaceId] as const,
+};
+
+// React Query hooks for ingest job data fetching
+export function useIngestJobs(workspaceId: string) {
+  const query = useQuery({
+    queryKey: ingestJobKeys.list(workspaceId),
+    queryFn: () => ingestJobApiClient.getIngestJobs(workspaceId),
+    enabled: !!workspaceId,
+  });
+
+  return {
+    ingestJobs: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
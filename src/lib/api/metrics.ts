@@ -1,22 +1,46 @@
 // Metrics API client and hooks
 
-import * as React from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BaseApiClient } from "./base";
-import type { Metric } from "@/types/db/metric";
+import type {
+  Metric,
+  MetricInput,
+  MetricWithSubmetrics,
+} from "@/types/db/metric";
+import { slideKeys } from "./slides";
+import { workspaceKeys } from "./workspaces";
+
+export type CreateMetricInput = Pick<MetricInput, "name"> &
+  Partial<Omit<MetricInput, "slideId">>;
+export type UpdateMetricInput = Partial<MetricInput>;
 
 export class MetricApiClient extends BaseApiClient {
-  async createMetric(slideId: string, data: any): Promise<Metric> {
-    return this.request(`/slides/${slideId}/metrics`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createMetric(
+    slideId: string,
+    data: CreateMetricInput
+  ): Promise<Metric> {
+    const response = await this.request<{ metric: Metric }>(
+      `/slides/${slideId}/metrics`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.metric;
   }
 
-  async updateMetric(metricId: string, data: any): Promise<Metric> {
-    return this.request(`/metrics/${metricId}`, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
+  async updateMetric(
+    metricId: string,
+    data: UpdateMetricInput
+  ): Promise<Metric> {
+    const response = await this.request<{ metric: Metric }>(
+      `/metrics/${metricId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.metric;
   }
 
   async deleteMetric(metricId: string): Promise<void> {
@@ -25,8 +49,8 @@ export class MetricApiClient extends BaseApiClient {
     });
   }
 
-  async getMetricById(metricId: string): Promise<Metric> {
-    const response = await this.request<{ metric: Metric }>(
+  async getMetricById(metricId: string): Promise<MetricWithSubmetrics> {
+    const response = await this.request<{ metric: MetricWithSubmetrics }>(
       `/metrics/${metricId}`
     );
     return response.metric;
@@ -36,37 +60,82 @@ export class MetricApiClient extends BaseApiClient {
 // Default metric client instance
 export const metricApiClient = new MetricApiClient();
 
-// React hooks for metric data fetching
+// Query keys for React Query cache management
+export const metricKeys = {
+  all: ["metrics"] as const,
+  details: () => [...metricKeys.all, "detail"] as const,
+  detail: (id: string) => [...metricKeys.details(), id] as const,
+};
+
+// React Query hooks for metric data fetching
 export function useMetric(metricId: string) {
-  const [metric, setMetric] = React.useState<Metric | null>(null);
-  const [loading, setLoading] = React.useState(true);
-  const [error, setError] = React.useState<string | null>(null);
-
-  React.useEffect(() => {
-    if (!metricId) return;
-
-    metricApiClient
-      .getMetricById(metricId)
-      .then(setMetric)
-      .catch((err) => setError(err.message))
-      .finally(() => setLoading(false));
-  }, [metricId]);
-
-  const refetch = React.useCallback(() => {
-    if (!metricId) return;
-    setLoading(true);
-    setError(null);
-    metricApiClient
-      .getMetricById(metricId)
-      .then(setMetric)
-      .catch((err) => setError(err.message))
-      .finally(() => setLoading(false));
-  }, [metricId]);
+  const query = useQuery({
+    queryKey: metricKeys.detail(metricId),
+    queryFn: () => metricApiClient.getMetricById(metricId),
+    enabled: !!metricId,
+  });
 
   return {
-    metric,
-    loading,
-    error,
-    refetch,
+    metric: query.data || null,
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
   };
 }
+
+// Mutation hooks for metric operations
+export function useCreateMetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      slideId,
+      data,
+    }: {
+      slideId: string;
+      data: CreateMetricInput;
+    }) => metricApiClient.createMetric(slideId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: slideKeys.detail(variables.slideId),
+      });
+      // Workspace details embed each slide's metrics
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+export function useUpdateMetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      metricId,
+      data,
+    }: {
+      metricId: string;
+      data: UpdateMetricInput;
+    }) => metricApiClient.updateMetric(metricId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: metricKeys.detail(variables.metricId),
+      });
+      // A moved metric changes both its old and new slide
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+export function useDeleteMetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (metricId: string) => metricApiClient.deleteMetric(metricId),
+    onSuccess: (_, metricId) => {
+      queryClient.removeQueries({ queryKey: metricKeys.detail(metricId) });
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
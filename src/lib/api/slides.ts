@@ -2,9 +2,12 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BaseApiClient } from "./base";
-import type { SlideWithMetrics } from "@/types/db/slide";
+import type { Slide, SlideInput, SlideWithMetrics } from "@/types/db/slide";
 import { workspaceKeys } from "./workspaces";
 
+export type CreateSlideInput = Pick<SlideInput, "title"> & Partial<SlideInput>;
+export type UpdateSlideInput = Partial<SlideInput>;
+
 export class SlideApiClient extends BaseApiClient {
   async getSlideById(slideId: string): Promise<SlideWithMetrics> {
     const response = await this.request<{ slide: SlideWithMetrics }>(
@@ -13,18 +16,29 @@ export class SlideApiClient extends BaseApiClient {
     return response.slide;
   }
 
-  async createSlide(workspaceId: string, data: any): Promise<SlideWithMetrics> {
-    return this.request(`/workspaces/${workspaceId}/slides`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createSlide(
+    workspaceId: string,
+    data: CreateSlideInput
+  ): Promise<Slide> {
+    const response = await this.request<{ slide: Slide }>(
+      `/workspaces/${workspaceId}/slides`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.slide;
   }
 
-  async updateSlide(slideId: string, data: any): Promise<SlideWithMetrics> {
-    return this.request(`/slides/${slideId}`, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
+  async updateSlide(slideId: string, data: UpdateSlideInput): Promise<Slide> {
+    const response = await this.request<{ slide: Slide }>(
+      `/slides/${slideId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.slide;
   }
 
   async deleteSlide(slideId: string): Promise<void> {
@@ -70,8 +84,13 @@ export function useCreateSlide() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ workspaceId, data }: { workspaceId: string; data: any }) =>
-      slideApiClient.createSlide(workspaceId, data),
+    mutationFn: ({
+      workspaceId,
+      data,
+    }: {
+      workspaceId: string;
+      data: CreateSlideInput;
+    }) => slideApiClient.createSlide(workspaceId, data),
     onSuccess: (_, variables) => {
       // Invalidate workspace to refetch slides
       queryClient.invalidateQueries({
@@ -85,8 +104,13 @@ export function useUpdateSlide() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ slideId, data }: { slideId: string; data: any }) =>
-      slideApiClient.updateSlide(slideId, data),
+    mutationFn: ({
+      slideId,
+      data,
+    }: {
+      slideId: string;
+      data: UpdateSlideInput;
+    }) => slideApiClient.updateSlide(slideId, data),
     onSuccess: (data, variables) => {
       // Invalidate specific slide
       queryClient.invalidateQueries({
@@ -0,0 +1,778 @@
+// Submetric API client and hooks
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BaseApiClient } from "./base";
+import type {
+  DataPointJson,
+  Submetric,
+  SubmetricDataPointRevision,
+  SubmetricDividers,
+  SubmetricInput,
+  SubmetricLockLimits,
+  SubmetricRuleSet,
+  SubmetricSpecLimits,
+  SpecLimitsInput,
+  SubmetricShiftChart,
+  ShiftChartInput,
+  SubmetricSeasonality,
+  SubmetricTrend,
+  SubmetricTrendHistoryEntry,
+} from "@/types/db/submetric";
+import type { RuleSetConfig } from "@/types/db/workspace";
+import { slideKeys } from "./slides";
+import { workspaceKeys } from "./workspaces";
+
+export type CreateSubmetricInput = Pick<SubmetricInput, "label"> &
+  Partial<Omit<SubmetricInput, "metricId">>;
+export type UpdateSubmetricInput = Partial<SubmetricInput>;
+
+export type SaveLockLimitsInput = Pick<
+  SubmetricLockLimits,
+  | "limits"
+  | "status"
+  | "isAutoLocked"
+  | "isManuallyModified"
+  | "excludedTimestamps"
+  | "outlierTimestamps"
+>;
+
+export type SaveTrendInput = Pick<
+  SubmetricTrend,
+  "isActive" | "gradient" | "intercept" | "isManuallyModified"
+>;
+
+export type SaveSeasonalityInput = Pick<
+  SubmetricSeasonality,
+  | "isActive"
+  | "period"
+  | "grouping"
+  | "factors"
+  | "isManuallyModified"
+  | "dataStartTimestamp"
+  | "dataEndTimestamp"
+  | "dataPointCount"
+>;
+
+export class SubmetricApiClient extends BaseApiClient {
+  async createSubmetric(
+    metricId: string,
+    data: CreateSubmetricInput
+  ): Promise<Submetric> {
+    const response = await this.request<{ submetric: Submetric }>(
+      `/metrics/${metricId}/submetrics`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.submetric;
+  }
+
+  async updateSubmetric(
+    submetricId: string,
+    data: UpdateSubmetricInput
+  ): Promise<Submetric> {
+    const response = await this.request<{ submetric: Submetric }>(
+      `/submetrics/${submetricId}`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.submetric;
+  }
+
+  async deleteSubmetric(submetricId: string): Promise<void> {
+    await this.request(`/submetrics/${submetricId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async saveDataPoints(
+    submetricId: string,
+    dataPoints: DataPointJson[]
+  ): Promise<DataPointJson[]> {
+    const response = await this.request<{ dataPoints: DataPointJson[] }>(
+      `/submetrics/${submetricId}/data-points`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ dataPoints }),
+      }
+    );
+    return response.dataPoints;
+  }
+
+  async getDataPointRevisions(
+    submetricId: string,
+    timestamp?: string
+  ): Promise<SubmetricDataPointRevision[]> {
+    const query = timestamp
+      ? `?timestamp=${encodeURIComponent(timestamp)}`
+      : "";
+    const response = await this.request<{
+      revisions: SubmetricDataPointRevision[];
+    }>(`/submetrics/${submetricId}/data-points/revisions${query}`);
+    return response.revisions;
+  }
+
+  async getLockLimits(
+    submetricId: string
+  ): Promise<SubmetricLockLimits | null> {
+    const response = await this.request<{
+      lockLimits: SubmetricLockLimits | null;
+    }>(`/submetrics/${submetricId}/lock-limits`);
+    return response.lockLimits;
+  }
+
+  async saveLockLimits(
+    submetricId: string,
+    data: SaveLockLimitsInput
+  ): Promise<SubmetricLockLimits> {
+    const response = await this.request<{ lockLimits: SubmetricLockLimits }>(
+      `/submetrics/${submetricId}/lock-limits`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.lockLimits;
+  }
+
+  async deleteLockLimits(submetricId: string): Promise<void> {
+    await this.request(`/submetrics/${submetricId}/lock-limits`, {
+      method: "DELETE",
+    });
+  }
+
+  async getTrend(submetricId: string): Promise<SubmetricTrend | null> {
+    const response = await this.request<{ trend: SubmetricTrend | null }>(
+      `/submetrics/${submetricId}/trend`
+    );
+    return response.trend;
+  }
+
+  async saveTrend(
+    submetricId: string,
+    data: SaveTrendInput
+  ): Promise<SubmetricTrend> {
+    const response = await this.request<{ trend: SubmetricTrend }>(
+      `/submetrics/${submetricId}/trend`,
+      {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.trend;
+  }
+
+  async getTrendHistory(
+    submetricId: string
+  ): Promise<SubmetricTrendHistoryEntry[]> {
+    const response = await this.request<{
+      history: SubmetricTrendHistoryEntry[];
+    }>(`/submetrics/${submetricId}/trend/history`);
+    return response.history;
+  }
+
+  async getSeasonality(
+    submetricId: string
+  ): Promise<SubmetricSeasonality | null> {
+    const response = await this.request<{
+      seasonality: SubmetricSeasonality | null;
+    }>(`/submetrics/${submetricId}/seasonality`);
+    return response.seasonality;
+  }
+
+  async saveSeasonality(
+    submetricId: string,
+    data: SaveSeasonalityInput
+  ): Promise<SubmetricSeasonality> {
+    const response = await this.request<{
+      seasonality: SubmetricSeasonality;
+    }>(`/submetrics/${submetricId}/seasonality`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+    return response.seasonality;
+  }
+
+  async getDividers(submetricId: string): Promise<SubmetricDividers | null> {
+    const response = await this.request<{
+      dividers: SubmetricDividers | null;
+    }>(`/submetrics/${submetricId}/dividers`);
+    return response.dividers;
+  }
+
+  async saveDividers(
+    submetricId: string,
+    dividers: SubmetricDividers["dividers"]
+  ): Promise<SubmetricDividers> {
+    const response = await this.request<{ dividers: SubmetricDividers }>(
+      `/submetrics/${submetricId}/dividers`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ dividers }),
+      }
+    );
+    return response.dividers;
+  }
+
+  async getRuleSet(submetricId: string): Promise<SubmetricRuleSet | null> {
+    const response = await this.request<{ ruleSet: SubmetricRuleSet | null }>(
+      `/submetrics/${submetricId}/rule-set`
+    );
+    return response.ruleSet;
+  }
+
+  async saveRuleSet(
+    submetricId: string,
+    ruleSet: RuleSetConfig
+  ): Promise<SubmetricRuleSet> {
+    const response = await this.request<{ ruleSet: SubmetricRuleSet }>(
+      `/submetrics/${submetricId}/rule-set`,
+      {
+        method: "PUT",
+        body: JSON.stringify(ruleSet),
+      }
+    );
+    return response.ruleSet;
+  }
+
+  async deleteRuleSet(submetricId: string): Promise<void> {
+    await this.request(`/submetrics/${submetricId}/rule-set`, {
+      method: "DELETE",
+    });
+  }
+
+  async getSpecLimits(
+    submetricId: string
+  ): Promise<SubmetricSpecLimits | null> {
+    const response = await this.request<{
+      specLimits: SubmetricSpecLimits | null;
+    }>(`/submetrics/${submetricId}/spec-limits`);
+    return response.specLimits;
+  }
+
+  async saveSpecLimits(
+    submetricId: string,
+    specLimits: SpecLimitsInput
+  ): Promise<SubmetricSpecLimits> {
+    const response = await this.request<{ specLimits: SubmetricSpecLimits }>(
+      `/submetrics/${submetricId}/spec-limits`,
+      {
+        method: "PUT",
+        body: JSON.stringify(specLimits),
+      }
+    );
+    return response.specLimits;
+  }
+
+  async deleteSpecLimits(submetricId: string): Promise<void> {
+    await this.request(`/submetrics/${submetricId}/spec-limits`, {
+      method: "DELETE",
+    });
+  }
+
+  async getShiftChart(
+    submetricId: string
+  ): Promise<SubmetricShiftChart | null> {
+    const response = await this.request<{
+      shiftChart: SubmetricShiftChart | null;
+    }>(`/submetrics/${submetricId}/shift-chart`);
+    return response.shiftChart;
+  }
+
+  async saveShiftChart(
+    submetricId: string,
+    shiftChart: ShiftChartInput
+  ): Promise<SubmetricShiftChart> {
+    const response = await this.request<{ shiftChart: SubmetricShiftChart }>(
+      `/submetrics/${submetricId}/shift-chart`,
+      {
+        method: "PUT",
+        body: JSON.stringify(shiftChart),
+      }
+    );
+    return response.shiftChart;
+  }
+
+  async deleteShiftChart(submetricId: string): Promise<void> {
+    await this.request(`/submetrics/${submetricId}/shift-chart`, {
+      method: "DELETE",
+    });
+  }
+}
+
+// Default submetric client instance
+export const submetricApiClient = new SubmetricApiClient();
+
+// Query keys for React Query cache management
+export const submetricKeys = {
+  all: ["submetrics"] as const,
+  details: () => [...submetricKeys.all, "detail"] as const,
+  detail: (id: string) => [...submetricKeys.details(), id] as const,
+  dataPointRevisions: (id: string) =>
+    [...submetricKeys.detail(id), "data-point-revisions"] as const,
+  dataPointRevisionsAt: (id: string, timestamp: string) =>
+    [...submetricKeys.dataPointRevisions(id), timestamp] as const,
+  lockLimits: (id: string) =>
+    [...submetricKeys.detail(id), "lock-limits"] as const,
+  trend: (id: string) => [...submetricKeys.detail(id), "trend"] as const,
+  trendHistory: (id: string) =>
+    [...submetricKeys.trend(id), "history"] as const,
+  seasonality: (id: string) =>
+    [...submetricKeys.detail(id), "seasonality"] as const,
+  dividers: (id: string) => [...submetricKeys.detail(id), "dividers"] as const,
+  ruleSet: (id: string) => [...submetricKeys.detail(id), "rule-set"] as const,
+  specLimits: (id: string) =>
+    [...submetricKeys.detail(id), "spec-limits"] as const,
+  shiftChart: (id: string) =>
+    [...submetricKeys.detail(id), "shift-chart"] as const,
+};
+
+// React Query hooks for submetric data fetching
+// Settings loaded with the slide are passed as `initialData`, so the hooks
+// below only fetch for submetrics that were loaded without them
+export function useSubmetricLockLimits(
+  submetricId: string,
+  initialData?: SubmetricLockLimits | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.lockLimits(submetricId),
+    queryFn: () => submetricApiClient.getLockLimits(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    lockLimits: query.data || null,
+    loading: query.isLoading,
+    isSuccess: query.isSuccess,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricTrend(
+  submetricId: string,
+  initialData?: SubmetricTrend | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.trend(submetricId),
+    queryFn: () => submetricApiClient.getTrend(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    trend: query.data || null,
+    loading: query.isLoading,
+    isSuccess: query.isSuccess,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricTrendHistory(submetricId: string, enabled = true) {
+  const query = useQuery({
+    queryKey: submetricKeys.trendHistory(submetricId),
+    queryFn: () => submetricApiClient.getTrendHistory(submetricId),
+    enabled: !!submetricId && enabled,
+  });
+
+  return {
+    history: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useDataPointRevisions(
+  submetricId: string,
+  timestamp?: string,
+  enabled = true
+) {
+  const query = useQuery({
+    queryKey: timestamp
+      ? submetricKeys.dataPointRevisionsAt(submetricId, timestamp)
+      : submetricKeys.dataPointRevisions(submetricId),
+    queryFn: () =>
+      submetricApiClient.getDataPointRevisions(submetricId, timestamp),
+    enabled: !!submetricId && enabled,
+  });
+
+  return {
+    revisions: query.data || [],
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricSeasonality(
+  submetricId: string,
+  initialData?: SubmetricSeasonality | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.seasonality(submetricId),
+    queryFn: () => submetricApiClient.getSeasonality(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    seasonality: query.data || null,
+    loading: query.isLoading,
+    isSuccess: query.isSuccess,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricRuleSet(
+  submetricId: string,
+  initialData?: SubmetricRuleSet | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.ruleSet(submetricId),
+    queryFn: () => submetricApiClient.getRuleSet(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    ruleSet: query.data || null,
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricSpecLimits(
+  submetricId: string,
+  initialData?: SubmetricSpecLimits | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.specLimits(submetricId),
+    queryFn: () => submetricApiClient.getSpecLimits(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    specLimits: query.data || null,
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricShiftChart(
+  submetricId: string,
+  initialData?: SubmetricShiftChart | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.shiftChart(submetricId),
+    queryFn: () => submetricApiClient.getShiftChart(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    shiftChart: query.data || null,
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+export function useSubmetricDividers(
+  submetricId: string,
+  initialData?: SubmetricDividers | null
+) {
+  const query = useQuery({
+    queryKey: submetricKeys.dividers(submetricId),
+    queryFn: () => submetricApiClient.getDividers(submetricId),
+    enabled: !!submetricId,
+    initialData,
+  });
+
+  return {
+    dividers: query.data || null,
+    loading: query.isLoading,
+    isSuccess: query.isSuccess,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
+// Mutation hooks for submetric operations
+export function useCreateSubmetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      metricId,
+      data,
+    }: {
+      metricId: string;
+      data: CreateSubmetricInput;
+    }) => submetricApiClient.createSubmetric(metricId, data),
+    onSuccess: () => {
+      // Slides and workspace details embed their submetrics
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+export function useUpdateSubmetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      data,
+    }: {
+      submetricId: string;
+      data: UpdateSubmetricInput;
+    }) => submetricApiClient.updateSubmetric(submetricId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+export function useDeleteSubmetric() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submetricId: string) =>
+      submetricApiClient.deleteSubmetric(submetricId),
+    onSuccess: (_, submetricId) => {
+      queryClient.removeQueries({
+        queryKey: submetricKeys.detail(submetricId),
+      });
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+    },
+  });
+}
+
+export function useSaveDataPoints() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      dataPoints,
+    }: {
+      submetricId: string;
+      dataPoints: DataPointJson[];
+    }) => submetricApiClient.saveDataPoints(submetricId, dataPoints),
+    onSuccess: (_, variables) => {
+      // Slides and workspace details embed each submetric's data points
+      queryClient.invalidateQueries({ queryKey: slideKeys.all });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.all });
+      // Changed points were recorded as revisions
+      queryClient.invalidateQueries({
+        queryKey: submetricKeys.dataPointRevisions(variables.submetricId),
+      });
+    },
+  });
+}
+
+export function useSaveLockLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      data,
+    }: {
+      submetricId: string;
+      data: SaveLockLimitsInput;
+    }) => submetricApiClient.saveLockLimits(submetricId, data),
+    onSuccess: (data, variables) => {
+      // Store the saved record directly - no refetch needed
+      queryClient.setQueryData(
+        submetricKeys.lockLimits(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useDeleteLockLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submetricId: string) =>
+      submetricApiClient.deleteLockLimits(submetricId),
+    onSuccess: (_, submetricId) => {
+      queryClient.setQueryData(submetricKeys.lockLimits(submetricId), null);
+    },
+  });
+}
+
+export function useSaveTrend() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      data,
+    }: {
+      submetricId: string;
+      data: SaveTrendInput;
+    }) => submetricApiClient.saveTrend(submetricId, data),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.trend(variables.submetricId),
+        data
+      );
+      // A new audit entry was written
+      queryClient.invalidateQueries({
+        queryKey: submetricKeys.trendHistory(variables.submetricId),
+      });
+    },
+  });
+}
+
+export function useSaveSeasonality() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      data,
+    }: {
+      submetricId: string;
+      data: SaveSeasonalityInput;
+    }) => submetricApiClient.saveSeasonality(submetricId, data),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.seasonality(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useSaveDividers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      dividers,
+    }: {
+      submetricId: string;
+      dividers: SubmetricDividers["dividers"];
+    }) => submetricApiClient.saveDividers(submetricId, dividers),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.dividers(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useSaveRuleSet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      ruleSet,
+    }: {
+      submetricId: string;
+      ruleSet: RuleSetConfig;
+    }) => submetricApiClient.saveRuleSet(submetricId, ruleSet),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.ruleSet(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useDeleteRuleSet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submetricId: string) =>
+      submetricApiClient.deleteRuleSet(submetricId),
+    onSuccess: (_, submetricId) => {
+      queryClient.setQueryData(submetricKeys.ruleSet(submetricId), null);
+    },
+  });
+}
+
+export function useSaveSpecLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      specLimits,
+    }: {
+      submetricId: string;
+      specLimits: SpecLimitsInput;
+    }) => submetricApiClient.saveSpecLimits(submetricId, specLimits),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.specLimits(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useDeleteSpecLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submetricId: string) =>
+      submetricApiClient.deleteSpecLimits(submetricId),
+    onSuccess: (_, submetricId) => {
+      queryClient.setQueryData(submetricKeys.specLimits(submetricId), null);
+    },
+  });
+}
+
+export function useSaveShiftChart() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      submetricId,
+      shiftChart,
+    }: {
+      submetricId: string;
+      shiftChart: ShiftChartInput;
+    }) => submetricApiClient.saveShiftChart(submetricId, shiftChart),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(
+        submetricKeys.shiftChart(variables.submetricId),
+        data
+      );
+    },
+  });
+}
+
+export function useDeleteShiftChart() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submetricId: string) =>
+      submetricApiClient.deleteShiftChart(submetricId),
+    onSuccess: (_, submetricId) => {
+      queryClient.setQueryData(submetricKeys.shiftChart(submetricId), null);
+    },
+  });
+}
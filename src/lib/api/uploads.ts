@@ -0,0 +1,116 @@
+// File upload ingestion client and hooks
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { BaseApiClient } from "./base";
+import { slideKeys } from "./slides";
+import { workspaceKeys } from "./workspaces";
+import type { DataPointsMode, IngestMode } from "@/lib/ingest";
+import type {
+  ColumnMapping,
+  UploadRow,
+  UploadSeries,
+} from "@/lib/ingest-upload";
+import type { IngestChangeCounts } from "@/types/db/ingest-job";
+
+export interface UploadColumns {
+  columns: string[];
+  rows: UploadRow[]; // The first rows of the file
+  rowCount: number;
+}
+
+export interface IngestUploadInput {
+  file: File;
+  mapping: ColumnMapping;
+  slideId?: string | null; // null creates a slide titled slideTitle
+  slideTitle?: string;
+  slideDate?: string | null;
+  mode?: IngestMode;
+  dataPointsMode?: DataPointsMode;
+  dryRun?: boolean;
+}
+
+export interface UploadResult {
+  dry_run: boolean;
+  series: UploadSeries[];
+  data: {
+    slide_id: string | null;
+    metrics: IngestChangeCounts;
+    submetrics: IngestChangeCounts;
+    data_points: IngestChangeCounts;
+  };
+}
+
+export class UploadApiClient extends BaseApiClient {
+  async getUploadColumns(
+    workspaceId: string,
+    file: File
+  ): Promise<UploadColumns> {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    return this.request(`/workspaces/${workspaceId}/uploads`, {
+      method: "POST",
+      body: formData,
+    });
+  }
+
+  async ingestUpload(
+    workspaceId: string,
+    input: IngestUploadInput
+  ): Promise<UploadResult> {
+    const formData = new FormData();
+    formData.append("file", input.file);
+    formData.append("mapping", JSON.stringify(input.mapping));
+    if (input.slideId) formData.append("slide_id", input.slideId);
+    if (input.slideTitle) formData.append("slide_title", input.slideTitle);
+    if (input.slideDate) formData.append("slide_date", input.slideDate);
+    if (input.mode) formData.append("mode", input.mode);
+    if (input.dataPointsMode) {
+      formData.append("data_points_mode", input.dataPointsMode);
+    }
+    formData.append("dry_run", String(input.dryRun ?? false));
+
+    return this.request(`/workspaces/${workspaceId}/uploads`, {
+      method: "POST",
+      body: formData,
+    });
+  }
+}
+
+// Default upload client instance
+export const uploadApiClient = new UploadApiClient();
+
+// React Query hooks for file uploads
+export function useUploadColumns() {
+  return useMutation({
+    mutationFn: ({ workspaceId, file }: { workspaceId: string; file: File }) =>
+      uploadApiClient.getUploadColumns(workspaceId, file),
+  });
+}
+
+export function useIngestUpload() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      data,
+    }: {
+      workspaceId: string;
+      data: IngestUploadInput;
+    }) => uploadApiClient.ingestUpload(workspaceId, data),
+    onSuccess: (result, variables) => {
+      // A dry run saves nothing
+      if (result.dry_run) return;
+
+      queryClient.invalidateQueries({
+        queryKey: workspaceKeys.detail(variables.workspaceId),
+      });
+      if (result.data.slide_id) {
+        queryClient.invalidateQueries({
+          queryKey: slideKeys.detail(result.data.slide_id),
+        });
+      }
+    },
+  });
+}
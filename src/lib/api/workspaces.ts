@@ -2,11 +2,18 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BaseApiClient } from "./base";
-import type { Workspace, WorkspaceWithSlides } from "@/types/db/workspace";
+import type {
+  RuleSetConfig,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceWithRole,
+  WorkspaceWithSlides,
+} from "@/types/db/workspace";
 
 export class WorkspaceApiClient extends BaseApiClient {
-  async getAllWorkspaces(): Promise<Workspace[]> {
-    const response = await this.request<{ workspaces: Workspace[] }>(
+  async getAllWorkspaces(): Promise<WorkspaceWithRole[]> {
+    const response = await this.request<{ workspaces: WorkspaceWithRole[] }>(
       "/workspaces"
     );
     return response.workspaces;
@@ -41,6 +48,72 @@ export class WorkspaceApiClient extends BaseApiClient {
       method: "DELETE",
     });
   }
+
+  // Null clears the default, going back to the Western Electric rules
+  async saveRuleSet(
+    workspaceId: string,
+    ruleSet: RuleSetConfig | null
+  ): Promise<Workspace> {
+    const response = await this.request<{ workspace: Workspace }>(
+      `/workspaces/${workspaceId}/rule-set`,
+      ruleSet
+        ? { method: "PUT", body: JSON.stringify(ruleSet) }
+        : { method: "DELETE" }
+    );
+    return response.workspace;
+  }
+
+  // canClaim is true for administrators, who may claim a workspace with no owner
+  async getMembers(
+    workspaceId: string
+  ): Promise<{ members: WorkspaceMember[]; canClaim: boolean }> {
+    return this.request<{ members: WorkspaceMember[]; canClaim: boolean }>(
+      `/workspaces/${workspaceId}/members`
+    );
+  }
+
+  async inviteMember(
+    workspaceId: string,
+    data: { email: string; role: WorkspaceRole }
+  ): Promise<WorkspaceMember> {
+    const response = await this.request<{ member: WorkspaceMember }>(
+      `/workspaces/${workspaceId}/members`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return response.member;
+  }
+
+  async updateMemberRole(
+    workspaceId: string,
+    memberId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> {
+    const response = await this.request<{ member: WorkspaceMember }>(
+      `/workspaces/${workspaceId}/members/${memberId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ role }),
+      }
+    );
+    return response.member;
+  }
+
+  async removeMember(workspaceId: string, memberId: string): Promise<void> {
+    await this.request(`/workspaces/${workspaceId}/members/${memberId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async claimOwnership(workspaceId: string): Promise<WorkspaceMember> {
+    const response = await this.request<{ member: WorkspaceMember }>(
+      `/workspaces/${workspaceId}/members/claim`,
+      { method: "POST" }
+    );
+    return response.member;
+  }
 }
 
 // Default workspace client instance
@@ -53,6 +126,7 @@ export const workspaceKeys = {
   list: () => [...workspaceKeys.lists()] as const,
   details: () => [...workspaceKeys.all, "detail"] as const,
   detail: (id: string) => [...workspaceKeys.details(), id] as const,
+  members: (id: string) => [...workspaceKeys.detail(id), "members"] as const,
 };
 
 // React Query hooks for workspace data fetching
@@ -85,6 +159,22 @@ export function useWorkspace(workspaceId: string) {
   };
 }
 
+export function useWorkspaceMembers(workspaceId: string) {
+  const query = useQuery({
+    queryKey: workspaceKeys.members(workspaceId),
+    queryFn: () => workspaceApiClient.getMembers(workspaceId),
+    enabled: !!workspaceId,
+  });
+
+  return {
+    members: query.data?.members || [],
+    canClaim: query.data?.canClaim ?? false,
+    loading: query.isLoading,
+    error: query.error?.message || null,
+    refetch: query.refetch,
+  };
+}
+
 // Mutation hooks for workspace operations
 export function useCreateWorkspace() {
   const queryClient = useQueryClient();
@@ -135,3 +225,103 @@ export function useDeleteWorkspace() {
     },
   });
 }
+
+export function useSaveWorkspaceRuleSet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      ruleSet,
+    }: {
+      workspaceId: string;
+      ruleSet: RuleSetConfig | null;
+    }) => workspaceApiClient.saveRuleSet(workspaceId, ruleSet),
+    onSuccess: (_, variables) => {
+      // Charts read the default from the workspace's settings
+      queryClient.invalidateQueries({
+        queryKey: workspaceKeys.detail(variables.workspaceId),
+      });
+      queryClient.invalidateQueries({ queryKey: workspaceKeys.list() });
+    },
+  });
+}
+
+// Membership changes can change the signed-in user's own role, which is part
+// of the workspace list
+function invalidateMembership(
+  queryClient: ReturnType<typeof useQueryClient>,
+  workspaceId: string
+) {
+  queryClient.invalidateQueries({
+    queryKey: workspaceKeys.members(workspaceId),
+  });
+  queryClient.invalidateQueries({ queryKey: workspaceKeys.list() });
+}
+
+export function useInviteWorkspaceMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      email,
+      role,
+    }: {
+      workspaceId: string;
+      email: string;
+      role: WorkspaceRole;
+    }) => workspaceApiClient.inviteMember(workspaceId, { email, role }),
+    onSuccess: (_, variables) => {
+      invalidateMembership(queryClient, variables.workspaceId);
+    },
+  });
+}
+
+export function useUpdateWorkspaceMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      memberId,
+      role,
+    }: {
+      workspaceId: string;
+      memberId: string;
+      role: WorkspaceRole;
+    }) => workspaceApiClient.updateMemberRole(workspaceId, memberId, role),
+    onSuccess: (_, variables) => {
+      invalidateMembership(queryClient, variables.workspaceId);
+    },
+  });
+}
+
+export function useRemoveWorkspaceMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      memberId,
+    }: {
+      workspaceId: string;
+      memberId: string;
+    }) => workspaceApiClient.removeMember(workspaceId, memberId),
+    onSuccess: (_, variables) => {
+      invalidateMembership(queryClient, variables.workspaceId);
+    },
+  });
+}
+
+export function useClaimWorkspace() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (workspaceId: string) =>
+      workspaceApiClient.claimOwnership(workspaceId),
+    onSuccess: (_, workspaceId) => {
+      invalidateMembership(queryClient, workspaceId);
+    },
+  });
+}
@@ -0,0 +1,348 @@
+/**
+ * Connector settings validation shared by the connector routes and the
+ * settings page. Running a connector lives in `@/lib/action/connector`.
+ */
+
+import { nextCronRun, parseCron } from "@/lib/cron";
+import { DATA_POINTS_MODES, type DataPointsMode } from "@/lib/ingest";
+import { type ColumnMapping, UPLOAD_FIELDS } from "@/lib/ingest-upload";
+import { parseJsonPath } from "@/lib/json-path";
+import type { ConnectorKind, HttpConnectorConfig } from "@/types/db/connector";
+
+export const CONNECTOR_KINDS = ["postgres", "http"] as const;
+export const HTTP_METHODS = ["GET", "POST"] as const;
+export const MAX_CONNECTOR_NAME_LENGTH = 100;
+export const MAX_CONNECTOR_QUERY_LENGTH = 20_000;
+export const MAX_CONNECTOR_HEADERS = 20;
+
+// RFC 9110 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export interface ConnectorInput {
+  name: string;
+  slideId: string;
+  kind: ConnectorKind;
+  // Postgres sources
+  connectionString?: string; // postgres:// URL, stored encrypted
+  query?: string;
+  // HTTP sources
+  url?: string;
+  method?: HttpConnectorConfig["method"];
+  requestBody?: string | null;
+  headers?: Record<string, string>;
+  secretHeaders?: Record<string, string>; // Stored encrypted, e.g. Authorization
+  recordsPath?: string;
+  mapping: ColumnMapping;
+  schedule: string;
+  dataPointsMode: DataPointsMode;
+  isEnabled: boolean;
+}
+
+/**
+ * Host, port and database of a Postgres connection string, shown in place of
+ * the string itself. Null when it is not a postgres:// URL.
+ */
+export function describeConnectionTarget(
+  connectionString: string
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(connectionString);
+  } catch {
+    return null;
+  }
+
+  if (!["postgres:", "postgresql:"].includes(url.protocol) || !url.hostname) {
+    return null;
+  }
+
+  return `${url.hostname}${url.port ? `:${url.port}` : ""}${url.pathname}`;
+}
+
+// Postgres sources map columns by name, HTTP sources by a path into each record
+function parseMapping(
+  input: unknown,
+  kind: ConnectorKind
+): ColumnMapping | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "Invalid request - 'mapping' must be an object";
+  }
+
+  const fields = input as Record<string, unknown>;
+  const mapping: ColumnMapping = {};
+  const source = kind === "http" ? "path" : "column";
+
+  for (const { field, label, required } of UPLOAD_FIELDS) {
+    const column = fields[field];
+    if (column == null || column === "") {
+      if (required) return `Invalid request - map a ${source} to '${label}'`;
+      continue;
+    }
+    if (typeof column !== "string") {
+      return `Invalid request - 'mapping.${field}' must be a ${source}`;
+    }
+    if (kind === "http") {
+      const path = parseJsonPath(column);
+      if ("error" in path) {
+        return `Invalid request - 'mapping.${field}' ${path.error}`;
+      }
+    }
+    mapping[field] = column.trim();
+  }
+
+  return mapping;
+}
+
+/**
+ * An http(s) URL without credentials, which belong in a secret header. Null
+ * when it is not one.
+ */
+export function describeHttpTarget(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (
+    !["http:", "https:"].includes(parsed.protocol) ||
+    parsed.username ||
+    parsed.password
+  ) {
+    return null;
+  }
+
+  return parsed.toString();
+}
+
+function parseHeaders(
+  input: unknown,
+  key: string
+): Record<string, string> | string {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return `Invalid request - '${key}' must be an object of header names and values`;
+  }
+
+  const entries = Object.entries(input as Record<string, unknown>);
+  if (entries.length > MAX_CONNECTOR_HEADERS) {
+    return `Invalid request - '${key}' may have at most ${MAX_CONNECTOR_HEADERS} headers`;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      return `Invalid request - '${name}' is not a valid header name`;
+    }
+    if (typeof value !== "string" || /[\r\n]/.test(value)) {
+      return `Invalid request - '${key}.${name}' must be a single-line string`;
+    }
+    headers[name] = value.trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Validate connector settings. Given the kind of an existing connector, only
+ * the fields present are checked, as when it is updated; its kind cannot
+ * change.
+ */
+export function parseConnectorInput(
+  input: unknown,
+  currentKind?: ConnectorKind
+): { data: Partial<ConnectorInput> } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const body = input as Record<string, unknown>;
+  const data: Partial<ConnectorInput> = {};
+  const partial = currentKind !== undefined;
+  const has = (key: string) => !partial || body[key] !== undefined;
+
+  // Connectors created before HTTP sources existed are all Postgres
+  const kind = CONNECTOR_KINDS.find(
+    (item) => item === (body.kind ?? currentKind ?? "postgres")
+  );
+  if (!kind) {
+    return {
+      error: `Invalid request - 'kind' must be one of: ${CONNECTOR_KINDS.join(
+        ", "
+      )}`,
+    };
+  }
+  if (partial && kind !== currentKind) {
+    return { error: "Invalid request - 'kind' cannot be changed" };
+  }
+  if (!partial) data.kind = kind;
+
+  if (has("name")) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_CONNECTOR_NAME_LENGTH) {
+      return {
+        error: `Invalid request - 'name' must be 1-${MAX_CONNECTOR_NAME_LENGTH} characters`,
+      };
+    }
+    data.name = name;
+  }
+
+  if (has("slideId")) {
+    if (typeof body.slideId !== "string" || !body.slideId) {
+      return { error: "Invalid request - 'slideId' is required" };
+    }
+    data.slideId = body.slideId;
+  }
+
+  if (kind === "postgres") {
+    if (has("connectionString")) {
+      if (
+        typeof body.connectionString !== "string" ||
+        !describeConnectionTarget(body.connectionString.trim())
+      ) {
+        return {
+          error:
+            "Invalid request - 'connectionString' must be a postgres:// connection URL",
+        };
+      }
+      data.connectionString = body.connectionString.trim();
+    }
+
+    if (has("query")) {
+      // A trailing semicolon would end the statement the query is wrapped in
+      const query =
+        typeof body.query === "string"
+          ? body.query.trim().replace(/;+$/, "").trim()
+          : "";
+      if (!query || query.length > MAX_CONNECTOR_QUERY_LENGTH) {
+        return {
+          error: `Invalid request - 'query' must be 1-${MAX_CONNECTOR_QUERY_LENGTH} characters`,
+        };
+      }
+      data.query = query;
+    }
+  }
+
+  if (kind === "http") {
+    if (has("url")) {
+      if (
+        typeof body.url !== "string" ||
+        !describeHttpTarget(body.url.trim())
+      ) {
+        return {
+          error:
+            "Invalid request - 'url' must be an http(s) URL, with any credentials in 'secretHeaders'",
+        };
+      }
+      data.url = body.url.trim();
+    }
+
+    if (body.method !== undefined) {
+      const method = HTTP_METHODS.find((item) => item === body.method);
+      if (!method) {
+        return {
+          error: `Invalid request - 'method' must be one of: ${HTTP_METHODS.join(
+            ", "
+          )}`,
+        };
+      }
+      data.method = method;
+    } else if (!partial) {
+      data.method = "GET";
+    }
+
+    if (body.requestBody !== undefined) {
+      if (
+        body.requestBody !== null &&
+        (typeof body.requestBody !== "string" ||
+          body.requestBody.length > MAX_CONNECTOR_QUERY_LENGTH)
+      ) {
+        return {
+          error: `Invalid request - 'requestBody' must be a string of at most ${MAX_CONNECTOR_QUERY_LENGTH} characters`,
+        };
+      }
+      data.requestBody = body.requestBody || null;
+    } else if (!partial) {
+      data.requestBody = null;
+    }
+    if (data.method === "GET" && data.requestBody) {
+      return { error: "Invalid request - a GET request cannot have a body" };
+    }
+
+    for (const key of ["headers", "secretHeaders"] as const) {
+      if (body[key] !== undefined) {
+        const headers = parseHeaders(body[key], key);
+        if (typeof headers === "string") return { error: headers };
+        data[key] = headers;
+      } else if (!partial) {
+        data[key] = {};
+      }
+    }
+    const repeated = Object.keys(data.headers ?? {}).find((name) =>
+      Object.keys(data.secretHeaders ?? {}).some(
+        (secret) => secret.toLowerCase() === name.toLowerCase()
+      )
+    );
+    if (repeated) {
+      return {
+        error: `Invalid request - '${repeated}' is in both 'headers' and 'secretHeaders'`,
+      };
+    }
+
+    if (body.recordsPath !== undefined) {
+      const recordsPath =
+        typeof body.recordsPath === "string" ? body.recordsPath.trim() : "";
+      const path = parseJsonPath(recordsPath || "$");
+      if ("error" in path) {
+        return { error: `Invalid request - 'recordsPath' ${path.error}` };
+      }
+      data.recordsPath = recordsPath || "$";
+    } else if (!partial) {
+      data.recordsPath = "$";
+    }
+  }
+
+  if (has("mapping")) {
+    const mapping = parseMapping(body.mapping, kind);
+    if (typeof mapping === "string") return { error: mapping };
+    data.mapping = mapping;
+  }
+
+  if (has("schedule")) {
+    const schedule =
+      typeof body.schedule === "string" ? body.schedule.trim() : "";
+    const parsed = parseCron(schedule);
+    if ("error" in parsed) {
+      return { error: `Invalid request - 'schedule' ${parsed.error}` };
+    }
+    if (!nextCronRun(parsed.data, new Date())) {
+      return { error: "Invalid request - 'schedule' never runs" };
+    }
+    data.schedule = schedule;
+  }
+
+  if (body.dataPointsMode !== undefined) {
+    const mode = DATA_POINTS_MODES.find((item) => item === body.dataPointsMode);
+    if (!mode) {
+      return {
+        error: `Invalid request - 'dataPointsMode' must be one of: ${DATA_POINTS_MODES.join(
+          ", "
+        )}`,
+      };
+    }
+    data.dataPointsMode = mode;
+  } else if (!partial) {
+    data.dataPointsMode = "replace";
+  }
+
+  if (body.isEnabled !== undefined) {
+    if (typeof body.isEnabled !== "boolean") {
+      return { error: "Invalid request - 'isEnabled' must be a boolean" };
+    }
+    data.isEnabled = body.isEnabled;
+  } else if (!partial) {
+    data.isEnabled = true;
+  }
+
+  return { data };
+}
@@ -0,0 +1,126 @@
+/**
+ * Five-field cron expressions (minute, hour, day of month, month, day of
+ * week), evaluated in UTC. Fields take `*`, numbers, ranges (`1-5`), lists
+ * (`1,15`) and steps (`*\/15`, `0-30/10`); Sunday is 0 or 7.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // With both day fields restricted, a day matching either one runs
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Days searched for the next run before a schedule is taken to never run
+const MAX_SEARCH_DAYS = 366 * 4;
+const MINUTE_MS = 60 * 1000;
+
+function parseField(
+  field: string,
+  { name, min, max }: (typeof FIELDS)[number]
+): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return `'${part}' is not a valid ${name}`;
+
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    // A single value with a step runs from that value to the end
+    const to =
+      range === "*" || (step && end === undefined) ? max : Number(end ?? start);
+    const by = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || by < 1) {
+      return `'${part}' is outside ${min}-${max} for the ${name}`;
+    }
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(
+  expression: string
+): { data: CronSchedule } | { error: string } {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    return {
+      error:
+        "must have 5 fields: minute, hour, day of month, month and day of week",
+    };
+  }
+
+  const sets: Set<number>[] = [];
+  for (const [index, field] of fields.entries()) {
+    const values = parseField(field, FIELDS[index]);
+    if (typeof values === "string") return { error: values };
+    sets.push(values);
+  }
+
+  const [minutes, hours, days, months, weekdays] = sets;
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return {
+    data: {
+      minutes,
+      hours,
+      days,
+      months,
+      weekdays,
+      anyDay: fields[2] === "*",
+      anyWeekday: fields[4] === "*",
+    },
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * The first time after `after` that the schedule runs, or null when it never
+ * does (such as on the 31st of February)
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(
+    Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+  );
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,290 @@
+/**
+ * Data point parsing shared by the charts, the data editor and the API routes
+ */
+
+import type {
+  AttributeChartType,
+  AttributeDataPoint,
+} from "@/lib/xmr-calculations";
+import type { DataPointJson } from "@/types/db/submetric";
+
+/**
+ * Parse timestamps in the formats accepted by ingestion:
+ * YYYYMM (first day of the month), YYYYMMDD and ISO strings
+ */
+export function parseTimestamp(timestamp: string): Date {
+  // Check if timestamp is in YYYYMM format (e.g., "202301", "202412")
+  if (/^\d{6}$/.test(timestamp)) {
+    const year = timestamp.substring(0, 4);
+    const month = timestamp.substring(4, 6);
+    // Create date string in YYYY-MM-DD format (use first day of month)
+    return new Date(`${year}-${month}-01`);
+  }
+
+  // Check if timestamp is in YYYYMMDD format (e.g., "20230115")
+  if (/^\d{8}$/.test(timestamp)) {
+    const year = timestamp.substring(0, 4);
+    const month = timestamp.substring(4, 6);
+    const day = timestamp.substring(6, 8);
+    return new Date(`${year}-${month}-${day}`);
+  }
+
+  // Otherwise, use standard Date constructor for ISO strings and other formats
+  return new Date(timestamp);
+}
+
+/**
+ * Whether two versions of a point carry the same data. The timestamp is not
+ * compared; callers match points by the instant it resolves to.
+ */
+export function isSameDataPoint(a: DataPointJson, b: DataPointJson): boolean {
+  return (
+    a.value === b.value &&
+    (a.numerator ?? null) === (b.numerator ?? null) &&
+    (a.denominator ?? null) === (b.denominator ?? null) &&
+    (a.confidence ?? null) === (b.confidence ?? null) &&
+    (a.source ?? null) === (b.source ?? null) &&
+    JSON.stringify(a.dimensions ?? null) ===
+      JSON.stringify(b.dimensions ?? null)
+  );
+}
+
+export function isValidTimestamp(timestamp: string): boolean {
+  return (
+    timestamp.trim() !== "" &&
+    !Number.isNaN(parseTimestamp(timestamp.trim()).getTime())
+  );
+}
+
+/**
+ * Parse a numeric cell as typed or pasted from a spreadsheet. Thousands
+ * separators, currency symbols and a trailing percent sign are ignored.
+ */
+export function parseDataPointValue(input: string): number | null {
+  const cleaned = input.trim().replace(/[,\s$€£%]/g, "");
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) {
+    return null;
+  }
+
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+export interface ParsedCsvRow {
+  line: number; // 1-based line in the pasted text
+  timestamp: string;
+  value: number | null;
+  error: string | null;
+}
+
+/**
+ * Parse two-column text (timestamp, value) copied from Excel or Sheets.
+ * Cells may be separated by tabs, commas or semicolons; a first row whose
+ * value column is not numeric is treated as a header and skipped.
+ */
+export function parseDataPointsCsv(text: string): ParsedCsvRow[] {
+  const rows: ParsedCsvRow[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((rawLine, index) => {
+    if (!rawLine.trim()) return;
+
+    // Tabs win so "1,234" pasted from a spreadsheet stays one cell
+    const delimiter = rawLine.includes("\t")
+      ? "\t"
+      : rawLine.includes(";")
+      ? ";"
+      : ",";
+    const cells = rawLine
+      .split(delimiter)
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+
+    const timestamp = cells[0] ?? "";
+    const value = parseDataPointValue(cells.slice(1).join(delimiter));
+
+    if (rows.length === 0 && value === null && !isValidTimestamp(timestamp)) {
+      return; // Header row
+    }
+
+    let error: string | null = null;
+    if (cells.length < 2) {
+      error = "Expected a timestamp and a value";
+    } else if (!isValidTimestamp(timestamp)) {
+      error = `Invalid timestamp '${timestamp}'`;
+    } else if (value === null) {
+      error = `Invalid value '${cells.slice(1).join(delimiter)}'`;
+    }
+
+    rows.push({ line: index + 1, timestamp, value, error });
+  });
+
+  return rows;
+}
+
+/**
+ * Check the numerator and denominator of a point for an attribute chart.
+ * Both are sent or neither; the count can't be negative and the subgroup
+ * size must be positive. Returns what is wrong, or null.
+ */
+export function validateCounts(
+  numerator: unknown,
+  denominator: unknown
+): string | null {
+  if (numerator == null && denominator == null) return null;
+  if (numerator == null || denominator == null) {
+    return "needs both a numerator and a denominator";
+  }
+  if (
+    typeof numerator !== "number" ||
+    !Number.isFinite(numerator) ||
+    numerator < 0
+  ) {
+    return "has an invalid numerator";
+  }
+  if (
+    typeof denominator !== "number" ||
+    !Number.isFinite(denominator) ||
+    denominator <= 0
+  ) {
+    return "has an invalid denominator";
+  }
+  return null;
+}
+
+/**
+ * Validate a full data point series sent by the data editor. Points are
+ * returned sorted by time; timestamps that resolve to the same instant are
+ * rejected so the series stays one value per period.
+ */
+export function parseDataPointsInput(
+  input: unknown
+): { dataPoints: DataPointJson[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "Invalid request - 'dataPoints' must be an array" };
+  }
+
+  const dataPoints: DataPointJson[] = [];
+  const seen = new Map<number, string>();
+
+  for (const [index, point] of input.entries()) {
+    if (!point || typeof point !== "object") {
+      return {
+        error: `Invalid request - data point ${index} is not an object`,
+      };
+    }
+
+    const {
+      timestamp,
+      value,
+      numerator,
+      denominator,
+      confidence,
+      source,
+      dimensions,
+    } = point as Record<string, unknown>;
+
+    if (typeof timestamp !== "string" || !isValidTimestamp(timestamp)) {
+      return {
+        error: `Invalid request - data point ${index} has an invalid timestamp`,
+      };
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return {
+        error: `Invalid request - data point ${index} has an invalid value`,
+      };
+    }
+    const countsError = validateCounts(numerator, denominator);
+    if (countsError) {
+      return {
+        error: `Invalid request - data point ${index} ${countsError}`,
+      };
+    }
+    if (
+      confidence != null &&
+      (typeof confidence !== "number" || !Number.isFinite(confidence))
+    ) {
+      return {
+        error: `Invalid request - data point ${index} has an invalid confidence`,
+      };
+    }
+    if (source != null && typeof source !== "string") {
+      return {
+        error: `Invalid request - data point ${index} has an invalid source`,
+      };
+    }
+    if (
+      dimensions != null &&
+      (typeof dimensions !== "object" || Array.isArray(dimensions))
+    ) {
+      return {
+        error: `Invalid request - data point ${index} has invalid dimensions`,
+      };
+    }
+
+    const time = parseTimestamp(timestamp.trim()).getTime();
+    const duplicate = seen.get(time);
+    if (duplicate !== undefined) {
+      return {
+        error: `Invalid request - timestamps '${duplicate}' and '${timestamp}' are the same point in time`,
+      };
+    }
+    seen.set(time, timestamp);
+
+    dataPoints.push({
+      timestamp: timestamp.trim(),
+      value,
+      numerator: (numerator as number | null | undefined) ?? null,
+      denominator: (denominator as number | null | undefined) ?? null,
+      confidence: (confidence as number | null | undefined) ?? null,
+      source: (source as string | null | undefined) ?? null,
+      dimensions:
+        (dimensions as Record<string, unknown> | null | undefined) ?? null,
+    });
+  }
+
+  dataPoints.sort(
+    (a, b) =>
+      parseTimestamp(a.timestamp).getTime() -
+      parseTimestamp(b.timestamp).getTime()
+  );
+
+  return { dataPoints };
+}
+
+/**
+ * The counts an attribute chart plots, in time order. p, np and u charts
+ * need the numerator and denominator of each point and skip points without
+ * them; a c chart counts the numerator, or the value when there is none, in
+ * a subgroup of the denominator or 1.
+ */
+export function toAttributeDataPoints(
+  points: DataPointJson[],
+  chartType: AttributeChartType
+): AttributeDataPoint[] {
+  const attributePoints: AttributeDataPoint[] = [];
+
+  for (const point of points) {
+    const numerator = point.numerator ?? null;
+    const denominator = point.denominator ?? null;
+
+    if (chartType === "c") {
+      attributePoints.push({
+        timestamp: point.timestamp,
+        count: numerator ?? point.value,
+        size: denominator ?? 1,
+      });
+    } else if (numerator !== null && denominator !== null && denominator > 0) {
+      attributePoints.push({
+        timestamp: point.timestamp,
+        count: numerator,
+        size: denominator,
+      });
+    }
+  }
+
+  return attributePoints.sort(
+    (a, b) =>
+      parseTimestamp(a.timestamp).getTime() -
+      parseTimestamp(b.timestamp).getTime()
+  );
+}
@@ -1,5 +1,7 @@
-import { neon } from "@neondatabase/serverless";
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
+import { drizzle as drizzleServerless } from "drizzle-orm/neon-serverless";
+import ws from "ws";
 import * as schema from "./schema";
 
 const databaseUrl = process.env.DATABASE_URL;
@@ -12,3 +14,45 @@ if (!databaseUrl) {
 
 const sql = neon(databaseUrl);
 export const db = drizzle(sql, { schema });
+
+// Interactive transactions need a WebSocket connection, which Node 20 does not
+// provide natively
+neonConfig.webSocketConstructor = ws;
+
+type ServerlessDatabase = ReturnType<typeof drizzleServerless<typeof schema>>;
+
+export type Transaction = Parameters<
+  Parameters<ServerlessDatabase["transaction"]>[0]
+>[0];
+
+export type TransactionRunner = <T>(
+  callback: (tx: Transaction) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Run `callback` with one WebSocket pool held open for every transaction it
+ * starts, for callers that commit many transactions in a row.
+ */
+export async function withTransactionPool<T>(
+  callback: (transaction: TransactionRunner) => Promise<T>,
+): Promise<T> {
+  const pool = new Pool({ connectionString: databaseUrl });
+  const database = drizzleServerless({ client: pool, schema });
+
+  try {
+    return await callback((run) => database.transaction(run));
+  } finally {
+    await pool.end();
+  }
+}
+
+/**
+ * Run `callback` in a single database transaction. Everything it writes is
+ * rolled back if it throws. The HTTP driver behind `db` cannot hold a
+ * transaction open, so a short-lived WebSocket pool is opened for the call.
+ */
+export function withTransaction<T>(
+  callback: (tx: Transaction) => Promise<T>,
+): Promise<T> {
+  return withTransactionPool((transaction) => transaction(callback));
+}
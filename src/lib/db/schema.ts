@@ -1,7 +1,8 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
   boolean,
   date,
+  doublePrecision,
   index,
   integer,
   json,
@@ -10,6 +11,7 @@ import {
   primaryKey,
   text,
   timestamp,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import type { AdapterAccount } from "next-auth/adapters";
 
@@ -78,6 +80,37 @@ export const workspaces = pgTable(
   })
 );
 
+// Workspace members - who can access a workspace and with which role
+export const workspaceMembers = pgTable(
+  "workspace_member",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    workspaceId: text("workspaceId")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    email: text("email").notNull(), // Lowercased - members are invited by email before they first sign in
+    role: text("role").notNull().default("viewer"), // owner, editor, viewer
+    invitedBy: text("invitedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    workspaceEmailIdx: uniqueIndex("workspace_member_workspace_email_idx").on(
+      table.workspaceId,
+      table.email
+    ),
+    emailIdx: index("workspace_member_email_idx").on(table.email),
+  })
+);
+
 // Slides table - replaces folders as presentation containers
 export const slides = pgTable(
   "slide",
@@ -154,18 +187,10 @@ export const submetrics = pgTable(
     trend: text("trend"), // uptrend, downtrend, stable, etc.
     unit: text("unit"), // %, $, units, etc.
     aggregationType: text("aggregationType").default("none"), // sum, avg, count, etc.
+    controlChart: text("controlChart").notNull().default("xmr"), // xmr, p, np, c, u
     color: text("color"), // hex color for visualization
     metadata: json("metadata"), // JSON for additional submetric metadata
-    // Data points stored as JSON array
-    dataPoints: json("dataPoints").$type<
-      Array<{
-        timestamp: string; // ISO date string
-        value: number;
-        confidence?: number | null;
-        source?: string | null;
-        dimensions?: Record<string, unknown> | null;
-      }>
-    >(),
+    sortOrder: integer("sortOrder").default(0),
     createdAt: timestamp("createdAt", { mode: "date" })
       .notNull()
       .$defaultFn(() => new Date()),
@@ -176,6 +201,515 @@ export const submetrics = pgTable(
   (table) => ({
     metricIdIdx: index("submetric_metric_id_idx").on(table.metricId),
     categoryIdx: index("submetric_category_idx").on(table.category),
+    sortOrderIdx: index("submetric_sort_order_idx").on(table.sortOrder),
+  })
+);
+
+// Data points table - one value per submetric per point in time
+export const submetricDataPoints = pgTable(
+  "submetric_data_point",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    timestamp: timestamp("timestamp", { mode: "date" }).notNull(), // Parsed point in time (UTC)
+    rawTimestamp: text("rawTimestamp").notNull(), // Timestamp as sent (YYYYMM, YYYYMMDD or ISO)
+    value: doublePrecision("value").notNull(),
+    originalValue: doublePrecision("originalValue"), // Value before the first restatement, null if never restated
+    numerator: doublePrecision("numerator"), // Count behind a ratio value, for attribute charts
+    denominator: doublePrecision("denominator"), // Subgroup size or area of opportunity
+    confidence: doublePrecision("confidence"),
+    source: text("source"),
+    dimensions: json("dimensions").$type<Record<string, unknown>>(),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricTimestampIdx: uniqueIndex(
+      "submetric_data_point_submetric_timestamp_idx"
+    ).on(table.submetricId, table.timestamp),
+    timestampIdx: index("submetric_data_point_timestamp_idx").on(
+      table.timestamp
+    ),
+  })
+);
+
+// Data point revision table - every change to a submetric's data points
+export const submetricDataPointRevisions = pgTable(
+  "submetric_data_point_revision",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    timestamp: timestamp("timestamp", { mode: "date" }).notNull(), // Point in time the revision applies to
+    rawTimestamp: text("rawTimestamp").notNull(),
+    action: text("action").notNull(), // created, updated, deleted
+    value: doublePrecision("value"), // Null when the point was deleted
+    previousValue: doublePrecision("previousValue"), // Null when the point was created
+    source: text("source"),
+    changedBy: text("changedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    apiKeyId: text("apiKeyId").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    apiKeyName: text("apiKeyName"), // Kept so revisions stay attributed after a key is deleted
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricTimestampIdx: index(
+      "submetric_data_point_revision_submetric_timestamp_idx"
+    ).on(table.submetricId, table.timestamp),
+    createdAtIdx: index("submetric_data_point_revision_created_at_idx").on(
+      table.createdAt
+    ),
+  })
+);
+
+// Lock limits table - persisted lock state for a submetric's X chart
+export const submetricLockLimits = pgTable(
+  "submetric_lock_limit",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    // Locked limit values (null when the user explicitly unlocked)
+    limits: json("limits").$type<{
+      avgX: number;
+      avgMovement: number;
+      UNPL: number;
+      LNPL: number;
+      URL: number;
+      lowerQuartile: number;
+      upperQuartile: number;
+    }>(),
+    status: integer("status").notNull().default(0), // LockedLimitStatus bit flags
+    isAutoLocked: boolean("isAutoLocked").notNull().default(false),
+    isManuallyModified: boolean("isManuallyModified").notNull().default(false),
+    // Excluded points are stored by timestamp so they survive new data arriving
+    excludedTimestamps: json("excludedTimestamps").$type<string[]>(),
+    outlierTimestamps: json("outlierTimestamps").$type<string[]>(),
+    lockedBy: text("lockedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_lock_limit_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// Trend table - persisted trend line parameters for a submetric's X chart
+export const submetricTrends = pgTable(
+  "submetric_trend",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    isActive: boolean("isActive").notNull().default(false),
+    gradient: doublePrecision("gradient").notNull(), // m in y = mx + c
+    intercept: doublePrecision("intercept").notNull(), // c in y = mx + c
+    isManuallyModified: boolean("isManuallyModified").notNull().default(false),
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_trend_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// Trend history table - audit trail of trend changes
+export const submetricTrendHistory = pgTable(
+  "submetric_trend_history",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    action: text("action").notNull(), // applied, removed
+    gradient: doublePrecision("gradient").notNull(),
+    intercept: doublePrecision("intercept").notNull(),
+    isManuallyModified: boolean("isManuallyModified").notNull().default(false),
+    changedBy: text("changedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_trend_history_submetric_id_idx").on(
+      table.submetricId
+    ),
+    createdAtIdx: index("submetric_trend_history_created_at_idx").on(
+      table.createdAt
+    ),
+  })
+);
+
+// Seasonality table - persisted seasonal factors for a submetric's X chart
+export const submetricSeasonality = pgTable(
+  "submetric_seasonality",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    isActive: boolean("isActive").notNull().default(false),
+    period: text("period").notNull().default("year"), // year, quarter, month, week
+    grouping: text("grouping").notNull().default("none"), // none, week, month, quarter
+    factors: json("factors").$type<number[]>().notNull(),
+    isManuallyModified: boolean("isManuallyModified").notNull().default(false),
+    // Data range the factors were fitted on (used to flag stale factors)
+    dataStartTimestamp: text("dataStartTimestamp"),
+    dataEndTimestamp: text("dataEndTimestamp"),
+    dataPointCount: integer("dataPointCount").notNull().default(0),
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_seasonality_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+export const submetricDividers = pgTable(
+  "submetric_divider",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    // User-placed process change dividers (x is a timestamp in milliseconds)
+    dividers: json("dividers")
+      .$type<Array<{ id: string; x: number }>>()
+      .notNull(),
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_divider_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// Rule set table - detection rules of a submetric's X chart, overriding the
+// workspace default in workspace.settings.ruleSet
+export const submetricRuleSets = pgTable(
+  "submetric_rule_set",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    preset: text("preset").notNull(), // western_electric, wheeler, nelson
+    // Parameters changed from the preset's defaults, e.g. { runLength: 9 }
+    params: json("params").$type<Record<string, number>>().notNull(),
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_rule_set_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// Specification limits - customer specs or SLA targets for a submetric
+export const submetricSpecLimits = pgTable(
+  "submetric_spec_limit",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    usl: doublePrecision("usl"), // Upper specification limit, null if one-sided
+    lsl: doublePrecision("lsl"), // Lower specification limit, null if one-sided
+    target: doublePrecision("target"),
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_spec_limit_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// Shift chart settings - the EWMA or CUSUM view shown in place of the moving range chart
+export const submetricShiftCharts = pgTable(
+  "submetric_shift_chart",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submetricId: text("submetricId")
+      .notNull()
+      .unique()
+      .references(() => submetrics.id, { onDelete: "cascade" }),
+    view: text("view").notNull().default("xmr"), // xmr, ewma, cusum
+    lambda: doublePrecision("lambda").notNull(), // EWMA smoothing
+    k: doublePrecision("k").notNull(), // CUSUM slack in sigma
+    h: doublePrecision("h").notNull(), // CUSUM decision interval in sigma
+    updatedBy: text("updatedBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    submetricIdIdx: index("submetric_shift_chart_submetric_id_idx").on(
+      table.submetricId
+    ),
+  })
+);
+
+// API keys table - hashed, workspace-scoped keys for the ingestion API
+export const apiKeys = pgTable(
+  "api_key",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    name: text("name").notNull(),
+    keyPrefix: text("keyPrefix").notNull(), // First characters of the key, shown in the UI and used for lookup
+    keyHash: text("keyHash").notNull().unique(), // SHA-256 of the full key - the key itself is never stored
+    workspaceIds: json("workspaceIds").$type<string[]>().notNull(),
+    permission: text("permission").notNull().default("write"), // read, write
+    expiresAt: timestamp("expiresAt", { mode: "date" }),
+    lastUsedAt: timestamp("lastUsedAt", { mode: "date" }),
+    revokedAt: timestamp("revokedAt", { mode: "date" }),
+    createdBy: text("createdBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    keyPrefixIdx: index("api_key_key_prefix_idx").on(table.keyPrefix),
+  })
+);
+
+type IngestChangeCounts = {
+  created: number;
+  updated: number;
+  unchanged: number;
+};
+
+// Ingest jobs table - one row per call to the ingestion API, with its outcome
+export const ingestJobs = pgTable(
+  "ingest_job",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    workspaceId: text("workspaceId").references(() => workspaces.id, {
+      onDelete: "cascade",
+    }), // Null until the target workspace is known to exist
+    slideId: text("slideId").references(() => slides.id, {
+      onDelete: "set null",
+    }),
+    apiKeyId: text("apiKeyId").references(() => apiKeys.id, {
+      onDelete: "set null",
+    }),
+    apiKeyName: text("apiKeyName").notNull(), // Kept so jobs stay attributed after a key is deleted
+    idempotencyKey: text("idempotencyKey"),
+    requestHash: text("requestHash").notNull(), // SHA-256 of the request body
+    status: text("status").notNull().default("running"), // running, succeeded, failed
+    mode: text("mode"), // create, merge - null when the payload was invalid
+    dryRun: boolean("dryRun").notNull().default(false),
+    payloadBytes: integer("payloadBytes").notNull(),
+    counts: json("counts").$type<{
+      metrics: IngestChangeCounts;
+      submetrics: IngestChangeCounts;
+      data_points: IngestChangeCounts;
+    }>(),
+    httpStatus: integer("httpStatus"),
+    response: json("response").$type<Record<string, unknown>>(), // Replayed for a repeated idempotency key
+    error: text("error"),
+    durationMs: integer("durationMs"),
+    clientIp: text("clientIp"),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    completedAt: timestamp("completedAt", { mode: "date" }),
+  },
+  (table) => ({
+    workspaceCreatedAtIdx: index("ingest_job_workspace_created_at_idx").on(
+      table.workspaceId,
+      table.createdAt
+    ),
+    // One job per caller and key; the environment key has no id, so its name
+    // stands in. Failed jobs and dry runs leave the key free to retry.
+    idempotencyKeyIdx: uniqueIndex("ingest_job_idempotency_key_idx")
+      .on(
+        sql`coalesce(${table.apiKeyId}, ${table.apiKeyName})`,
+        table.idempotencyKey
+      )
+      .where(
+        sql`${table.idempotencyKey} is not null and ${table.status} <> 'failed' and not ${table.dryRun}`
+      ),
+  })
+);
+
+// Connectors table - scheduled pulls from an external source into a slide
+export const connectors = pgTable(
+  "connector",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    workspaceId: text("workspaceId")
+      .notNull()
+      .references(() => workspaces.id, { onDelete: "cascade" }),
+    slideId: text("slideId").references(() => slides.id, {
+      onDelete: "set null",
+    }), // Null once the target slide is deleted - runs then fail
+    name: text("name").notNull(),
+    kind: text("kind").notNull(), // postgres, http
+    config: json("config").$type<Record<string, unknown>>().notNull(), // Source settings shown in the UI, e.g. the query
+    secret: text("secret").notNull(), // Encrypted credentials, e.g. the connection string or secret headers - never returned
+    mapping: json("mapping").$type<Record<string, string>>().notNull(), // Source column (or JSONPath) for each ingest field
+    dataPointsMode: text("dataPointsMode").notNull().default("replace"), // replace, append
+    schedule: text("schedule").notNull(), // Cron expression, in UTC
+    isEnabled: boolean("isEnabled").notNull().default(true),
+    nextRunAt: timestamp("nextRunAt", { mode: "date" }), // Null while disabled
+    lastRunAt: timestamp("lastRunAt", { mode: "date" }),
+    lastRunStatus: text("lastRunStatus"), // running, succeeded, failed
+    createdBy: text("createdBy").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: timestamp("updatedAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => ({
+    workspaceIdIdx: index("connector_workspace_id_idx").on(table.workspaceId),
+    nextRunAtIdx: index("connector_next_run_at_idx").on(table.nextRunAt),
+  })
+);
+
+// Connector runs table - one row per time a connector ran, with its outcome
+export const connectorRuns = pgTable(
+  "connector_run",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    connectorId: text("connectorId")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    trigger: text("trigger").notNull(), // schedule, manual
+    status: text("status").notNull().default("running"), // running, succeeded, failed
+    rowCount: integer("rowCount"), // Rows the source returned
+    counts: json("counts").$type<{
+      metrics: IngestChangeCounts;
+      submetrics: IngestChangeCounts;
+      data_points: IngestChangeCounts;
+    }>(),
+    error: text("error"),
+    durationMs: integer("durationMs"),
+    triggeredBy: text("triggeredBy").references(() => users.id, {
+      onDelete: "set null",
+    }), // Null for scheduled runs
+    createdAt: timestamp("createdAt", { mode: "date" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    completedAt: timestamp("completedAt", { mode: "date" }),
+  },
+  (table) => ({
+    connectorCreatedAtIdx: index("connector_run_connector_created_at_idx").on(
+      table.connectorId,
+      table.createdAt
+    ),
   })
 );
 
@@ -205,8 +739,23 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
 
 export const workspacesRelations = relations(workspaces, ({ many }) => ({
   slides: many(slides),
+  members: many(workspaceMembers),
 }));
 
+export const workspaceMembersRelations = relations(
+  workspaceMembers,
+  ({ one }) => ({
+    workspace: one(workspaces, {
+      fields: [workspaceMembers.workspaceId],
+      references: [workspaces.id],
+    }),
+    invitedByUser: one(users, {
+      fields: [workspaceMembers.invitedBy],
+      references: [users.id],
+    }),
+  })
+);
+
 export const slidesRelations = relations(slides, ({ one, many }) => ({
   workspace: one(workspaces, {
     fields: [slides.workspaceId],
@@ -223,9 +772,200 @@ export const metricsRelations = relations(metrics, ({ one, many }) => ({
   submetrics: many(submetrics),
 }));
 
-export const submetricsRelations = relations(submetrics, ({ one }) => ({
+export const submetricsRelations = relations(submetrics, ({ one, many }) => ({
   metric: one(metrics, {
     fields: [submetrics.metricId],
     references: [metrics.id],
   }),
+  dataPoints: many(submetricDataPoints),
+  dataPointRevisions: many(submetricDataPointRevisions),
+  lockLimits: one(submetricLockLimits),
+  trend: one(submetricTrends),
+  trendHistory: many(submetricTrendHistory),
+  seasonality: one(submetricSeasonality),
+  dividers: one(submetricDividers),
+  ruleSet: one(submetricRuleSets),
+  specLimits: one(submetricSpecLimits),
+  shiftChart: one(submetricShiftCharts),
+}));
+
+export const submetricDataPointsRelations = relations(
+  submetricDataPoints,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricDataPoints.submetricId],
+      references: [submetrics.id],
+    }),
+  })
+);
+
+export const submetricDataPointRevisionsRelations = relations(
+  submetricDataPointRevisions,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricDataPointRevisions.submetricId],
+      references: [submetrics.id],
+    }),
+    changedByUser: one(users, {
+      fields: [submetricDataPointRevisions.changedBy],
+      references: [users.id],
+    }),
+    apiKey: one(apiKeys, {
+      fields: [submetricDataPointRevisions.apiKeyId],
+      references: [apiKeys.id],
+    }),
+  })
+);
+
+export const submetricLockLimitsRelations = relations(
+  submetricLockLimits,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricLockLimits.submetricId],
+      references: [submetrics.id],
+    }),
+    lockedByUser: one(users, {
+      fields: [submetricLockLimits.lockedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricTrendsRelations = relations(
+  submetricTrends,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricTrends.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricTrends.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricTrendHistoryRelations = relations(
+  submetricTrendHistory,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricTrendHistory.submetricId],
+      references: [submetrics.id],
+    }),
+    changedByUser: one(users, {
+      fields: [submetricTrendHistory.changedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricSeasonalityRelations = relations(
+  submetricSeasonality,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricSeasonality.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricSeasonality.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricDividersRelations = relations(
+  submetricDividers,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricDividers.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricDividers.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricRuleSetsRelations = relations(
+  submetricRuleSets,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricRuleSets.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricRuleSets.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricSpecLimitsRelations = relations(
+  submetricSpecLimits,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricSpecLimits.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricSpecLimits.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const submetricShiftChartsRelations = relations(
+  submetricShiftCharts,
+  ({ one }) => ({
+    submetric: one(submetrics, {
+      fields: [submetricShiftCharts.submetricId],
+      references: [submetrics.id],
+    }),
+    updatedByUser: one(users, {
+      fields: [submetricShiftCharts.updatedBy],
+      references: [users.id],
+    }),
+  })
+);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  createdByUser: one(users, {
+    fields: [apiKeys.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const ingestJobsRelations = relations(ingestJobs, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [ingestJobs.workspaceId],
+    references: [workspaces.id],
+  }),
+  slide: one(slides, {
+    fields: [ingestJobs.slideId],
+    references: [slides.id],
+  }),
+  apiKey: one(apiKeys, {
+    fields: [ingestJobs.apiKeyId],
+    references: [apiKeys.id],
+  }),
+}));
+
+export const connectorsRelations = relations(connectors, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [connectors.workspaceId],
+    references: [workspaces.id],
+  }),
+  slide: one(slides, {
+    fields: [connectors.slideId],
+    references: [slides.id],
+  }),
+  runs: many(connectorRuns),
+}));
+
+export const connectorRunsRelations = relations(connectorRuns, ({ one }) => ({
+  connector: one(connectors, {
+    fields: [connectorRuns.connectorId],
+    references: [connectors.id],
+  }),
 }));
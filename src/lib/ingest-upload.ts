@@ -0,0 +1,357 @@
+/**
+ * CSV and spreadsheet uploads: parsing a file into a table and mapping its
+ * columns onto the ingestion payload. Shared by the upload route and dialog,
+ * and by connectors for the rows their source returns.
+ */
+
+import {
+  isValidTimestamp,
+  parseDataPointValue,
+  parseTimestamp,
+} from "@/lib/data-points";
+import { type MetricInput, type SubmetricInput, TRENDS } from "@/lib/ingest";
+
+export const UPLOAD_FIELDS = [
+  { field: "metric_name", label: "Metric name", required: true },
+  { field: "submetric_label", label: "Submetric label", required: false },
+  { field: "category", label: "Category", required: false },
+  { field: "timestamp", label: "Timestamp", required: true },
+  { field: "value", label: "Value", required: true },
+  { field: "unit", label: "Unit", required: false },
+  { field: "trend", label: "Trend", required: false },
+] as const;
+
+export type UploadField = (typeof UPLOAD_FIELDS)[number]["field"];
+
+// Column header each field is read from; unmapped optional fields are empty
+export type ColumnMapping = Partial<Record<UploadField, string>>;
+
+export interface UploadRow {
+  line: number; // 1-based line (or sheet row) where the row starts
+  cells: string[];
+}
+
+export interface UploadTable {
+  columns: string[];
+  rows: UploadRow[];
+}
+
+export interface UploadRowError {
+  line: number;
+  column: string | null;
+  message: string;
+}
+
+// One series in the upload, as shown in the preview
+export interface UploadSeries {
+  metric_name: string;
+  label: string;
+  category: string | null;
+  points: number;
+  first_timestamp: string;
+  last_timestamp: string;
+}
+
+export const UPLOAD_FILE_TYPES = [".csv", ".xlsx"] as const;
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const MAX_UPLOAD_ROWS = 50_000;
+
+// Pick the delimiter that splits the header line into the most cells
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = 0;
+
+  for (const delimiter of [",", "\t", ";"]) {
+    let count = 0;
+    let quoted = false;
+    for (const char of header) {
+      if (char === '"') quoted = !quoted;
+      else if (char === delimiter && !quoted) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+// Spreadsheet or database cells as they would appear in a CSV export
+export function toCellText(cell: unknown): string {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) {
+    const iso = cell.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  return String(cell);
+}
+
+/**
+ * Turn the raw rows of a file into a table. The first non-empty row holds the
+ * column headers; empty headers are named after their position, repeated ones
+ * are numbered, and empty rows are dropped.
+ */
+export function toUploadTable(rows: UploadRow[]): UploadTable {
+  const nonEmpty = rows.filter((row) =>
+    row.cells.some((cell) => cell.trim() !== "")
+  );
+  const [header, ...body] = nonEmpty;
+  if (!header) return { columns: [], rows: [] };
+
+  const columns: string[] = [];
+  for (const [index, cell] of header.cells.entries()) {
+    const name = cell.trim() || `Column ${index + 1}`;
+    let column = name;
+    for (let n = 2; columns.includes(column); n++) column = `${name} (${n})`;
+    columns.push(column);
+  }
+
+  return {
+    columns,
+    rows: body.map((row) => ({
+      line: row.line,
+      cells: columns.map((_, index) => (row.cells[index] ?? "").trim()),
+    })),
+  };
+}
+
+/**
+ * Parse CSV text (RFC 4180). Quoted cells may contain delimiters, quotes
+ * ("") and line breaks. Comma, tab and semicolon delimiters are detected
+ * from the header line.
+ */
+export function parseCsvTable(text: string): UploadTable {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: UploadRow[] = [];
+
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || cells.length > 0) endRow();
+
+  return toUploadTable(rows);
+}
+
+/**
+ * Validate a column mapping against the file's columns. Required fields must
+ * be mapped, and every mapped column must exist.
+ */
+export function parseColumnMapping(
+  input: unknown,
+  columns: string[]
+): { data: ColumnMapping } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Invalid request - 'mapping' must be an object" };
+  }
+
+  const fields = input as Record<string, unknown>;
+  const mapping: ColumnMapping = {};
+
+  for (const { field, label, required } of UPLOAD_FIELDS) {
+    const column = fields[field];
+    if (column == null || column === "") {
+      if (required) {
+        return { error: `Invalid request - map a column to '${label}'` };
+      }
+      continue;
+    }
+    if (typeof column !== "string" || !columns.includes(column)) {
+      return {
+        error: `Invalid request - column '${String(
+          column
+        )}' mapped to '${label}' is not in the file`,
+      };
+    }
+    mapping[field] = column;
+  }
+
+  return { data: mapping };
+}
+
+/**
+ * Group the rows of an upload into metrics and submetrics. A submetric is one
+ * (metric name, submetric label, category) combination; its label defaults
+ * to the metric name. Every invalid cell is reported with its line.
+ */
+export function buildUploadMetrics(
+  table: UploadTable,
+  mapping: ColumnMapping
+): { data: MetricInput[] } | { errors: UploadRowError[] } {
+  const errors: UploadRowError[] = [];
+  const metrics: MetricInput[] = [];
+  const submetricsByKey = new Map<string, SubmetricInput>();
+  // Timestamps already seen per submetric, to catch repeated periods
+  const timesByKey = new Map<string, Map<number, string>>();
+
+  const indexes = Object.fromEntries(
+    Object.entries(mapping).map(([field, column]) => [
+      field,
+      table.columns.indexOf(column),
+    ])
+  ) as Partial<Record<UploadField, number>>;
+
+  const cellOf = (row: UploadRow, field: UploadField): string => {
+    const index = indexes[field];
+    return index === undefined ? "" : row.cells[index] ?? "";
+  };
+
+  for (const row of table.rows) {
+    const fail = (field: UploadField, message: string) => {
+      errors.push({ line: row.line, column: mapping[field] ?? null, message });
+    };
+
+    const metricName = cellOf(row, "metric_name");
+    const label = cellOf(row, "submetric_label") || metricName;
+    const category = cellOf(row, "category") || null;
+    const timestamp = cellOf(row, "timestamp");
+    const rawValue = cellOf(row, "value");
+    const unit = cellOf(row, "unit") || null;
+    const rawTrend = cellOf(row, "trend").toLowerCase();
+    const value = parseDataPointValue(rawValue);
+    const errorCount = errors.length;
+
+    if (!metricName) fail("metric_name", "Metric name is empty");
+    if (!isValidTimestamp(timestamp)) {
+      fail(
+        "timestamp",
+        timestamp
+          ? `'${timestamp}' is not a valid timestamp (use YYYYMM, YYYYMMDD or ISO 8601)`
+          : "Timestamp is empty"
+      );
+    }
+    if (value === null) {
+      fail(
+        "value",
+        rawValue ? `'${rawValue}' is not a number` : "Value is empty"
+      );
+    }
+    const trend = TRENDS.find((option) => option === rawTrend) ?? null;
+    if (rawTrend && !trend) {
+      fail("trend", `'${rawTrend}' must be one of: ${TRENDS.join(", ")}`);
+    }
+    if (errors.length > errorCount || value === null) continue;
+
+    const key = JSON.stringify([metricName, label, category]);
+    let submetric = submetricsByKey.get(key);
+    if (!submetric) {
+      submetric = { label, category, data_points: [] };
+      submetricsByKey.set(key, submetric);
+      timesByKey.set(key, new Map());
+
+      let metric = metrics.find((item) => item.metric_name === metricName);
+      if (!metric) {
+        metric = { metric_name: metricName, submetrics: [] };
+        metrics.push(metric);
+      }
+      metric.submetrics.push(submetric);
+    }
+
+    // Unit and trend describe the whole series, so rows must agree
+    if (unit) {
+      if (submetric.unit && submetric.unit !== unit) {
+        fail(
+          "unit",
+          `'${unit}' differs from '${submetric.unit}' in an earlier row`
+        );
+        continue;
+      }
+      submetric.unit = unit;
+    }
+    if (trend) {
+      if (submetric.trend && submetric.trend !== trend) {
+        fail(
+          "trend",
+          `'${trend}' differs from '${submetric.trend}' in an earlier row`
+        );
+        continue;
+      }
+      submetric.trend = trend;
+    }
+
+    const times = timesByKey.get(key) as Map<number, string>;
+    const time = parseTimestamp(timestamp).getTime();
+    const duplicate = times.get(time);
+    if (duplicate !== undefined) {
+      fail(
+        "timestamp",
+        `'${timestamp}' is the same point in time as '${duplicate}' in an earlier row for '${label}'`
+      );
+      continue;
+    }
+    times.set(time, timestamp);
+
+    submetric.data_points?.push({ timestamp, value });
+  }
+
+  if (errors.length > 0) return { errors };
+  if (metrics.length === 0) {
+    return {
+      errors: [{ line: 1, column: null, message: "The file has no data rows" }],
+    };
+  }
+
+  return { data: metrics };
+}
+
+// The series an upload contains, in file order
+export function describeUploadSeries(metrics: MetricInput[]): UploadSeries[] {
+  return metrics.flatMap((metric) =>
+    metric.submetrics.map((submetric) => {
+      const points = [...(submetric.data_points ?? [])].sort(
+        (a, b) =>
+          parseTimestamp(a.timestamp).getTime() -
+          parseTimestamp(b.timestamp).getTime()
+      );
+      return {
+        metric_name: metric.metric_name,
+        label: submetric.label,
+        category: submetric.category ?? null,
+        points: points.length,
+        first_timestamp: points[0]?.timestamp ?? "",
+        last_timestamp: points[points.length - 1]?.timestamp ?? "",
+      };
+    })
+  );
+}
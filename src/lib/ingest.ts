@@ -0,0 +1,425 @@
+/**
+ * Ingestion payload types and validation shared by the ingest API routes
+ */
+
+import { isValidTimestamp } from "@/lib/data-points";
+import { isValidTimeZone } from "@/lib/rollup";
+import { CONTROL_CHART_TYPES } from "@/lib/xmr-calculations";
+
+export const INGEST_MODES = ["create", "merge"] as const;
+export const DATA_POINTS_MODES = ["replace", "append"] as const;
+export const CHART_TYPES = ["line", "bar", "area", "pie", "scatter"] as const;
+export const TRENDS = ["uptrend", "downtrend", "stable"] as const;
+
+export type IngestMode = (typeof INGEST_MODES)[number];
+export type DataPointsMode = (typeof DATA_POINTS_MODES)[number];
+
+export interface DataPointInput {
+  timestamp: string;
+  value: number;
+  numerator?: number | null; // Count for attribute charts
+  denominator?: number | null; // Subgroup size for attribute charts
+  confidence?: number | null;
+  source?: string | null;
+  dimensions?: Record<string, unknown> | null;
+}
+
+export interface SubmetricInput {
+  label: string;
+  category?: string | null;
+  timezone?: string | null;
+  xaxis?: string;
+  trend?: (typeof TRENDS)[number] | null;
+  unit?: string | null;
+  aggregation_type?: string | null; // Values the rollup does not know are saved as "none"
+  control_chart?: (typeof CONTROL_CHART_TYPES)[number];
+  color?: string | null;
+  metadata?: Record<string, unknown> | null;
+  data_points?: DataPointInput[];
+}
+
+export interface MetricInput {
+  metric_name: string;
+  description?: string | null;
+  chart_type?: (typeof CHART_TYPES)[number];
+  submetrics: SubmetricInput[];
+}
+
+export interface IngestRequest {
+  workspace_id?: string | null;
+  slide_id?: string | null;
+  slide_title?: string;
+  slide_date?: string | null;
+  slide_description?: string | null;
+  mode?: IngestMode;
+  data_points_mode?: DataPointsMode;
+  dry_run?: boolean;
+  metrics: MetricInput[];
+}
+
+/**
+ * Records of a streamed (NDJSON) ingest, one per line. The first line is a
+ * `slide` record saying where the rest go.
+ */
+export interface IngestStreamSlideRecord {
+  type: "slide";
+  workspace_id?: string | null;
+  slide_id?: string | null;
+  slide_title?: string;
+  slide_date?: string | null;
+  slide_description?: string | null;
+  data_points_mode?: DataPointsMode;
+  dry_run?: boolean;
+}
+
+// Submetric (and metric) attributes, without data points
+export interface IngestStreamSubmetricRecord
+  extends Omit<SubmetricInput, "data_points"> {
+  type: "submetric";
+  metric_name: string;
+  description?: string | null;
+  chart_type?: (typeof CHART_TYPES)[number];
+}
+
+// A data point; the submetric label defaults to the metric name
+export interface IngestStreamDataPointRecord extends DataPointInput {
+  type: "data_point";
+  metric_name: string;
+  label?: string;
+  category?: string | null;
+}
+
+export type IngestStreamRecord =
+  | IngestStreamSlideRecord
+  | IngestStreamSubmetricRecord
+  | IngestStreamDataPointRecord;
+
+export const STREAM_RECORD_TYPES = [
+  "slide",
+  "submetric",
+  "data_point",
+] as const;
+
+/**
+ * A field that failed validation, with its path in the payload
+ * (e.g. `metrics[2].submetrics[0].data_points[5].value`)
+ */
+export interface IngestValidationError {
+  path: string;
+  message: string;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Path of a field; streamed records have their fields at the top level
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Collects every error in a payload instead of stopping at the first one
+class PayloadValidator {
+  readonly errors: IngestValidationError[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  requiredString(fields: Fields, key: string, path: string): void {
+    const value = fields[key];
+    if (typeof value !== "string" || !value.trim()) {
+      this.fail(path, "is required and must be a non-empty string");
+    }
+  }
+
+  optionalString(
+    fields: Fields,
+    key: string,
+    path: string,
+    nullable = true
+  ): void {
+    const value = fields[key];
+    if (value === undefined || (nullable && value === null)) return;
+    if (typeof value !== "string") {
+      this.fail(
+        path,
+        nullable ? "must be a string or null" : "must be a string"
+      );
+    }
+  }
+
+  optionalObject(fields: Fields, key: string, path: string): void {
+    const value = fields[key];
+    if (value != null && !isObject(value)) {
+      this.fail(path, "must be an object or null");
+    }
+  }
+
+  optionalOneOf(
+    fields: Fields,
+    key: string,
+    path: string,
+    values: readonly string[],
+    nullable = false
+  ): void {
+    const value = fields[key];
+    if (value === undefined || (nullable && value === null)) return;
+    if (typeof value !== "string" || !values.includes(value)) {
+      this.fail(path, `must be one of: ${values.join(", ")}`);
+    }
+  }
+
+  dataPoint(point: unknown, path: string): void {
+    if (!isObject(point)) {
+      this.fail(path, "must be an object");
+      return;
+    }
+
+    if (typeof point.timestamp !== "string") {
+      this.fail(
+        childPath(path, "timestamp"),
+        "is required and must be a string"
+      );
+    } else if (!isValidTimestamp(point.timestamp)) {
+      this.fail(
+        childPath(path, "timestamp"),
+        `'${point.timestamp}' is not a valid timestamp (use YYYYMM, YYYYMMDD or ISO 8601)`
+      );
+    }
+
+    if (!isFiniteNumber(point.value)) {
+      this.fail(childPath(path, "value"), "is required and must be a number");
+    }
+    // Attribute charts need both counts, so one can't be sent without the other
+    if (point.numerator != null || point.denominator != null) {
+      if (!isFiniteNumber(point.numerator) || point.numerator < 0) {
+        this.fail(
+          childPath(path, "numerator"),
+          "must be a number of 0 or more when a denominator is sent"
+        );
+      }
+      if (!isFiniteNumber(point.denominator) || point.denominator <= 0) {
+        this.fail(
+          childPath(path, "denominator"),
+          "must be a number above 0 when a numerator is sent"
+        );
+      }
+    }
+    if (point.confidence != null && !isFiniteNumber(point.confidence)) {
+      this.fail(childPath(path, "confidence"), "must be a number or null");
+    }
+    this.optionalString(point, "source", childPath(path, "source"));
+    this.optionalObject(point, "dimensions", childPath(path, "dimensions"));
+  }
+
+  submetric(submetric: unknown, path: string): void {
+    if (!isObject(submetric)) {
+      this.fail(path, "must be an object");
+      return;
+    }
+
+    this.requiredString(submetric, "label", childPath(path, "label"));
+    for (const key of ["category", "unit", "aggregation_type", "color"]) {
+      this.optionalString(submetric, key, childPath(path, key));
+    }
+    const timezone = submetric.timezone;
+    if (
+      timezone != null &&
+      (typeof timezone !== "string" || !isValidTimeZone(timezone))
+    ) {
+      this.fail(
+        childPath(path, "timezone"),
+        'must be an IANA timezone such as "Europe/London", or null'
+      );
+    }
+    this.optionalOneOf(
+      submetric,
+      "control_chart",
+      childPath(path, "control_chart"),
+      CONTROL_CHART_TYPES
+    );
+    // The x-axis column cannot be empty, so it can only be changed, not cleared
+    this.optionalString(submetric, "xaxis", childPath(path, "xaxis"), false);
+    this.optionalOneOf(
+      submetric,
+      "trend",
+      childPath(path, "trend"),
+      TRENDS,
+      true
+    );
+    this.optionalObject(submetric, "metadata", childPath(path, "metadata"));
+
+    const dataPoints = submetric.data_points;
+    if (dataPoints === undefined) return;
+    if (!Array.isArray(dataPoints)) {
+      this.fail(childPath(path, "data_points"), "must be an array");
+      return;
+    }
+    for (const [index, point] of dataPoints.entries()) {
+      this.dataPoint(point, `${childPath(path, "data_points")}[${index}]`);
+    }
+  }
+
+  // Where the payload goes: workspace and slide fields
+  slide(body: Fields): void {
+    for (const key of ["workspace_id", "slide_id"]) {
+      const value = body[key];
+      if (
+        value != null &&
+        (typeof value !== "string" || !UUID_PATTERN.test(value))
+      ) {
+        this.fail(key, "must be a UUID");
+      }
+    }
+
+    if (body.slide_id == null) {
+      this.requiredString(body, "slide_title", "slide_title");
+    } else {
+      this.optionalString(body, "slide_title", "slide_title", false);
+    }
+    this.optionalString(body, "slide_description", "slide_description");
+
+    const slideDate = body.slide_date;
+    if (
+      slideDate != null &&
+      (typeof slideDate !== "string" ||
+        !DATE_PATTERN.test(slideDate) ||
+        !isValidTimestamp(slideDate))
+    ) {
+      this.fail("slide_date", "must be a date in YYYY-MM-DD format");
+    }
+  }
+
+  metric(metric: unknown, path: string): void {
+    if (!isObject(metric)) {
+      this.fail(path, "must be an object");
+      return;
+    }
+
+    this.requiredString(metric, "metric_name", `${path}.metric_name`);
+    this.optionalString(metric, "description", `${path}.description`);
+    this.optionalOneOf(metric, "chart_type", `${path}.chart_type`, CHART_TYPES);
+
+    if (!Array.isArray(metric.submetrics)) {
+      this.fail(`${path}.submetrics`, "is required and must be an array");
+      return;
+    }
+    for (const [index, submetric] of metric.submetrics.entries()) {
+      this.submetric(submetric, `${path}.submetrics[${index}]`);
+    }
+  }
+}
+
+/**
+ * Validate an ingestion payload against the shape the API documents. Every
+ * invalid field is reported with its path, so a client can fix the payload
+ * in one go.
+ */
+export function parseIngestRequest(
+  body: unknown
+): { data: IngestRequest } | { errors: IngestValidationError[] } {
+  if (!isObject(body)) {
+    return {
+      errors: [{ path: "", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const validator = new PayloadValidator();
+
+  validator.slide(body);
+
+  validator.optionalOneOf(body, "mode", "mode", INGEST_MODES);
+  validator.optionalOneOf(
+    body,
+    "data_points_mode",
+    "data_points_mode",
+    DATA_POINTS_MODES
+  );
+  if (body.dry_run !== undefined && typeof body.dry_run !== "boolean") {
+    validator.fail("dry_run", "must be a boolean");
+  }
+
+  if (!Array.isArray(body.metrics) || body.metrics.length === 0) {
+    validator.fail("metrics", "is required and must be a non-empty array");
+  } else {
+    for (const [index, metric] of body.metrics.entries()) {
+      validator.metric(metric, `metrics[${index}]`);
+    }
+  }
+
+  if (validator.errors.length > 0) {
+    return { errors: validator.errors };
+  }
+
+  return { data: body as unknown as IngestRequest };
+}
+
+/**
+ * Validate one line of a streamed ingest with the same rules as the JSON
+ * payload. Paths are field names within the record (e.g. `value`).
+ */
+export function parseIngestStreamRecord(
+  record: unknown
+): { data: IngestStreamRecord } | { errors: IngestValidationError[] } {
+  if (!isObject(record)) {
+    return { errors: [{ path: "", message: "Line must be a JSON object" }] };
+  }
+
+  const validator = new PayloadValidator();
+
+  switch (record.type) {
+    case "slide":
+      validator.slide(record);
+      validator.optionalOneOf(
+        record,
+        "data_points_mode",
+        "data_points_mode",
+        DATA_POINTS_MODES
+      );
+      if (record.dry_run !== undefined && typeof record.dry_run !== "boolean") {
+        validator.fail("dry_run", "must be a boolean");
+      }
+      break;
+    case "submetric": {
+      validator.requiredString(record, "metric_name", "metric_name");
+      validator.optionalString(record, "description", "description");
+      validator.optionalOneOf(record, "chart_type", "chart_type", CHART_TYPES);
+      if (record.data_points !== undefined) {
+        validator.fail(
+          "data_points",
+          "is not supported here - send each point as a data_point line"
+        );
+      }
+      validator.submetric({ ...record, data_points: undefined }, "");
+      break;
+    }
+    case "data_point":
+      validator.requiredString(record, "metric_name", "metric_name");
+      validator.optionalString(record, "label", "label", false);
+      validator.optionalString(record, "category", "category");
+      validator.dataPoint(record, "");
+      break;
+    default:
+      validator.fail(
+        "type",
+        `must be one of: ${STREAM_RECORD_TYPES.join(", ")}`
+      );
+  }
+
+  if (validator.errors.length > 0) {
+    return { errors: validator.errors };
+  }
+
+  return { data: record as unknown as IngestStreamRecord };
+}
@@ -0,0 +1,71 @@
+/**
+ * A small subset of JSONPath for reading values out of API responses:
+ * property names and array indexes, without wildcards or filters.
+ *
+ *   $.data.rows     data.rows     $['Created At']     rows[0]     [2]
+ *
+ * The leading `$` is optional, and a path may start with a bare property
+ * name. Names after a dot run to the next `.` or `[`, so they may contain
+ * spaces; quote them in brackets when they contain either character.
+ */
+
+export type JsonPath = (string | number)[];
+
+const SEGMENT_PATTERN =
+  /^(?:\.([^.[\]]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/;
+
+export function parseJsonPath(
+  path: string
+): { data: JsonPath } | { error: string } {
+  let rest = path.trim();
+  if (rest.startsWith("$")) {
+    rest = rest.slice(1);
+  } else if (rest && !rest.startsWith("[")) {
+    rest = `.${rest}`;
+  }
+
+  const segments: JsonPath = [];
+  while (rest) {
+    const match = SEGMENT_PATTERN.exec(rest);
+    if (!match) {
+      return { error: `is not a valid path near '${rest}'` };
+    }
+
+    const [segment, name, index, single, double] = match;
+    if (name !== undefined) {
+      segments.push(name.trim());
+    } else if (index !== undefined) {
+      segments.push(Number(index));
+    } else {
+      segments.push((single ?? double).replace(/\\(.)/g, "$1"));
+    }
+    rest = rest.slice(segment.length);
+  }
+
+  return { data: segments };
+}
+
+/**
+ * Value at a path, or undefined when any step is missing. Indexes only read
+ * arrays and names only read an object's own properties.
+ */
+export function selectJsonPath(value: unknown, path: JsonPath): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment];
+    } else {
+      if (
+        !current ||
+        typeof current !== "object" ||
+        Array.isArray(current) ||
+        !Object.hasOwn(current, segment)
+      ) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
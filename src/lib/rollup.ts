@@ -0,0 +1,194 @@
+/**
+ * Rolling raw data points up into periods. A submetric whose x-axis is a
+ * period (day, week, month, quarter) and that has an aggregation is plotted
+ * as one point per period, with boundaries in the submetric's timezone.
+ */
+
+import { parseTimestamp } from "@/lib/data-points";
+import type { DataPointJson, Submetric } from "@/types/db/submetric";
+
+export const ROLLUP_PERIODS = ["day", "week", "month", "quarter"] as const;
+export const AGGREGATION_TYPES = [
+  "none",
+  "sum",
+  "avg",
+  "count",
+  "min",
+  "max",
+] as const;
+
+export type AggregationType = (typeof AGGREGATION_TYPES)[number];
+export type RollupPeriod = (typeof ROLLUP_PERIODS)[number];
+export type RollupAggregation = Exclude<
+  (typeof AGGREGATION_TYPES)[number],
+  "none"
+>;
+
+export interface Rollup {
+  period: RollupPeriod;
+  aggregation: RollupAggregation;
+  timeZone: string;
+}
+
+// Timestamps without a time of day already name a calendar date
+const DATE_ONLY_PATTERN = /^(\d{6}|\d{8}|\d{4}-\d{2}-\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The aggregation to save for an ingested value. Values the rollup does not
+ * know, e.g. from clients written before aggregations were checked, are
+ * saved as "none" rather than rejected.
+ */
+export function toAggregationType(value: string): AggregationType {
+  return AGGREGATION_TYPES.find((option) => option === value) ?? "none";
+}
+
+/**
+ * How a submetric's points are rolled up, or null when they are plotted as
+ * sent. Unknown timezones fall back to UTC.
+ */
+export function getRollup(
+  submetric: Pick<Submetric, "xAxis" | "aggregationType" | "timezone">
+): Rollup | null {
+  const period = ROLLUP_PERIODS.find((option) => option === submetric.xAxis);
+  const aggregation = AGGREGATION_TYPES.find(
+    (option) => option !== "none" && option === submetric.aggregationType
+  );
+  if (!period || !aggregation || aggregation === "none") return null;
+
+  const timeZone =
+    submetric.timezone && isValidTimeZone(submetric.timezone)
+      ? submetric.timezone
+      : "UTC";
+
+  return { period, aggregation, timeZone };
+}
+
+// Calendar date of a timestamp in the timezone, as a UTC midnight
+function localDate(timestamp: string, timeZone: string): number | null {
+  const date = parseTimestamp(timestamp.trim());
+  if (Number.isNaN(date.getTime())) return null;
+
+  if (DATE_ONLY_PATTERN.test(timestamp.trim())) {
+    return Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate()
+    );
+  }
+
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day);
+}
+
+// First day of the period containing a date; weeks start on Monday
+function periodStart(day: number, period: RollupPeriod): string {
+  const date = new Date(day);
+  let start = day;
+
+  if (period === "week") {
+    start = day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  } else if (period === "month") {
+    start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  } else if (period === "quarter") {
+    start = Date.UTC(
+      date.getUTCFullYear(),
+      Math.floor(date.getUTCMonth() / 3) * 3,
+      1
+    );
+  }
+
+  return new Date(start).toISOString().slice(0, 10);
+}
+
+function aggregate(values: number[], aggregation: RollupAggregation): number {
+  switch (aggregation) {
+    case "sum":
+      return values.reduce((total, value) => total + value, 0);
+    case "avg":
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case "count":
+      return values.length;
+    // Reduced rather than spread, which overflows the stack on large periods
+    case "min":
+      return values.reduce((min, value) => (value < min ? value : min));
+    case "max":
+      return values.reduce((max, value) => (value > max ? value : max));
+  }
+}
+
+/**
+ * Roll points up into one point per period, timestamped with the period's
+ * first day (YYYY-MM-DD) and in time order. Periods without points are left
+ * out; points with unreadable timestamps or values are ignored. When every
+ * point in a period has a numerator and denominator, the period's are their
+ * sums, so attribute charts see the whole period's counts.
+ */
+export function rollUpDataPoints(
+  points: DataPointJson[],
+  rollup: Rollup
+): DataPointJson[] {
+  const pointsByPeriod = new Map<string, DataPointJson[]>();
+
+  for (const point of points) {
+    const value = Number(point.value);
+    const day = localDate(point.timestamp, rollup.timeZone);
+    if (day === null || !Number.isFinite(value)) continue;
+
+    const period = periodStart(day, rollup.period);
+    const periodPoints = pointsByPeriod.get(period);
+    if (periodPoints) periodPoints.push(point);
+    else pointsByPeriod.set(period, [point]);
+  }
+
+  return [...pointsByPeriod.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, periodPoints]) => {
+      const hasCounts = periodPoints.every(
+        (point) => point.numerator != null && point.denominator != null
+      );
+      const sumOf = (field: "numerator" | "denominator") =>
+        periodPoints.reduce((total, point) => total + (point[field] ?? 0), 0);
+
+      return {
+        timestamp: period,
+        value: aggregate(
+          periodPoints.map((point) => Number(point.value)),
+          rollup.aggregation
+        ),
+        ...(hasCounts && {
+          numerator: sumOf("numerator"),
+          denominator: sumOf("denominator"),
+        }),
+      };
+    });
+}
@@ -0,0 +1,269 @@
+/**
+ * Named detection rule sets shared by the rule set routes, the settings page
+ * and the charts. The checks themselves live in `@/lib/xmr-calculations`.
+ */
+
+import {
+  DEFAULT_RULE_PARAMS,
+  DEFAULT_RULE_SET,
+  type DetectionRuleParams,
+  type DetectionRuleSet,
+  ViolationType,
+} from "@/lib/xmr-calculations";
+import type { RuleSetConfig } from "@/types/db/workspace";
+
+export const RULE_SET_PRESETS = [
+  "western_electric",
+  "wheeler",
+  "nelson",
+] as const;
+export type RuleSetPreset = (typeof RULE_SET_PRESETS)[number];
+
+export const DEFAULT_RULE_SET_PRESET: RuleSetPreset = "western_electric";
+
+/**
+ * Rules of each preset in the order they are numbered, and the parameters
+ * that differ from DEFAULT_RULE_PARAMS
+ */
+export const RULE_SET_PRESET_DEFINITIONS: Record<
+  RuleSetPreset,
+  {
+    name: string;
+    description: string;
+    rules: ViolationType[];
+    params: Partial<DetectionRuleParams>;
+  }
+> = {
+  western_electric: {
+    name: "Western Electric",
+    description: "Limits, runs, points near the limits and low variation",
+    rules: DEFAULT_RULE_SET.rules,
+    params: {},
+  },
+  wheeler: {
+    name: "Wheeler",
+    description: "Wheeler's three detection rules for XmR charts",
+    rules: [
+      ViolationType.OUTSIDE_LIMITS,
+      ViolationType.FOUR_NEAR_LIMIT,
+      ViolationType.RUNNING_POINTS,
+    ],
+    params: {},
+  },
+  nelson: {
+    name: "Nelson",
+    description: "The eight Nelson rules, including trends and alternation",
+    rules: [
+      ViolationType.OUTSIDE_LIMITS,
+      ViolationType.RUNNING_POINTS,
+      ViolationType.TRENDING_POINTS,
+      ViolationType.ALTERNATING_POINTS,
+      ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA,
+      ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA,
+      ViolationType.FIFTEEN_WITHIN_ONE_SIGMA,
+      ViolationType.EIGHT_BEYOND_ONE_SIGMA,
+    ],
+    params: { runLength: 9 },
+  },
+};
+
+type RuleParam = keyof DetectionRuleParams;
+
+// Allowed range of each parameter, and its label on the settings forms
+export const RULE_PARAM_DEFINITIONS: Record<
+  RuleParam,
+  { label: string; min: number; max: number }
+> = {
+  runLength: { label: "Points on one side", min: 5, max: 25 },
+  nearLimitCount: { label: "Points near a limit", min: 2, max: 10 },
+  nearLimitWindow: { label: "Out of", min: 2, max: 10 },
+  twoSigmaCount: { label: "Points beyond 2σ", min: 2, max: 10 },
+  twoSigmaWindow: { label: "Out of", min: 2, max: 10 },
+  lowVariationLength: { label: "Points within 1σ", min: 5, max: 30 },
+  trendLength: { label: "Points rising or falling", min: 4, max: 15 },
+  alternatingLength: { label: "Points alternating", min: 6, max: 30 },
+  oneSigmaCount: { label: "Points beyond 1σ", min: 2, max: 10 },
+  oneSigmaWindow: { label: "Out of", min: 2, max: 10 },
+  beyondOneSigmaLength: { label: "Points beyond 1σ", min: 4, max: 20 },
+};
+
+// Parameters read by each rule; counts come before their windows
+export const RULE_PARAMS: Record<ViolationType, RuleParam[]> = {
+  [ViolationType.OUTSIDE_LIMITS]: [],
+  [ViolationType.RUNNING_POINTS]: ["runLength"],
+  [ViolationType.FOUR_NEAR_LIMIT]: ["nearLimitCount", "nearLimitWindow"],
+  [ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA]: [
+    "twoSigmaCount",
+    "twoSigmaWindow",
+  ],
+  [ViolationType.FIFTEEN_WITHIN_ONE_SIGMA]: ["lowVariationLength"],
+  [ViolationType.TRENDING_POINTS]: ["trendLength"],
+  [ViolationType.ALTERNATING_POINTS]: ["alternatingLength"],
+  [ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA]: [
+    "oneSigmaCount",
+    "oneSigmaWindow",
+  ],
+  [ViolationType.EIGHT_BEYOND_ONE_SIGMA]: ["beyondOneSigmaLength"],
+};
+
+function isRuleSetPreset(value: unknown): value is RuleSetPreset {
+  return RULE_SET_PRESETS.includes(value as RuleSetPreset);
+}
+
+/**
+ * Parameters of a preset before any are changed
+ */
+export function getPresetParams(preset: RuleSetPreset): DetectionRuleParams {
+  return {
+    ...DEFAULT_RULE_PARAMS,
+    ...RULE_SET_PRESET_DEFINITIONS[preset].params,
+  };
+}
+
+/**
+ * Validate a rule set body. Only the parameters of the preset's rules are
+ * kept, and only where they differ from the preset's defaults.
+ */
+export function parseRuleSetConfig(
+  body: unknown
+): { data: RuleSetConfig } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid request - JSON body is required" };
+  }
+
+  const input = body as Record<string, unknown>;
+
+  if (!isRuleSetPreset(input.preset)) {
+    return {
+      error: `Invalid request - 'preset' must be one of: ${RULE_SET_PRESETS.join(
+        ", "
+      )}`,
+    };
+  }
+
+  const preset = input.preset;
+  const paramsInput = input.params ?? {};
+  if (typeof paramsInput !== "object" || Array.isArray(paramsInput)) {
+    return { error: "Invalid request - 'params' must be an object" };
+  }
+
+  const values = paramsInput as Record<string, unknown>;
+  const defaults = getPresetParams(preset);
+  const params: Record<string, number> = {};
+
+  for (const rule of RULE_SET_PRESET_DEFINITIONS[preset].rules) {
+    for (const param of RULE_PARAMS[rule]) {
+      const value = values[param];
+      if (value === undefined || value === null) continue;
+
+      const { min, max } = RULE_PARAM_DEFINITIONS[param];
+      if (
+        typeof value !== "number" ||
+        !Number.isInteger(value) ||
+        value < min ||
+        value > max
+      ) {
+        return {
+          error: `Invalid request - '${param}' must be a whole number from ${min} to ${max}`,
+        };
+      }
+
+      if (value !== defaults[param]) {
+        params[param] = value;
+      }
+    }
+  }
+
+  // A count of points can't exceed the window it is counted in
+  const merged = { ...defaults, ...params };
+  for (const [count, window] of [
+    ["nearLimitCount", "nearLimitWindow"],
+    ["twoSigmaCount", "twoSigmaWindow"],
+    ["oneSigmaCount", "oneSigmaWindow"],
+  ] as const) {
+    if (merged[count] > merged[window]) {
+      return {
+        error: `Invalid request - '${count}' must not be more than '${window}'`,
+      };
+    }
+  }
+
+  return { data: { preset, params } };
+}
+
+export interface ResolvedRuleSet extends DetectionRuleSet {
+  preset: RuleSetPreset;
+}
+
+/**
+ * Rule set to check a chart with. Configs that are missing or no longer
+ * valid fall back to the default rules.
+ */
+export function resolveRuleSet(
+  config: RuleSetConfig | null | undefined
+): ResolvedRuleSet {
+  const parsed = config ? parseRuleSetConfig(config) : null;
+  if (!parsed || "error" in parsed) {
+    return { ...DEFAULT_RULE_SET, preset: DEFAULT_RULE_SET_PRESET };
+  }
+
+  const preset = parsed.data.preset as RuleSetPreset;
+  return {
+    preset,
+    rules: RULE_SET_PRESET_DEFINITIONS[preset].rules,
+    params: { ...getPresetParams(preset), ...parsed.data.params },
+  };
+}
+
+/**
+ * Title and description of a rule as shown in the chart tooltip, numbered by
+ * its position in the rule set
+ */
+export function describeRule(
+  ruleSet: DetectionRuleSet,
+  rule: ViolationType
+): { title: string; description: string } {
+  const p = ruleSet.params;
+  const details: Record<ViolationType, [string, string]> = {
+    [ViolationType.OUTSIDE_LIMITS]: [
+      "Outside Control Limits",
+      "Point beyond 3σ",
+    ],
+    [ViolationType.RUNNING_POINTS]: [
+      "Running Point Pattern",
+      `${p.runLength}+ points on one side`,
+    ],
+    [ViolationType.FOUR_NEAR_LIMIT]: [
+      `${p.nearLimitWindow} Near Limit Pattern`,
+      `${p.nearLimitCount} of ${p.nearLimitWindow} in extreme quartiles`,
+    ],
+    [ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA]: [
+      `${p.twoSigmaCount} of ${p.twoSigmaWindow} Beyond 2σ`,
+      "Clustering near limits",
+    ],
+    [ViolationType.FIFTEEN_WITHIN_ONE_SIGMA]: [
+      "Low Variation",
+      `${p.lowVariationLength}+ points within 1σ`,
+    ],
+    [ViolationType.TRENDING_POINTS]: [
+      "Trending Pattern",
+      `${p.trendLength}+ points steadily rising or falling`,
+    ],
+    [ViolationType.ALTERNATING_POINTS]: [
+      "Alternating Pattern",
+      `${p.alternatingLength}+ points alternating up and down`,
+    ],
+    [ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA]: [
+      `${p.oneSigmaCount} of ${p.oneSigmaWindow} Beyond 1σ`,
+      "Shift toward one limit",
+    ],
+    [ViolationType.EIGHT_BEYOND_ONE_SIGMA]: [
+      "Mixture Pattern",
+      `${p.beyondOneSigmaLength}+ points beyond 1σ on both sides`,
+    ],
+  };
+
+  const [title, description] = details[rule];
+  const number = ruleSet.rules.indexOf(rule) + 1;
+  return { title, description: `Rule ${number}: ${description}` };
+}
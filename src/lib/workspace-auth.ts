@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import type { Session } from "next-auth";
+import { getWorkspaceRole, hasWorkspaceRole } from "@/lib/action/workspace";
+import type { WorkspaceRole } from "@/types/db/workspace";
+
+/**
+ * Workspace permission check for session-authenticated API routes
+ *
+ * Returns an error response when the user lacks the required role, or null
+ * when the request may continue. Workspaces the user cannot see at all are
+ * reported as not found so their existence is not revealed.
+ */
+export async function checkWorkspaceAccess(
+  session: Session,
+  workspaceId: string,
+  required: WorkspaceRole
+): Promise<NextResponse | null> {
+  const role = await getWorkspaceRole(workspaceId, session.user);
+
+  if (!role) {
+    return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+  }
+
+  if (!hasWorkspaceRole(role, required)) {
+    return NextResponse.json(
+      { error: `Forbidden - requires ${required} access to this workspace` },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
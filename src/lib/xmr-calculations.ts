@@ -116,7 +116,8 @@ export interface XMRLimits {
 }
 
 /**
- * Enhanced violation types based on Western Electric Rules
+ * Violation types covering the Western Electric, Wheeler and Nelson rules.
+ * Which of them are checked is chosen by a DetectionRuleSet.
  */
 export enum ViolationType {
   OUTSIDE_LIMITS = "outside_limits",
@@ -124,6 +125,10 @@ export enum ViolationType {
   FOUR_NEAR_LIMIT = "four_near_limit",
   TWO_OF_THREE_BEYOND_TWO_SIGMA = "two_of_three_beyond_two_sigma",
   FIFTEEN_WITHIN_ONE_SIGMA = "fifteen_within_one_sigma",
+  TRENDING_POINTS = "trending_points",
+  ALTERNATING_POINTS = "alternating_points",
+  FOUR_OF_FIVE_BEYOND_ONE_SIGMA = "four_of_five_beyond_one_sigma",
+  EIGHT_BEYOND_ONE_SIGMA = "eight_beyond_one_sigma",
 }
 
 /**
@@ -135,8 +140,95 @@ export interface ViolationDetails {
   fourNearLimit: number[];
   twoOfThreeBeyondTwoSigma: number[];
   fifteenWithinOneSigma: number[];
+  trendingPoints: number[];
+  alternatingPoints: number[];
+  fourOfFiveBeyondOneSigma: number[];
+  eightBeyondOneSigma: number[];
 }
 
+// Where each violation type's indices are kept in ViolationDetails
+export const VIOLATION_DETAIL_KEYS: Record<
+  ViolationType,
+  keyof ViolationDetails
+> = {
+  [ViolationType.OUTSIDE_LIMITS]: "outsideLimits",
+  [ViolationType.RUNNING_POINTS]: "runningPoints",
+  [ViolationType.FOUR_NEAR_LIMIT]: "fourNearLimit",
+  [ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA]: "twoOfThreeBeyondTwoSigma",
+  [ViolationType.FIFTEEN_WITHIN_ONE_SIGMA]: "fifteenWithinOneSigma",
+  [ViolationType.TRENDING_POINTS]: "trendingPoints",
+  [ViolationType.ALTERNATING_POINTS]: "alternatingPoints",
+  [ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA]: "fourOfFiveBeyondOneSigma",
+  [ViolationType.EIGHT_BEYOND_ONE_SIGMA]: "eightBeyondOneSigma",
+};
+
+/**
+ * Order in which a point's violations are reported when it breaks several
+ * rules, most serious first
+ */
+export const VIOLATION_PRIORITY: ViolationType[] = [
+  ViolationType.OUTSIDE_LIMITS,
+  ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA,
+  ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA,
+  ViolationType.FOUR_NEAR_LIMIT,
+  ViolationType.EIGHT_BEYOND_ONE_SIGMA,
+  ViolationType.RUNNING_POINTS,
+  ViolationType.TRENDING_POINTS,
+  ViolationType.ALTERNATING_POINTS,
+  ViolationType.FIFTEEN_WITHIN_ONE_SIGMA,
+];
+
+/**
+ * Run lengths and window sizes of the detection rules
+ */
+export interface DetectionRuleParams {
+  runLength: number; // Points on one side of the centre line
+  nearLimitCount: number; // Points in an extreme quartile...
+  nearLimitWindow: number; // ...out of this many
+  twoSigmaCount: number; // Points beyond 2σ...
+  twoSigmaWindow: number; // ...out of this many
+  lowVariationLength: number; // Points within 1σ
+  trendLength: number; // Points steadily increasing or decreasing
+  alternatingLength: number; // Points alternating up and down
+  oneSigmaCount: number; // Points beyond 1σ on one side...
+  oneSigmaWindow: number; // ...out of this many
+  beyondOneSigmaLength: number; // Points beyond 1σ on either side
+}
+
+/**
+ * The rules to check, in the order they are numbered, and their parameters
+ */
+export interface DetectionRuleSet {
+  rules: ViolationType[];
+  params: DetectionRuleParams;
+}
+
+export const DEFAULT_RULE_PARAMS: DetectionRuleParams = {
+  runLength: 8,
+  nearLimitCount: 3,
+  nearLimitWindow: 4,
+  twoSigmaCount: 2,
+  twoSigmaWindow: 3,
+  lowVariationLength: 15,
+  trendLength: 6,
+  alternatingLength: 14,
+  oneSigmaCount: 4,
+  oneSigmaWindow: 5,
+  beyondOneSigmaLength: 8,
+};
+
+// The five rules checked when no rule set is configured
+export const DEFAULT_RULE_SET: DetectionRuleSet = {
+  rules: [
+    ViolationType.OUTSIDE_LIMITS,
+    ViolationType.RUNNING_POINTS,
+    ViolationType.FOUR_NEAR_LIMIT,
+    ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA,
+    ViolationType.FIFTEEN_WITHIN_ONE_SIGMA,
+  ],
+  params: DEFAULT_RULE_PARAMS,
+};
+
 export interface XMRData {
   dataPoints: MovingRangePoint[];
   limits: XMRLimits;
@@ -276,9 +368,45 @@ export function calculateXMRLimits(
 }
 
 // ============================================================================
-// ENHANCED VIOLATION DETECTION (Western Electric Rules)
+// ENHANCED VIOLATION DETECTION (Western Electric, Wheeler and Nelson Rules)
 // ============================================================================
 
+function emptyViolationDetails(): ViolationDetails {
+  return {
+    outsideLimits: [],
+    runningPoints: [],
+    fourNearLimit: [],
+    twoOfThreeBeyondTwoSigma: [],
+    fifteenWithinOneSigma: [],
+    trendingPoints: [],
+    alternatingPoints: [],
+    fourOfFiveBeyondOneSigma: [],
+    eightBeyondOneSigma: [],
+  };
+}
+
+/**
+ * Signed distance of a point from the centre line in sigma, where the
+ * natural process limits are 3 sigma away on each side
+ * Supports both static limits and dynamic trend limits
+ */
+function sigmaDistance(
+  value: number,
+  index: number,
+  limits: XMRLimits,
+  trendLimits?: PointLimits
+): number {
+  const centerLine = trendLimits
+    ? trendLimits.centreLine[index]?.value
+    : limits.avgX;
+  const UNPL = trendLimits ? trendLimits.unpl[index]?.value : limits.UNPL;
+  const LNPL = trendLimits ? trendLimits.lnpl[index]?.value : limits.LNPL;
+
+  return value >= centerLine
+    ? ((value - centerLine) / (UNPL - centerLine)) * 3
+    : ((value - centerLine) / (centerLine - LNPL)) * 3;
+}
+
 /**
  * Check for points outside control limits (Rule 1)
  * Supports both static limits and dynamic trend limits
@@ -286,7 +414,7 @@ export function calculateXMRLimits(
 function checkOutsideLimits(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits?: PointLimits
 ): number[] {
   const violations: number[] = [];
   data.forEach((point, index) => {
@@ -302,16 +430,17 @@ function checkOutsideLimits(
 }
 
 /**
- * Check for running points - 8 consecutive points on same side of center line (Rule 2)
+ * Check for running points - runLength (default 8) consecutive points on same side of center line (Rule 2)
  * Supports both static average and dynamic trend centre line
  */
 function checkRunningPoints(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits: PointLimits | undefined,
+  runLength: number
 ): number[] {
   const violations: number[] = [];
-  if (data.length < 8) return violations;
+  if (data.length < runLength) return violations;
 
   let consecutiveAbove = 0;
   let consecutiveBelow = 0;
@@ -333,8 +462,8 @@ function checkRunningPoints(
       consecutiveBelow = 0;
     }
 
-    // Mark as running point if we have 8+ consecutive points
-    if (consecutiveAbove >= 8 || consecutiveBelow >= 8) {
+    // Mark as running point once the run is long enough
+    if (consecutiveAbove >= runLength || consecutiveBelow >= runLength) {
       violations.push(index);
     }
   });
@@ -344,23 +473,26 @@ function checkRunningPoints(
 
 /**
  * Check for 4 near limit - 3 out of 4 consecutive points in extreme quartiles (Rule 3)
+ * The count and window size come from the rule set
  * Supports both static quartiles and dynamic trend quartiles
  */
 function checkFourNearLimit(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits: PointLimits | undefined,
+  count: number,
+  window: number
 ): number[] {
   const violations: number[] = [];
-  if (data.length < 4) return violations;
+  if (data.length < window) return violations;
 
-  // Use sliding window of 4 points
-  for (let i = 3; i < data.length; i++) {
+  // Use sliding window of points
+  for (let i = window - 1; i < data.length; i++) {
     let belowQuartile = 0;
     let aboveQuartile = 0;
 
-    // Check the 4-point window [i-3, i-2, i-1, i]
-    for (let j = i - 3; j <= i; j++) {
+    // Check the window [i-window+1, ..., i]
+    for (let j = i - window + 1; j <= i; j++) {
       // Use trend quartiles if available, otherwise use static quartiles
       const upperQuartile = trendLimits
         ? trendLimits.upperQuartile[j]?.value
@@ -376,9 +508,9 @@ function checkFourNearLimit(
       }
     }
 
-    // If 3 or more out of 4 are in extreme quarters, mark all 4 points
-    if (belowQuartile >= 3 || aboveQuartile >= 3) {
-      for (let j = i - 3; j <= i; j++) {
+    // If enough are in one extreme quarter, mark the whole window
+    if (belowQuartile >= count || aboveQuartile >= count) {
+      for (let j = i - window + 1; j <= i; j++) {
         if (!violations.includes(j)) {
           violations.push(j);
         }
@@ -391,26 +523,29 @@ function checkFourNearLimit(
 
 /**
  * Check for 2 out of 3 consecutive points beyond 2-sigma (Rule 4)
+ * The count and window size come from the rule set
  * Supports both static limits and dynamic trend limits
  */
 function checkTwoOfThreeBeyondTwoSigma(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits: PointLimits | undefined,
+  count: number,
+  window: number
 ): number[] {
   const violations: number[] = [];
-  if (data.length < 3) return violations;
+  if (data.length < window) return violations;
 
   // Calculate 2-sigma boundaries (between average and control limits)
   // Control limits are at 2.66 sigma, so 2-sigma is at 2/2.66 of the range
   const twoSigmaRatio = 2.0 / 2.66;
 
-  // Use sliding window of 3 points
-  for (let i = 2; i < data.length; i++) {
+  // Use sliding window of points
+  for (let i = window - 1; i < data.length; i++) {
     let beyondTwoSigma = 0;
 
-    // Check the 3-point window [i-2, i-1, i]
-    for (let j = i - 2; j <= i; j++) {
+    // Check the window [i-window+1, ..., i]
+    for (let j = i - window + 1; j <= i; j++) {
       // Calculate 2-sigma boundaries for each point (static or trend)
       const centerLine = trendLimits
         ? trendLimits.centreLine[j]?.value
@@ -426,9 +561,9 @@ function checkTwoOfThreeBeyondTwoSigma(
       }
     }
 
-    // If 2 or more out of 3 are beyond 2-sigma, mark all 3 points
-    if (beyondTwoSigma >= 2) {
-      for (let j = i - 2; j <= i; j++) {
+    // If enough are beyond 2-sigma, mark the whole window
+    if (beyondTwoSigma >= count) {
+      for (let j = i - window + 1; j <= i; j++) {
         if (!violations.includes(j)) {
           violations.push(j);
         }
@@ -440,16 +575,17 @@ function checkTwoOfThreeBeyondTwoSigma(
 }
 
 /**
- * Check for 15 consecutive points within 1-sigma of center line (Rule 5)
+ * Check for lowVariationLength (default 15) consecutive points within 1-sigma of center line (Rule 5)
  * Supports both static limits and dynamic trend limits
  */
 function checkFifteenWithinOneSigma(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits: PointLimits | undefined,
+  length: number
 ): number[] {
   const violations: number[] = [];
-  if (data.length < 15) return violations;
+  if (data.length < length) return violations;
 
   // Calculate 1-sigma boundaries
   const oneSigmaRatio = 1.0 / 2.66;
@@ -473,8 +609,78 @@ function checkFifteenWithinOneSigma(
       consecutiveWithinOneSigma = 0;
     }
 
-    // Mark as violation if we have 15+ consecutive points within 1-sigma
-    if (consecutiveWithinOneSigma >= 15) {
+    // Mark as violation once the run within 1-sigma is long enough
+    if (consecutiveWithinOneSigma >= length) {
+      violations.push(index);
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Check for trendLength (default 6) consecutive points steadily increasing or decreasing (Nelson Rule 3)
+ * Only the values are compared, so limits are not needed
+ */
+function checkTrendingPoints(
+  data: MovingRangePoint[],
+  length: number
+): number[] {
+  const violations: number[] = [];
+  if (data.length < length) return violations;
+
+  let increasing = 1;
+  let decreasing = 1;
+
+  data.forEach((point, index) => {
+    if (index > 0 && point.value > data[index - 1].value) {
+      increasing++;
+      decreasing = 1;
+    } else if (index > 0 && point.value < data[index - 1].value) {
+      decreasing++;
+      increasing = 1;
+    } else {
+      increasing = 1;
+      decreasing = 1;
+    }
+
+    if (increasing >= length || decreasing >= length) {
+      violations.push(index);
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Check for alternatingLength (default 14) consecutive points alternating up and down (Nelson Rule 4)
+ * Only the values are compared, so limits are not needed
+ */
+function checkAlternatingPoints(
+  data: MovingRangePoint[],
+  length: number
+): number[] {
+  const violations: number[] = [];
+  if (data.length < length) return violations;
+
+  let alternating = 1;
+  let lastDirection = 0;
+
+  data.forEach((point, index) => {
+    const direction =
+      index > 0 ? Math.sign(point.value - data[index - 1].value) : 0;
+
+    if (direction === 0) {
+      alternating = 1;
+    } else if (direction === -lastDirection) {
+      alternating++;
+    } else {
+      // First move of a new run, from the previous point
+      alternating = 2;
+    }
+    lastDirection = direction;
+
+    if (alternating >= length) {
       violations.push(index);
     }
   });
@@ -483,39 +689,156 @@ function checkFifteenWithinOneSigma(
 }
 
 /**
- * Detect all violations using enhanced Western Electric rules
+ * Check for 4 out of 5 consecutive points beyond 1-sigma on the same side (Nelson Rule 6)
+ * The count and window size come from the rule set
+ * Supports both static limits and dynamic trend limits
+ */
+function checkFourOfFiveBeyondOneSigma(
+  data: MovingRangePoint[],
+  limits: XMRLimits,
+  trendLimits: PointLimits | undefined,
+  count: number,
+  window: number
+): number[] {
+  const violations: number[] = [];
+  if (data.length < window) return violations;
+
+  const sigmas = data.map((point, index) =>
+    sigmaDistance(point.value, index, limits, trendLimits)
+  );
+
+  for (let i = window - 1; i < data.length; i++) {
+    let above = 0;
+    let below = 0;
+
+    for (let j = i - window + 1; j <= i; j++) {
+      if (sigmas[j] > 1) {
+        above++;
+      } else if (sigmas[j] < -1) {
+        below++;
+      }
+    }
+
+    // If enough are beyond 1-sigma on one side, mark the whole window
+    if (above >= count || below >= count) {
+      for (let j = i - window + 1; j <= i; j++) {
+        if (!violations.includes(j)) {
+          violations.push(j);
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check for beyondOneSigmaLength (default 8) consecutive points beyond 1-sigma,
+ * with points on both sides of the center line (Nelson Rule 8)
  * Supports both static limits and dynamic trend limits
  */
+function checkEightBeyondOneSigma(
+  data: MovingRangePoint[],
+  limits: XMRLimits,
+  trendLimits: PointLimits | undefined,
+  length: number
+): number[] {
+  const violations: number[] = [];
+  if (data.length < length) return violations;
+
+  const sigmas = data.map((point, index) =>
+    sigmaDistance(point.value, index, limits, trendLimits)
+  );
+
+  let consecutiveBeyond = 0;
+
+  sigmas.forEach((sigma, index) => {
+    consecutiveBeyond = Math.abs(sigma) > 1 ? consecutiveBeyond + 1 : 0;
+
+    if (consecutiveBeyond >= length) {
+      // A run entirely on one side is a running point pattern instead
+      const run = sigmas.slice(index - length + 1, index + 1);
+      if (run.some((s) => s > 1) && run.some((s) => s < -1)) {
+        violations.push(index);
+      }
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Detect the violations of the rules in a rule set, by default the five
+ * enhanced Western Electric rules. Rules not in the set report no points.
+ * Supports both static limits and limits that vary per point (trend lines
+ * and attribute charts)
+ */
 export function detectViolations(
   data: MovingRangePoint[],
   limits: XMRLimits,
-  trendLimits?: TrendLimits
+  trendLimits?: PointLimits,
+  ruleSet: DetectionRuleSet = DEFAULT_RULE_SET
 ): ViolationDetails {
+  const violations = emptyViolationDetails();
   if (data.length === 0) {
-    return {
-      outsideLimits: [],
-      runningPoints: [],
-      fourNearLimit: [],
-      twoOfThreeBeyondTwoSigma: [],
-      fifteenWithinOneSigma: [],
-    };
+    return violations;
   }
 
-  return {
-    outsideLimits: checkOutsideLimits(data, limits, trendLimits),
-    runningPoints: checkRunningPoints(data, limits, trendLimits),
-    fourNearLimit: checkFourNearLimit(data, limits, trendLimits),
-    twoOfThreeBeyondTwoSigma: checkTwoOfThreeBeyondTwoSigma(
-      data,
-      limits,
-      trendLimits
-    ),
-    fifteenWithinOneSigma: checkFifteenWithinOneSigma(
-      data,
-      limits,
-      trendLimits
-    ),
+  const { params } = ruleSet;
+  const checks: Record<ViolationType, () => number[]> = {
+    [ViolationType.OUTSIDE_LIMITS]: () =>
+      checkOutsideLimits(data, limits, trendLimits),
+    [ViolationType.RUNNING_POINTS]: () =>
+      checkRunningPoints(data, limits, trendLimits, params.runLength),
+    [ViolationType.FOUR_NEAR_LIMIT]: () =>
+      checkFourNearLimit(
+        data,
+        limits,
+        trendLimits,
+        params.nearLimitCount,
+        params.nearLimitWindow
+      ),
+    [ViolationType.TWO_OF_THREE_BEYOND_TWO_SIGMA]: () =>
+      checkTwoOfThreeBeyondTwoSigma(
+        data,
+        limits,
+        trendLimits,
+        params.twoSigmaCount,
+        params.twoSigmaWindow
+      ),
+    [ViolationType.FIFTEEN_WITHIN_ONE_SIGMA]: () =>
+      checkFifteenWithinOneSigma(
+        data,
+        limits,
+        trendLimits,
+        params.lowVariationLength
+      ),
+    [ViolationType.TRENDING_POINTS]: () =>
+      checkTrendingPoints(data, params.trendLength),
+    [ViolationType.ALTERNATING_POINTS]: () =>
+      checkAlternatingPoints(data, params.alternatingLength),
+    [ViolationType.FOUR_OF_FIVE_BEYOND_ONE_SIGMA]: () =>
+      checkFourOfFiveBeyondOneSigma(
+        data,
+        limits,
+        trendLimits,
+        params.oneSigmaCount,
+        params.oneSigmaWindow
+      ),
+    [ViolationType.EIGHT_BEYOND_ONE_SIGMA]: () =>
+      checkEightBeyondOneSigma(
+        data,
+        limits,
+        trendLimits,
+        params.beyondOneSigmaLength
+      ),
   };
+
+  ruleSet.rules.forEach((rule) => {
+    violations[VIOLATION_DETAIL_KEYS[rule]] = checks[rule]();
+  });
+
+  return violations;
 }
 
 /**
@@ -523,11 +846,12 @@ export function detectViolations(
  */
 export function generateXMRData(
   data: DataPoint[],
-  useMedian: boolean = false
+  useMedian: boolean = false,
+  ruleSet: DetectionRuleSet = DEFAULT_RULE_SET
 ): XMRData {
   const ranges = calculateMovingRanges(data);
   const limits = calculateXMRLimits(data, useMedian);
-  const violations = detectViolations(ranges, limits);
+  const violations = detectViolations(ranges, limits, undefined, ruleSet);
 
   return {
     dataPoints: ranges,
@@ -550,6 +874,414 @@ export function isProcessInControl(limits: XMRLimits): boolean {
   );
 }
 
+/**
+ * ATTRIBUTE CHART FUNCTIONS
+ */
+
+// Chart types a submetric can use. XmR plots the values; the attribute
+// charts plot counts (c, np) or ratios (p, u) of a numerator and denominator.
+export const CONTROL_CHART_TYPES = ["xmr", "p", "np", "c", "u"] as const;
+export type ControlChartType = (typeof CONTROL_CHART_TYPES)[number];
+export type AttributeChartType = Exclude<ControlChartType, "xmr">;
+
+export function isAttributeChartType(
+  chartType: string | null | undefined
+): chartType is AttributeChartType {
+  return (
+    chartType === "p" ||
+    chartType === "np" ||
+    chartType === "c" ||
+    chartType === "u"
+  );
+}
+
+/**
+ * A count and the size of the subgroup it was counted in, e.g. defective
+ * items out of items inspected (p, np) or defects per area inspected (c, u)
+ */
+export interface AttributeDataPoint {
+  timestamp: string;
+  count: number;
+  size: number;
+}
+
+export interface AttributeData extends XMRData {
+  chartType: AttributeChartType;
+  // Limits for each point; p and u chart limits vary with the subgroup size
+  pointLimits: PointLimits;
+}
+
+/**
+ * The value an attribute chart plots for a subgroup: the proportion as a
+ * percentage (p), the count (np, c) or the count per unit of size (u)
+ */
+export function attributeStatistic(
+  point: AttributeDataPoint,
+  chartType: AttributeChartType
+): number {
+  if (chartType === "p") return (point.count / point.size) * 100;
+  if (chartType === "u") return point.count / point.size;
+  return point.count;
+}
+
+// Sigma of the plotted statistic for one subgroup
+function attributeSigma(
+  chartType: AttributeChartType,
+  centre: number,
+  size: number,
+  averageSize: number
+): number {
+  switch (chartType) {
+    case "p":
+      return Math.sqrt((centre * (100 - centre)) / size);
+    case "np":
+      return Math.sqrt(centre * (1 - centre / averageSize));
+    case "c":
+      return Math.sqrt(centre);
+    case "u":
+      return Math.sqrt(centre / size);
+  }
+}
+
+/**
+ * Generate attribute chart data. Limits are 3 sigma from the centre line, using the binomial (p, np) or
+ * Poisson (c, u) sigma rather than the moving ranges, and never go below 0
+ * (or above 100% on a p chart).
+ */
+export function generateAttributeData(
+  data: AttributeDataPoint[],
+  chartType: AttributeChartType,
+  ruleSet: DetectionRuleSet = DEFAULT_RULE_SET
+): AttributeData {
+  const totalCount = data.reduce((sum, point) => sum + point.count, 0);
+  const totalSize = data.reduce((sum, point) => sum + point.size, 0);
+  const averageSize = data.length > 0 ? totalSize / data.length : 0;
+
+  let centre = 0;
+  if (totalSize > 0) {
+    if (chartType === "p") centre = (totalCount / totalSize) * 100;
+    else if (chartType === "u") centre = totalCount / totalSize;
+    else if (chartType === "np")
+      centre = (totalCount / totalSize) * averageSize;
+    else centre = totalCount / data.length;
+  }
+
+  const values: DataPoint[] = data.map((point) => ({
+    timestamp: point.timestamp,
+    value: attributeStatistic(point, chartType),
+  }));
+
+  // As on an XmR chart, points are plotted from the second, which has the
+  // first moving range; the centre line still uses every point
+  const dataPoints: MovingRangePoint[] = calculateMovingRanges(values).map(
+    (point) => ({
+      timestamp: point.timestamp,
+      value: roundToDecimalPrecision(point.value),
+      range: roundToDecimalPrecision(point.range),
+    })
+  );
+
+  const pointLimits: PointLimits = {
+    centreLine: [],
+    unpl: [],
+    lnpl: [],
+    lowerQuartile: [],
+    upperQuartile: [],
+  };
+  const upperBound = chartType === "p" ? 100 : Infinity;
+  const clamp = (value: number) =>
+    roundToDecimalPrecision(Math.min(upperBound, Math.max(0, value)));
+
+  data.slice(1).forEach((point) => {
+    const sigma = attributeSigma(chartType, centre, point.size, averageSize);
+    const timestamp = point.timestamp;
+    pointLimits.centreLine.push({
+      timestamp,
+      value: roundToDecimalPrecision(centre),
+    });
+    pointLimits.unpl.push({ timestamp, value: clamp(centre + 3 * sigma) });
+    pointLimits.lnpl.push({ timestamp, value: clamp(centre - 3 * sigma) });
+    pointLimits.upperQuartile.push({
+      timestamp,
+      value: clamp(centre + 1.5 * sigma),
+    });
+    pointLimits.lowerQuartile.push({
+      timestamp,
+      value: clamp(centre - 1.5 * sigma),
+    });
+  });
+
+  // Summary limits are the latest point's, alongside the moving range limits
+  const rangeLimits = calculateXMRLimits(values);
+  const last = dataPoints.length - 1;
+  const limits: XMRLimits =
+    last >= 0
+      ? {
+          avgX: pointLimits.centreLine[last].value,
+          avgMovement: rangeLimits.avgMovement,
+          UNPL: pointLimits.unpl[last].value,
+          LNPL: pointLimits.lnpl[last].value,
+          URL: rangeLimits.URL,
+          lowerQuartile: pointLimits.lowerQuartile[last].value,
+          upperQuartile: pointLimits.upperQuartile[last].value,
+        }
+      : rangeLimits;
+
+  return {
+    chartType,
+    dataPoints,
+    limits,
+    pointLimits,
+    violations: detectViolations(dataPoints, limits, pointLimits, ruleSet),
+  };
+}
+
+/**
+ * PROCESS CAPABILITY FUNCTIONS
+ */
+
+// Bias correction (d2) turning the average moving range of two points into sigma
+const MOVING_RANGE_D2 = 1.128;
+
+export interface SpecLimits {
+  USL: number | null; // Upper Specification Limit
+  LSL: number | null; // Lower Specification Limit
+  target: number | null;
+}
+
+/**
+ * Capability indices compare the spec limits with the voice of the process.
+ * Cp/Cpk use the within-process sigma from the moving ranges, Pp/Ppk the
+ * overall standard deviation. Cp and Pp need both spec limits; Cpk and Ppk
+ * use whichever side is set. Indices are null when they can't be calculated.
+ */
+export interface ProcessCapability {
+  sigmaWithin: number;
+  sigmaOverall: number;
+  Cp: number | null;
+  Cpk: number | null;
+  Pp: number | null;
+  Ppk: number | null;
+}
+
+// Distance from the centre to the nearest spec limit, in units of 3 sigma
+function capabilityToNearestLimit(
+  centre: number,
+  sigma: number,
+  specLimits: SpecLimits
+): number | null {
+  const sides: number[] = [];
+  if (specLimits.USL !== null) sides.push(specLimits.USL - centre);
+  if (specLimits.LSL !== null) sides.push(centre - specLimits.LSL);
+  if (sides.length === 0 || sigma <= 0) return null;
+
+  return roundToDecimalPrecision(Math.min(...sides) / (3 * sigma));
+}
+
+/**
+ * Calculate Cp, Cpk, Pp and Ppk for the points the limits were calculated
+ * from. The indices only describe future performance while the process is
+ * predictable.
+ */
+export function calculateProcessCapability(
+  data: DataPoint[],
+  limits: XMRLimits,
+  specLimits: SpecLimits
+): ProcessCapability {
+  const values = data.map((d) => d.value);
+  const mean =
+    values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 0;
+  const sigmaWithin = limits.avgMovement / MOVING_RANGE_D2;
+  const sigmaOverall =
+    values.length > 1
+      ? Math.sqrt(
+          values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+            (values.length - 1)
+        )
+      : 0;
+
+  const specWidth =
+    specLimits.USL !== null && specLimits.LSL !== null
+      ? specLimits.USL - specLimits.LSL
+      : null;
+
+  return {
+    sigmaWithin: roundToDecimalPrecision(sigmaWithin),
+    sigmaOverall: roundToDecimalPrecision(sigmaOverall),
+    Cp:
+      specWidth !== null && sigmaWithin > 0
+        ? roundToDecimalPrecision(specWidth / (6 * sigmaWithin))
+        : null,
+    Cpk: capabilityToNearestLimit(limits.avgX, sigmaWithin, specLimits),
+    Pp:
+      specWidth !== null && sigmaOverall > 0
+        ? roundToDecimalPrecision(specWidth / (6 * sigmaOverall))
+        : null,
+    Ppk: capabilityToNearestLimit(mean, sigmaOverall, specLimits),
+  };
+}
+
+/**
+ * EWMA AND CUSUM FUNCTIONS
+ */
+
+// Views of a submetric's second chart: the moving ranges, or a chart that
+// flags small sustained shifts sooner than the X chart
+export const SHIFT_CHART_VIEWS = ["xmr", "ewma", "cusum"] as const;
+export type ShiftChartView = (typeof SHIFT_CHART_VIEWS)[number];
+
+/**
+ * EWMA smoothing (lambda) and the CUSUM slack (k) and decision interval (h),
+ * with k and h in units of sigma
+ */
+export interface ShiftChartParams {
+  lambda: number;
+  k: number;
+  h: number;
+}
+
+export const DEFAULT_SHIFT_CHART_PARAMS: ShiftChartParams = {
+  lambda: 0.2,
+  k: 0.5,
+  h: 5,
+};
+
+// Allowed range of each parameter, and its label on the settings form
+export const SHIFT_CHART_PARAM_DEFINITIONS: Record<
+  keyof ShiftChartParams,
+  { label: string; min: number; max: number }
+> = {
+  lambda: { label: "EWMA smoothing (λ)", min: 0.05, max: 1 },
+  k: { label: "CUSUM slack (k, σ)", min: 0, max: 3 },
+  h: { label: "CUSUM decision interval (h, σ)", min: 1, max: 10 },
+};
+
+// Width of the EWMA limits in sigma
+const EWMA_LIMIT_WIDTH = 3;
+
+export interface EwmaPoint {
+  timestamp: string;
+  value: number;
+  ewma: number;
+  upperLimit: number;
+  lowerLimit: number;
+}
+
+export interface EwmaData {
+  target: number;
+  sigma: number;
+  points: EwmaPoint[];
+  signals: number[]; // Points whose EWMA is beyond its limits
+}
+
+export interface CusumPoint {
+  timestamp: string;
+  value: number;
+  upper: number; // Cumulative sum of deviations above target + k sigma
+  lower: number; // ...and below target - k sigma, as a positive number
+}
+
+export interface CusumData {
+  target: number;
+  sigma: number;
+  decisionInterval: number; // h sigma
+  points: CusumPoint[];
+  signals: number[]; // Points where either sum is beyond the decision interval
+}
+
+/**
+ * Exponentially weighted moving average around the chart's average, with
+ * sigma from the average moving range. The limits widen over the first
+ * points as the average builds up. Each point counts lambda towards the
+ * EWMA, so a small lambda finds smaller shifts but reacts more slowly.
+ */
+export function calculateEWMA(
+  data: DataPoint[],
+  limits: Pick<XMRLimits, "avgX" | "avgMovement">,
+  lambda: number = DEFAULT_SHIFT_CHART_PARAMS.lambda
+): EwmaData {
+  const target = limits.avgX;
+  const sigma = limits.avgMovement / MOVING_RANGE_D2;
+  const points: EwmaPoint[] = [];
+  const signals: number[] = [];
+
+  let ewma = target;
+  data.forEach((point, index) => {
+    ewma = lambda * point.value + (1 - lambda) * ewma;
+    const width =
+      EWMA_LIMIT_WIDTH *
+      sigma *
+      Math.sqrt(
+        (lambda / (2 - lambda)) * (1 - (1 - lambda) ** (2 * (index + 1)))
+      );
+
+    points.push({
+      timestamp: point.timestamp,
+      value: point.value,
+      ewma: roundToDecimalPrecision(ewma),
+      upperLimit: roundToDecimalPrecision(target + width),
+      lowerLimit: roundToDecimalPrecision(target - width),
+    });
+    if (sigma > 0 && Math.abs(ewma - target) > width) {
+      signals.push(index);
+    }
+  });
+
+  return {
+    target: roundToDecimalPrecision(target),
+    sigma: roundToDecimalPrecision(sigma),
+    points,
+    signals,
+  };
+}
+
+/**
+ * Tabular CUSUM around the chart's average, with sigma from the average
+ * moving range. Deviations beyond k sigma add up on each side until one sum
+ * passes h sigma; the sums are not reset after a signal, so a shift that
+ * persists keeps signalling.
+ */
+export function calculateCUSUM(
+  data: DataPoint[],
+  limits: Pick<XMRLimits, "avgX" | "avgMovement">,
+  k: number = DEFAULT_SHIFT_CHART_PARAMS.k,
+  h: number = DEFAULT_SHIFT_CHART_PARAMS.h
+): CusumData {
+  const target = limits.avgX;
+  const sigma = limits.avgMovement / MOVING_RANGE_D2;
+  const slack = k * sigma;
+  const decisionInterval = h * sigma;
+  const points: CusumPoint[] = [];
+  const signals: number[] = [];
+
+  let upper = 0;
+  let lower = 0;
+  data.forEach((point, index) => {
+    upper = Math.max(0, upper + point.value - (target + slack));
+    lower = Math.max(0, lower + (target - slack) - point.value);
+
+    points.push({
+      timestamp: point.timestamp,
+      value: point.value,
+      upper: roundToDecimalPrecision(upper),
+      lower: roundToDecimalPrecision(lower),
+    });
+    if (sigma > 0 && (upper > decisionInterval || lower > decisionInterval)) {
+      signals.push(index);
+    }
+  });
+
+  return {
+    target: roundToDecimalPrecision(target),
+    sigma: roundToDecimalPrecision(sigma),
+    decisionInterval: roundToDecimalPrecision(decisionInterval),
+    points,
+    signals,
+  };
+}
+
 /**
  * Analyze data distribution to determine IQR multiplier
  */
@@ -908,6 +1640,12 @@ export interface TrendLimits {
   reducedUpperQuartile: DataPoint[];
 }
 
+// Limits that vary per point, as read by the detection rules
+export type PointLimits = Pick<
+  TrendLimits,
+  "centreLine" | "unpl" | "lnpl" | "lowerQuartile" | "upperQuartile"
+>;
+
 /**
  * Calculate linear regression for trend analysis (matching main3.ts lines 700-752)
  * Uses date-based normalization for better handling of irregular intervals
@@ -1100,6 +1838,9 @@ export function createTrendLines(
  * DIVIDER / SEGMENTATION FUNCTIONS
  */
 
+// Most user dividers a chart can have
+export const MAX_DIVIDERS = 3;
+
 export interface DividerLine {
   id: string;
   x: number; // timestamp in milliseconds
@@ -1167,10 +1908,16 @@ export function calculateSegmentStats(
     const xLeft = sortedDividers[i].x;
     const xRight = sortedDividers[i + 1].x;
 
-    // Filter data points within this segment
+    const isLastSegment = i === sortedDividers.length - 2;
+
+    // Filter data points within this segment. A point sitting on a divider
+    // starts the next segment, so only the last segment includes its right edge
     const segmentData = data.filter((point) => {
       const timestamp = new Date(point.timestamp).getTime();
-      return timestamp >= xLeft && timestamp <= xRight;
+      return (
+        timestamp >= xLeft &&
+        (isLastSegment ? timestamp <= xRight : timestamp < xRight)
+      );
     });
 
     // Skip empty segments
@@ -1202,26 +1949,14 @@ export function detectViolationsWithSegments(
   segments: SegmentStats[],
   lockedLimits?: XMRLimits | null,
   trendLimits?: TrendLimits | null,
-  lockedLimitStatus?: LockedLimitStatus
+  lockedLimitStatus?: LockedLimitStatus,
+  ruleSet: DetectionRuleSet = DEFAULT_RULE_SET
 ): ViolationDetails {
+  const allViolations = emptyViolationDetails();
   if (data.length === 0 || segments.length === 0) {
-    return {
-      outsideLimits: [],
-      runningPoints: [],
-      fourNearLimit: [],
-      twoOfThreeBeyondTwoSigma: [],
-      fifteenWithinOneSigma: [],
-    };
+    return allViolations;
   }
 
-  const allViolations: ViolationDetails = {
-    outsideLimits: [],
-    runningPoints: [],
-    fourNearLimit: [],
-    twoOfThreeBeyondTwoSigma: [],
-    fifteenWithinOneSigma: [],
-  };
-
   // Process each segment
   segments.forEach((segment, segmentIndex) => {
     const segmentData = segment.dataPoints;
@@ -1230,7 +1965,13 @@ export function detectViolationsWithSegments(
 
     // For first segment, use locked limits or trend limits if available
     if (segmentIndex === 0) {
-      if (lockedLimits && lockedLimitStatus === LockedLimitStatus.LOCKED) {
+      // Any locked status counts, including manually modified limits
+      if (
+        lockedLimits &&
+        ((lockedLimitStatus ?? LockedLimitStatus.UNLOCKED) &
+          LockedLimitStatus.LOCKED) ===
+          LockedLimitStatus.LOCKED
+      ) {
         limitsToUse = lockedLimits;
       } else if (trendLimits) {
         trendLimitsToUse = trendLimits;
@@ -1241,7 +1982,8 @@ export function detectViolationsWithSegments(
     const segmentViolations = detectViolations(
       segmentData,
       limitsToUse,
-      trendLimitsToUse
+      trendLimitsToUse,
+      ruleSet
     );
 
     // Map segment indices to global indices
@@ -1253,21 +1995,11 @@ export function detectViolationsWithSegments(
       );
 
       if (globalIndex !== -1) {
-        if (segmentViolations.outsideLimits.includes(localIndex)) {
-          allViolations.outsideLimits.push(globalIndex);
-        }
-        if (segmentViolations.runningPoints.includes(localIndex)) {
-          allViolations.runningPoints.push(globalIndex);
-        }
-        if (segmentViolations.fourNearLimit.includes(localIndex)) {
-          allViolations.fourNearLimit.push(globalIndex);
-        }
-        if (segmentViolations.twoOfThreeBeyondTwoSigma.includes(localIndex)) {
-          allViolations.twoOfThreeBeyondTwoSigma.push(globalIndex);
-        }
-        if (segmentViolations.fifteenWithinOneSigma.includes(localIndex)) {
-          allViolations.fifteenWithinOneSigma.push(globalIndex);
-        }
+        Object.values(VIOLATION_DETAIL_KEYS).forEach((key) => {
+          if (segmentViolations[key].includes(localIndex)) {
+            allViolations[key].push(globalIndex);
+          }
+        });
       }
     });
   });
@@ -1301,8 +2033,7 @@ export function addDivider(
   // Get non-shadow dividers
   const realDividers = existingDividers.filter((d) => !isShadowDivider(d));
 
-  // Maximum 3 user dividers allowed
-  if (realDividers.length >= 3) {
+  if (realDividers.length >= MAX_DIVIDERS) {
     return existingDividers;
   }
 
@@ -1343,6 +2074,22 @@ export function removeDivider(dividers: DividerLine[]): DividerLine[] {
   return dividers.filter((d) => d.id !== lastDividerId);
 }
 
+/**
+ * Remove a specific divider and renumber the remaining user dividers
+ * so that ids stay in sequence for addDivider/removeDivider
+ */
+export function deleteDivider(
+  dividers: DividerLine[],
+  dividerId: string
+): DividerLine[] {
+  const boundaries = dividers.filter((d) => isShadowDivider(d));
+  const remaining = sortDividers(
+    dividers.filter((d) => !isShadowDivider(d) && d.id !== dividerId)
+  ).map((d, index) => ({ ...d, id: `divider-${index + 1}` }));
+
+  return [...boundaries, ...remaining];
+}
+
 /**
  * Update divider position
  */
@@ -1354,6 +2101,202 @@ export function updateDividerPosition(
   return dividers.map((d) => (d.id === dividerId ? { ...d, x: newX } : d));
 }
 
+/**
+ * PROCESS SHIFT DETECTION
+ */
+
+export interface ShiftSuggestion {
+  index: number; // First point after the shift, where a divider would go
+  timestamp: string;
+  direction: "up" | "down";
+  method: "run" | "cusum";
+  fromAverage: number; // Average of the segment's points before the shift
+  toAverage: number; // ...and from the shift on
+  evidence: string;
+}
+
+interface ShiftCandidate {
+  index: number; // Within the segment
+  direction: "up" | "down";
+  method: "run" | "cusum";
+  runLength: number;
+}
+
+const average = (points: MovingRangePoint[]): number =>
+  points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+// YYYY-MM-DD of a plotted point, for the evidence text
+const shiftDate = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime())
+    ? timestamp
+    : date.toISOString().slice(0, 10);
+};
+
+/**
+ * The longest run on one side of the centre line that starts inside the
+ * segment, found with the rule set's running points rule
+ */
+function findRunShift(
+  points: MovingRangePoint[],
+  limits: XMRLimits,
+  ruleSet: DetectionRuleSet,
+  minSegmentPoints: number
+): ShiftCandidate | null {
+  const { runLength } = ruleSet.params;
+  const { runningPoints } = detectViolations(points, limits, undefined, {
+    rules: [ViolationType.RUNNING_POINTS],
+    params: ruleSet.params,
+  });
+
+  let best: ShiftCandidate | null = null;
+  for (const [i, index] of runningPoints.entries()) {
+    // Each run is reported from its runLength-th point; measure it once
+    if (i > 0 && runningPoints[i - 1] === index - 1) continue;
+
+    let end = i;
+    while (runningPoints[end + 1] === runningPoints[end] + 1) end++;
+    const start = index - (runLength - 1);
+    const length = runningPoints[end] - start + 1;
+
+    if (
+      start >= minSegmentPoints &&
+      points.length - start >= minSegmentPoints &&
+      (!best || length > best.runLength)
+    ) {
+      best = {
+        index: start,
+        direction: points[index].value > limits.avgX ? "up" : "down",
+        method: "run",
+        runLength: length,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * CUSUM change point: the cumulative sum of deviations from the average
+ * turns where the process level changed. The split is only suggested when
+ * the averages either side differ by more than 3 standard errors, using the
+ * sigma from the moving ranges.
+ */
+function findCusumShift(
+  points: MovingRangePoint[],
+  limits: XMRLimits,
+  minSegmentPoints: number
+): ShiftCandidate | null {
+  const sigma = limits.avgMovement / MOVING_RANGE_D2;
+  if (sigma <= 0) return null;
+
+  const mean = average(points);
+  let cusum = 0;
+  let peak = 0;
+  let changeIndex = -1;
+  for (let i = 0; i < points.length - 1; i++) {
+    cusum += points[i].value - mean;
+    if (Math.abs(cusum) > peak) {
+      peak = Math.abs(cusum);
+      changeIndex = i + 1;
+    }
+  }
+
+  if (
+    changeIndex < minSegmentPoints ||
+    points.length - changeIndex < minSegmentPoints
+  ) {
+    return null;
+  }
+
+  const before = average(points.slice(0, changeIndex));
+  const after = average(points.slice(changeIndex));
+  const standardError =
+    sigma * Math.sqrt(1 / changeIndex + 1 / (points.length - changeIndex));
+  if (Math.abs(after - before) <= 3 * standardError) return null;
+
+  return {
+    index: changeIndex,
+    direction: after > before ? "up" : "down",
+    method: "cusum",
+    runLength: 0,
+  };
+}
+
+/**
+ * Suggest where to place dividers. Each segment between the existing
+ * dividers is searched for a shift: first a run of points on one side of
+ * its centre line, otherwise a CUSUM change point. At most one shift is
+ * suggested per segment, the largest shifts first; accepting one and
+ * searching again finds the next.
+ */
+export function suggestProcessShifts(
+  data: MovingRangePoint[],
+  dividers: DividerLine[],
+  ruleSet: DetectionRuleSet = DEFAULT_RULE_SET,
+  maxSuggestions: number = MAX_DIVIDERS,
+  minSegmentPoints: number = 2
+): ShiftSuggestion[] {
+  if (maxSuggestions <= 0 || data.length < MINIMUM_XMR_DATA_POINTS) {
+    return [];
+  }
+
+  // Shifts are ranked by size in average moving ranges
+  const ranked: Array<{ suggestion: ShiftSuggestion; size: number }> = [];
+  let offset = 0;
+
+  for (const segment of calculateSegmentStats(data, dividers)) {
+    const points = segment.dataPoints;
+    const segmentOffset = offset;
+    offset += points.length;
+    // A flat segment has no shift, and no moving range to size one by
+    if (
+      points.length < 2 * minSegmentPoints ||
+      segment.limits.avgMovement <= 0
+    ) {
+      continue;
+    }
+
+    const candidate =
+      findRunShift(points, segment.limits, ruleSet, minSegmentPoints) ??
+      findCusumShift(points, segment.limits, minSegmentPoints);
+    if (!candidate) continue;
+
+    const point = points[candidate.index];
+    const fromAverage = roundToDecimalPrecision(
+      average(points.slice(0, candidate.index))
+    );
+    const toAverage = roundToDecimalPrecision(
+      average(points.slice(candidate.index))
+    );
+    const date = shiftDate(point.timestamp);
+    const side = candidate.direction === "up" ? "above" : "below";
+
+    const suggestion: ShiftSuggestion = {
+      index: segmentOffset + candidate.index,
+      timestamp: point.timestamp,
+      direction: candidate.direction,
+      method: candidate.method,
+      fromAverage,
+      toAverage,
+      evidence:
+        candidate.method === "run"
+          ? `${candidate.runLength} consecutive points ${side} the centre line starting ${date} (average ${fromAverage} → ${toAverage})`
+          : `Cumulative sum of deviations turns at ${date}; the average moves from ${fromAverage} to ${toAverage}`,
+    };
+    ranked.push({
+      suggestion,
+      size: Math.abs(toAverage - fromAverage) / segment.limits.avgMovement,
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.size - a.size)
+    .slice(0, maxSuggestions)
+    .map(({ suggestion }) => suggestion)
+    .sort((a, b) => a.index - b.index);
+}
+
 /**
  * SEASONALITY FUNCTIONS
  */
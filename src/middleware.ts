@@ -1,7 +1,11 @@
 import { auth } from "@/lib/auth";
+import { getWorkspaceRole } from "@/lib/action/workspace";
 import { NextResponse } from "next/server";
 
-export default auth((req) => {
+// Top-level paths that are not workspace pages
+const NON_WORKSPACE_PATHS = ["api", "auth", "404"];
+
+export default auth(async (req) => {
   const { pathname } = req.nextUrl;
   const isLoggedIn = !!req.auth;
 
@@ -25,16 +29,34 @@ export default auth((req) => {
     return NextResponse.next();
   }
 
+  // Allow the scheduled connector runner (checks CRON_SECRET instead of session)
+  if (pathname.startsWith("/api/cron/")) {
+    return NextResponse.next();
+  }
+
   // Protect all other routes - require authentication
-  if (!isLoggedIn) {
+  if (!req.auth) {
     return NextResponse.redirect(new URL("/auth/signin", req.url));
   }
 
+  // Workspace pages are only available to users who can see the workspace
+  const [workspaceId] = pathname.split("/").filter(Boolean);
+  if (workspaceId && !NON_WORKSPACE_PATHS.includes(workspaceId)) {
+    const role = await getWorkspaceRole(workspaceId, req.auth.user);
+
+    if (!role) {
+      return NextResponse.redirect(new URL("/", req.url));
+    }
+  }
+
   // Allow the request to continue
   return NextResponse.next();
 });
 
 export const config = {
+  // Sessions and workspace roles are looked up in the database, whose driver
+  // needs Node APIs (WebSockets) that the Edge runtime does not provide
+  runtime: "nodejs",
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
@@ -0,0 +1,29 @@
+/**
+ * API key-related database entity types
+ */
+
+export type ApiKeyPermission = "read" | "write";
+
+/**
+ * API key as returned to clients - the key hash is never exposed
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  workspaceIds: string[];
+  permission: ApiKeyPermission;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Newly created API key - the only time the full key is available
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
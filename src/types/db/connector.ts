@@ -0,0 +1,73 @@
+/**
+ * Connector-related database entity types
+ */
+
+import type { IngestJobCounts } from "@/types/db/ingest-job";
+
+export type ConnectorKind = "postgres" | "http";
+export type ConnectorRunStatus = "running" | "succeeded" | "failed";
+export type ConnectorRunTrigger = "schedule" | "manual";
+
+/**
+ * A Postgres source: the query to run and where it connects to. The
+ * connection string itself is only stored encrypted.
+ */
+export interface PostgresConnectorConfig {
+  query: string;
+  target: string; // Host, port and database, e.g. "db.example.com:5432/analytics"
+}
+
+/**
+ * An HTTP source returning JSON: the request to send and where the records
+ * are in the response. Secret header values are only stored encrypted.
+ */
+export interface HttpConnectorConfig {
+  url: string;
+  method: "GET" | "POST";
+  requestBody: string | null; // Sent with POST, e.g. "format_rows=false"
+  headers: Record<string, string>;
+  secretHeaderNames: string[]; // e.g. ["Authorization"]
+  recordsPath: string; // JSONPath to the array of records, "$" for the whole response
+}
+
+/**
+ * Connector as returned to clients - the encrypted credentials stay on the
+ * server
+ */
+export type Connector = ConnectorFields &
+  (
+    | { kind: "postgres"; config: PostgresConnectorConfig }
+    | { kind: "http"; config: HttpConnectorConfig }
+  );
+
+interface ConnectorFields {
+  id: string;
+  workspaceId: string;
+  slideId: string | null;
+  slideTitle: string | null;
+  name: string;
+  mapping: Record<string, string>; // Source column or JSONPath for each ingest field
+  dataPointsMode: string; // replace, append
+  schedule: string; // Cron expression, in UTC
+  isEnabled: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunStatus: ConnectorRunStatus | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConnectorRun {
+  id: string;
+  connectorId: string;
+  trigger: ConnectorRunTrigger;
+  status: ConnectorRunStatus;
+  rowCount: number | null;
+  counts: IngestJobCounts | null;
+  error: string | null;
+  durationMs: number | null;
+  triggeredBy: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
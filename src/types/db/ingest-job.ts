@@ -0,0 +1,41 @@
+/**
+ * Ingest job-related database entity types
+ */
+
+export type IngestJobStatus = "running" | "succeeded" | "failed";
+
+export interface IngestChangeCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface IngestJobCounts {
+  metrics: IngestChangeCounts;
+  submetrics: IngestChangeCounts;
+  data_points: IngestChangeCounts;
+}
+
+/**
+ * A call to the ingestion API as listed to workspace owners - the stored
+ * response and request hash stay on the server
+ */
+export interface IngestJob {
+  id: string;
+  workspaceId: string | null;
+  slideId: string | null;
+  slideTitle: string | null;
+  apiKeyId: string | null;
+  apiKeyName: string;
+  idempotencyKey: string | null;
+  status: IngestJobStatus;
+  mode: string | null;
+  dryRun: boolean;
+  payloadBytes: number;
+  counts: IngestJobCounts | null;
+  httpStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
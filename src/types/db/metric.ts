@@ -22,3 +22,11 @@ export interface Metric {
 export interface MetricWithSubmetrics extends Metric {
   submetrics: Submetric[];
 }
+
+/**
+ * Editable metric fields
+ */
+export type MetricInput = Pick<
+  Metric,
+  "name" | "description" | "slideId" | "sortOrder" | "chartType"
+>;
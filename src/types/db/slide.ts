@@ -23,3 +23,11 @@ export interface Slide {
 export interface SlideWithMetrics extends Slide {
   metrics: MetricWithSubmetrics[];
 }
+
+/**
+ * Editable slide fields
+ */
+export type SlideInput = Pick<
+  Slide,
+  "title" | "description" | "slideDate" | "sortOrder" | "isPublished"
+>;
@@ -8,6 +8,9 @@ export interface DataPointJson {
   confidence?: number | null;
   source?: string | null;
   dimensions?: Record<string, unknown> | null;
+  originalValue?: number | null; // Value before the first restatement (read-only)
+  numerator?: number | null; // Count behind a ratio value, for attribute charts
+  denominator?: number | null; // Subgroup size or area of opportunity
 }
 
 export interface Submetric {
@@ -20,9 +23,191 @@ export interface Submetric {
   trend: string | null;
   unit: string | null;
   aggregationType: string | null;
+  controlChart: string; // xmr, p, np, c, u
   color: string | null;
   metadata: any; // JSON object for additional metadata
-  dataPoints: DataPointJson[] | null; // Data points stored as JSON array
+  sortOrder: number | null;
+  dataPoints: DataPointJson[]; // Rows of submetric_data_point, in time order
+  periods: DataPointJson[] | null; // Points rolled up into xAxis periods, null when plotted as sent
+  settings?: SubmetricSettings; // Saved chart settings, when loaded with the slide
   createdAt: Date;
   updatedAt: Date;
 }
+
+/**
+ * A recorded change to one data point, with who or which API key made it
+ */
+export interface SubmetricDataPointRevision {
+  id: string;
+  submetricId: string;
+  timestamp: string; // Point in time as sent with the change
+  action: string; // created, updated, deleted
+  value: number | null; // Null when the point was deleted
+  previousValue: number | null; // Null when the point was created
+  source: string | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedByEmail: string | null;
+  apiKeyName: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Editable submetric fields
+ */
+export type SubmetricInput = Pick<
+  Submetric,
+  | "label"
+  | "category"
+  | "metricId"
+  | "unit"
+  | "trend"
+  | "controlChart"
+  | "color"
+  | "sortOrder"
+>;
+
+/**
+ * Locked limit values persisted for a submetric's X chart
+ */
+export interface LockedLimitsJson {
+  avgX: number;
+  avgMovement: number;
+  UNPL: number;
+  LNPL: number;
+  URL: number;
+  lowerQuartile: number;
+  upperQuartile: number;
+}
+
+export interface SubmetricLockLimits {
+  id: string;
+  submetricId: string;
+  limits: LockedLimitsJson | null; // Null when limits were explicitly unlocked
+  status: number; // LockedLimitStatus bit flags
+  isAutoLocked: boolean;
+  isManuallyModified: boolean;
+  excludedTimestamps: string[] | null; // Points excluded by the user
+  outlierTimestamps: string[] | null; // Points excluded by auto-lock
+  lockedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmetricTrend {
+  id: string;
+  submetricId: string;
+  isActive: boolean;
+  gradient: number; // m in y = mx + c
+  intercept: number; // c in y = mx + c
+  isManuallyModified: boolean;
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Trend audit entry with the name of the user who made the change
+ */
+export interface SubmetricTrendHistoryEntry {
+  id: string;
+  submetricId: string;
+  action: string; // applied, removed
+  gradient: number;
+  intercept: number;
+  isManuallyModified: boolean;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedByEmail: string | null;
+  createdAt: Date;
+}
+
+export interface SubmetricSeasonality {
+  id: string;
+  submetricId: string;
+  isActive: boolean;
+  period: string; // year, quarter, month, week
+  grouping: string; // none, week, month, quarter
+  factors: number[];
+  isManuallyModified: boolean;
+  dataStartTimestamp: string | null; // First data point the factors were fitted on
+  dataEndTimestamp: string | null; // Last data point the factors were fitted on
+  dataPointCount: number;
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmetricDividers {
+  id: string;
+  submetricId: string;
+  dividers: Array<{ id: string; x: number }>; // x is a timestamp in milliseconds
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmetricRuleSet {
+  id: string;
+  submetricId: string;
+  preset: string; // western_electric, wheeler, nelson
+  params: Record<string, number>; // Parameters changed from the preset's defaults
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Customer specification limits or SLA targets, compared against the natural
+ * process limits. Either limit may be left out for a one-sided spec.
+ */
+export interface SubmetricSpecLimits {
+  id: string;
+  submetricId: string;
+  usl: number | null; // Upper specification limit
+  lsl: number | null; // Lower specification limit
+  target: number | null;
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SpecLimitsInput = Pick<
+  SubmetricSpecLimits,
+  "usl" | "lsl" | "target"
+>;
+
+/**
+ * Which chart is shown below the X chart, and the EWMA and CUSUM parameters.
+ * Small sustained shifts show up on the EWMA and CUSUM charts sooner.
+ */
+export interface SubmetricShiftChart {
+  id: string;
+  submetricId: string;
+  view: string; // xmr, ewma, cusum
+  lambda: number; // EWMA smoothing
+  k: number; // CUSUM slack in sigma
+  h: number; // CUSUM decision interval in sigma
+  updatedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ShiftChartInput = Pick<
+  SubmetricShiftChart,
+  "view" | "lambda" | "k" | "h"
+>;
+
+/**
+ * Everything saved for a submetric's chart, each null when nothing is saved.
+ * Loaded for a whole slide at once so the cards start from it.
+ */
+export interface SubmetricSettings {
+  lockLimits: SubmetricLockLimits | null;
+  trend: SubmetricTrend | null;
+  seasonality: SubmetricSeasonality | null;
+  dividers: SubmetricDividers | null;
+  ruleSet: SubmetricRuleSet | null;
+  specLimits: SubmetricSpecLimits | null;
+  shiftChart: SubmetricShiftChart | null;
+}
@@ -21,3 +21,43 @@ export interface Workspace {
 export interface WorkspaceWithSlides extends Workspace {
   slides: SlideWithMetrics[];
 }
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+/**
+ * Workspace with the signed-in user's role on it
+ */
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole;
+}
+
+/**
+ * Workspace member with the signed-in user's profile, when they have one
+ */
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  name: string | null;
+  image: string | null;
+}
+
+/**
+ * Detection rules of a workspace's or submetric's charts: a named preset and
+ * the parameters changed from its defaults
+ */
+export interface RuleSetConfig {
+  preset: string; // western_electric, wheeler, nelson
+  params: Record<string, number>; // e.g. { runLength: 9 }
+}
+
+/**
+ * Known keys of a workspace's settings
+ */
+export interface WorkspaceSettings {
+  ruleSet?: RuleSetConfig; // Default for the workspace's submetrics
+}